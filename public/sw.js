@@ -0,0 +1,179 @@
+// Service worker for field use with poor connectivity:
+// - app shell and built assets, so the app opens offline
+// - the last report data fetched from Supabase (network first, cache fallback)
+// - map tiles already viewed, so the current area still renders offline
+// Writes are not handled here; they go through the IndexedDB outbox in the app.
+
+const VERSION = 'v1'
+const SHELL_CACHE = `app-shell-${VERSION}`
+const DATA_CACHE = `report-data-${VERSION}`
+const TILE_CACHE = `map-tiles-${VERSION}`
+const MAX_TILES = 3000
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/favicon.png']
+
+const TILE_HOSTS = [
+  'tile.openstreetmap.org',
+  'server.arcgisonline.com',
+  'tile.opentopomap.org',
+  'basemaps.cartocdn.com',
+]
+
+// Report reads only; other tables and all writes always hit the network
+const DATA_PATHS = ['/rest/v1/visible_reports']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, DATA_CACHE, TILE_CACHE]
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => !current.includes(key))
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+// Cached report data belongs to the signed-in user's role
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'CLEAR_REPORT_DATA') {
+    event.waitUntil(caches.delete(DATA_CACHE))
+  }
+})
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName)
+  const keys = await cache.keys()
+  // Oldest entries first
+  await Promise.all(
+    keys
+      .slice(0, Math.max(0, keys.length - maxEntries))
+      .map((key) => cache.delete(key)),
+  )
+}
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      await cache.put(fallbackUrl ?? request, response.clone())
+    }
+    return response
+  } catch (error) {
+    // Supabase responses vary on headers the offline request may not repeat
+    const cached = await cache.match(fallbackUrl ?? request, {
+      ignoreVary: true,
+    })
+    if (cached) return cached
+    throw error
+  }
+}
+
+// Storing a response is best effort: a full quota must not fail the request
+const putInCache = async (cache, request, response, cacheName, maxEntries) => {
+  try {
+    await cache.put(request, response)
+    if (maxEntries) await trimCache(cacheName, maxEntries)
+  } catch (error) {
+    console.warn('Could not cache', request.url ?? request, error)
+    // Likely QuotaExceededError: make room for the next tiles
+    if (maxEntries) {
+      await trimCache(cacheName, Math.floor(maxEntries / 2)).catch(() => {})
+    }
+  }
+}
+
+// Tile servers allow CORS; a CORS response is stored at its real size, while
+// browsers count each opaque one as several megabytes against the quota
+const fetchTile = async (request) => {
+  try {
+    return await fetch(
+      new Request(request.url, { mode: 'cors', credentials: 'omit' }),
+    )
+  } catch {
+    return fetch(request)
+  }
+}
+
+const cacheFirst = async (
+  request,
+  cacheName,
+  maxEntries,
+  fetchResponse = fetch,
+) => {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetchResponse(request)
+  // Fonts are loaded cross-origin, so responses may be opaque (status 0)
+  if (response.ok || response.type === 'opaque') {
+    putInCache(cache, request, response.clone(), cacheName, maxEntries)
+  }
+  return response
+}
+
+const staleWhileRevalidate = async (request, cacheName) => {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) putInCache(cache, request, response.clone())
+      return response
+    })
+    // Offline with nothing cached: fail this request rather than resolving
+    // to undefined, which respondWith() rejects
+    .catch(() => cached ?? Response.error())
+  return cached ?? network
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+
+  // SPA navigation: serve the shell when offline so client routing still works
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'))
+    return
+  }
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(staleWhileRevalidate(request, SHELL_CACHE))
+    return
+  }
+
+  if (TILE_HOSTS.some((host) => url.hostname.endsWith(host))) {
+    event.respondWith(cacheFirst(request, TILE_CACHE, MAX_TILES, fetchTile))
+    return
+  }
+
+  if (url.hostname.endsWith('fonts.googleapis.com')) {
+    event.respondWith(staleWhileRevalidate(request, SHELL_CACHE))
+    return
+  }
+
+  if (url.hostname.endsWith('fonts.gstatic.com')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+    return
+  }
+
+  if (DATA_PATHS.some((path) => url.pathname.endsWith(path))) {
+    event.respondWith(networkFirst(request, DATA_CACHE))
+  }
+})
@@ -9,10 +9,15 @@ import { TooltipProvider } from '@/components/ui/tooltip'
 import Footer from './components/Footer'
 import Navbar from './components/Navbar'
 import { LiffProvider } from './contexts/LiffContext'
+import AdminRoles from './pages/AdminRoles'
 import Api from './pages/Api'
 import Auth from './pages/Auth'
+import CaseSheets from './pages/CaseSheets'
 import Dashboard from './pages/Dashboard'
+import DuplicateReview from './pages/DuplicateReview'
+import FieldUpdate from './pages/FieldUpdate'
 import Help from './pages/Help'
+import ImportReports from './pages/ImportReports'
 import Input from './pages/Input'
 import Landing from './pages/Landing'
 import Map from './pages/Map'
@@ -20,8 +25,12 @@ import Mission from './pages/Mission'
 import NotFound from './pages/NotFound'
 import ReportDetail from './pages/ReportDetail'
 import Review from './pages/Review'
+import RoutePlanner from './pages/RoutePlanner'
 import SelectReports from './pages/SelectReports'
+import Shelters from './pages/Shelters'
 import Stats from './pages/Stats'
+import Supplies from './pages/Supplies'
+import Volunteers from './pages/Volunteers'
 
 // Configure QueryClient with optimized defaults
 const queryClient = new QueryClient({
@@ -62,8 +71,17 @@ const AppContent = () => {
           <Route path="/review" element={<Review />} />
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/stats" element={<Stats />} />
+          <Route path="/duplicates" element={<DuplicateReview />} />
+          <Route path="/import" element={<ImportReports />} />
+          <Route path="/shelters" element={<Shelters />} />
+          <Route path="/supplies" element={<Supplies />} />
+          <Route path="/volunteers" element={<Volunteers />} />
+          <Route path="/admin/roles" element={<AdminRoles />} />
           <Route path="/report/:id" element={<ReportDetail />} />
+          <Route path="/report/:id/field" element={<FieldUpdate />} />
           <Route path="/map" element={<Map />} />
+          <Route path="/route" element={<RoutePlanner />} />
+          <Route path="/print" element={<CaseSheets />} />
           <Route path="/api" element={<Api />} />
           <Route path="/mission" element={<Mission />} />
           <Route path="/help" element={<Help />} />
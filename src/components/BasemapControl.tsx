@@ -12,6 +12,8 @@ interface BasemapControlProps {
   onBasemapChange: (basemapId: string) => void
   showFloodLayer: boolean
   onFloodLayerToggle: (show: boolean) => void
+  showShelters?: boolean
+  onSheltersToggle?: (show: boolean) => void
 }
 
 const BasemapControl = ({
@@ -19,6 +21,8 @@ const BasemapControl = ({
   onBasemapChange,
   showFloodLayer,
   onFloodLayerToggle,
+  showShelters,
+  onSheltersToggle,
 }: BasemapControlProps) => {
   const [isOpen, setIsOpen] = useState(false)
   const cardRef = useRef<HTMLDivElement>(null)
@@ -94,6 +98,23 @@ const BasemapControl = ({
                 พื้นที่น้ำท่วม
               </Label>
             </div>
+            {onSheltersToggle && (
+              <div className="flex items-center space-x-2 px-3 py-2">
+                <Checkbox
+                  id="shelter-layer"
+                  checked={showShelters}
+                  onCheckedChange={(checked) =>
+                    onSheltersToggle(checked === true)
+                  }
+                />
+                <Label
+                  htmlFor="shelter-layer"
+                  className="text-sm font-normal cursor-pointer text-gray-900"
+                >
+                  ศูนย์พักพิง
+                </Label>
+              </div>
+            )}
           </div>
         </Card>
       )}
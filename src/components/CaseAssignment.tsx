@@ -0,0 +1,242 @@
+import { formatDistanceToNow } from 'date-fns'
+import { th } from 'date-fns/locale'
+import { AlertTriangle, Hand, Loader2, Undo2, Users } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  COORDINATOR_ROLES,
+  STATUS_CHANGER_ROLES,
+} from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useClaimReport,
+  useJoinTeam,
+  useMyTeamId,
+  useReleaseReport,
+  useRescueTeams,
+} from '@/hooks/use-teams'
+import { isClaimStale } from '@/lib/reportUtils'
+import type { Report } from '@/types/report'
+
+type AssignableReport = Pick<
+  Report,
+  'id' | 'status' | 'assigned_team_id' | 'assigned_at'
+>
+
+interface CaseAssignmentProps {
+  report: AssignableReport
+  // Badge only, for table cells
+  compact?: boolean
+}
+
+export const CaseAssignment = ({
+  report,
+  compact = false,
+}: CaseAssignmentProps) => {
+  const { user, hasRole } = useAuth()
+  const { data: teams = [] } = useRescueTeams()
+  const { data: myTeamId } = useMyTeamId()
+  const claimReport = useClaimReport()
+  const releaseReport = useReleaseReport()
+
+  const team = teams.find((t) => t.id === report.assigned_team_id)
+  const isAssigned = !!report.assigned_team_id
+  const isMine = isAssigned && report.assigned_team_id === myTeamId
+  const isStale = isClaimStale(report)
+  const isPending = claimReport.isPending || releaseReport.isPending
+
+  const badge = isAssigned ? (
+    <Badge
+      variant={isStale ? 'destructive' : 'secondary'}
+      className="gap-1 whitespace-nowrap"
+    >
+      {isStale ? (
+        <AlertTriangle className="h-3 w-3" />
+      ) : (
+        <Users className="h-3 w-3" />
+      )}
+      {team?.name || 'ทีมที่ไม่รู้จัก'}
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="whitespace-nowrap">
+      ยังไม่มีทีมรับ
+    </Badge>
+  )
+
+  if (compact) return badge
+
+  const handleClaim = async () => {
+    try {
+      await claimReport.mutateAsync(report.id)
+      toast.success('รับเคสแล้ว')
+    } catch (err) {
+      toast.error('ไม่สามารถรับเคสได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  const handleRelease = async () => {
+    try {
+      await releaseReport.mutateAsync(report.id)
+      toast.success('ปล่อยเคสแล้ว')
+    } catch (err) {
+      toast.error('ไม่สามารถปล่อยเคสได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {badge}
+        {isAssigned && report.assigned_at && (
+          <span
+            className={`text-xs ${isStale ? 'text-destructive font-medium' : 'text-muted-foreground'}`}
+          >
+            รับเคสเมื่อ{' '}
+            {formatDistanceToNow(new Date(report.assigned_at), {
+              addSuffix: true,
+              locale: th,
+            })}
+            {isStale && ' • ค้างนาน ควรตรวจสอบ'}
+          </span>
+        )}
+      </div>
+
+      {!user ? (
+        <p className="text-xs text-muted-foreground">เข้าสู่ระบบเพื่อรับเคส</p>
+      ) : !isAssigned ? (
+        !hasRole(STATUS_CHANGER_ROLES) ? (
+          <p className="text-xs text-muted-foreground">
+            เฉพาะทีมกู้ภัยและผู้ประสานงานที่รับเคสได้
+          </p>
+        ) : myTeamId ? (
+          <Button size="sm" onClick={handleClaim} disabled={isPending}>
+            {claimReport.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Hand className="mr-2 h-4 w-4" />
+            )}
+            รับเคสนี้
+          </Button>
+        ) : (
+          <JoinTeamPopover />
+        )
+      ) : (
+        (isMine || hasRole(COORDINATOR_ROLES)) && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleRelease}
+            disabled={isPending}
+          >
+            {releaseReport.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Undo2 className="mr-2 h-4 w-4" />
+            )}
+            ปล่อยเคส
+          </Button>
+        )
+      )}
+    </div>
+  )
+}
+
+const JoinTeamPopover = () => {
+  const { data: teams = [] } = useRescueTeams()
+  const joinTeam = useJoinTeam()
+  const [selectedTeamId, setSelectedTeamId] = useState<string>('')
+  const [newTeamName, setNewTeamName] = useState('')
+
+  const handleJoin = async () => {
+    try {
+      await joinTeam.mutateAsync(
+        newTeamName.trim()
+          ? { newTeamName: newTeamName.trim() }
+          : { teamId: selectedTeamId },
+      )
+      toast.success('เข้าร่วมทีมแล้ว')
+    } catch (err) {
+      toast.error('ไม่สามารถเข้าร่วมทีมได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="outline">
+          <Users className="mr-2 h-4 w-4" />
+          เข้าร่วมทีมเพื่อรับเคส
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <div className="space-y-2">
+          <div className="text-sm font-medium">เลือกทีมที่มีอยู่</div>
+          <Select
+            value={selectedTeamId}
+            onValueChange={(value) => {
+              setSelectedTeamId(value)
+              setNewTeamName('')
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="เลือกทีม" />
+            </SelectTrigger>
+            <SelectContent>
+              {teams.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <div className="text-sm font-medium">หรือสร้างทีมใหม่</div>
+          <Input
+            placeholder="ชื่อทีม เช่น เรือกู้ภัย อ.หาดใหญ่ 1"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+          />
+        </div>
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={handleJoin}
+          disabled={
+            joinTeam.isPending || (!selectedTeamId && !newTeamName.trim())
+          }
+        >
+          {joinTeam.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          ยืนยัน
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,156 @@
+import { QRCodeSVG } from 'qrcode.react'
+
+import { StaticMapSnippet } from '@/components/StaticMapSnippet'
+import { caseUrl, fieldUpdateUrl } from '@/lib/caseSheets'
+import {
+  formatCaseId,
+  formatDate,
+  getCategoryLabel,
+  getStatusLabel,
+  getTotalPeople,
+  getUrgencyLabel,
+} from '@/lib/reportUtils'
+import type { Report } from '@/types/report'
+
+interface CaseSheetProps {
+  report: Report
+}
+
+const HEAD_COUNTS: { key: keyof Report; label: string }[] = [
+  { key: 'number_of_adults', label: 'ผู้ใหญ่' },
+  { key: 'number_of_children', label: 'เด็ก' },
+  { key: 'number_of_infants', label: 'ทารก' },
+  { key: 'number_of_seniors', label: 'ผู้สูงอายุ' },
+  { key: 'number_of_patients', label: 'ผู้ป่วย' },
+]
+
+const Field = ({ label, value }: { label: string; value?: string | null }) => (
+  <div>
+    <div className="text-xs font-semibold text-gray-500">{label}</div>
+    <div className="whitespace-pre-wrap">{value || '-'}</div>
+  </div>
+)
+
+// One A4 page per case, kept to black-and-white friendly styling
+export const CaseSheet = ({ report }: CaseSheetProps) => {
+  const hasLocation =
+    report.location_lat !== null && report.location_long !== null
+
+  return (
+    <article className="mx-auto max-w-[210mm] space-y-4 rounded-lg border bg-white p-6 text-black shadow-sm break-after-page last:break-after-auto print:rounded-none print:border-0 print:p-0 print:shadow-none">
+      <header className="flex items-start justify-between gap-4 border-b-2 border-black pb-3">
+        <div>
+          <div className="font-mono text-2xl font-bold">
+            {formatCaseId(report.id)}
+          </div>
+          <div className="mt-1 text-lg font-semibold">
+            ระดับ {report.urgency_level} –{' '}
+            {getUrgencyLabel(report.urgency_level)}
+          </div>
+          <div className="text-sm">
+            สถานะ: {getStatusLabel(report.status)} · บันทึกเมื่อ{' '}
+            {formatDate(report.created_at)}
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <div className="flex flex-col items-center">
+            <QRCodeSVG value={caseUrl(report.id)} size={88} level="M" />
+            <span className="mt-1 text-[10px] text-gray-500">เปิดเคส</span>
+          </div>
+          <div className="flex flex-col items-center">
+            <QRCodeSVG value={fieldUpdateUrl(report.id)} size={88} level="M" />
+            <span className="mt-1 text-[10px] text-gray-500">
+              อัปเดตหน้างาน
+            </span>
+          </div>
+        </div>
+      </header>
+
+      <section className="grid grid-cols-2 gap-4">
+        <Field
+          label="ชื่อผู้ประสบภัย"
+          value={[report.name, report.lastname].filter(Boolean).join(' ')}
+        />
+        <Field label="ผู้รายงาน" value={report.reporter_name} />
+        <Field label="เบอร์โทร" value={report.phone?.join(', ')} />
+        <Field
+          label="ประเภทความช่วยเหลือ"
+          value={report.help_categories?.map(getCategoryLabel).join(', ')}
+        />
+      </section>
+
+      <section>
+        <div className="text-xs font-semibold text-gray-500">
+          จำนวนคน (รวม {getTotalPeople(report)})
+        </div>
+        <table className="mt-1 w-full border-collapse text-center text-sm">
+          <thead>
+            <tr>
+              {HEAD_COUNTS.map(({ key, label }) => (
+                <th key={key} className="border border-gray-400 px-2 py-1">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              {HEAD_COUNTS.map(({ key }) => (
+                <td
+                  key={key}
+                  className="border border-gray-400 px-2 py-1 text-lg font-semibold"
+                >
+                  {(report[key] as number) || 0}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </section>
+
+      <section className="space-y-3">
+        <Field label="ที่อยู่" value={report.address} />
+        <Field label="ความช่วยเหลือที่ต้องการ" value={report.help_needed} />
+        <Field label="อาการ/สภาพสุขภาพ" value={report.health_condition} />
+        <Field label="ข้อมูลเพิ่มเติม" value={report.additional_info} />
+      </section>
+
+      <section className="flex flex-wrap items-end gap-4 break-inside-avoid">
+        {hasLocation ? (
+          <>
+            <StaticMapSnippet
+              lat={report.location_lat!}
+              lng={report.location_long!}
+            />
+            <div className="text-sm">
+              <div className="text-xs font-semibold text-gray-500">พิกัด</div>
+              <div className="font-mono">
+                {report.location_lat!.toFixed(5)},{' '}
+                {report.location_long!.toFixed(5)}
+              </div>
+            </div>
+          </>
+        ) : (
+          <Field label="พิกัด" value="ไม่มีข้อมูลตำแหน่ง" />
+        )}
+      </section>
+
+      <section className="grid grid-cols-2 gap-4 border-t pt-3 text-sm">
+        <div>
+          <div className="text-xs font-semibold text-gray-500">
+            ผลการช่วยเหลือ
+          </div>
+          <div className="mt-6 border-b border-dotted border-gray-500" />
+          <div className="mt-6 border-b border-dotted border-gray-500" />
+        </div>
+        <div>
+          <div className="text-xs font-semibold text-gray-500">
+            ผู้ช่วยเหลือ / เวลา
+          </div>
+          <div className="mt-6 border-b border-dotted border-gray-500" />
+          <div className="mt-6 border-b border-dotted border-gray-500" />
+        </div>
+      </section>
+    </article>
+  )
+}
@@ -1,4 +1,4 @@
-import { AlertTriangle, CheckCircle } from 'lucide-react'
+import { AlertTriangle, CheckCircle, GitMerge, Loader2 } from 'lucide-react'
 
 import { PhoneList } from '@/components/PhoneList'
 import { Badge } from '@/components/ui/badge'
@@ -12,15 +12,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-
-interface DuplicateReport {
-  id: string
-  name: string
-  address: string
-  phone: string[]
-  raw_message: string
-  similarity: number
-}
+import { describeDuplicateMatch } from '@/lib/reportUtils'
+import type { DuplicateReport } from '@/types/report'
 
 interface DuplicateDialogProps {
   open: boolean
@@ -28,6 +21,9 @@ interface DuplicateDialogProps {
   duplicates: DuplicateReport[]
   onSaveAnyway: () => void
   onCancel: () => void
+  // Fold the new report into an existing one instead of saving it separately
+  onMerge?: (duplicateId: string) => void
+  mergingId?: string | null
 }
 
 export const DuplicateDialog = ({
@@ -36,6 +32,8 @@ export const DuplicateDialog = ({
   duplicates,
   onSaveAnyway,
   onCancel,
+  onMerge,
+  mergingId = null,
 }: DuplicateDialogProps) => {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -52,7 +50,7 @@ export const DuplicateDialog = ({
         </DialogHeader>
 
         <div className="space-y-4 py-4">
-          {duplicates.map((duplicate, index) => (
+          {duplicates.map((duplicate) => (
             <Card key={duplicate.id} className="border-warning/20">
               <CardContent className="pt-4 space-y-3">
                 <div className="flex items-start justify-between gap-2">
@@ -61,9 +59,24 @@ export const DuplicateDialog = ({
                       <span className="font-semibold text-lg">
                         {duplicate.name || '(ไม่ระบุชื่อ)'}
                       </span>
-                      <Badge variant="outline">
-                        {Math.round(duplicate.similarity * 100)}% คล้ายกัน
-                      </Badge>
+                      {duplicate.score !== undefined && (
+                        <Badge variant="outline">
+                          {Math.round(duplicate.score * 100)}% ตรงกัน
+                        </Badge>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-1.5 mb-2">
+                      <span className="text-sm font-medium">เหตุผล:</span>
+                      {describeDuplicateMatch(duplicate).map((reason) => (
+                        <Badge
+                          key={reason}
+                          variant="secondary"
+                          className="font-normal"
+                        >
+                          {reason}
+                        </Badge>
+                      ))}
                     </div>
 
                     {duplicate.address && (
@@ -82,24 +95,47 @@ export const DuplicateDialog = ({
                       </div>
                     )}
                   </div>
+
+                  {onMerge && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="shrink-0"
+                      disabled={!!mergingId}
+                      onClick={() => onMerge(duplicate.id)}
+                    >
+                      {mergingId === duplicate.id ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <GitMerge className="mr-2 h-4 w-4" />
+                      )}
+                      รวมเข้ากับรายการนี้
+                    </Button>
+                  )}
                 </div>
 
-                <div className="bg-muted/50 rounded p-3 text-sm">
-                  <div className="font-medium mb-1">ข้อความต้นฉบับ:</div>
-                  <div className="text-muted-foreground line-clamp-3">
-                    {duplicate.raw_message}
+                {duplicate.raw_message && (
+                  <div className="bg-muted/50 rounded p-3 text-sm">
+                    <div className="font-medium mb-1">ข้อความต้นฉบับ:</div>
+                    <div className="text-muted-foreground line-clamp-3">
+                      {duplicate.raw_message}
+                    </div>
                   </div>
-                </div>
+                )}
               </CardContent>
             </Card>
           ))}
         </div>
 
         <DialogFooter className="flex gap-2">
-          <Button variant="outline" onClick={onCancel}>
+          <Button variant="outline" onClick={onCancel} disabled={!!mergingId}>
             ยกเลิก
           </Button>
-          <Button onClick={onSaveAnyway} variant="default">
+          <Button
+            onClick={onSaveAnyway}
+            variant="default"
+            disabled={!!mergingId}
+          >
             <CheckCircle className="mr-2 h-4 w-4" />
             บันทึกเป็นรายการใหม่
           </Button>
@@ -0,0 +1,163 @@
+import { Check, GitMerge, Loader2, Phone, X } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+
+import { PhoneList } from '@/components/PhoneList'
+import { StatusBadge } from '@/components/StatusBadge'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { useResolveDuplicateGroup } from '@/hooks/use-duplicate-groups'
+import {
+  formatCaseId,
+  formatDate,
+  getUrgencyBadgeClass,
+} from '@/lib/reportUtils'
+import type { DuplicateGroup } from '@/types/report'
+
+interface DuplicateGroupCardProps {
+  group: DuplicateGroup
+}
+
+export const DuplicateGroupCard = ({ group }: DuplicateGroupCardProps) => {
+  const resolveGroup = useResolveDuplicateGroup()
+  const [canonicalId, setCanonicalId] = useState('')
+  const isPending = group.status === 'pending'
+
+  // Members are sorted oldest first; default to the oldest as the canonical one
+  useEffect(() => {
+    setCanonicalId(group.canonical_report_id || group.reports[0]?.id || '')
+  }, [group])
+
+  const handleResolve = async (confirm: boolean) => {
+    try {
+      await resolveGroup.mutateAsync({
+        groupId: group.id,
+        confirm,
+        canonicalId: confirm ? canonicalId : undefined,
+      })
+      toast.success(confirm ? 'รวมรายงานแล้ว' : 'ทำเครื่องหมายว่าไม่ซ้ำแล้ว', {
+        description: confirm
+          ? `รวม ${group.reports.length - 1} รายการเข้ากับเคส ${formatCaseId(canonicalId)}`
+          : undefined,
+      })
+    } catch (err) {
+      toast.error('ไม่สามารถบันทึกผลการตรวจสอบได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+          <GitMerge className="h-5 w-5 text-primary" />
+          {group.reports.length} รายงานที่อาจซ้ำกัน
+          {group.max_similarity !== null && (
+            <Badge variant="secondary">
+              ความคล้าย {Math.round(group.max_similarity * 100)}%
+            </Badge>
+          )}
+          {group.shared_phones.length > 0 && (
+            <Badge variant="secondary" className="gap-1">
+              <Phone className="h-3 w-3" />
+              เบอร์โทรตรงกัน
+            </Badge>
+          )}
+        </CardTitle>
+        {group.shared_phones.length > 0 && (
+          <div className="text-sm text-muted-foreground">
+            <PhoneList phones={group.shared_phones} />
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <RadioGroup
+          value={canonicalId}
+          onValueChange={setCanonicalId}
+          disabled={!isPending}
+          className="gap-3"
+        >
+          {group.reports.map((report) => (
+            <Label
+              key={report.id}
+              htmlFor={`group-${group.id}-${report.id}`}
+              className={`flex items-start gap-3 rounded-lg border p-3 font-normal ${
+                isPending ? 'cursor-pointer' : ''
+              } ${report.id === canonicalId ? 'border-primary bg-primary/5' : ''}`}
+            >
+              <RadioGroupItem
+                id={`group-${group.id}-${report.id}`}
+                value={report.id}
+                className="mt-1"
+              />
+              <div className="flex-1 space-y-1 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Link
+                    to={`/report/${report.id}`}
+                    className="font-mono text-xs text-primary hover:underline"
+                  >
+                    {formatCaseId(report.id)}
+                  </Link>
+                  <span className="font-semibold">
+                    {report.name} {report.lastname}
+                  </span>
+                  <Badge className={getUrgencyBadgeClass(report.urgency_level)}>
+                    {report.urgency_level}
+                  </Badge>
+                  <StatusBadge status={report.status} />
+                  {report.id === canonicalId && <Badge>รายงานหลัก</Badge>}
+                </div>
+                <div className="text-muted-foreground">
+                  {formatDate(report.created_at)}
+                </div>
+                {report.phone?.length > 0 && (
+                  <PhoneList phones={report.phone} />
+                )}
+                {report.address && <div>{report.address}</div>}
+                <div className="line-clamp-2 text-muted-foreground">
+                  {report.raw_message}
+                </div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        {isPending ? (
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => handleResolve(false)}
+              disabled={resolveGroup.isPending}
+            >
+              <X className="mr-2 h-4 w-4" />
+              ไม่ซ้ำ
+            </Button>
+            <Button
+              onClick={() => handleResolve(true)}
+              disabled={!canonicalId || resolveGroup.isPending}
+            >
+              {resolveGroup.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Check className="mr-2 h-4 w-4" />
+              )}
+              ยืนยันและรวมเข้ากับรายงานหลัก
+            </Button>
+          </div>
+        ) : (
+          group.reviewed_at && (
+            <div className="text-right text-sm text-muted-foreground">
+              ตรวจสอบเมื่อ {formatDate(group.reviewed_at)}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,9 @@
+import { useQueryClient } from '@tanstack/react-query'
 import { Loader2, Save } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import { toast } from 'sonner'
 
+import { CaseAssignment } from '@/components/CaseAssignment'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import {
@@ -15,9 +17,24 @@ import {
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import {
+  HELP_CATEGORIES,
+  STATUS_CHANGER_ROLES,
+  URGENCY_LEVELS,
+} from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { addOutboxEntry, isNetworkError } from '@/lib/offlineOutbox'
+import {
+  formatCaseId,
+  getAllowedNextStatuses,
+  getStatusLabel,
+  getTotalPeople,
+  requiresStatusReason,
+} from '@/lib/reportUtils'
 import { formatPhoneNumber } from '@/lib/utils'
 import { useUpdateReport } from '@/hooks/use-reports'
-import type { Report } from '@/types/report'
+import { shelterKeys, useShelters } from '@/hooks/use-shelters'
+import type { Report, ReportStatus } from '@/types/report'
 
 import {
   Select,
@@ -43,6 +60,35 @@ export function EditReportDialog({
   const [formData, setFormData] = useState<Report>(report)
   const [phoneInput, setPhoneInput] = useState(report.phone?.join(', ') || '')
   const updateReport = useUpdateReport()
+  const queryClient = useQueryClient()
+  const { data: shelters = [] } = useShelters()
+  const { hasRole } = useAuth()
+  // Verifiers can fix details but only rescuers and coordinators change status
+  const canChangeStatus = hasRole(STATUS_CHANGER_ROLES)
+
+  const statusChanged = formData.status !== report.status
+  const statusReasonRequired = requiresStatusReason(
+    report.status,
+    formData.status,
+  )
+  // Only the current status and its allowed next statuses can be picked
+  const statusOptions = [
+    report.status,
+    ...getAllowedNextStatuses(report.status),
+  ]
+
+  const showShelterPicker =
+    formData.status === 'evacuated_to_shelter' || !!formData.shelter_id
+  const selectedShelter = shelters.find(
+    (shelter) => shelter.id === formData.shelter_id,
+  )
+  const peopleCount = getTotalPeople(formData)
+  // The case's people are already counted if it was saved to this shelter
+  const remainingSpaces = selectedShelter
+    ? selectedShelter.capacity -
+      selectedShelter.current_occupancy -
+      (report.shelter_id === selectedShelter.id ? 0 : peopleCount)
+    : null
 
   // Update form data when report prop changes
   useEffect(() => {
@@ -51,6 +97,11 @@ export function EditReportDialog({
   }, [report])
 
   const handleSave = async () => {
+    if (statusReasonRequired && !formData.status_reason?.trim()) {
+      toast.error('กรุณาระบุเหตุผลของการเปลี่ยนสถานะ')
+      return
+    }
+
     try {
       // Parse and format phone numbers
       const phones = phoneInput
@@ -86,16 +137,44 @@ export function EditReportDialog({
         additional_info: formData.additional_info,
         urgency_level: formData.urgency_level,
         status: formData.status,
+        status_reason: statusChanged
+          ? formData.status_reason?.trim() || null
+          : report.status_reason,
+        shelter_id: formData.shelter_id || null,
       }
 
-      await updateReport.mutateAsync({
-        id: report.id,
-        data: dataToUpdate,
-      })
+      // Without network the edit waits in the outbox (mutations would pause)
+      let queued = !navigator.onLine
+      if (!queued) {
+        try {
+          await updateReport.mutateAsync({
+            id: report.id,
+            data: dataToUpdate,
+          })
+        } catch (err) {
+          if (!isNetworkError(err)) throw err
+          queued = true
+        }
+      }
 
-      toast.success('แก้ไขข้อมูลสำเร็จ', {
-        description: 'ข้อมูลได้รับการอัปเดตแล้ว',
-      })
+      if (queued) {
+        await addOutboxEntry({
+          kind: 'update_report',
+          label: `แก้ไขเคส ${formatCaseId(report.id)}`,
+          report_id: report.id,
+          base_updated_at: report.updated_at,
+          data: dataToUpdate,
+        })
+        toast.info('บันทึกไว้ในเครื่องแล้ว', {
+          description: 'จะส่งการแก้ไขอัตโนมัติเมื่อกลับมาออนไลน์',
+        })
+      } else {
+        // Occupancy is recalculated by the database
+        queryClient.invalidateQueries({ queryKey: shelterKeys.all })
+        toast.success('แก้ไขข้อมูลสำเร็จ', {
+          description: 'ข้อมูลได้รับการอัปเดตแล้ว',
+        })
+      }
 
       onSuccess()
       onOpenChange(false)
@@ -119,6 +198,11 @@ export function EditReportDialog({
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          <div className="space-y-2 p-4 bg-muted/30 rounded-lg">
+            <Label>ทีมที่รับผิดชอบเคส</Label>
+            <CaseAssignment report={report} />
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="edit-reporter">ผู้รายงาน/แจ้งเรื่อง</Label>
@@ -136,22 +220,101 @@ export function EditReportDialog({
               <Label htmlFor="edit-status">สถานะ</Label>
               <Select
                 value={formData.status || 'pending'}
+                disabled={!canChangeStatus}
                 onValueChange={(value) =>
-                  setFormData({ ...formData, status: value })
+                  setFormData({
+                    ...formData,
+                    status: value as ReportStatus,
+                    // A new status needs its own reason
+                    status_reason:
+                      value === report.status ? report.status_reason : '',
+                  })
                 }
               >
                 <SelectTrigger>
                   <SelectValue placeholder="เลือกสถานะ" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="pending">รอความช่วยเหลือ</SelectItem>
-                  <SelectItem value="processed">กำลังช่วยเหลือ</SelectItem>
-                  <SelectItem value="completed">ช่วยเหลือเสร็จสิ้น</SelectItem>
+                  {statusOptions.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {getStatusLabel(status)}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
+          {statusChanged && (
+            <div className="space-y-2">
+              <Label htmlFor="edit-status-reason">
+                เหตุผลของการเปลี่ยนสถานะ
+                {statusReasonRequired ? ' *' : ' (ไม่บังคับ)'}
+              </Label>
+              <Textarea
+                id="edit-status-reason"
+                value={formData.status_reason || ''}
+                onChange={(e) =>
+                  setFormData({ ...formData, status_reason: e.target.value })
+                }
+                rows={2}
+                placeholder={
+                  statusReasonRequired
+                    ? 'จำเป็นต้องระบุเมื่อปิดเคสหรือเปิดเคสที่ปิดแล้ว'
+                    : '-'
+                }
+              />
+            </div>
+          )}
+
+          {showShelterPicker && (
+            <div className="space-y-2">
+              <Label htmlFor="edit-shelter">ศูนย์พักพิงที่อพยพไป</Label>
+              <Select
+                value={formData.shelter_id || 'none'}
+                disabled={!canChangeStatus}
+                onValueChange={(value) =>
+                  setFormData({
+                    ...formData,
+                    shelter_id: value === 'none' ? null : value,
+                  })
+                }
+              >
+                <SelectTrigger id="edit-shelter">
+                  <SelectValue placeholder="เลือกศูนย์พักพิง" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">ไม่ระบุ</SelectItem>
+                  {shelters
+                    .filter(
+                      (shelter) =>
+                        shelter.is_active || shelter.id === report.shelter_id,
+                    )
+                    .map((shelter) => (
+                      <SelectItem key={shelter.id} value={shelter.id}>
+                        {shelter.name} ({shelter.current_occupancy}/
+                        {shelter.capacity})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {remainingSpaces !== null && (
+                <p
+                  className={`text-sm ${
+                    remainingSpaces < 0
+                      ? 'text-destructive'
+                      : 'text-muted-foreground'
+                  }`}
+                >
+                  ผู้ประสบภัยในเคสนี้ {peopleCount} คน
+                  {remainingSpaces < 0
+                    ? ` · เกินความจุ ${-remainingSpaces} คน`
+                    : ` · เหลือที่ว่าง ${remainingSpaces} คนหลังรับเคสนี้`}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="edit-name">ชื่อ</Label>
@@ -374,21 +537,7 @@ export function EditReportDialog({
           <div className="space-y-2">
             <Label>ประเภทความช่วยเหลือที่ต้องการ</Label>
             <div className="grid grid-cols-2 gap-3 p-4 bg-muted/30 rounded-lg">
-              {[
-                { id: 'drowning', label: 'จมน้ำ' },
-                { id: 'trapped', label: 'ติดขัง' },
-                { id: 'unreachable', label: 'ติดต่อไม่ได้' },
-                { id: 'water', label: 'ขาดน้ำดื่ม' },
-                { id: 'food', label: 'ขาดอาหาร' },
-                { id: 'electricity', label: 'ขาดไฟฟ้า' },
-                { id: 'shelter', label: 'ต้องการที่พักพิง' },
-                { id: 'medical', label: 'คนเจ็บ/ต้องการรักษา' },
-                { id: 'medicine', label: 'ขาดยา' },
-                { id: 'evacuation', label: 'ต้องการอพยพ' },
-                { id: 'missing', label: 'คนหาย' },
-                { id: 'clothes', label: 'เสื้อผ้า' },
-                { id: 'other', label: 'อื่นๆ' },
-              ].map((category) => (
+              {HELP_CATEGORIES.map((category) => (
                 <div key={category.id} className="flex items-center space-x-2">
                   <Checkbox
                     id={`edit-${category.id}`}
@@ -453,22 +602,11 @@ export function EditReportDialog({
               }
               className="w-full p-2 border rounded-md bg-background"
             >
-              <option value="1">1 - ยังไม่โดนน้ำ / แจ้งเตือน</option>
-              <option value="2">
-                2 - ผู้ใหญ่ทั้งหมด น้ำท่วมชั้นล่าง
-                (ไม่มีเด็ก/ผู้สูงอายุ/ทารก/ผู้ป่วย)
-              </option>
-              <option value="3">
-                3 - มีเด็ก หรือผู้สูงอายุ หรือน้ำถึงชั้นสอง
-              </option>
-              <option value="4">
-                4 - เด็กเล็กมาก หรือทารก หรือมีคนไข้/ป่วยติดเตียง
-                หรือคนช่วยตัวเองไม่ได้
-              </option>
-              <option value="5">
-                5 - วิกฤต: น้ำถึงหลังคา/ติดบนหลังคา ทารกในอันตราย คนไข้อาการหนัก
-                มีคนตาย
-              </option>
+              {URGENCY_LEVELS.map(({ level, description }) => (
+                <option key={level} value={level}>
+                  {level} - {description}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -0,0 +1,50 @@
+import { AlertTriangle } from 'lucide-react'
+import type { ReactNode } from 'react'
+
+import { isLowConfidence } from '@/lib/fieldEvidence'
+import { cn } from '@/lib/utils'
+import type { FieldEvidence } from '@/types/report'
+
+interface EvidenceFieldProps {
+  evidence?: FieldEvidence
+  // Called with the field's source spans on hover or focus, null on leave
+  onHighlight: (spans: [number, number][] | null) => void
+  className?: string
+  children: ReactNode
+}
+
+// Review form field that points at its source text in the raw message and
+// is outlined in amber when extraction wasn't sure about it
+export const EvidenceField = ({
+  evidence,
+  onHighlight,
+  className,
+  children,
+}: EvidenceFieldProps) => {
+  const lowConfidence = isLowConfidence(evidence)
+  const highlight = () => onHighlight(evidence?.spans ?? null)
+  const clear = () => onHighlight(null)
+
+  return (
+    <div
+      className={cn(
+        'space-y-2 rounded-md',
+        lowConfidence &&
+          'outline outline-2 outline-offset-4 outline-amber-400/70',
+        className,
+      )}
+      onMouseEnter={highlight}
+      onMouseLeave={clear}
+      onFocus={highlight}
+      onBlur={clear}
+    >
+      {children}
+      {lowConfidence && (
+        <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-3 w-3" />
+          ความมั่นใจ {Math.round(evidence.confidence * 100)}% กรุณาตรวจสอบ
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { QrCode } from 'lucide-react'
+import { QRCodeSVG } from 'qrcode.react'
+import { Link } from 'react-router-dom'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { fieldUpdateUrl } from '@/lib/caseSheets'
+import { formatCaseId } from '@/lib/reportUtils'
+
+interface FieldUpdateQrProps {
+  reportId: string
+}
+
+// QR code a rescuer scans at the house to open the field update page
+export const FieldUpdateQr = ({ reportId }: FieldUpdateQrProps) => {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <QrCode className="mr-2 h-4 w-4" />
+          QR หน้างาน
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            อัปเดตเคส {formatCaseId(reportId)} จากหน้างาน
+          </DialogTitle>
+          <DialogDescription>
+            สแกนเพื่อเปลี่ยนสถานะ บันทึกจำนวนคนที่ช่วยได้ รูปถ่าย และหมายเหตุ
+            พร้อมตำแหน่งของผู้บันทึก
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-4 py-2">
+          <QRCodeSVG value={fieldUpdateUrl(reportId)} size={220} level="M" />
+          <Button asChild className="w-full">
+            <Link to={`/report/${reportId}/field`}>เปิดหน้าอัปเดต</Link>
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
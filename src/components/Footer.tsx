@@ -34,7 +34,7 @@ const Footer = () => {
   }, [])
 
   return (
-    <footer className="w-full border-t bg-background/80 backdrop-blur-sm mt-auto">
+    <footer className="w-full border-t bg-background/80 backdrop-blur-sm mt-auto print:hidden">
       <div className="max-w-7xl mx-auto px-4 py-6">
         <div className="flex flex-col items-center gap-4">
           <a
@@ -10,8 +10,11 @@ import { MapPin } from 'lucide-react'
 import { useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 
+import { URGENCY_LEVELS } from '@/constants/helpCategories'
+import type { PlannedRoute } from '@/lib/routePlanning'
 import { BASEMAP_OPTIONS } from '@/types/map'
 import { Report } from '@/types/report'
+import type { Shelter } from '@/types/shelter'
 
 const DefaultIcon = L.icon({
   iconUrl: icon,
@@ -34,15 +37,17 @@ interface InteractiveMapProps {
   showLegend?: boolean
   selectedBasemap?: string
   showFloodLayer?: boolean
+  shelters?: Shelter[]
+  // Numbered stops and the line between them for a planned rescue run
+  route?: PlannedRoute
+  // When set, case popups get a button to add or remove the case from a run
+  selectedReportIds?: string[]
+  onToggleReportSelection?: (report: Report) => void
 }
 
-const URGENCY_COLORS = {
-  5: { border: '#DC2626', bg: '#FEE2E2', label: 'วิกฤติ - Critical' },
-  4: { border: '#EA580C', bg: '#FFEDD5', label: 'เร่งด่วนมาก - Very Urgent' },
-  3: { border: '#CA8A04', bg: '#FEF3C7', label: 'เร่งด่วน - Urgent' },
-  2: { border: '#2563EB', bg: '#DBEAFE', label: 'ปานกลาง - Moderate' },
-  1: { border: '#16A34A', bg: '#D1FAE5', label: 'ต่ำ - Low' },
-}
+// Stable default so the shelter layer isn't rebuilt on every render
+const NO_SHELTERS: Shelter[] = []
+const NO_SELECTION: string[] = []
 
 const InteractiveMap = ({
   reports,
@@ -51,12 +56,21 @@ const InteractiveMap = ({
   showLegend = true,
   selectedBasemap = 'osm',
   showFloodLayer = false,
+  shelters = NO_SHELTERS,
+  route,
+  selectedReportIds = NO_SELECTION,
+  onToggleReportSelection,
 }: InteractiveMapProps) => {
   const mapRef = useRef<L.Map | null>(null)
   const mapContainerRef = useRef<HTMLDivElement>(null)
   const markersRef = useRef<any>(null)
   const basemapLayerRef = useRef<L.TileLayer | null>(null)
   const floodLayerRef = useRef<L.TileLayer | null>(null)
+  const shelterLayerRef = useRef<L.LayerGroup | null>(null)
+  const routeLayerRef = useRef<L.LayerGroup | null>(null)
+  // Kept in a ref so a new callback doesn't rebuild every marker
+  const onToggleSelectionRef = useRef(onToggleReportSelection)
+  onToggleSelectionRef.current = onToggleReportSelection
   const navigate = useNavigate()
 
   // Ensure marker cluster is attached to the map (useful after basemap/flood toggles)
@@ -136,13 +150,13 @@ const InteractiveMap = ({
         const div = L.DomUtil.create('div', 'map-legend')
         div.innerHTML = `
           <div class="map-legend-title">ระดับความเร่งด่วน</div>
-          ${Object.entries(URGENCY_COLORS)
+          ${[...URGENCY_LEVELS]
             .reverse()
             .map(
-              ([level, { border, label }]) => `
+              ({ level, label, englishLabel, color }) => `
             <div class="map-legend-item">
-              <div class="map-legend-color" style="border-color: ${border}; background-color: ${border}20;"></div>
-              <span>Level ${level}: ${label}</span>
+              <div class="map-legend-color" style="border-color: ${color}; background-color: ${color}20;"></div>
+              <span>Level ${level}: ${label} - ${englishLabel}</span>
             </div>
           `,
             )
@@ -152,6 +166,10 @@ const InteractiveMap = ({
               <div class="map-legend-color" style="border-color: #3b82f6; background-color: rgba(59, 130, 246, 0.6);"></div>
               <span>พื้นที่น้ำท่วม (GISTDA)</span>
             </div>
+            <div class="map-legend-item">
+              <div class="map-legend-color" style="border-color: #7C3AED; background-color: #EDE9FE; border-radius: 4px;"></div>
+              <span>ศูนย์พักพิง</span>
+            </div>
           </div>
         `
         return div
@@ -285,14 +303,12 @@ const InteractiveMap = ({
         return
       }
 
-      const urgencyColors =
-        URGENCY_COLORS[urgency_level as keyof typeof URGENCY_COLORS] ||
-        URGENCY_COLORS[3]
-
       // Create custom icon
+      const isSelected = selectedReportIds.includes(report.id)
+
       const customIcon = L.divIcon({
         className: 'custom-marker',
-        html: `<div class="urgency-marker level-${urgency_level}">${urgency_level}</div>`,
+        html: `<div class="urgency-marker level-${urgency_level}${isSelected ? ' selected' : ''}">${urgency_level}</div>`,
         iconSize: [32, 32],
         iconAnchor: [16, 16],
         popupAnchor: [0, -16],
@@ -349,6 +365,13 @@ const InteractiveMap = ({
           <a href="/report/${report.id}" class="map-popup-link" data-report-id="${report.id}" style="color: white;">
             ดูรายละเอียดเพิ่มเติม
           </a>
+          ${
+            onToggleSelectionRef.current
+              ? `<button type="button" class="map-popup-select" data-select-report-id="${report.id}">
+            ${isSelected ? 'นำออกจากเส้นทาง' : 'เพิ่มในเส้นทาง'}
+          </button>`
+              : ''
+          }
         </div>
       `
 
@@ -368,6 +391,16 @@ const InteractiveMap = ({
             navigate(`/report/${report.id}`)
           }
         }
+
+        const selectElement = document.querySelector(
+          `[data-select-report-id="${report.id}"]`,
+        ) as HTMLButtonElement
+        if (selectElement) {
+          selectElement.onclick = () => {
+            marker.closePopup()
+            onToggleSelectionRef.current?.(report)
+          }
+        }
       })
 
       // Add marker to cluster
@@ -391,11 +424,152 @@ const InteractiveMap = ({
     // DON'T auto-fit bounds - let user control the view
     // Only set initial view if this is the first load (no previous markers)
     // This prevents the map from resetting when changing basemap or toggling layers
-  }, [reports, navigate])
+  }, [reports, navigate, selectedReportIds])
 
-  const hasValidReports = reports.some(
-    (r) => r.location_lat !== null && r.location_long !== null,
-  )
+  // Shelters get their own unclustered layer so they stay visible among cases
+  useEffect(() => {
+    if (!mapRef.current) return
+
+    if (shelterLayerRef.current) {
+      mapRef.current.removeLayer(shelterLayerRef.current)
+    }
+
+    const layer = L.layerGroup()
+
+    shelters.forEach((shelter) => {
+      if (shelter.location_lat === null || shelter.location_long === null) {
+        return
+      }
+
+      const isFull =
+        shelter.capacity > 0 && shelter.current_occupancy >= shelter.capacity
+
+      const shelterIcon = L.divIcon({
+        className: 'custom-marker',
+        html: `<div class="shelter-marker${isFull ? ' full' : ''}${shelter.is_active ? '' : ' inactive'}">⌂</div>`,
+        iconSize: [30, 30],
+        iconAnchor: [15, 15],
+        popupAnchor: [0, -15],
+      })
+
+      const marker = L.marker([shelter.location_lat, shelter.location_long], {
+        icon: shelterIcon,
+        zIndexOffset: 1000,
+      })
+
+      marker.bindPopup(
+        `
+        <div class="map-popup">
+          <div class="map-popup-header">${shelter.name}</div>
+          <div class="map-popup-info">
+            <div class="map-popup-info-row">
+              <span class="map-popup-label">ผู้พักอาศัย:</span>
+              <span class="map-popup-value">${shelter.current_occupancy} / ${shelter.capacity} คน${shelter.is_active ? '' : ' (ปิดแล้ว)'}</span>
+            </div>
+            ${
+              shelter.address
+                ? `
+              <div class="map-popup-info-row">
+                <span class="map-popup-label">ที่อยู่:</span>
+                <span class="map-popup-value">${shelter.address}</span>
+              </div>
+            `
+                : ''
+            }
+            ${
+              shelter.supplies_on_hand
+                ? `
+              <div class="map-popup-info-row">
+                <span class="map-popup-label">ของที่มี:</span>
+                <span class="map-popup-value">${shelter.supplies_on_hand}</span>
+              </div>
+            `
+                : ''
+            }
+            ${
+              shelter.contact_phone
+                ? `
+              <div class="map-popup-info-row">
+                <span class="map-popup-label">ติดต่อ:</span>
+                <span class="map-popup-value">${[shelter.contact_name, shelter.contact_phone].filter(Boolean).join(' ')}</span>
+              </div>
+            `
+                : ''
+            }
+          </div>
+        </div>
+      `,
+        { maxWidth: 350, className: 'custom-popup' },
+      )
+
+      layer.addLayer(marker)
+    })
+
+    shelterLayerRef.current = layer
+    layer.addTo(mapRef.current)
+  }, [shelters])
+
+  // Planned run: line from the start through each stop, with numbered markers
+  useEffect(() => {
+    if (!mapRef.current) return
+
+    if (routeLayerRef.current) {
+      mapRef.current.removeLayer(routeLayerRef.current)
+      routeLayerRef.current = null
+    }
+
+    if (!route || route.stops.length === 0) return
+
+    const layer = L.layerGroup()
+    const path: L.LatLngTuple[] = [
+      ...(route.start ? [route.start] : []),
+      ...route.stops.map((stop) => stop.position),
+    ].map((point) => [point.lat, point.lng])
+
+    L.polyline(path, { color: '#0F172A', weight: 4, opacity: 0.8 }).addTo(layer)
+
+    if (route.start) {
+      L.marker([route.start.lat, route.start.lng], {
+        icon: L.divIcon({
+          className: 'custom-marker',
+          html: '<div class="route-stop-marker start">▶</div>',
+          iconSize: [30, 30],
+          iconAnchor: [15, 15],
+        }),
+        zIndexOffset: 2000,
+      })
+        .bindTooltip('จุดเริ่มต้น')
+        .addTo(layer)
+    }
+
+    route.stops.forEach((stop, index) => {
+      L.marker([stop.position.lat, stop.position.lng], {
+        icon: L.divIcon({
+          className: 'custom-marker',
+          html: `<div class="route-stop-marker">${index + 1}</div>`,
+          iconSize: [30, 30],
+          iconAnchor: [15, 15],
+        }),
+        zIndexOffset: 2000,
+      })
+        .bindTooltip(
+          `${index + 1}. ${stop.report.name || 'ไม่ระบุชื่อ'} (Level ${stop.report.urgency_level})`,
+        )
+        .addTo(layer)
+    })
+
+    routeLayerRef.current = layer
+    layer.addTo(mapRef.current)
+    mapRef.current.fitBounds(L.latLngBounds(path), {
+      padding: [40, 40],
+      maxZoom: 15,
+    })
+  }, [route])
+
+  const hasValidReports =
+    reports.some((r) => r.location_lat !== null && r.location_long !== null) ||
+    shelters.some((s) => s.location_lat !== null && s.location_long !== null) ||
+    !!route?.stops.length
 
   return (
     <div className="relative h-full w-full">
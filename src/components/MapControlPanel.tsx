@@ -6,6 +6,7 @@ import { Card } from '@/components/ui/card'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { STATUS_OPTIONS, URGENCY_LEVELS } from '@/constants/helpCategories'
 
 interface MapControlPanelProps {
   searchQuery: string
@@ -22,19 +23,8 @@ interface MapControlPanelProps {
   onReset: () => void
 }
 
-const STATUS_OPTIONS = [
-  { value: 'pending', label: 'รอดำเนินการ', color: '#EF4444' },
-  { value: 'processed', label: 'กำลังดำเนินการ', color: '#F59E0B' },
-  { value: 'completed', label: 'เสร็จสิ้น', color: '#10B981' },
-]
-
-const URGENCY_LEVELS = [
-  { level: 5, color: '#DC2626' },
-  { level: 4, color: '#EA580C' },
-  { level: 3, color: '#CA8A04' },
-  { level: 2, color: '#2563EB' },
-  { level: 1, color: '#16A34A' },
-]
+// Most urgent first
+const URGENCY_FILTERS = [...URGENCY_LEVELS].reverse()
 
 const MapControlPanel = ({
   searchQuery,
@@ -136,7 +126,7 @@ const MapControlPanel = ({
               ระดับความเร่งด่วน
             </Label>
             <div className="space-y-1.5">
-              {URGENCY_LEVELS.map(({ level, color }) => (
+              {URGENCY_FILTERS.map(({ level, color }) => (
                 <div key={level} className="flex items-center justify-between">
                   <div className="flex items-center space-x-2">
                     <Checkbox
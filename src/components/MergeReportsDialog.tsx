@@ -0,0 +1,192 @@
+import { GitMerge, Loader2 } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+import { PhoneList } from '@/components/PhoneList'
+import { StatusBadge } from '@/components/StatusBadge'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { useMergeReports } from '@/hooks/use-reports'
+import {
+  formatCaseId,
+  formatDate,
+  getCategoryLabel,
+  getUrgencyBadgeClass,
+  previewMergedReport,
+} from '@/lib/reportUtils'
+import type { Report } from '@/types/report'
+
+interface MergeReportsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  reports: Report[]
+  onMerged?: (canonical: Report) => void
+}
+
+export const MergeReportsDialog = ({
+  open,
+  onOpenChange,
+  reports,
+  onMerged,
+}: MergeReportsDialogProps) => {
+  const mergeReports = useMergeReports()
+  const [canonicalId, setCanonicalId] = useState('')
+
+  // Default to the oldest report as the canonical one
+  useEffect(() => {
+    if (!open || reports.length === 0) return
+    const oldest = [...reports].sort(
+      (a, b) =>
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+    )[0]
+    setCanonicalId(oldest.id)
+  }, [open, reports])
+
+  const canonical = reports.find((r) => r.id === canonicalId)
+  const duplicates = reports.filter((r) => r.id !== canonicalId)
+
+  const preview = canonical ? previewMergedReport(canonical, duplicates) : null
+
+  const handleMerge = async () => {
+    if (!canonical) return
+
+    try {
+      const merged = await mergeReports.mutateAsync({
+        canonicalId: canonical.id,
+        duplicateIds: duplicates.map((r) => r.id),
+      })
+      toast.success('รวมรายงานแล้ว', {
+        description: `รวม ${duplicates.length} รายการเข้ากับเคส ${formatCaseId(canonical.id)}`,
+      })
+      onMerged?.(merged)
+      onOpenChange(false)
+    } catch (err) {
+      toast.error('ไม่สามารถรวมรายงานได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-primary" />
+            <DialogTitle>รวมรายงานที่ซ้ำกัน</DialogTitle>
+          </div>
+          <DialogDescription>
+            เลือกรายงานหลักที่จะเก็บไว้ รายการอื่นจะถูกทำเครื่องหมายว่าซ้ำ
+            และข้อความต้นฉบับทั้งหมดจะถูกเก็บไว้ในรายงานหลัก
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={canonicalId}
+          onValueChange={setCanonicalId}
+          className="gap-3"
+        >
+          {reports.map((report) => (
+            <Label
+              key={report.id}
+              htmlFor={`canonical-${report.id}`}
+              className={`flex cursor-pointer items-start gap-3 rounded-lg border p-3 font-normal ${
+                report.id === canonicalId ? 'border-primary bg-primary/5' : ''
+              }`}
+            >
+              <RadioGroupItem
+                id={`canonical-${report.id}`}
+                value={report.id}
+                className="mt-1"
+              />
+              <div className="flex-1 space-y-1 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-xs">
+                    {formatCaseId(report.id)}
+                  </span>
+                  <span className="font-semibold">
+                    {report.name} {report.lastname}
+                  </span>
+                  <Badge className={getUrgencyBadgeClass(report.urgency_level)}>
+                    {report.urgency_level}
+                  </Badge>
+                  <StatusBadge status={report.status} />
+                  {report.id === canonicalId && <Badge>รายงานหลัก</Badge>}
+                </div>
+                <div className="text-muted-foreground">
+                  {formatDate(report.created_at)}
+                </div>
+                {report.address && <div>{report.address}</div>}
+                <div className="line-clamp-2 text-muted-foreground">
+                  {report.raw_message}
+                </div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        {preview && (
+          <div className="space-y-2 rounded-lg bg-muted/40 p-4 text-sm">
+            <div className="font-medium">ผลลัพธ์หลังรวม</div>
+            <div>
+              <span className="font-medium">เบอร์โทร:</span>{' '}
+              {preview.phone?.length ? (
+                <PhoneList phones={preview.phone} />
+              ) : (
+                '-'
+              )}
+            </div>
+            <div>
+              <span className="font-medium">ประเภทความช่วยเหลือ:</span>{' '}
+              {preview.help_categories?.length
+                ? preview.help_categories.map(getCategoryLabel).join(', ')
+                : '-'}
+            </div>
+            <div>
+              <span className="font-medium">ความเร่งด่วน:</span>{' '}
+              {preview.urgency_level}
+            </div>
+            <div>
+              <span className="font-medium">จำนวนคน:</span> ผู้ใหญ่{' '}
+              {preview.number_of_adults || 0} • เด็ก{' '}
+              {preview.number_of_children || 0} • ทารก{' '}
+              {preview.number_of_infants || 0} • ผู้สูงอายุ{' '}
+              {preview.number_of_seniors || 0} • ผู้ป่วย{' '}
+              {preview.number_of_patients || 0}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            ยกเลิก
+          </Button>
+          <Button
+            onClick={handleMerge}
+            disabled={
+              !canonical || duplicates.length === 0 || mergeReports.isPending
+            }
+          >
+            {mergeReports.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <GitMerge className="mr-2 h-4 w-4" />
+            )}
+            รวม {duplicates.length} รายการเข้ากับรายงานหลัก
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
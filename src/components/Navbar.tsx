@@ -1,20 +1,27 @@
 import {
   BarChart3,
   Code,
+  CopyCheck,
   Database,
   ExternalLink,
+  FileSpreadsheet,
   HelpCircle,
   Home,
   Info,
   LogIn,
   LogOut,
   Menu,
+  Package,
   Target,
+  Tent,
+  UserCog,
+  Users,
 } from 'lucide-react'
 import { useState } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
 
 import logo from '@/assets/logo.png'
+import { OfflineStatus } from '@/components/OfflineStatus'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
 import {
@@ -32,16 +39,25 @@ import {
   SheetTitle,
   SheetTrigger,
 } from '@/components/ui/sheet'
+import { COORDINATOR_ROLES, ROLE_OPTIONS } from '@/constants/helpCategories'
 import { useAuth } from '@/contexts/AuthContext'
 import { useLiff } from '@/contexts/LiffContext'
+import { useOfflineOutbox } from '@/hooks/use-offline-outbox'
 import { cn } from '@/lib/utils'
 
 const Navbar = () => {
   const navigate = useNavigate()
   const location = useLocation()
-  const { user, isAdmin, signOut } = useAuth()
+  const { user, roles, hasRole, isAdmin, signOut } = useAuth()
   const { isLoggedIn, profile, logout: liffLogout } = useLiff()
   const [isOpen, setIsOpen] = useState(false)
+  const outbox = useOfflineOutbox()
+
+  const roleLabel = ROLE_OPTIONS.filter((option) =>
+    roles.includes(option.value),
+  )
+    .map((option) => option.label)
+    .join(', ')
 
   const handleSignOut = async () => {
     await signOut()
@@ -74,6 +90,19 @@ const Navbar = () => {
       icon: BarChart3,
       description: 'สถิติและรายงาน',
     },
+    {
+      path: '/shelters',
+      label: 'ศูนย์พักพิง',
+      icon: Tent,
+      description: 'ศูนย์อพยพและจำนวนที่ว่าง',
+    },
+    {
+      path: '/supplies',
+      label: 'สิ่งของที่ต้องการ',
+      shortLabel: 'สิ่งของ',
+      icon: Package,
+      description: 'ความต้องการสิ่งของและการจัดส่ง',
+    },
     {
       path: '/mission',
       label: 'Mission',
@@ -108,7 +137,7 @@ const Navbar = () => {
   }
 
   return (
-    <nav className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 will-change-auto">
+    <nav className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 will-change-auto print:hidden">
       <div className="container mx-auto px-4">
         <div className="flex h-16 items-center justify-between">
           {/* Logo/Brand */}
@@ -172,6 +201,8 @@ const Navbar = () => {
               )
             })}
 
+            <OfflineStatus outbox={outbox} />
+
             {/* Auth Button */}
             {user ? (
               <DropdownMenu>
@@ -194,13 +225,35 @@ const Navbar = () => {
                 <DropdownMenuContent align="end">
                   <DropdownMenuLabel>
                     {user.email}
-                    {isAdmin && (
+                    {roleLabel && (
                       <span className="text-xs text-muted-foreground ml-2">
-                        (Admin)
+                        ({roleLabel})
                       </span>
                     )}
                   </DropdownMenuLabel>
                   <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => navigate('/volunteers')}>
+                    <Users className="mr-2 h-4 w-4" />
+                    อาสาสมัคร
+                  </DropdownMenuItem>
+                  {hasRole(COORDINATOR_ROLES) && (
+                    <DropdownMenuItem onClick={() => navigate('/duplicates')}>
+                      <CopyCheck className="mr-2 h-4 w-4" />
+                      ตรวจสอบรายการซ้ำ
+                    </DropdownMenuItem>
+                  )}
+                  {hasRole(COORDINATOR_ROLES) && (
+                    <DropdownMenuItem onClick={() => navigate('/import')}>
+                      <FileSpreadsheet className="mr-2 h-4 w-4" />
+                      นำเข้ารายชื่อ
+                    </DropdownMenuItem>
+                  )}
+                  {isAdmin && (
+                    <DropdownMenuItem onClick={() => navigate('/admin/roles')}>
+                      <UserCog className="mr-2 h-4 w-4" />
+                      จัดการสิทธิ์ผู้ใช้
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={handleSignOut}>
                     <LogOut className="mr-2 h-4 w-4" />
                     ออกจากระบบ
@@ -249,7 +302,8 @@ const Navbar = () => {
           </div>
 
           {/* Mobile Menu */}
-          <div className="md:hidden flex-shrink-0">
+          <div className="md:hidden flex flex-shrink-0 items-center gap-1">
+            <OfflineStatus outbox={outbox} />
             <Sheet open={isOpen} onOpenChange={setIsOpen}>
               <SheetTrigger asChild>
                 <Button
@@ -328,13 +382,63 @@ const Navbar = () => {
                           </Avatar>
                           <div className="text-sm">
                             <div className="font-medium">{user.email}</div>
-                            {isAdmin && (
+                            {roleLabel && (
                               <div className="text-xs text-muted-foreground">
-                                Admin
+                                {roleLabel}
                               </div>
                             )}
                           </div>
                         </div>
+                        <Button
+                          variant="ghost"
+                          className="w-full justify-start gap-3 h-14"
+                          onClick={() => handleNavigation('/volunteers')}
+                        >
+                          <Users className="h-5 w-5" />
+                          <div className="flex flex-col items-start">
+                            <span className="font-medium">อาสาสมัคร</span>
+                          </div>
+                        </Button>
+                        {hasRole(COORDINATOR_ROLES) && (
+                          <Button
+                            variant="ghost"
+                            className="w-full justify-start gap-3 h-14"
+                            onClick={() => handleNavigation('/duplicates')}
+                          >
+                            <CopyCheck className="h-5 w-5" />
+                            <div className="flex flex-col items-start">
+                              <span className="font-medium">
+                                ตรวจสอบรายการซ้ำ
+                              </span>
+                            </div>
+                          </Button>
+                        )}
+                        {hasRole(COORDINATOR_ROLES) && (
+                          <Button
+                            variant="ghost"
+                            className="w-full justify-start gap-3 h-14"
+                            onClick={() => handleNavigation('/import')}
+                          >
+                            <FileSpreadsheet className="h-5 w-5" />
+                            <div className="flex flex-col items-start">
+                              <span className="font-medium">นำเข้ารายชื่อ</span>
+                            </div>
+                          </Button>
+                        )}
+                        {isAdmin && (
+                          <Button
+                            variant="ghost"
+                            className="w-full justify-start gap-3 h-14"
+                            onClick={() => handleNavigation('/admin/roles')}
+                          >
+                            <UserCog className="h-5 w-5" />
+                            <div className="flex flex-col items-start">
+                              <span className="font-medium">
+                                จัดการสิทธิ์ผู้ใช้
+                              </span>
+                            </div>
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           className="w-full justify-start gap-3 h-14"
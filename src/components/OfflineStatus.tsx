@@ -0,0 +1,169 @@
+import {
+  AlertTriangle,
+  CloudOff,
+  CloudUpload,
+  Loader2,
+  RefreshCw,
+} from 'lucide-react'
+import { Link } from 'react-router-dom'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import type { OfflineOutbox } from '@/hooks/use-offline-outbox'
+import { formatDate } from '@/lib/reportUtils'
+import type { OutboxEntry } from '@/lib/offlineOutbox'
+
+interface OfflineStatusProps {
+  outbox: OfflineOutbox
+}
+
+const STATUS_LABELS: Record<OutboxEntry['status'], string> = {
+  pending: 'รอส่ง',
+  conflict: 'ข้อมูลขัดแย้ง',
+  failed: 'ส่งไม่สำเร็จ',
+}
+
+// Connection state and writes waiting in the offline outbox
+export const OfflineStatus = ({ outbox }: OfflineStatusProps) => {
+  const { entries, isOnline, isSyncing, sync, overwrite, retry, discard } =
+    outbox
+
+  if (isOnline && entries.length === 0) return null
+
+  const needsAttention = entries.some((entry) => entry.status !== 'pending')
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative gap-1.5"
+          aria-label="รายการรอส่ง"
+        >
+          {isOnline ? (
+            <CloudUpload className="h-4 w-4" />
+          ) : (
+            <CloudOff className="h-4 w-4 text-destructive" />
+          )}
+          <span className="hidden lg:inline">
+            {isOnline ? 'รอส่ง' : 'ออฟไลน์'}
+          </span>
+          {entries.length > 0 && (
+            <Badge
+              variant={needsAttention ? 'destructive' : 'secondary'}
+              className="h-5 px-1.5"
+            >
+              {entries.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <p className="font-semibold">
+              {isOnline ? 'ออนไลน์' : 'ไม่มีสัญญาณอินเทอร์เน็ต'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              ข้อมูลที่บันทึกขณะออฟไลน์จะส่งอัตโนมัติเมื่อกลับมาออนไลน์
+            </p>
+          </div>
+          {isOnline && entries.length > 0 && (
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0"
+              onClick={sync}
+              disabled={isSyncing}
+              aria-label="ส่งตอนนี้"
+            >
+              {isSyncing ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+            </Button>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">ไม่มีรายการรอส่ง</p>
+        ) : (
+          <div className="max-h-80 space-y-2 overflow-y-auto">
+            {entries.map((entry) => (
+              <div key={entry.id} className="space-y-2 rounded-md border p-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 text-sm">
+                    {entry.kind === 'update_report' ? (
+                      <Link
+                        to={`/report/${entry.report_id}`}
+                        className="font-medium text-primary hover:underline"
+                      >
+                        {entry.label}
+                      </Link>
+                    ) : (
+                      <span className="font-medium">{entry.label}</span>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      {formatDate(entry.created_at)}
+                    </div>
+                  </div>
+                  <Badge
+                    variant={
+                      entry.status === 'pending' ? 'secondary' : 'destructive'
+                    }
+                    className="flex-shrink-0"
+                  >
+                    {STATUS_LABELS[entry.status]}
+                  </Badge>
+                </div>
+
+                {entry.error && (
+                  <p className="flex items-start gap-1 text-xs text-destructive">
+                    <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+                    {entry.error}
+                  </p>
+                )}
+
+                {entry.status !== 'pending' && (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => discard(entry)}
+                    >
+                      ยกเลิก
+                    </Button>
+                    {entry.status === 'conflict' ? (
+                      <Button
+                        size="sm"
+                        onClick={() => overwrite(entry)}
+                        disabled={!isOnline}
+                      >
+                        ส่งทับข้อมูลล่าสุด
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => retry(entry)}
+                        disabled={!isOnline}
+                      >
+                        ลองใหม่
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
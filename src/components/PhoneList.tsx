@@ -1,4 +1,4 @@
-import { formatPhoneNumber, getPhoneLink } from '@/lib/utils'
+import { formatPhoneNumber, getPhoneLink, isMaskedPhone } from '@/lib/utils'
 
 interface PhoneListProps {
   phones: string[]
@@ -12,16 +12,23 @@ export const PhoneList = ({ phones, className = '' }: PhoneListProps) => {
 
   return (
     <div className={`flex flex-col gap-0.5 ${className}`}>
-      {phones.map((phone, idx) => (
-        <a
-          key={idx}
-          href={`tel:${getPhoneLink(phone)}`}
-          className="text-primary hover:underline"
-          onClick={(e) => e.stopPropagation()}
-        >
-          {formatPhoneNumber(phone)}
-        </a>
-      ))}
+      {phones.map((phone, idx) =>
+        // Masked numbers cannot be dialled
+        isMaskedPhone(phone) ? (
+          <span key={idx} className="text-muted-foreground">
+            {phone}
+          </span>
+        ) : (
+          <a
+            key={idx}
+            href={`tel:${getPhoneLink(phone)}`}
+            className="text-primary hover:underline"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {formatPhoneNumber(phone)}
+          </a>
+        ),
+      )}
     </div>
   )
 }
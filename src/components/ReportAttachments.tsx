@@ -0,0 +1,291 @@
+import { ImagePlus, Images, Loader2, MapPin } from 'lucide-react'
+import { useRef, useState } from 'react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  CONTACT_VIEWER_ROLES,
+  REPORT_EDITOR_ROLES,
+  STATUS_CHANGER_ROLES,
+} from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useReportAttachments,
+  useReportPhotoUrl,
+  useUploadAttachment,
+} from '@/hooks/use-attachments'
+import { useUpdateReport } from '@/hooks/use-reports'
+import { formatDate } from '@/lib/reportUtils'
+import type { AttachmentSource, ReportAttachment } from '@/types/attachment'
+import type { Report } from '@/types/report'
+
+// Same limit as the OCR upload on the input page
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+
+const SOURCE_LABELS: Record<AttachmentSource, string> = {
+  ocr: 'รูปที่ใช้อ่านข้อความ',
+  line: 'ส่งผ่าน LINE',
+  upload: 'อัปโหลดโดยทีม',
+  field_update: 'จากหน้างาน',
+}
+
+const mapsUrl = (lat: number, lng: number) =>
+  `https://www.google.com/maps?q=${lat},${lng}`
+
+interface ReportAttachmentsProps {
+  report: Report
+}
+
+// Square thumbnail; falls back to the full image if Storage can't resize it
+const AttachmentThumbnail = ({
+  attachment,
+  onOpen,
+}: {
+  attachment: ReportAttachment
+  onOpen: () => void
+}) => {
+  const [useFullImage, setUseFullImage] = useState(false)
+  const { data: url } = useReportPhotoUrl(
+    attachment.storage_path,
+    !useFullImage,
+  )
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className="relative aspect-square overflow-hidden rounded-md border bg-muted"
+    >
+      {url ? (
+        <img
+          src={url}
+          alt={SOURCE_LABELS[attachment.source]}
+          loading="lazy"
+          className="h-full w-full object-cover"
+          onError={() => setUseFullImage(true)}
+        />
+      ) : (
+        <Loader2 className="m-auto h-5 w-5 animate-spin text-muted-foreground" />
+      )}
+      {attachment.gps_lat !== null && (
+        <MapPin className="absolute bottom-1 right-1 h-4 w-4 rounded-full bg-background/80 p-0.5" />
+      )}
+    </button>
+  )
+}
+
+const AttachmentViewer = ({
+  attachment,
+  onClose,
+}: {
+  attachment: ReportAttachment | null
+  onClose: () => void
+}) => {
+  const { data: url } = useReportPhotoUrl(attachment?.storage_path ?? null)
+
+  return (
+    <Dialog open={!!attachment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        {attachment && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{SOURCE_LABELS[attachment.source]}</DialogTitle>
+              <DialogDescription>
+                {formatDate(attachment.created_at)}
+              </DialogDescription>
+            </DialogHeader>
+            {url ? (
+              <a href={url} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={url}
+                  alt={SOURCE_LABELS[attachment.source]}
+                  className="max-h-[70vh] w-full rounded-md object-contain"
+                />
+              </a>
+            ) : (
+              <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+            )}
+            {attachment.gps_lat !== null && attachment.gps_long !== null && (
+              <a
+                href={mapsUrl(attachment.gps_lat, attachment.gps_long)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-sm text-primary hover:underline"
+              >
+                <MapPin className="h-4 w-4" />
+                ถ่ายที่ {attachment.gps_lat.toFixed(5)},{' '}
+                {attachment.gps_long.toFixed(5)}
+              </a>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Photos on a case: the image a report was read from, LINE photos, and what
+// responders add later. Only shown to roles that may see contact details.
+export const ReportAttachments = ({ report }: ReportAttachmentsProps) => {
+  const { hasRole } = useAuth()
+  const canView = hasRole(CONTACT_VIEWER_ROLES)
+  const canUpload = hasRole(STATUS_CHANGER_ROLES)
+  const canEdit = hasRole(REPORT_EDITOR_ROLES)
+  const { data: attachments = [], isLoading } = useReportAttachments(
+    canView ? report.id : undefined,
+  )
+  const uploadAttachment = useUploadAttachment()
+  const updateReport = useUpdateReport()
+  const [selected, setSelected] = useState<ReportAttachment | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // A photo's GPS is only a suggestion, offered while the case has no position
+  const gpsSuggestion =
+    !report.location_lat && !report.location_long
+      ? attachments.find((a) => a.gps_lat !== null && a.gps_long !== null)
+      : undefined
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (!['image/jpeg', 'image/png'].includes(file.type)) {
+      toast.error('รองรับเฉพาะรูปภาพ JPEG และ PNG')
+      return
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      toast.error('ไฟล์รูปภาพต้องมีขนาดไม่เกิน 10MB')
+      return
+    }
+
+    try {
+      const attachment = await uploadAttachment.mutateAsync({
+        reportId: report.id,
+        file,
+      })
+      toast.success('เพิ่มรูปภาพแล้ว', {
+        description:
+          attachment.gps_lat !== null ? 'พบพิกัด GPS ในรูปนี้' : undefined,
+      })
+    } catch (err) {
+      console.error('Attachment upload error:', err)
+      toast.error('ไม่สามารถเพิ่มรูปภาพได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  const applyPhotoLocation = async (attachment: ReportAttachment) => {
+    try {
+      await updateReport.mutateAsync({
+        id: report.id,
+        data: {
+          location_lat: attachment.gps_lat,
+          location_long: attachment.gps_long,
+          map_link: mapsUrl(attachment.gps_lat!, attachment.gps_long!),
+        },
+      })
+      toast.success('ใช้พิกัดจากรูปเป็นตำแหน่งเคสแล้ว')
+    } catch (err) {
+      toast.error('ไม่สามารถบันทึกพิกัดได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  if (!canView || (!canUpload && attachments.length === 0)) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Images className="h-5 w-5" />
+            รูปภาพ
+            {attachments.length > 0 && (
+              <Badge variant="secondary">{attachments.length}</Badge>
+            )}
+          </CardTitle>
+          {canUpload && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadAttachment.isPending}
+              >
+                {uploadAttachment.isPending ? (
+                  <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                ) : (
+                  <ImagePlus className="mr-1 h-4 w-4" />
+                )}
+                เพิ่มรูป
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/jpeg,image/png"
+                className="hidden"
+                onChange={handleUpload}
+              />
+            </>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {gpsSuggestion && canEdit && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-muted/50 p-3 text-sm">
+            <span className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 shrink-0" />
+              เคสนี้ยังไม่มีพิกัด แต่รูปมีพิกัด GPS{' '}
+              {gpsSuggestion.gps_lat!.toFixed(5)},{' '}
+              {gpsSuggestion.gps_long!.toFixed(5)}
+            </span>
+            <Button
+              size="sm"
+              onClick={() => applyPhotoLocation(gpsSuggestion)}
+              disabled={updateReport.isPending}
+            >
+              ใช้พิกัดจากรูป
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : attachments.length > 0 ? (
+          <div className="grid grid-cols-3 gap-2 sm:grid-cols-4 md:grid-cols-6">
+            {attachments.map((attachment) => (
+              <AttachmentThumbnail
+                key={attachment.id}
+                attachment={attachment}
+                onOpen={() => setSelected(attachment)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            ยังไม่มีรูปภาพสำหรับเคสนี้
+          </p>
+        )}
+      </CardContent>
+
+      <AttachmentViewer
+        attachment={selected}
+        onClose={() => setSelected(null)}
+      />
+    </Card>
+  )
+}
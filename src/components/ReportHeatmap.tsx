@@ -11,7 +11,11 @@ import {
 } from 'recharts'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { HELP_CATEGORIES, URGENCY_COLORS } from '@/constants/helpCategories'
+import {
+  HELP_CATEGORIES,
+  URGENCY_COLORS,
+  URGENCY_LEVELS,
+} from '@/constants/helpCategories'
 
 interface Report {
   id: string
@@ -195,14 +199,11 @@ const ReportHeatmap = ({ reports }: ReportHeatmapProps) => {
             {/* Legend */}
             <div className="flex items-center justify-center gap-4 mt-6 flex-wrap">
               <span className="text-sm font-medium">ระดับความเร่งด่วน:</span>
-              {[1, 2, 3, 4, 5].map((level) => (
+              {URGENCY_LEVELS.map(({ level, color }) => (
                 <div key={level} className="flex items-center gap-2">
                   <div
                     className="w-4 h-4 rounded-full"
-                    style={{
-                      backgroundColor:
-                        URGENCY_COLORS[level as keyof typeof URGENCY_COLORS],
-                    }}
+                    style={{ backgroundColor: color }}
                   />
                   <span className="text-sm">ระดับ {level}</span>
                 </div>
@@ -0,0 +1,61 @@
+import { GitMerge } from 'lucide-react'
+import { Link } from 'react-router-dom'
+
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useReportSources } from '@/hooks/use-reports'
+import { formatCaseId, formatDate } from '@/lib/reportUtils'
+
+interface ReportSourcesProps {
+  reportId: string
+}
+
+// Original messages of every report merged into this one
+export const ReportSources = ({ reportId }: ReportSourcesProps) => {
+  const { data: sources = [] } = useReportSources(reportId)
+
+  // Nothing has been merged into this report yet
+  if (sources.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitMerge className="h-5 w-5" />
+          ข้อความที่รวมเข้ามา ({sources.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sources.map((source) => (
+          <div key={source.id} className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {source.source_report_id === reportId ? (
+                <Badge>รายงานหลัก</Badge>
+              ) : source.source_report_id ? (
+                <Link
+                  to={`/report/${source.source_report_id}`}
+                  className="font-mono text-xs text-primary hover:underline"
+                >
+                  {formatCaseId(source.source_report_id)}
+                </Link>
+              ) : (
+                <Badge variant="outline">ส่งเข้ามาใหม่</Badge>
+              )}
+              {source.line_display_name && (
+                <span>LINE: {source.line_display_name}</span>
+              )}
+              {source.created_at && (
+                <span className="text-muted-foreground">
+                  {formatDate(source.created_at)}
+                </span>
+              )}
+            </div>
+            <div className="whitespace-pre-wrap rounded-lg bg-muted/50 p-3 text-sm">
+              {source.raw_message}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
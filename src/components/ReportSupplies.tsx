@@ -0,0 +1,207 @@
+import { Loader2, Package, Pencil, Plus, Save, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import {
+  SupplyFulfilmentDialog,
+  SupplyStatusBadge,
+} from '@/components/SupplyFulfilment'
+import { SupplyItemsEditor } from '@/components/SupplyItemsEditor'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  REPORT_EDITOR_ROLES,
+  SUPPLY_CATEGORIES,
+} from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useAddSupplyItems,
+  useDeleteSupplyItem,
+  useReportSupplies,
+} from '@/hooks/use-supplies'
+import {
+  cleanSupplyItems,
+  deriveSupplyItems,
+  getCategoryLabel,
+} from '@/lib/reportUtils'
+import type { Report } from '@/types/report'
+import type { SupplyItem, SupplyItemDraft } from '@/types/supply'
+
+interface ReportSuppliesProps {
+  report: Report
+}
+
+const getCategoryIcon = (categoryId: string) =>
+  SUPPLY_CATEGORIES.find((category) => category.id === categoryId)?.icon || '📦'
+
+// Requested supplies for a case and how far each one is from delivery
+export const ReportSupplies = ({ report }: ReportSuppliesProps) => {
+  const { hasRole } = useAuth()
+  const canEdit = hasRole(REPORT_EDITOR_ROLES)
+  const { data: items = [], isLoading } = useReportSupplies(report.id)
+  const addSupplyItems = useAddSupplyItems()
+  const deleteSupplyItem = useDeleteSupplyItem()
+  const [drafts, setDrafts] = useState<SupplyItemDraft[] | null>(null)
+  const [editingItem, setEditingItem] = useState<SupplyItem | null>(null)
+
+  const startAdding = () => {
+    // Suggest items from the help categories the first time
+    const suggested = items.length === 0 ? deriveSupplyItems(report) : []
+    setDrafts(
+      suggested.length > 0
+        ? suggested
+        : [{ category: 'other', item: '', quantity: 1, unit: 'ชิ้น' }],
+    )
+  }
+
+  const handleSaveDrafts = async () => {
+    const cleaned = cleanSupplyItems(drafts || [])
+    if (cleaned.length === 0) {
+      toast.error('กรุณาระบุสิ่งของอย่างน้อย 1 รายการ')
+      return
+    }
+
+    try {
+      await addSupplyItems.mutateAsync({ reportId: report.id, items: cleaned })
+      toast.success(`เพิ่มรายการสิ่งของ ${cleaned.length} รายการแล้ว`)
+      setDrafts(null)
+    } catch (err) {
+      toast.error('ไม่สามารถเพิ่มรายการได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  const handleDelete = async (item: SupplyItem) => {
+    try {
+      await deleteSupplyItem.mutateAsync(item.id)
+    } catch (err) {
+      toast.error('ไม่สามารถลบรายการได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  // Nothing requested and nothing the viewer can add
+  if (!canEdit && items.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            สิ่งของที่ต้องการ
+          </CardTitle>
+          {canEdit && !drafts && (
+            <Button variant="outline" size="sm" onClick={startAdding}>
+              <Plus className="mr-1 h-4 w-4" />
+              เพิ่มรายการ
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          items.length > 0 && (
+            <div className="divide-y">
+              {items.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex flex-wrap items-center justify-between gap-2 py-2"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium">
+                      {getCategoryIcon(item.category)} {item.item}{' '}
+                      <span className="text-muted-foreground">
+                        {item.quantity} {item.unit}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {getCategoryLabel(item.category)}
+                      {item.fulfilled_by && ` · จัดหาโดย ${item.fulfilled_by}`}
+                      {item.fulfilment_note && ` · ${item.fulfilment_note}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <SupplyStatusBadge status={item.status} />
+                    {canEdit && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setEditingItem(item)}
+                          aria-label="อัปเดตการจัดหา"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleDelete(item)}
+                          disabled={deleteSupplyItem.isPending}
+                          aria-label="ลบรายการ"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {drafts && (
+          <div className="space-y-3 rounded-lg bg-muted/30 p-3">
+            <SupplyItemsEditor
+              items={drafts}
+              onChange={setDrafts}
+              disabled={addSupplyItems.isPending}
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDrafts(null)}
+                disabled={addSupplyItems.isPending}
+              >
+                ยกเลิก
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSaveDrafts}
+                disabled={addSupplyItems.isPending}
+              >
+                {addSupplyItems.isPending ? (
+                  <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-1 h-4 w-4" />
+                )}
+                บันทึกรายการ
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!isLoading && items.length === 0 && !drafts && (
+          <p className="text-sm text-muted-foreground">
+            ยังไม่มีรายการสิ่งของสำหรับเคสนี้
+          </p>
+        )}
+      </CardContent>
+
+      <SupplyFulfilmentDialog
+        item={editingItem}
+        onOpenChange={(open) => !open && setEditingItem(null)}
+      />
+    </Card>
+  )
+}
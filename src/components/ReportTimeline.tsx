@@ -0,0 +1,228 @@
+import { Camera, History, Loader2, MapPin, Undo2, Users } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useReportPhotoUrl } from '@/hooks/use-attachments'
+import { useReportEvents, useUpdateReport } from '@/hooks/use-reports'
+import { useShelters } from '@/hooks/use-shelters'
+import {
+  formatDate,
+  getCategoryLabel,
+  getFieldLabel,
+  getStatusLabel,
+} from '@/lib/reportUtils'
+import type { Report, ReportEvent } from '@/types/report'
+
+// Assignment and merge fields change only through their own workflows, not by direct revert
+const NON_REVERTIBLE_FIELDS = [
+  'assigned_team_id',
+  'assigned_at',
+  'assigned_by',
+  'duplicate_of',
+]
+
+const formatValue = (
+  field: string,
+  value: unknown,
+  shelterNames: Map<string, string>,
+): string => {
+  if (value === null || value === undefined || value === '') return '-'
+  if (field === 'status') return getStatusLabel(String(value))
+  if (field === 'shelter_id') {
+    return shelterNames.get(String(value)) ?? String(value)
+  }
+  if (field === 'help_categories' && Array.isArray(value)) {
+    return value.length > 0 ? value.map(getCategoryLabel).join(', ') : '-'
+  }
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '-'
+  return String(value)
+}
+
+const EVENT_LABELS: Record<ReportEvent['event_type'], string> = {
+  created: 'สร้างรายงาน',
+  updated: 'แก้ไข',
+  field_update: 'อัปเดตหน้างาน',
+}
+
+const getActorLabel = (event: ReportEvent): string => {
+  if (event.actor_user_id) return event.actor_name || 'ผู้ใช้ที่เข้าสู่ระบบ'
+  if (event.actor_api_key_id) return `API: ${event.actor_name || 'API key'}`
+  if (event.actor_line_user_id) return `LINE: ${event.actor_name || '-'}`
+  return 'ไม่ระบุตัวตน'
+}
+
+interface ReportTimelineProps {
+  reportId: string
+}
+
+// Photo taken with a field update; the bucket is private so it needs a signed link
+const FieldUpdatePhoto = ({ path }: { path: string }) => {
+  const { data: url, isLoading } = useReportPhotoUrl(path)
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+  }
+  if (!url) return null
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      <img
+        src={url}
+        alt="รูปจากหน้างาน"
+        className="max-h-48 rounded-md border object-cover"
+      />
+    </a>
+  )
+}
+
+// What the team recorded on site, shown above the field diff
+const FieldUpdateDetails = ({ event }: { event: ReportEvent }) => (
+  <div className="mt-2 space-y-2 text-sm">
+    {event.people_rescued !== null && (
+      <div className="flex items-center gap-2">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        ช่วยออกมาได้ {event.people_rescued} คน
+      </div>
+    )}
+    {event.note && (
+      <p className="whitespace-pre-wrap rounded-md bg-muted/40 p-2">
+        {event.note}
+      </p>
+    )}
+    {event.photo_path && (
+      <div className="flex items-start gap-2">
+        <Camera className="mt-1 h-4 w-4 shrink-0 text-muted-foreground" />
+        <FieldUpdatePhoto path={event.photo_path} />
+      </div>
+    )}
+    {event.device_lat !== null && event.device_long !== null && (
+      <a
+        href={`https://www.google.com/maps?q=${event.device_lat},${event.device_long}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center gap-2 text-primary hover:underline"
+      >
+        <MapPin className="h-4 w-4" />
+        บันทึกที่ {event.device_lat.toFixed(5)}, {event.device_long.toFixed(5)}
+      </a>
+    )}
+  </div>
+)
+
+export const ReportTimeline = ({ reportId }: ReportTimelineProps) => {
+  const { data: events = [], isLoading } = useReportEvents(reportId)
+  const updateReport = useUpdateReport()
+  const { data: shelters = [] } = useShelters()
+  const shelterNames = new Map(
+    shelters.map((shelter) => [shelter.id, shelter.name]),
+  )
+
+  const handleRevert = async (field: string, value: unknown) => {
+    try {
+      await updateReport.mutateAsync({
+        id: reportId,
+        data: { [field]: value } as Partial<Report>,
+      })
+      toast.success(`ย้อนค่า "${getFieldLabel(field)}" แล้ว`)
+    } catch (err) {
+      toast.error('ไม่สามารถย้อนค่าได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          ประวัติการเปลี่ยนแปลง
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            ยังไม่มีประวัติการเปลี่ยนแปลง
+          </p>
+        ) : (
+          <ol className="border-l border-border ml-2 space-y-6">
+            {events.map((event) => {
+              // A field visit always touches last_contact_at; the visit itself says that
+              const fields = Object.entries(event.changes || {}).filter(
+                ([field]) =>
+                  event.event_type !== 'field_update' ||
+                  field !== 'last_contact_at',
+              )
+
+              return (
+                <li key={event.id} className="relative ml-4">
+                  <div className="absolute -left-[1.4rem] top-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge
+                      variant={
+                        event.event_type === 'created' ? 'default' : 'secondary'
+                      }
+                    >
+                      {EVENT_LABELS[event.event_type] ?? event.event_type}
+                    </Badge>
+                    <span className="font-medium">{getActorLabel(event)}</span>
+                    <span className="text-muted-foreground">
+                      {formatDate(event.created_at)}
+                    </span>
+                  </div>
+
+                  {event.event_type === 'field_update' && (
+                    <FieldUpdateDetails event={event} />
+                  )}
+
+                  {event.event_type !== 'created' && (
+                    <div className="mt-2 space-y-2">
+                      {fields.map(([field, change]) => (
+                        <div
+                          key={field}
+                          className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md bg-muted/40 p-2 text-sm"
+                        >
+                          <div className="min-w-0 break-words">
+                            <span className="font-medium">
+                              {getFieldLabel(field)}:
+                            </span>{' '}
+                            <span className="text-muted-foreground line-through">
+                              {formatValue(field, change.old, shelterNames)}
+                            </span>{' '}
+                            →{' '}
+                            <span>
+                              {formatValue(field, change.new, shelterNames)}
+                            </span>
+                          </div>
+                          {!NON_REVERTIBLE_FIELDS.includes(field) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="shrink-0"
+                              disabled={updateReport.isPending}
+                              onClick={() => handleRevert(field, change.old)}
+                            >
+                              <Undo2 className="mr-1 h-3 w-3" />
+                              ย้อนค่านี้
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,293 @@
+import { Loader2, Save } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useCreateShelter, useUpdateShelter } from '@/hooks/use-shelters'
+import type { Shelter, ShelterInput } from '@/types/shelter'
+
+interface ShelterDialogProps {
+  // Omitted when registering a new shelter
+  shelter?: Shelter
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const EMPTY_SHELTER: ShelterInput = {
+  name: '',
+  address: null,
+  location_lat: null,
+  location_long: null,
+  capacity: 0,
+  current_occupancy: 0,
+  supplies_on_hand: null,
+  contact_name: null,
+  contact_phone: null,
+  is_active: true,
+}
+
+const toInput = (shelter?: Shelter): ShelterInput =>
+  shelter
+    ? {
+        name: shelter.name,
+        address: shelter.address,
+        location_lat: shelter.location_lat,
+        location_long: shelter.location_long,
+        capacity: shelter.capacity,
+        current_occupancy: shelter.current_occupancy,
+        supplies_on_hand: shelter.supplies_on_hand,
+        contact_name: shelter.contact_name,
+        contact_phone: shelter.contact_phone,
+        is_active: shelter.is_active,
+      }
+    : EMPTY_SHELTER
+
+const parseCoordinate = (value: string) =>
+  value.trim() ? parseFloat(value) : null
+
+export function ShelterDialog({
+  shelter,
+  open,
+  onOpenChange,
+}: ShelterDialogProps) {
+  const [formData, setFormData] = useState<ShelterInput>(toInput(shelter))
+  const createShelter = useCreateShelter()
+  const updateShelter = useUpdateShelter()
+  const isSaving = createShelter.isPending || updateShelter.isPending
+
+  useEffect(() => {
+    if (open) setFormData(toInput(shelter))
+  }, [open, shelter])
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast.error('กรุณาระบุชื่อศูนย์พักพิง')
+      return
+    }
+
+    const data: ShelterInput = {
+      ...formData,
+      name: formData.name.trim(),
+      address: formData.address?.trim() || null,
+      supplies_on_hand: formData.supplies_on_hand?.trim() || null,
+      contact_name: formData.contact_name?.trim() || null,
+      contact_phone: formData.contact_phone?.trim() || null,
+    }
+
+    try {
+      if (shelter) {
+        await updateShelter.mutateAsync({ id: shelter.id, updates: data })
+      } else {
+        await createShelter.mutateAsync(data)
+      }
+      toast.success(
+        shelter ? 'บันทึกข้อมูลศูนย์พักพิงแล้ว' : 'เพิ่มศูนย์พักพิงแล้ว',
+      )
+      onOpenChange(false)
+    } catch (err) {
+      console.error('Shelter save error:', err)
+      toast.error('ไม่สามารถบันทึกข้อมูลศูนย์พักพิงได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {shelter ? 'แก้ไขศูนย์พักพิง' : 'เพิ่มศูนย์พักพิง'}
+          </DialogTitle>
+          <DialogDescription>
+            จำนวนผู้พักอาศัยจะเพิ่มขึ้นอัตโนมัติเมื่อเคสถูกบันทึกว่าอพยพมาที่นี่
+            แก้ไขเองได้สำหรับผู้ที่เดินทางมาเอง
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="shelter-name">ชื่อศูนย์พักพิง *</Label>
+            <Input
+              id="shelter-name"
+              value={formData.name}
+              onChange={(e) =>
+                setFormData({ ...formData, name: e.target.value })
+              }
+              placeholder="เช่น โรงเรียนวัดบางพลี"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="shelter-address">ที่อยู่</Label>
+            <Textarea
+              id="shelter-address"
+              value={formData.address || ''}
+              onChange={(e) =>
+                setFormData({ ...formData, address: e.target.value })
+              }
+              rows={2}
+              placeholder="-"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="shelter-lat">ละติจูด</Label>
+              <Input
+                id="shelter-lat"
+                value={formData.location_lat ?? ''}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    location_lat: parseCoordinate(e.target.value),
+                  })
+                }
+                placeholder="-"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="shelter-long">ลองติจูด</Label>
+              <Input
+                id="shelter-long"
+                value={formData.location_long ?? ''}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    location_long: parseCoordinate(e.target.value),
+                  })
+                }
+                placeholder="-"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="shelter-capacity">ความจุ (คน)</Label>
+              <Input
+                id="shelter-capacity"
+                type="number"
+                min="0"
+                value={formData.capacity}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    capacity: parseInt(e.target.value) || 0,
+                  })
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="shelter-occupancy">
+                ผู้พักอาศัยปัจจุบัน (คน)
+              </Label>
+              <Input
+                id="shelter-occupancy"
+                type="number"
+                min="0"
+                value={formData.current_occupancy}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    current_occupancy: parseInt(e.target.value) || 0,
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="shelter-supplies">สิ่งของที่มีอยู่</Label>
+            <Textarea
+              id="shelter-supplies"
+              value={formData.supplies_on_hand || ''}
+              onChange={(e) =>
+                setFormData({ ...formData, supplies_on_hand: e.target.value })
+              }
+              rows={3}
+              placeholder="เช่น น้ำดื่ม 200 ขวด, ข้าวสาร 50 กก., ผ้าห่ม 30 ผืน"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="shelter-contact-name">ผู้ประสานงาน</Label>
+              <Input
+                id="shelter-contact-name"
+                value={formData.contact_name || ''}
+                onChange={(e) =>
+                  setFormData({ ...formData, contact_name: e.target.value })
+                }
+                placeholder="-"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="shelter-contact-phone">เบอร์ติดต่อ</Label>
+              <Input
+                id="shelter-contact-phone"
+                value={formData.contact_phone || ''}
+                onChange={(e) =>
+                  setFormData({ ...formData, contact_phone: e.target.value })
+                }
+                placeholder="-"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="shelter-active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) =>
+                setFormData({ ...formData, is_active: checked === true })
+              }
+            />
+            <Label htmlFor="shelter-active" className="cursor-pointer">
+              เปิดรับผู้อพยพ
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            ยกเลิก
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                กำลังบันทึก...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                บันทึก
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
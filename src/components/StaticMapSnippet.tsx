@@ -0,0 +1,41 @@
+import { getStaticMapTiles } from '@/lib/caseSheets'
+
+interface StaticMapSnippetProps {
+  lat: number
+  lng: number
+  zoom?: number
+  width?: number
+  height?: number
+}
+
+// Non-interactive map image with a pin in the middle, for printing
+export const StaticMapSnippet = ({
+  lat,
+  lng,
+  zoom = 15,
+  width = 320,
+  height = 200,
+}: StaticMapSnippetProps) => {
+  const tiles = getStaticMapTiles(lat, lng, zoom, width, height)
+
+  return (
+    <div
+      className="relative overflow-hidden rounded border bg-muted"
+      style={{ width, height }}
+    >
+      {tiles.map((tile) => (
+        <img
+          key={tile.url}
+          src={tile.url}
+          alt=""
+          className="absolute max-w-none"
+          style={{ left: tile.left, top: tile.top, width: 256, height: 256 }}
+        />
+      ))}
+      <div className="absolute left-1/2 top-1/2 h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-red-600 shadow" />
+      <span className="absolute bottom-0 right-0 bg-white/80 px-1 text-[9px] text-gray-700">
+        © OpenStreetMap contributors
+      </span>
+    </div>
+  )
+}
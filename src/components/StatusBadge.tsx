@@ -0,0 +1,50 @@
+import { MessageSquareText } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { STATUS_OPTIONS } from '@/constants/helpCategories'
+import { getStatusLabel } from '@/lib/reportUtils'
+import type { Report } from '@/types/report'
+
+interface StatusBadgeProps {
+  status: Report['status'] | null
+  reason?: string | null
+}
+
+export const StatusBadge = ({ status, reason }: StatusBadgeProps) => {
+  if (!status) return <Badge variant="outline">-</Badge>
+
+  const color = STATUS_OPTIONS.find((option) => option.value === status)?.color
+
+  const badge = (
+    <Badge
+      variant="outline"
+      className="gap-1.5 whitespace-nowrap"
+      style={color ? { borderColor: color } : undefined}
+    >
+      <span
+        className="h-2 w-2 rounded-full"
+        style={color ? { backgroundColor: color } : undefined}
+      />
+      {getStatusLabel(status)}
+      {reason && <MessageSquareText className="h-3 w-3" />}
+    </Badge>
+  )
+
+  if (!reason) return badge
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex">{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <span className="font-medium">เหตุผล:</span> {reason}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
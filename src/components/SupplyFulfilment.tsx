@@ -0,0 +1,185 @@
+import { Loader2, Save } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  SUPPLY_STATUS_OPTIONS,
+  SUPPLY_STATUS_TRANSITIONS,
+} from '@/constants/helpCategories'
+import { useUpdateSupplyItem } from '@/hooks/use-supplies'
+import { getSupplyStatusLabel } from '@/lib/reportUtils'
+import type { SupplyItem, SupplyStatus } from '@/types/supply'
+
+export const SupplyStatusBadge = ({ status }: { status: SupplyStatus }) => {
+  const color = SUPPLY_STATUS_OPTIONS.find(
+    (option) => option.value === status,
+  )?.color
+
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1.5 whitespace-nowrap"
+      style={color ? { borderColor: color } : undefined}
+    >
+      <span
+        className="h-2 w-2 rounded-full"
+        style={color ? { backgroundColor: color } : undefined}
+      />
+      {getSupplyStatusLabel(status)}
+    </Badge>
+  )
+}
+
+interface SupplyFulfilmentDialogProps {
+  item: SupplyItem | null
+  onOpenChange: (open: boolean) => void
+}
+
+// Move a supply item along the donor/warehouse fulfilment workflow
+export const SupplyFulfilmentDialog = ({
+  item,
+  onOpenChange,
+}: SupplyFulfilmentDialogProps) => {
+  const [status, setStatus] = useState<SupplyStatus>('requested')
+  const [fulfilledBy, setFulfilledBy] = useState('')
+  const [note, setNote] = useState('')
+  const updateSupplyItem = useUpdateSupplyItem()
+
+  useEffect(() => {
+    if (!item) return
+    setStatus(item.status)
+    setFulfilledBy(item.fulfilled_by || '')
+    setNote(item.fulfilment_note || '')
+  }, [item])
+
+  if (!item) return null
+
+  const statusOptions = [item.status, ...SUPPLY_STATUS_TRANSITIONS[item.status]]
+  // Anything past "requested" needs to say who is supplying it
+  const needsSource = status === 'pledged' || status === 'dispatched'
+
+  const handleSave = async () => {
+    if (needsSource && !fulfilledBy.trim()) {
+      toast.error('กรุณาระบุผู้บริจาคหรือคลังที่จัดหา')
+      return
+    }
+
+    try {
+      await updateSupplyItem.mutateAsync({
+        id: item.id,
+        updates: {
+          status,
+          fulfilled_by:
+            status === 'requested' ? null : fulfilledBy.trim() || null,
+          fulfilment_note: note.trim() || null,
+        },
+      })
+      toast.success('อัปเดตสถานะสิ่งของแล้ว', {
+        description: `${item.item}: ${getSupplyStatusLabel(status)}`,
+      })
+      onOpenChange(false)
+    } catch (err) {
+      toast.error('ไม่สามารถอัปเดตสถานะได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>อัปเดตการจัดหา</DialogTitle>
+          <DialogDescription>
+            {item.item} {item.quantity} {item.unit}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="supply-status">สถานะ</Label>
+            <Select
+              value={status}
+              onValueChange={(value) => setStatus(value as SupplyStatus)}
+            >
+              <SelectTrigger id="supply-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {getSupplyStatusLabel(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {status !== 'requested' && (
+            <div className="space-y-2">
+              <Label htmlFor="supply-fulfilled-by">
+                ผู้บริจาค / คลังที่จัดหา{needsSource ? ' *' : ''}
+              </Label>
+              <Input
+                id="supply-fulfilled-by"
+                value={fulfilledBy}
+                onChange={(e) => setFulfilledBy(e.target.value)}
+                placeholder="เช่น คลังจังหวัด, มูลนิธิ..."
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="supply-note">หมายเหตุ</Label>
+            <Textarea
+              id="supply-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              placeholder="-"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={updateSupplyItem.isPending}
+          >
+            ยกเลิก
+          </Button>
+          <Button onClick={handleSave} disabled={updateSupplyItem.isPending}>
+            {updateSupplyItem.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            บันทึก
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
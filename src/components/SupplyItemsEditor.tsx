@@ -0,0 +1,131 @@
+import { Plus, Trash2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  SUPPLY_CATEGORIES,
+  SUPPLY_DEFAULTS,
+  type HelpCategoryId,
+} from '@/constants/helpCategories'
+import type { SupplyItemDraft } from '@/types/supply'
+
+interface SupplyItemsEditorProps {
+  items: SupplyItemDraft[]
+  onChange: (items: SupplyItemDraft[]) => void
+  disabled?: boolean
+}
+
+// Editable list of requested supplies (category, item, quantity, unit)
+export const SupplyItemsEditor = ({
+  items,
+  onChange,
+  disabled,
+}: SupplyItemsEditorProps) => {
+  const updateItem = (index: number, changes: Partial<SupplyItemDraft>) => {
+    onChange(
+      items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    )
+  }
+
+  const changeCategory = (index: number, category: string) => {
+    const defaults = SUPPLY_DEFAULTS[category as HelpCategoryId]
+    const current = items[index]
+    updateItem(index, {
+      category,
+      // Keep anything the user typed; fill blanks from the category default
+      item: current.item.trim() ? current.item : defaults?.item || '',
+      unit: current.unit.trim() ? current.unit : defaults?.unit || 'ชิ้น',
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.length === 0 && (
+        <p className="text-sm text-muted-foreground">ยังไม่มีรายการสิ่งของ</p>
+      )}
+
+      {items.map((item, index) => (
+        <div
+          key={index}
+          className="grid grid-cols-[1fr_auto] gap-2 rounded-md border p-2 md:grid-cols-[10rem_1fr_6rem_6rem_auto] md:border-0 md:p-0"
+        >
+          <Select
+            value={item.category}
+            onValueChange={(value) => changeCategory(index, value)}
+            disabled={disabled}
+          >
+            <SelectTrigger aria-label="หมวด">
+              <SelectValue placeholder="หมวด" />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPLY_CATEGORIES.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.icon} {category.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={item.item}
+            onChange={(e) => updateItem(index, { item: e.target.value })}
+            placeholder="สิ่งของ"
+            aria-label="สิ่งของ"
+            disabled={disabled}
+            className="col-span-2 md:col-span-1"
+          />
+          <Input
+            type="number"
+            min="1"
+            value={item.quantity}
+            onChange={(e) =>
+              updateItem(index, { quantity: parseFloat(e.target.value) || 0 })
+            }
+            aria-label="จำนวน"
+            disabled={disabled}
+          />
+          <Input
+            value={item.unit}
+            onChange={(e) => updateItem(index, { unit: e.target.value })}
+            placeholder="หน่วย"
+            aria-label="หน่วย"
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label="ลบรายการ"
+            className="row-start-1 col-start-2 md:row-auto md:col-auto"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onChange([
+            ...items,
+            { category: 'other', item: '', quantity: 1, unit: 'ชิ้น' },
+          ])
+        }
+        disabled={disabled}
+      >
+        <Plus className="mr-1 h-4 w-4" />
+        เพิ่มรายการ
+      </Button>
+    </div>
+  )
+}
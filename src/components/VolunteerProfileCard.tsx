@@ -0,0 +1,276 @@
+import { Loader2, LocateFixed, Save } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { VOLUNTEER_SKILLS } from '@/constants/helpCategories'
+import {
+  useMyVolunteerProfile,
+  useUpdateVolunteerProfile,
+} from '@/hooks/use-volunteers'
+import type { VolunteerProfile, VolunteerProfileInput } from '@/types/volunteer'
+
+const toInput = (profile?: VolunteerProfile | null): VolunteerProfileInput => ({
+  full_name: profile?.full_name ?? null,
+  phone: profile?.phone ?? null,
+  is_volunteer: profile?.is_volunteer ?? false,
+  skills: profile?.skills ?? [],
+  equipment: profile?.equipment ?? null,
+  home_base: profile?.home_base ?? null,
+  home_lat: profile?.home_lat ?? null,
+  home_long: profile?.home_long ?? null,
+  is_on_duty: profile?.is_on_duty ?? false,
+})
+
+const parseCoordinate = (value: string) =>
+  value.trim() ? parseFloat(value) : null
+
+// The logged-in user's volunteer registration and on-duty switch
+export const VolunteerProfileCard = () => {
+  const { data: profile, isLoading } = useMyVolunteerProfile()
+  const updateProfile = useUpdateVolunteerProfile()
+  // Unsaved edits; the saved profile is shown until the user changes something
+  const [draft, setDraft] = useState<VolunteerProfileInput | null>(null)
+  const [isLocating, setIsLocating] = useState(false)
+  const formData = draft ?? toInput(profile)
+
+  const updateField = (changes: Partial<VolunteerProfileInput>) => {
+    setDraft({ ...formData, ...changes })
+  }
+
+  const toggleSkill = (skillId: string, checked: boolean) => {
+    updateField({
+      skills: checked
+        ? [...formData.skills, skillId]
+        : formData.skills.filter((skill) => skill !== skillId),
+    })
+  }
+
+  const fillCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('อุปกรณ์นี้ไม่รองรับการระบุตำแหน่ง')
+      return
+    }
+
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setDraft((current) => ({
+          ...(current ?? toInput(profile)),
+          home_lat: Number(position.coords.latitude.toFixed(6)),
+          home_long: Number(position.coords.longitude.toFixed(6)),
+        }))
+        setIsLocating(false)
+      },
+      (err) => {
+        setIsLocating(false)
+        toast.error('ไม่สามารถระบุตำแหน่งได้', { description: err.message })
+      },
+    )
+  }
+
+  // Going on or off duty is saved straight away
+  const handleDutyChange = async (isOnDuty: boolean) => {
+    try {
+      await updateProfile.mutateAsync({ is_on_duty: isOnDuty })
+      toast.success(isOnDuty ? 'เริ่มปฏิบัติหน้าที่แล้ว' : 'ออกจากหน้าที่แล้ว')
+    } catch (err) {
+      toast.error('ไม่สามารถเปลี่ยนสถานะได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  const handleSave = async () => {
+    if (formData.skills.length === 0) {
+      toast.error('กรุณาเลือกความสามารถอย่างน้อย 1 อย่าง')
+      return
+    }
+
+    // Duty status has its own switch and is not part of the form
+    const { is_on_duty: _isOnDuty, ...fields } = formData
+
+    try {
+      await updateProfile.mutateAsync({
+        ...fields,
+        is_volunteer: true,
+        full_name: formData.full_name?.trim() || null,
+        phone: formData.phone?.trim() || null,
+        equipment: formData.equipment?.trim() || null,
+        home_base: formData.home_base?.trim() || null,
+      })
+      toast.success(
+        profile?.is_volunteer
+          ? 'บันทึกข้อมูลอาสาสมัครแล้ว'
+          : 'ลงทะเบียนอาสาสมัครแล้ว',
+      )
+      setDraft(null)
+    } catch (err) {
+      console.error('Volunteer profile save error:', err)
+      toast.error('ไม่สามารถบันทึกข้อมูลได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <CardTitle>
+            {profile?.is_volunteer
+              ? 'ข้อมูลอาสาสมัครของฉัน'
+              : 'ลงทะเบียนเป็นอาสาสมัคร'}
+          </CardTitle>
+          {profile?.is_volunteer && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="volunteer-on-duty"
+                checked={profile.is_on_duty}
+                onCheckedChange={handleDutyChange}
+                disabled={updateProfile.isPending}
+              />
+              <Label htmlFor="volunteer-on-duty">
+                {profile.is_on_duty
+                  ? 'กำลังปฏิบัติหน้าที่'
+                  : 'ไม่ได้ปฏิบัติหน้าที่'}
+              </Label>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="volunteer-name">ชื่อ</Label>
+            <Input
+              id="volunteer-name"
+              value={formData.full_name || ''}
+              onChange={(e) => updateField({ full_name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="volunteer-phone">เบอร์ติดต่อ</Label>
+            <Input
+              id="volunteer-phone"
+              type="tel"
+              value={formData.phone || ''}
+              onChange={(e) => updateField({ phone: e.target.value })}
+              placeholder="08x-xxx-xxxx"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>ความสามารถ *</Label>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {VOLUNTEER_SKILLS.map((skill) => (
+              <div key={skill.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`skill-${skill.id}`}
+                  checked={formData.skills.includes(skill.id)}
+                  onCheckedChange={(checked) =>
+                    toggleSkill(skill.id, checked === true)
+                  }
+                />
+                <Label
+                  htmlFor={`skill-${skill.id}`}
+                  className="cursor-pointer font-normal"
+                >
+                  {skill.icon} {skill.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="volunteer-equipment">อุปกรณ์ที่มี</Label>
+          <Textarea
+            id="volunteer-equipment"
+            value={formData.equipment || ''}
+            onChange={(e) => updateField({ equipment: e.target.value })}
+            placeholder="เช่น เรือท้องแบน 1 ลำ, เสื้อชูชีพ 10 ตัว"
+            rows={2}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="volunteer-home-base">จุดประจำการ</Label>
+          <Input
+            id="volunteer-home-base"
+            value={formData.home_base || ''}
+            onChange={(e) => updateField({ home_base: e.target.value })}
+            placeholder="เช่น วัดบางพลี อ.บางพลี จ.สมุทรปราการ"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              className="w-32"
+              value={formData.home_lat ?? ''}
+              onChange={(e) =>
+                updateField({ home_lat: parseCoordinate(e.target.value) })
+              }
+              placeholder="ละติจูด"
+              aria-label="ละติจูด"
+            />
+            <Input
+              className="w-32"
+              value={formData.home_long ?? ''}
+              onChange={(e) =>
+                updateField({ home_long: parseCoordinate(e.target.value) })
+              }
+              placeholder="ลองจิจูด"
+              aria-label="ลองจิจูด"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={fillCurrentLocation}
+              disabled={isLocating}
+            >
+              {isLocating ? (
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              ) : (
+                <LocateFixed className="mr-1 h-4 w-4" />
+              )}
+              ใช้ตำแหน่งปัจจุบัน
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            ใช้พิกัดเพื่อแนะนำเคสที่อยู่ใกล้ให้ผู้ประสานงาน
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={updateProfile.isPending}>
+            {updateProfile.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            {profile?.is_volunteer ? 'บันทึก' : 'ลงทะเบียน'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
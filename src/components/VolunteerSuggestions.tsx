@@ -0,0 +1,105 @@
+import { Loader2, MapPin, Phone, Users } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { REPORT_EDITOR_ROLES } from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useVolunteerSuggestions } from '@/hooks/use-volunteers'
+import {
+  getSkillLabel,
+  getSkillsForCategories,
+  isTerminalStatus,
+} from '@/lib/reportUtils'
+import type { Report } from '@/types/report'
+
+interface VolunteerSuggestionsProps {
+  report: Pick<Report, 'id' | 'help_categories' | 'status'>
+}
+
+// Nearby on-duty volunteers whose skills fit what the case needs
+export const VolunteerSuggestions = ({ report }: VolunteerSuggestionsProps) => {
+  const { hasRole } = useAuth()
+  // Closed cases don't need anyone sent
+  const canView =
+    hasRole(REPORT_EDITOR_ROLES) && !isTerminalStatus(report.status)
+  const skills = getSkillsForCategories(report.help_categories)
+  const { data: volunteers = [], isLoading } = useVolunteerSuggestions(
+    report.id,
+    skills,
+    canView,
+  )
+
+  if (!canView) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          อาสาสมัครที่แนะนำ
+        </CardTitle>
+        {skills.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            ต้องการ: {skills.map(getSkillLabel).join(', ')}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : volunteers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            ไม่มีอาสาสมัครที่ปฏิบัติหน้าที่อยู่ใกล้เคสนี้
+          </p>
+        ) : (
+          <div className="divide-y">
+            {volunteers.map((volunteer) => (
+              <div key={volunteer.id} className="space-y-1 py-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="font-medium">
+                    {volunteer.full_name || 'ไม่ระบุชื่อ'}
+                  </span>
+                  {volunteer.phone && (
+                    <a
+                      href={`tel:${volunteer.phone}`}
+                      className="flex items-center gap-1 text-sm text-primary hover:underline"
+                    >
+                      <Phone className="h-3 w-3" />
+                      {volunteer.phone}
+                    </a>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {volunteer.skills.map((skill) => (
+                    <Badge
+                      key={skill}
+                      variant={
+                        volunteer.matched_skills.includes(skill)
+                          ? 'default'
+                          : 'outline'
+                      }
+                    >
+                      {getSkillLabel(skill)}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <MapPin className="h-3 w-3" />
+                  {volunteer.distance_km !== null
+                    ? `ห่าง ${volunteer.distance_km} กม.`
+                    : 'ไม่ทราบระยะทาง'}
+                  {volunteer.home_base && ` · ${volunteer.home_base}`}
+                </div>
+                {volunteer.equipment && (
+                  <p className="text-xs text-muted-foreground">
+                    อุปกรณ์: {volunteer.equipment}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
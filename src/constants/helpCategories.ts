@@ -1,30 +1,238 @@
-export const HELP_CATEGORIES = [
-  { id: 'drowning', label: 'จมน้ำ', icon: '🌊' },
-  { id: 'trapped', label: 'ติดขัง', icon: '🚪' },
-  { id: 'unreachable', label: 'ติดต่อไม่ได้', icon: '📵' },
-  { id: 'water', label: 'ขาดน้ำดื่ม', icon: '💧' },
-  { id: 'food', label: 'ขาดอาหาร', icon: '🍚' },
-  { id: 'electricity', label: 'ขาดไฟฟ้า', icon: '⚡' },
-  { id: 'shelter', label: 'ที่พักพิง', icon: '🏠' },
-  { id: 'medical', label: 'ต้องการรักษา', icon: '🏥' },
-  { id: 'medicine', label: 'ขาดยา', icon: '💊' },
-  { id: 'evacuation', label: 'อพยพ', icon: '🚁' },
-  { id: 'missing', label: 'คนหาย', icon: '🔍' },
-  { id: 'clothes', label: 'เสื้อผ้า', icon: '👕' },
+import type { ReportStatus } from '@/types/report'
+import type { SupplyStatus } from '@/types/supply'
+import type { AppRole } from '@/types/user'
+import {
+  HELP_CATEGORIES,
+  type HelpCategoryId,
+  SUPPLY_CATEGORY_IDS,
+} from '@shared/taxonomy'
+
+// The help category and urgency taxonomy lives with the edge functions so the
+// LINE bot and the extraction prompt use the same list as the app
+export {
+  getHelpCategoryLabel,
+  getUrgency,
+  HELP_CATEGORIES,
+  HELP_CATEGORY_IDS,
+  type HelpCategoryId,
+  isHelpCategoryId,
+  isUrgencyLevel,
+  SUPPLY_DEFAULTS,
+  URGENCY_COLORS,
+  URGENCY_LEVELS,
+  type UrgencyLevel,
+} from '@shared/taxonomy'
+
+export const SUPPLY_CATEGORIES = HELP_CATEGORIES.filter((category) =>
+  SUPPLY_CATEGORY_IDS.includes(category.id),
+)
+
+export const SUPPLY_STATUS_OPTIONS = [
+  { value: 'requested', label: 'รอผู้บริจาค', color: '#EAB308' },
+  { value: 'pledged', label: 'มีผู้รับจัดหาแล้ว', color: '#A855F7' },
+  { value: 'dispatched', label: 'กำลังจัดส่ง', color: '#3B82F6' },
+  { value: 'delivered', label: 'ส่งถึงแล้ว', color: '#22C55E' },
+  { value: 'cancelled', label: 'ยกเลิก', color: '#64748B' },
 ] as const
 
+// Fulfilment workflow: requested -> pledged -> dispatched -> delivered
+export const SUPPLY_STATUS_TRANSITIONS: Record<
+  SupplyStatus,
+  readonly SupplyStatus[]
+> = {
+  requested: ['pledged', 'dispatched', 'delivered', 'cancelled'],
+  pledged: ['requested', 'dispatched', 'delivered', 'cancelled'],
+  dispatched: ['pledged', 'delivered', 'cancelled'],
+  delivered: ['dispatched'],
+  cancelled: ['requested'],
+}
+
+export const VOLUNTEER_SKILLS = [
+  { id: 'boat', label: 'เรือ', icon: '🚤' },
+  { id: 'medic', label: 'แพทย์/พยาบาล', icon: '🩺' },
+  { id: 'truck', label: 'รถบรรทุก/รถยกสูง', icon: '🚚' },
+  { id: 'driver', label: 'คนขับรถ', icon: '🚗' },
+  { id: 'diver', label: 'นักประดาน้ำ', icon: '🤿' },
+  { id: 'electrician', label: 'ช่างไฟฟ้า', icon: '🔌' },
+  { id: 'cook', label: 'ทำอาหาร', icon: '🍳' },
+] as const
+
+export type VolunteerSkillId = (typeof VOLUNTEER_SKILLS)[number]['id']
+
+// Skills that can help with each kind of request, used to suggest volunteers
+export const CATEGORY_SKILLS: Partial<
+  Record<HelpCategoryId, readonly VolunteerSkillId[]>
+> = {
+  drowning: ['boat', 'diver'],
+  trapped: ['boat', 'truck'],
+  evacuation: ['boat', 'truck'],
+  missing: ['boat', 'diver'],
+  medical: ['medic'],
+  medicine: ['medic', 'driver'],
+  water: ['truck', 'driver'],
+  food: ['truck', 'driver', 'cook'],
+  clothes: ['truck', 'driver'],
+  shelter: ['truck', 'driver'],
+  electricity: ['electrician'],
+}
+
 export const STATUS_OPTIONS = [
-  { value: 'pending', label: 'รอความช่วยเหลือ', color: 'yellow' },
-  { value: 'processed', label: 'กำลังช่วยเหลือ', color: 'blue' },
-  { value: 'completed', label: 'ช่วยเหลือเสร็จสิ้น', color: 'green' },
+  { value: 'pending', label: 'รอความช่วยเหลือ', color: '#EAB308' },
+  { value: 'needs_verification', label: 'รอตรวจสอบข้อมูล', color: '#A855F7' },
+  { value: 'unreachable', label: 'ติดต่อไม่ได้', color: '#F97316' },
+  { value: 'processed', label: 'กำลังช่วยเหลือ', color: '#3B82F6' },
+  { value: 'en_route', label: 'ทีมกำลังเดินทาง', color: '#06B6D4' },
+  { value: 'rescued', label: 'ช่วยออกมาแล้ว', color: '#14B8A6' },
+  {
+    value: 'evacuated_to_shelter',
+    label: 'ส่งถึงศูนย์พักพิงแล้ว',
+    color: '#6366F1',
+  },
+  { value: 'completed', label: 'ช่วยเหลือเสร็จสิ้น', color: '#22C55E' },
+  { value: 'duplicate', label: 'รายงานซ้ำ', color: '#94A3B8' },
+  { value: 'cancelled', label: 'ยกเลิก', color: '#64748B' },
+  { value: 'deceased', label: 'เสียชีวิต', color: '#1F2937' },
 ] as const
 
-export const URGENCY_LEVELS = [1, 2, 3, 4, 5] as const
+// Closing statuses; entering or leaving one requires a reason note
+export const TERMINAL_STATUSES: readonly ReportStatus[] = [
+  'completed',
+  'duplicate',
+  'cancelled',
+  'deceased',
+]
+
+// Allowed next statuses, mirrored by is_valid_report_status_transition() in the database
+export const STATUS_TRANSITIONS: Record<ReportStatus, readonly ReportStatus[]> =
+  {
+    pending: [
+      'needs_verification',
+      'unreachable',
+      'processed',
+      'en_route',
+      'rescued',
+      'evacuated_to_shelter',
+      'completed',
+      'duplicate',
+      'cancelled',
+      'deceased',
+    ],
+    needs_verification: [
+      'pending',
+      'unreachable',
+      'processed',
+      'en_route',
+      'duplicate',
+      'cancelled',
+    ],
+    unreachable: [
+      'pending',
+      'needs_verification',
+      'processed',
+      'en_route',
+      'duplicate',
+      'cancelled',
+      'deceased',
+    ],
+    processed: [
+      'pending',
+      'unreachable',
+      'en_route',
+      'rescued',
+      'evacuated_to_shelter',
+      'completed',
+      'duplicate',
+      'cancelled',
+      'deceased',
+    ],
+    en_route: [
+      'pending',
+      'unreachable',
+      'processed',
+      'rescued',
+      'evacuated_to_shelter',
+      'completed',
+      'duplicate',
+      'cancelled',
+      'deceased',
+    ],
+    rescued: ['evacuated_to_shelter', 'completed', 'duplicate', 'deceased'],
+    evacuated_to_shelter: ['completed', 'duplicate', 'deceased'],
+    completed: ['pending', 'needs_verification', 'processed', 'duplicate'],
+    duplicate: ['pending', 'needs_verification', 'processed'],
+    cancelled: ['pending', 'needs_verification', 'processed', 'duplicate'],
+    deceased: ['pending', 'needs_verification', 'processed', 'duplicate'],
+  }
+
+// Why check-duplicates considers a report a possible duplicate
+export const DUPLICATE_MATCH_REASONS = [
+  { value: 'phone', label: 'เบอร์โทรตรงกัน' },
+  { value: 'name_address', label: 'ชื่อและที่อยู่ตรงกัน' },
+  { value: 'similar_text', label: 'ข้อความคล้ายกัน' },
+] as const
+
+export type DuplicateMatchReason =
+  (typeof DUPLICATE_MATCH_REASONS)[number]['value']
+
+// A claim older than this (while the case is still open) is flagged as stale
+export const CLAIM_STALE_HOURS = 6
+
+// Roles an admin can grant ('user' is given to everyone on sign-up)
+export const ROLE_OPTIONS: readonly {
+  value: AppRole
+  label: string
+  description: string
+}[] = [
+  {
+    value: 'admin',
+    label: 'ผู้ดูแลระบบ',
+    description: 'จัดการทุกอย่าง รวมถึงกำหนดสิทธิ์ผู้ใช้',
+  },
+  {
+    value: 'coordinator',
+    label: 'ผู้ประสานงาน',
+    description: 'แก้ไขข้อมูล เปลี่ยนสถานะ รวมรายการซ้ำ และปล่อยเคส',
+  },
+  {
+    value: 'rescuer',
+    label: 'ทีมกู้ภัย',
+    description: 'แก้ไขข้อมูลและเปลี่ยนสถานะเคสที่ดูแล',
+  },
+  {
+    value: 'verifier',
+    label: 'ผู้ตรวจสอบข้อมูล',
+    description: 'แก้ไขข้อมูลหลังโทรยืนยัน (เปลี่ยนสถานะไม่ได้)',
+  },
+  {
+    value: 'viewer',
+    label: 'ผู้ดูข้อมูล',
+    description: 'ดูข้อมูลครบถ้วน รวมถึงเบอร์โทรและพิกัด',
+  },
+  {
+    value: 'api_partner',
+    label: 'พันธมิตร API',
+    description: 'หน่วยงานพันธมิตรที่ดูข้อมูลครบถ้วน',
+  },
+]
 
-export const URGENCY_COLORS = {
-  1: '#94a3b8',
-  2: '#60a5fa',
-  3: '#fbbf24',
-  4: '#fb923c',
-  5: '#ef4444',
-} as const
+// Who may do what (mirrors the policies in the database)
+export const CONTACT_VIEWER_ROLES: readonly AppRole[] = [
+  'admin',
+  'coordinator',
+  'rescuer',
+  'verifier',
+  'viewer',
+  'api_partner',
+]
+export const REPORT_EDITOR_ROLES: readonly AppRole[] = [
+  'admin',
+  'coordinator',
+  'rescuer',
+  'verifier',
+]
+export const STATUS_CHANGER_ROLES: readonly AppRole[] = [
+  'admin',
+  'coordinator',
+  'rescuer',
+]
+export const COORDINATOR_ROLES: readonly AppRole[] = ['admin', 'coordinator']
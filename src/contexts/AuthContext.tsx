@@ -2,10 +2,15 @@ import { Session, User } from '@supabase/supabase-js'
 import { createContext, useContext, useEffect, useState } from 'react'
 
 import { supabase } from '@/integrations/supabase/client'
+import { clearOfflineReportData } from '@/lib/serviceWorker'
+import type { AppRole } from '@/types/user'
 
 interface AuthContextType {
   user: User | null
   session: Session | null
+  roles: AppRole[]
+  // True if the user has any of the given roles
+  hasRole: (roles: readonly AppRole[]) => boolean
   isAdmin: boolean
   loading: boolean
   signOut: () => Promise<void>
@@ -14,6 +19,8 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType>({
   user: null,
   session: null,
+  roles: [],
+  hasRole: () => false,
   isAdmin: false,
   loading: true,
   signOut: async () => {},
@@ -30,7 +37,7 @@ export const useAuth = () => {
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
-  const [isAdmin, setIsAdmin] = useState(false)
+  const [roles, setRoles] = useState<AppRole[]>([])
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -44,10 +51,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       // Defer role checking
       if (session?.user) {
         setTimeout(() => {
-          checkAdminRole(session.user.id)
+          fetchRoles(session.user.id)
         }, 0)
       } else {
-        setIsAdmin(false)
+        setRoles([])
       }
     })
 
@@ -57,7 +64,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       setUser(session?.user ?? null)
 
       if (session?.user) {
-        checkAdminRole(session.user.id)
+        fetchRoles(session.user.id)
       }
       setLoading(false)
     })
@@ -65,35 +72,38 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     return () => subscription.unsubscribe()
   }, [])
 
-  const checkAdminRole = async (userId: string) => {
+  const fetchRoles = async (userId: string) => {
     try {
       const { data, error } = await supabase
         .from('user_roles')
         .select('role')
         .eq('user_id', userId)
-        .eq('role', 'admin')
-        .maybeSingle()
 
-      if (!error && data) {
-        setIsAdmin(true)
-      } else {
-        setIsAdmin(false)
-      }
+      if (error) throw error
+      setRoles((data || []).map((row) => row.role))
     } catch (error) {
-      console.error('Error checking admin role:', error)
-      setIsAdmin(false)
+      console.error('Error fetching user roles:', error)
+      setRoles([])
     }
   }
 
+  const hasRole = (allowed: readonly AppRole[]) =>
+    roles.some((role) => allowed.includes(role))
+
+  const isAdmin = roles.includes('admin')
+
   const signOut = async () => {
     await supabase.auth.signOut()
+    clearOfflineReportData()
     setUser(null)
     setSession(null)
-    setIsAdmin(false)
+    setRoles([])
   }
 
   return (
-    <AuthContext.Provider value={{ user, session, isAdmin, loading, signOut }}>
+    <AuthContext.Provider
+      value={{ user, session, roles, hasRole, isAdmin, loading, signOut }}
+    >
       {children}
     </AuthContext.Provider>
   )
@@ -0,0 +1,113 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { supabase } from '@/integrations/supabase/client'
+import { readAsDataUrl } from '@/lib/imageUtils'
+import type { ReportAttachment } from '@/types/attachment'
+
+export const REPORT_PHOTOS_BUCKET = 'report-photos'
+
+const THUMBNAIL_SIZE = 320
+
+// Query keys
+export const attachmentKeys = {
+  all: ['attachments'] as const,
+  report: (reportId: string | undefined) =>
+    [...attachmentKeys.all, 'report', reportId] as const,
+}
+
+// Photos attached to one report, oldest first
+export const useReportAttachments = (reportId: string | undefined) => {
+  return useQuery({
+    queryKey: attachmentKeys.report(reportId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_attachments')
+        .select('*')
+        .eq('report_id', reportId!)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return data as ReportAttachment[]
+    },
+    enabled: !!reportId,
+  })
+}
+
+// Add a photo to a case. The original goes to store-attachment, which strips
+// its metadata server-side and keeps the GPS position on the attachment row.
+export const useUploadAttachment = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      reportId,
+      file,
+    }: {
+      reportId: string
+      file: File
+    }) => {
+      const { data, error } = await supabase.functions.invoke(
+        'store-attachment',
+        {
+          body: { image: await readAsDataUrl(file), reportId },
+        },
+      )
+
+      if (error) throw error
+      if (data.error) throw new Error(data.error)
+      return data.attachment as Pick<
+        ReportAttachment,
+        'id' | 'storage_path' | 'gps_lat' | 'gps_long'
+      >
+    },
+    onSuccess: (_, { reportId }) => {
+      queryClient.invalidateQueries({
+        queryKey: attachmentKeys.report(reportId),
+      })
+    },
+  })
+}
+
+// Attach the photos a new report was read from. Anyone may call this; it only
+// claims attachments that are not on a report yet.
+export const linkReportAttachments = async (
+  reportId: string,
+  attachmentIds: string[],
+) => {
+  const { error } = await supabase.rpc('link_report_attachments', {
+    _report_id: reportId,
+    _attachment_ids: attachmentIds,
+  })
+
+  if (error) throw error
+}
+
+// Short-lived link to a private photo in the report-photos bucket. Thumbnails
+// are resized by Storage image transforms.
+export const useReportPhotoUrl = (path: string | null, thumbnail = false) => {
+  return useQuery({
+    queryKey: ['report-photos', path, thumbnail],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(REPORT_PHOTOS_BUCKET)
+        .createSignedUrl(
+          path!,
+          60 * 60,
+          thumbnail
+            ? {
+                transform: {
+                  width: THUMBNAIL_SIZE,
+                  height: THUMBNAIL_SIZE,
+                  resize: 'cover',
+                },
+              }
+            : undefined,
+        )
+
+      if (error) throw error
+      return data.signedUrl
+    },
+    enabled: !!path,
+    staleTime: 30 * 60 * 1000,
+  })
+}
@@ -0,0 +1,106 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { supabase } from '@/integrations/supabase/client'
+import type {
+  DuplicateGroup,
+  DuplicateGroupStatus,
+  Report,
+} from '@/types/report'
+
+import { reportKeys } from './use-reports'
+
+// Query keys
+export const duplicateGroupKeys = {
+  all: ['duplicate-groups'] as const,
+  list: (status: DuplicateGroupStatus) =>
+    [...duplicateGroupKeys.all, 'list', status] as const,
+}
+
+interface ScanDuplicatesResult {
+  batches: number
+  pairs: number
+  groups: number
+  created: number
+  removed: number
+}
+
+// Fetch duplicate groups found by the background scan, with their member reports
+export const useDuplicateGroups = (status: DuplicateGroupStatus) => {
+  return useQuery({
+    queryKey: duplicateGroupKeys.list(status),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('duplicate_groups')
+        .select('*, duplicate_group_members(reports(*))')
+        .eq('status', status)
+        .order('max_similarity', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+
+      return data.map(({ duplicate_group_members, ...group }) => ({
+        ...group,
+        reports: duplicate_group_members
+          .map((member) => member.reports as unknown as Report)
+          .filter(Boolean)
+          .sort(
+            (a, b) =>
+              new Date(a.created_at).getTime() -
+              new Date(b.created_at).getTime(),
+          ),
+      })) as DuplicateGroup[]
+    },
+  })
+}
+
+// Mutation to confirm a group (merging it into the chosen report) or dismiss it
+export const useResolveDuplicateGroup = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      groupId,
+      confirm,
+      canonicalId,
+    }: {
+      groupId: string
+      confirm: boolean
+      canonicalId?: string
+    }) => {
+      const { data, error } = await supabase.rpc('resolve_duplicate_group', {
+        _group_id: groupId,
+        _confirm: confirm,
+        _canonical_id: canonicalId,
+      })
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (_data, { confirm }) => {
+      queryClient.invalidateQueries({ queryKey: duplicateGroupKeys.all })
+      if (confirm) {
+        queryClient.invalidateQueries({ queryKey: reportKeys.all })
+      }
+    },
+  })
+}
+
+// Mutation to re-scan the whole database for duplicate clusters
+export const useScanDuplicates = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke(
+        'scan-duplicates',
+        { body: {} },
+      )
+
+      if (error) throw error
+      return data as ScanDuplicatesResult
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: duplicateGroupKeys.all })
+    },
+  })
+}
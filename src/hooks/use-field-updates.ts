@@ -0,0 +1,67 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+
+import { REPORT_PHOTOS_BUCKET, attachmentKeys } from '@/hooks/use-attachments'
+import { reportKeys } from '@/hooks/use-reports'
+import { supabase } from '@/integrations/supabase/client'
+import { resizeImage } from '@/lib/imageUtils'
+import type { ReportStatus } from '@/types/report'
+
+export interface FieldUpdateInput {
+  reportId: string
+  status: ReportStatus | null
+  peopleRescued: number | null
+  note: string
+  photo: File | null
+  position: { lat: number; lng: number } | null
+}
+
+// Record a visit from the field update page: upload the photo, then one RPC call
+// that changes the status and writes the history entry
+export const useSubmitFieldUpdate = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      reportId,
+      status,
+      peopleRescued,
+      note,
+      photo,
+      position,
+    }: FieldUpdateInput) => {
+      let photoPath: string | null = null
+
+      if (photo) {
+        const path = `${reportId}/field/${crypto.randomUUID()}.jpg`
+        const { error: uploadError } = await supabase.storage
+          .from(REPORT_PHOTOS_BUCKET)
+          .upload(path, await resizeImage(photo), {
+            contentType: 'image/jpeg',
+          })
+
+        if (uploadError) throw uploadError
+        photoPath = path
+      }
+
+      const { error } = await supabase.rpc('submit_field_update', {
+        _report_id: reportId,
+        _status: status ?? undefined,
+        _people_rescued: peopleRescued ?? undefined,
+        _note: note.trim() || undefined,
+        _photo_path: photoPath ?? undefined,
+        _lat: position?.lat,
+        _long: position?.lng,
+      })
+
+      if (error) throw error
+    },
+    onSuccess: (_, { reportId }) => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.all })
+      queryClient.invalidateQueries({ queryKey: reportKeys.detail(reportId) })
+      queryClient.invalidateQueries({ queryKey: reportKeys.events(reportId) })
+      queryClient.invalidateQueries({
+        queryKey: attachmentKeys.report(reportId),
+      })
+    },
+  })
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+
+import { supabase } from '@/integrations/supabase/client'
+import type { ImportRow, ImportRowResult } from '@/lib/spreadsheetImport'
+
+import { reportKeys } from './use-reports'
+
+interface ImportBatchInput {
+  rows: ImportRow[]
+  // File name, recorded in each report's raw_message
+  source: string
+  skipDuplicates: boolean
+}
+
+interface ImportBatchResult {
+  results: ImportRowResult[]
+  summary: Record<'inserted' | 'duplicate' | 'invalid' | 'failed', number>
+}
+
+// Send one batch of mapped spreadsheet rows to import-reports
+export const useImportReportsBatch = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ rows, source, skipDuplicates }: ImportBatchInput) => {
+      const { data, error } = await supabase.functions.invoke(
+        'import-reports',
+        { body: { rows, source, skipDuplicates } },
+      )
+
+      if (error) throw error
+      return data as ImportBatchResult
+    },
+    onSuccess: (data) => {
+      if (data.summary.inserted > 0) {
+        queryClient.invalidateQueries({ queryKey: reportKeys.all })
+      }
+    },
+  })
+}
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { supabase } from '@/integrations/supabase/client'
+import {
+  deleteOutboxEntry,
+  isNetworkError,
+  type OutboxCreateEntry,
+  type OutboxUpdateEntry,
+  saveOutboxEntry,
+} from '@/lib/offlineOutbox'
+
+import { replayEntry } from './use-offline-outbox'
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), functions: { invoke: vi.fn() } },
+}))
+vi.mock('@/lib/offlineOutbox', () => ({
+  OUTBOX_CHANGE_EVENT: 'outbox-change',
+  deleteOutboxEntry: vi.fn(),
+  getOutboxEntries: vi.fn(),
+  isNetworkError: vi.fn(() => false),
+  saveOutboxEntry: vi.fn(),
+}))
+vi.mock('./use-attachments', () => ({ linkReportAttachments: vi.fn() }))
+vi.mock('./use-reports', () => ({ reportKeys: { all: ['reports'] } }))
+
+// Result of each table's query, by the first builder method called on it
+let results: Record<string, { data?: unknown; error?: unknown }>
+let calls: { table: string; method: string; args: unknown[] }[]
+
+const fakeQuery = (table: string) => {
+  let operation: string | undefined
+  const query = {
+    then: (resolve: (value: unknown) => void) =>
+      resolve(results[`${table}.${operation}`] ?? { data: [], error: null }),
+  }
+  for (const method of ['select', 'insert', 'update', 'eq', 'maybeSingle']) {
+    query[method] = (...args: unknown[]) => {
+      operation ??= method
+      calls.push({ table, method, args })
+      return query
+    }
+  }
+  return query
+}
+
+const createEntry: OutboxCreateEntry = {
+  id: 1,
+  kind: 'create_report',
+  report_id: 'queued-report-id',
+  label: 'รายงานใหม่: สมชาย',
+  status: 'pending',
+  created_at: '2025-11-28T10:00:00Z',
+  data: { name: 'สมชาย', raw_message: 'ช่วยด้วย' },
+  supplies: [{ category: 'water', item: 'น้ำดื่ม', quantity: 6, unit: 'ขวด' }],
+}
+
+const updateEntry: OutboxUpdateEntry = {
+  id: 2,
+  kind: 'update_report',
+  report_id: 'report-id',
+  label: 'แก้ไขรายงาน',
+  status: 'pending',
+  created_at: '2025-11-28T10:00:00Z',
+  base_updated_at: '2025-11-28T09:00:00Z',
+  data: { number_of_adults: 3 },
+}
+
+const insertedRow = () =>
+  (
+    calls.find((call) => call.table === 'reports' && call.method === 'insert')
+      ?.args[0] as Record<string, unknown>[]
+  )[0]
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  results = {}
+  calls = []
+  vi.mocked(supabase.from).mockImplementation(fakeQuery as never)
+  vi.mocked(supabase.functions.invoke).mockResolvedValue({
+    data: { embedding: [0.1] },
+    error: null,
+  } as never)
+})
+
+describe('replayEntry: queued reports', () => {
+  it('inserts the report under the id chosen when it was queued', async () => {
+    expect(await replayEntry(createEntry)).toBe('synced')
+
+    expect(insertedRow().id).toBe('queued-report-id')
+    expect(
+      calls.find((call) => call.table === 'report_supplies')?.args[0],
+    ).toEqual([{ ...createEntry.supplies[0], report_id: 'queued-report-id' }])
+    expect(deleteOutboxEntry).toHaveBeenCalledWith(1)
+  })
+
+  it('treats a duplicate id as saved by an earlier replay', async () => {
+    results['reports.insert'] = {
+      error: { code: '23505', message: 'duplicate key value' },
+    }
+
+    expect(await replayEntry(createEntry)).toBe('synced')
+    expect(deleteOutboxEntry).toHaveBeenCalledWith(1)
+  })
+
+  it('keeps the entry as failed on any other error', async () => {
+    results['reports.insert'] = {
+      error: { code: '23502', message: 'null value in column' },
+    }
+
+    expect(await replayEntry(createEntry)).toBe('failed')
+    expect(saveOutboxEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'failed' }),
+    )
+    expect(deleteOutboxEntry).not.toHaveBeenCalled()
+  })
+
+  it('leaves the entry pending when the connection drops', async () => {
+    results['reports.insert'] = { error: { message: 'Failed to fetch' } }
+    vi.mocked(isNetworkError).mockReturnValueOnce(true)
+
+    expect(await replayEntry(createEntry)).toBe('offline')
+    expect(saveOutboxEntry).not.toHaveBeenCalled()
+    expect(deleteOutboxEntry).not.toHaveBeenCalled()
+  })
+})
+
+describe('replayEntry: queued updates', () => {
+  it('only updates the report version it was edited from', async () => {
+    results['reports.update'] = { data: [{ id: 'report-id' }], error: null }
+
+    expect(await replayEntry(updateEntry)).toBe('synced')
+    expect(calls).toContainEqual({
+      table: 'reports',
+      method: 'eq',
+      args: ['updated_at', updateEntry.base_updated_at],
+    })
+  })
+
+  it('reports a conflict when the report changed since the edit', async () => {
+    results['reports.update'] = { data: [], error: null }
+    results['visible_reports.select'] = {
+      data: { updated_at: '2025-11-28T09:30:00Z' },
+      error: null,
+    }
+
+    expect(await replayEntry(updateEntry)).toBe('conflict')
+    expect(saveOutboxEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'conflict' }),
+    )
+  })
+
+  it('reports a permission failure when RLS filtered the update out', async () => {
+    results['reports.update'] = { data: [], error: null }
+    results['visible_reports.select'] = {
+      data: { updated_at: updateEntry.base_updated_at },
+      error: null,
+    }
+
+    expect(await replayEntry(updateEntry)).toBe('failed')
+    expect(saveOutboxEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'failed',
+        error: 'บัญชีนี้ไม่มีสิทธิ์แก้ไขรายงานนี้',
+      }),
+    )
+  })
+
+  it('reports a permission failure when a forced update changes nothing', async () => {
+    results['reports.update'] = { data: [], error: null }
+    results['visible_reports.select'] = {
+      data: { updated_at: '2025-11-28T09:30:00Z' },
+      error: null,
+    }
+
+    expect(await replayEntry(updateEntry, true)).toBe('failed')
+    expect(
+      calls.some(
+        (call) => call.method === 'eq' && call.args[0] === 'updated_at',
+      ),
+    ).toBe(false)
+  })
+})
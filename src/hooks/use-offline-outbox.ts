@@ -0,0 +1,237 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+import { supabase } from '@/integrations/supabase/client'
+import {
+  OUTBOX_CHANGE_EVENT,
+  type OutboxEntry,
+  deleteOutboxEntry,
+  getOutboxEntries,
+  isNetworkError,
+  saveOutboxEntry,
+} from '@/lib/offlineOutbox'
+
+import { linkReportAttachments } from './use-attachments'
+import { reportKeys } from './use-reports'
+
+type ReplayResult = 'synced' | 'conflict' | 'failed' | 'offline'
+
+// Postgres error code for a duplicate primary key
+const UNIQUE_VIOLATION = '23505'
+
+// Shared across hook instances so an entry is never sent twice
+let syncInProgress = false
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error
+    ? error.message
+    : typeof error === 'object' && error && 'message' in error
+      ? String(error.message)
+      : 'Unknown error'
+
+// Send one queued write. Updates only apply if the report still has the
+// updated_at it had when it was edited, unless force is set.
+export const replayEntry = async (
+  entry: OutboxEntry,
+  force = false,
+): Promise<ReplayResult> => {
+  try {
+    if (entry.kind === 'update_report') {
+      let query = supabase
+        .from('reports')
+        .update(entry.data)
+        .eq('id', entry.report_id)
+
+      if (!force) {
+        query = query.eq('updated_at', entry.base_updated_at)
+      }
+
+      const { data, error } = await query.select('id')
+      if (error) throw error
+
+      // No row updated: either the report changed since it was edited, or
+      // RLS filtered it out because this account may not edit it
+      if (data.length === 0) {
+        const { data: current, error: currentError } = await supabase
+          .from('visible_reports')
+          .select('updated_at')
+          .eq('id', entry.report_id)
+          .maybeSingle()
+        if (currentError) throw currentError
+
+        if (!current) {
+          throw new Error('ไม่พบรายงานนี้แล้ว')
+        }
+        if (force || current.updated_at === entry.base_updated_at) {
+          throw new Error('บัญชีนี้ไม่มีสิทธิ์แก้ไขรายงานนี้')
+        }
+
+        await saveOutboxEntry({
+          ...entry,
+          status: 'conflict',
+          error: 'รายงานถูกแก้ไขโดยผู้อื่นระหว่างที่ออฟไลน์',
+        })
+        return 'conflict'
+      }
+    } else {
+      // Duplicate checks are skipped here; the background scan picks them up
+      const { data: embeddingData, error: embeddingError } =
+        await supabase.functions.invoke('generate-embedding', {
+          body: { text: entry.data.raw_message },
+        })
+
+      // Entries queued before report_id was stored get a fresh id
+      const reportId = entry.report_id ?? crypto.randomUUID()
+      const { error } = await supabase.from('reports').insert([
+        {
+          ...entry.data,
+          id: reportId,
+          embedding: embeddingError ? null : embeddingData.embedding,
+        } as never,
+      ])
+      // A primary key conflict means an earlier replay saved the report but
+      // its response never arrived
+      if (error && error.code !== UNIQUE_VIOLATION) throw error
+
+      // The report is in; a failed supply list must not make it replay again
+      if (entry.supplies?.length) {
+        const { error: suppliesError } = await supabase
+          .from('report_supplies')
+          .insert(
+            entry.supplies.map((item) => ({ ...item, report_id: reportId })),
+          )
+        if (suppliesError) {
+          console.error('Error saving queued supply items:', suppliesError)
+        }
+      }
+
+      if (entry.attachmentIds?.length) {
+        try {
+          await linkReportAttachments(reportId, entry.attachmentIds)
+        } catch (attachmentsError) {
+          console.error('Error linking queued attachments:', attachmentsError)
+        }
+      }
+    }
+
+    await deleteOutboxEntry(entry.id!)
+    return 'synced'
+  } catch (error) {
+    if (isNetworkError(error)) return 'offline'
+
+    console.error('Error replaying outbox entry:', error)
+    await saveOutboxEntry({
+      ...entry,
+      status: 'failed',
+      error: getErrorMessage(error),
+    })
+    return 'failed'
+  }
+}
+
+export const useOnlineStatus = () => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine)
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  return isOnline
+}
+
+// Queued offline writes, replayed automatically when the connection returns.
+// Mounted by the navbar; other code only adds entries.
+export const useOfflineOutbox = () => {
+  const queryClient = useQueryClient()
+  const isOnline = useOnlineStatus()
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await getOutboxEntries())
+    } catch (error) {
+      console.error('Error reading outbox:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    window.addEventListener(OUTBOX_CHANGE_EVENT, refresh)
+    return () => window.removeEventListener(OUTBOX_CHANGE_EVENT, refresh)
+  }, [refresh])
+
+  const sync = useCallback(async () => {
+    if (syncInProgress || !navigator.onLine) return
+    syncInProgress = true
+    setIsSyncing(true)
+
+    const counts = { synced: 0, conflict: 0, failed: 0 }
+    try {
+      for (const entry of await getOutboxEntries()) {
+        if (entry.status !== 'pending') continue
+        const result = await replayEntry(entry)
+        if (result === 'offline') break
+        counts[result]++
+      }
+    } finally {
+      syncInProgress = false
+      setIsSyncing(false)
+    }
+
+    if (counts.synced > 0) {
+      queryClient.invalidateQueries({ queryKey: reportKeys.all })
+      toast.success(
+        `ส่งข้อมูลที่บันทึกไว้ขณะออฟไลน์แล้ว ${counts.synced} รายการ`,
+      )
+    }
+    if (counts.conflict + counts.failed > 0) {
+      toast.warning(
+        `มี ${counts.conflict + counts.failed} รายการที่ส่งไม่สำเร็จ`,
+        { description: 'ตรวจสอบได้ที่ไอคอนรายการรอส่งบนแถบเมนู' },
+      )
+    }
+  }, [queryClient])
+
+  // Replay whenever the connection comes back (and on first load)
+  useEffect(() => {
+    if (isOnline) sync()
+  }, [isOnline, sync])
+
+  // Send a conflicting update anyway, replacing the newer server data
+  const overwrite = useCallback(
+    async (entry: OutboxEntry) => {
+      const result = await replayEntry({ ...entry, status: 'pending' }, true)
+      if (result === 'synced') {
+        queryClient.invalidateQueries({ queryKey: reportKeys.all })
+        toast.success('ส่งข้อมูลแล้ว')
+      } else if (result === 'offline') {
+        toast.error('ยังไม่มีสัญญาณอินเทอร์เน็ต')
+      }
+    },
+    [queryClient],
+  )
+
+  const retry = useCallback(
+    async (entry: OutboxEntry) => {
+      await saveOutboxEntry({ ...entry, status: 'pending', error: undefined })
+      await sync()
+    },
+    [sync],
+  )
+
+  const discard = useCallback(async (entry: OutboxEntry) => {
+    await deleteOutboxEntry(entry.id!)
+  }, [])
+
+  return { entries, isOnline, isSyncing, sync, overwrite, retry, discard }
+}
+
+export type OfflineOutbox = ReturnType<typeof useOfflineOutbox>
@@ -0,0 +1,243 @@
+import { type QueryClient, useQueryClient } from '@tanstack/react-query'
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+
+import { CONTACT_VIEWER_ROLES } from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/integrations/supabase/client'
+import { getUrgencyLabel } from '@/lib/reportUtils'
+import {
+  getUrgentAlertsEnabled,
+  isUrgentReport,
+  playAlertSound,
+  requestNotificationPermission,
+  saveUrgentAlertsEnabled,
+  showUrgentNotification,
+} from '@/lib/urgentAlerts'
+import type { Report } from '@/types/report'
+
+import { type PaginatedReportsOptions, reportKeys } from './use-reports'
+
+// How long a newly arrived report stays highlighted
+const HIGHLIGHT_DURATION_MS = 60 * 1000
+
+interface PaginatedReports {
+  data: Report[]
+  count: number
+}
+
+type ListFilters = PaginatedReportsOptions & {
+  page?: number
+  itemsPerPage?: number
+  all?: boolean
+}
+
+const isPaginated = (data: unknown): data is PaginatedReports =>
+  !!data &&
+  !Array.isArray(data) &&
+  Array.isArray((data as PaginatedReports).data)
+
+const hasLocation = (report: Report) =>
+  report.location_lat !== null && report.location_long !== null
+
+// Same filters as usePaginatedReports applies on the server
+const matchesFilters = (report: Report, filters: ListFilters) => {
+  const { urgencyFilter, statusFilter, unassignedOnly, assignedTeamId } =
+    filters
+  const categories = filters.selectedCategories ?? []
+
+  if (urgencyFilter !== null && urgencyFilter !== undefined) {
+    if (report.urgency_level !== urgencyFilter) return false
+  }
+  if (statusFilter && report.status !== statusFilter) return false
+  if (unassignedOnly && report.assigned_team_id) return false
+  if (assignedTeamId && report.assigned_team_id !== assignedTeamId) {
+    return false
+  }
+  if (
+    categories.length > 0 &&
+    !report.help_categories?.some((category) => categories.includes(category))
+  ) {
+    return false
+  }
+  return true
+}
+
+// New rows only go on top of the first page when the list is newest first
+const showsNewestFirst = (filters: ListFilters) =>
+  (filters.page ?? 1) === 1 &&
+  ['created_at', 'updated_at'].includes(filters.sortColumn ?? 'updated_at') &&
+  (filters.sortDirection ?? 'desc') === 'desc'
+
+const patchList = (
+  queryClient: QueryClient,
+  report: Report,
+  isInsert: boolean,
+) => {
+  const lists = queryClient.getQueriesData<Report[] | PaginatedReports>({
+    queryKey: reportKeys.lists(),
+  })
+
+  for (const [queryKey, data] of lists) {
+    if (!data) continue
+    const filters = (queryKey[2] ?? {}) as ListFilters
+
+    if (isPaginated(data)) {
+      const index = data.data.findIndex((r) => r.id === report.id)
+
+      if (index !== -1) {
+        const rows = [...data.data]
+        rows[index] = { ...rows[index], ...report }
+        queryClient.setQueryData(queryKey, { ...data, data: rows })
+      } else if (isInsert && matchesFilters(report, filters)) {
+        const rows = showsNewestFirst(filters)
+          ? [report, ...data.data].slice(0, filters.itemsPerPage ?? 50)
+          : data.data
+        queryClient.setQueryData(queryKey, {
+          data: rows,
+          count: data.count + 1,
+        })
+      }
+      continue
+    }
+
+    // Map list (only reports with coordinates) or the full list for stats
+    const belongs = filters.all || hasLocation(report)
+    const rows = data.filter((r) => r.id !== report.id)
+    const existing = data.find((r) => r.id === report.id)
+
+    if (existing && belongs) {
+      queryClient.setQueryData(
+        queryKey,
+        data.map((r) => (r.id === report.id ? { ...r, ...report } : r)),
+      )
+    } else if (existing) {
+      queryClient.setQueryData(queryKey, rows)
+    } else if (belongs) {
+      queryClient.setQueryData(queryKey, [report, ...rows])
+    }
+  }
+}
+
+// Apply a realtime change to every cached report query in place
+const patchReportCaches = (
+  queryClient: QueryClient,
+  report: Report,
+  isInsert: boolean,
+) => {
+  patchList(queryClient, report, isInsert)
+
+  queryClient.setQueryData<Report>(reportKeys.detail(report.id), (old) =>
+    old ? { ...old, ...report } : old,
+  )
+
+  if (isInsert) {
+    queryClient.setQueryData<number>(reportKeys.counts(), (old) =>
+      old === undefined ? old : old + 1,
+    )
+  } else {
+    queryClient.invalidateQueries({ queryKey: reportKeys.events(report.id) })
+  }
+
+  // Aggregates are cheaper to recompute than to patch
+  queryClient.invalidateQueries({ queryKey: reportKeys.stats() })
+}
+
+// Toggle for the urgent-case sound and system notification, kept per browser
+export const useUrgentAlerts = () => {
+  const [enabled, setEnabled] = useState(getUrgentAlertsEnabled)
+
+  const toggle = useCallback(async () => {
+    const next = !enabled
+    if (next) {
+      // Sound still plays when notifications are blocked
+      await requestNotificationPermission()
+    }
+    saveUrgentAlertsEnabled(next)
+    setEnabled(next)
+  }, [enabled])
+
+  return { enabled, toggle }
+}
+
+// Subscribe to report inserts/updates and patch the React Query caches.
+// Realtime follows the RLS policies on reports, so only responders receive
+// changes; public viewers keep the regular refetching.
+export const useRealtimeReports = () => {
+  const queryClient = useQueryClient()
+  const navigate = useNavigate()
+  const { hasRole } = useAuth()
+  const [newReportIds, setNewReportIds] = useState<Set<string>>(new Set())
+  const [isLive, setIsLive] = useState(false)
+  const enabled = hasRole(CONTACT_VIEWER_ROLES)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const timers = new Set<ReturnType<typeof setTimeout>>()
+
+    const highlight = (id: string) => {
+      setNewReportIds((ids) => new Set(ids).add(id))
+      const timer = setTimeout(() => {
+        timers.delete(timer)
+        setNewReportIds((ids) => {
+          const next = new Set(ids)
+          next.delete(id)
+          return next
+        })
+      }, HIGHLIGHT_DURATION_MS)
+      timers.add(timer)
+    }
+
+    const alertUrgent = (report: Report) => {
+      const openReport = () => navigate(`/report/${report.id}`)
+
+      toast.warning(`เคสใหม่: ${getUrgencyLabel(report.urgency_level)}`, {
+        description: [report.name, report.address].filter(Boolean).join(' · '),
+        action: { label: 'ดูรายละเอียด', onClick: openReport },
+      })
+
+      if (getUrgentAlertsEnabled()) {
+        playAlertSound()
+        showUrgentNotification(report, openReport)
+      }
+    }
+
+    const toReport = (row: Record<string, unknown>) => {
+      // The vector is never needed in the UI
+      const { embedding, ...report } = row
+      return report as unknown as Report
+    }
+
+    const channel = supabase
+      .channel('reports-realtime')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'reports' },
+        (payload) => {
+          const report = toReport(payload.new)
+          patchReportCaches(queryClient, report, true)
+          highlight(report.id)
+          if (isUrgentReport(report)) alertUrgent(report)
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'reports' },
+        (payload) => {
+          const report = toReport(payload.new)
+          patchReportCaches(queryClient, report, false)
+        },
+      )
+      .subscribe((status) => setIsLive(status === 'SUBSCRIBED'))
+
+    return () => {
+      timers.forEach(clearTimeout)
+      setIsLive(false)
+      supabase.removeChannel(channel)
+    }
+  }, [enabled, queryClient, navigate])
+
+  return { newReportIds, isLive }
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { Report } from '@/types/report';
+import { Report, ReportEvent, ReportSource, ReportStatus } from '@/types/report';
 
 // Query keys
 export const reportKeys = {
@@ -9,17 +9,23 @@ export const reportKeys = {
   list: (filters?: Record<string, unknown>) => [...reportKeys.lists(), filters] as const,
   details: () => [...reportKeys.all, 'detail'] as const,
   detail: (id: string) => [...reportKeys.details(), id] as const,
+  events: (id: string) => [...reportKeys.all, 'events', id] as const,
+  sources: (id: string) => [...reportKeys.all, 'sources', id] as const,
   counts: () => [...reportKeys.all, 'count'] as const,
   stats: () => [...reportKeys.all, 'stats'] as const,
+  byIds: (ids: string[]) => [...reportKeys.all, 'byIds', ids] as const,
 };
 
+// Reads go through the visible_reports view, which hides contact details and exact
+// locations from anyone without a responder role; writes go to the reports table.
+
 // Fetch all reports with location data
 export const useReports = () => {
   return useQuery({
     queryKey: reportKeys.list(),
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('reports')
+        .from('visible_reports')
         .select(`
           id,
           name,
@@ -55,7 +61,7 @@ export const useReport = (id: string | undefined) => {
       if (!id) throw new Error('Report ID is required');
 
       const { data, error } = await supabase
-        .from('reports')
+        .from('visible_reports')
         .select('*')
         .eq('id', id)
         .single();
@@ -69,13 +75,53 @@ export const useReport = (id: string | undefined) => {
   });
 };
 
+// Fetch change history for a report (newest first)
+export const useReportEvents = (reportId: string | undefined) => {
+  return useQuery({
+    queryKey: reportKeys.events(reportId!),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_events')
+        .select('*')
+        .eq('report_id', reportId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as ReportEvent[];
+    },
+    enabled: !!reportId,
+    staleTime: 30 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+};
+
+// Fetch the original messages merged into a report
+export const useReportSources = (reportId: string | undefined) => {
+  return useQuery({
+    queryKey: reportKeys.sources(reportId!),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_sources')
+        .select('*')
+        .eq('report_id', reportId!)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as ReportSource[];
+    },
+    enabled: !!reportId,
+    staleTime: 30 * 1000,
+    gcTime: 5 * 60 * 1000,
+  });
+};
+
 // Fetch reports count
 export const useReportsCount = () => {
   return useQuery({
     queryKey: reportKeys.counts(),
     queryFn: async () => {
       const { count, error } = await supabase
-        .from('reports')
+        .from('visible_reports')
         .select('*', { count: 'exact', head: true });
 
       if (error) throw error;
@@ -90,10 +136,12 @@ export const useReportsCount = () => {
 // Filter and sort options for paginated reports
 export interface PaginatedReportsOptions {
   urgencyFilter?: number | null;
-  statusFilter?: string | null;
+  statusFilter?: ReportStatus | null;
   selectedCategories?: string[];
   sortColumn?: string | null;
   sortDirection?: 'asc' | 'desc';
+  unassignedOnly?: boolean;
+  assignedTeamId?: string | null;
 }
 
 // Fetch paginated reports with server-side filtering and sorting
@@ -108,6 +156,8 @@ export const usePaginatedReports = (
     selectedCategories = [],
     sortColumn = 'updated_at',
     sortDirection = 'desc',
+    unassignedOnly = false,
+    assignedTeamId,
   } = options || {};
 
   return useQuery({
@@ -117,7 +167,7 @@ export const usePaginatedReports = (
 
       // Build query with only needed columns (performance optimization)
       let query = supabase
-        .from('reports')
+        .from('visible_reports')
         .select(
           `
           id,
@@ -137,6 +187,7 @@ export const usePaginatedReports = (
           additional_info,
           urgency_level,
           status,
+          status_reason,
           created_at,
           updated_at,
           raw_message,
@@ -144,7 +195,9 @@ export const usePaginatedReports = (
           location_long,
           map_link,
           line_user_id,
-          line_display_name
+          line_display_name,
+          assigned_team_id,
+          assigned_at
         `,
           { count: 'exact' }
         );
@@ -158,6 +211,14 @@ export const usePaginatedReports = (
         query = query.eq('status', statusFilter);
       }
 
+      if (unassignedOnly) {
+        query = query.is('assigned_team_id', null);
+      }
+
+      if (assignedTeamId) {
+        query = query.eq('assigned_team_id', assignedTeamId);
+      }
+
       // Apply server-side category filtering using PostgreSQL array overlap operator
       // If categories are selected, use RPC function for optimal performance
       if (selectedCategories.length > 0) {
@@ -173,6 +234,8 @@ export const usePaginatedReports = (
             _category_filter: selectedCategories.length > 0 ? selectedCategories : null,
             _sort_column: sortColumn || 'updated_at',
             _sort_direction: sortDirection || 'desc',
+            _unassigned_only: unassignedOnly,
+            _assigned_team_filter: assignedTeamId ?? null,
           }
         );
 
@@ -219,7 +282,7 @@ export const useAllReports = () => {
     queryKey: reportKeys.list({ all: true }),
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('reports')
+        .from('visible_reports')
         .select('*')
         .order('created_at', { ascending: false });
 
@@ -231,6 +294,25 @@ export const useAllReports = () => {
   });
 };
 
+// Fetch a hand-picked set of cases (rescue runs, print sheets). Kept out of
+// lists() so realtime inserts are not patched into it.
+export const useReportsByIds = (ids: string[]) => {
+  return useQuery({
+    queryKey: reportKeys.byIds(ids),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('visible_reports')
+        .select('*')
+        .in('id', ids);
+
+      if (error) throw error;
+      return data as Report[];
+    },
+    enabled: ids.length > 0,
+    staleTime: 30 * 1000,
+  });
+};
+
 // Mutation to update report
 export const useUpdateReport = () => {
   const queryClient = useQueryClient();
@@ -278,3 +360,55 @@ export const useCreateReport = () => {
   });
 };
 
+// Mutation to merge saved duplicate reports into a canonical report (admin only)
+export const useMergeReports = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      canonicalId,
+      duplicateIds,
+    }: {
+      canonicalId: string;
+      duplicateIds: string[];
+    }) => {
+      const { data, error } = await supabase.rpc('merge_reports', {
+        _canonical_id: canonicalId,
+        _duplicate_ids: duplicateIds,
+      });
+
+      if (error) throw error;
+      return data as Report;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.all });
+    },
+  });
+};
+
+// Mutation to merge a not-yet-saved submission into an existing report
+export const useMergeReportSubmission = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      canonicalId,
+      submission,
+    }: {
+      canonicalId: string;
+      submission: Record<string, unknown>;
+    }) => {
+      // The edge function checks the submission really matches the case
+      const { data, error } = await supabase.functions.invoke(
+        'merge-submission',
+        { body: { canonicalId, submission } },
+      );
+
+      if (error) throw error;
+      return data as { id: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.all });
+    },
+  });
+};
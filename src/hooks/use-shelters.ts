@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/integrations/supabase/client'
+import type { Shelter, ShelterInput } from '@/types/shelter'
+
+// Query keys
+export const shelterKeys = {
+  all: ['shelters'] as const,
+  lists: () => [...shelterKeys.all, 'list'] as const,
+}
+
+// Fetch all shelters, open ones first
+export const useShelters = () => {
+  return useQuery({
+    queryKey: shelterKeys.lists(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shelters')
+        .select('*')
+        .order('is_active', { ascending: false })
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      return data as Shelter[]
+    },
+    staleTime: 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  })
+}
+
+// Mutation to register a new shelter
+export const useCreateShelter = () => {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async (input: ShelterInput) => {
+      const { data, error } = await supabase
+        .from('shelters')
+        .insert({ ...input, created_by: user?.id ?? null })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as Shelter
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: shelterKeys.all })
+    },
+  })
+}
+
+// Mutation to update a shelter's details, occupancy or supplies
+export const useUpdateShelter = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      updates,
+    }: {
+      id: string
+      updates: Partial<ShelterInput>
+    }) => {
+      const { data, error } = await supabase
+        .from('shelters')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as Shelter
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: shelterKeys.all })
+    },
+  })
+}
@@ -42,14 +42,14 @@ export const useStats = () => {
         { data: peopleData },
       ] = await Promise.all([
         // Total count
-        supabase.from('reports').select('*', { count: 'exact', head: true }),
+        supabase.from('visible_reports').select('*', { count: 'exact', head: true }),
         // Status counts
-        supabase.from('reports').select('status'),
+        supabase.from('visible_reports').select('status'),
         // Urgency level counts
-        supabase.from('reports').select('urgency_level'),
+        supabase.from('visible_reports').select('urgency_level'),
         // People counts
         supabase
-          .from('reports')
+          .from('visible_reports')
           .select('number_of_adults, number_of_children, number_of_infants, number_of_seniors, number_of_patients'),
       ]);
 
@@ -124,13 +124,13 @@ export const useLandingStats = () => {
     queryFn: async (): Promise<LandingStats> => {
       // Run queries in parallel for better performance
       const [totalResult, helpedResult, urgentResult] = await Promise.all([
-        supabase.from('reports').select('*', { count: 'exact', head: true }),
+        supabase.from('visible_reports').select('*', { count: 'exact', head: true }),
         supabase
-          .from('reports')
+          .from('visible_reports')
           .select('*', { count: 'exact', head: true })
           .eq('status', 'completed'),
         supabase
-          .from('reports')
+          .from('visible_reports')
           .select('*', { count: 'exact', head: true })
           .gte('urgency_level', 4),
       ]);
@@ -0,0 +1,150 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { supabase } from '@/integrations/supabase/client'
+import type {
+  SupplyDemand,
+  SupplyItem,
+  SupplyItemDraft,
+  SupplyStatus,
+} from '@/types/supply'
+
+// Query keys
+export const supplyKeys = {
+  all: ['supplies'] as const,
+  report: (reportId: string | undefined) =>
+    [...supplyKeys.all, 'report', reportId] as const,
+  open: () => [...supplyKeys.all, 'open'] as const,
+  demand: () => [...supplyKeys.all, 'demand'] as const,
+}
+
+const OPEN_STATUSES: SupplyStatus[] = ['requested', 'pledged', 'dispatched']
+
+// Supply line items requested for one report
+export const useReportSupplies = (reportId: string | undefined) => {
+  return useQuery({
+    queryKey: supplyKeys.report(reportId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_supplies')
+        .select('*')
+        .eq('report_id', reportId!)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return data as SupplyItem[]
+    },
+    enabled: !!reportId,
+  })
+}
+
+// Every item still waiting to be delivered, oldest first
+export const useOpenSupplies = () => {
+  return useQuery({
+    queryKey: supplyKeys.open(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_supplies')
+        .select('*')
+        .in('status', OPEN_STATUSES)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return data as SupplyItem[]
+    },
+    staleTime: 60 * 1000,
+  })
+}
+
+// Demand totals by province, district and category
+export const useSupplyDemand = () => {
+  return useQuery({
+    queryKey: supplyKeys.demand(),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_supply_demand')
+
+      if (error) throw error
+      return data as SupplyDemand[]
+    },
+    staleTime: 60 * 1000,
+  })
+}
+
+// Save line items for a report (new reports and additions from the detail page)
+export const useAddSupplyItems = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      reportId,
+      items,
+    }: {
+      reportId: string
+      items: SupplyItemDraft[]
+    }) => {
+      if (items.length === 0) return
+
+      const { error } = await supabase
+        .from('report_supplies')
+        .insert(items.map((item) => ({ ...item, report_id: reportId })))
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: supplyKeys.all })
+    },
+  })
+}
+
+// Mutation to edit an item or move it along the fulfilment workflow
+export const useUpdateSupplyItem = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      updates,
+    }: {
+      id: string
+      updates: Partial<
+        Pick<
+          SupplyItem,
+          | 'category'
+          | 'item'
+          | 'quantity'
+          | 'unit'
+          | 'status'
+          | 'fulfilled_by'
+          | 'fulfilment_note'
+        >
+      >
+    }) => {
+      const { error } = await supabase
+        .from('report_supplies')
+        .update(updates)
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: supplyKeys.all })
+    },
+  })
+}
+
+export const useDeleteSupplyItem = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('report_supplies')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: supplyKeys.all })
+    },
+  })
+}
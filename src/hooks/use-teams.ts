@@ -0,0 +1,135 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/integrations/supabase/client'
+import type { RescueTeam } from '@/types/team'
+
+import { reportKeys } from './use-reports'
+
+// Query keys
+export const teamKeys = {
+  all: ['rescue-teams'] as const,
+  lists: () => [...teamKeys.all, 'list'] as const,
+  mine: (userId: string | undefined) =>
+    [...teamKeys.all, 'mine', userId] as const,
+}
+
+// Fetch all rescue teams (used to resolve assigned_team_id to a name)
+export const useRescueTeams = () => {
+  return useQuery({
+    queryKey: teamKeys.lists(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('rescue_teams')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      return data as RescueTeam[]
+    },
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  })
+}
+
+// Fetch the team the logged-in user belongs to (null if none)
+export const useMyTeamId = () => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: teamKeys.mine(user?.id),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('rescue_team_id')
+        .eq('id', user!.id)
+        .maybeSingle()
+
+      if (error) throw error
+      return data?.rescue_team_id ?? null
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+// Mutation to join an existing team, or create a new one by name and join it
+export const useJoinTeam = () => {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async ({
+      teamId,
+      newTeamName,
+    }: {
+      teamId?: string
+      newTeamName?: string
+    }) => {
+      if (!user) throw new Error('กรุณาเข้าสู่ระบบก่อน')
+
+      let targetTeamId = teamId
+      if (!targetTeamId && newTeamName) {
+        const { data, error } = await supabase
+          .from('rescue_teams')
+          .insert({ name: newTeamName, created_by: user.id })
+          .select('id')
+          .single()
+
+        if (error) throw error
+        targetTeamId = data.id
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ rescue_team_id: targetTeamId ?? null })
+        .eq('id', user.id)
+
+      if (error) throw error
+      return targetTeamId ?? null
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.all })
+    },
+  })
+}
+
+const invalidateReport = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  reportId: string,
+) => {
+  queryClient.invalidateQueries({ queryKey: reportKeys.lists() })
+  queryClient.invalidateQueries({ queryKey: reportKeys.detail(reportId) })
+}
+
+// Mutation to claim a report for the caller's team
+export const useClaimReport = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (reportId: string) => {
+      const { error } = await supabase.rpc('claim_report', {
+        _report_id: reportId,
+      })
+
+      if (error) throw error
+    },
+    onSuccess: (_, reportId) => invalidateReport(queryClient, reportId),
+  })
+}
+
+// Mutation to release a claim held by the caller's team (or any claim, for admins)
+export const useReleaseReport = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (reportId: string) => {
+      const { error } = await supabase.rpc('release_report', {
+        _report_id: reportId,
+      })
+
+      if (error) throw error
+    },
+    onSuccess: (_, reportId) => invalidateReport(queryClient, reportId),
+  })
+}
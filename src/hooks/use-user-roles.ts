@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { supabase } from '@/integrations/supabase/client'
+import type { AppRole, UserWithRoles } from '@/types/user'
+
+// Query keys
+export const userRoleKeys = {
+  all: ['user-roles'] as const,
+  lists: () => [...userRoleKeys.all, 'list'] as const,
+}
+
+// Fetch every user profile with its granted roles (admins only, via RLS)
+export const useUsersWithRoles = () => {
+  return useQuery({
+    queryKey: userRoleKeys.lists(),
+    queryFn: async () => {
+      const [profilesResult, rolesResult] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, email, full_name, created_at')
+          .order('created_at', { ascending: false }),
+        supabase.from('user_roles').select('user_id, role'),
+      ])
+
+      if (profilesResult.error) throw profilesResult.error
+      if (rolesResult.error) throw rolesResult.error
+
+      const rolesByUser = new Map<string, AppRole[]>()
+      for (const { user_id, role } of rolesResult.data) {
+        rolesByUser.set(user_id, [...(rolesByUser.get(user_id) ?? []), role])
+      }
+
+      return profilesResult.data.map((profile) => ({
+        ...profile,
+        roles: rolesByUser.get(profile.id) ?? [],
+      })) as UserWithRoles[]
+    },
+  })
+}
+
+// Mutation to grant or revoke a single role
+export const useSetUserRole = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      userId,
+      role,
+      enabled,
+    }: {
+      userId: string
+      role: AppRole
+      enabled: boolean
+    }) => {
+      const { error } = enabled
+        ? await supabase.from('user_roles').insert({ user_id: userId, role })
+        : await supabase
+            .from('user_roles')
+            .delete()
+            .eq('user_id', userId)
+            .eq('role', role)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: userRoleKeys.all })
+    },
+  })
+}
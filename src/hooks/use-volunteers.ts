@@ -0,0 +1,106 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/integrations/supabase/client'
+import type {
+  VolunteerProfile,
+  VolunteerProfileInput,
+  VolunteerSuggestion,
+} from '@/types/volunteer'
+
+const VOLUNTEER_COLUMNS =
+  'id, email, full_name, phone, is_volunteer, skills, equipment, home_base, home_lat, home_long, is_on_duty, on_duty_since, rescue_team_id'
+
+// Query keys
+export const volunteerKeys = {
+  all: ['volunteers'] as const,
+  lists: () => [...volunteerKeys.all, 'list'] as const,
+  mine: (userId: string | undefined) =>
+    [...volunteerKeys.all, 'mine', userId] as const,
+  suggestions: (reportId: string, skills: string[]) =>
+    [...volunteerKeys.all, 'suggestions', reportId, skills] as const,
+}
+
+// Every registered volunteer, on duty first (coordinators only, via RLS)
+export const useVolunteers = (enabled = true) => {
+  return useQuery({
+    queryKey: volunteerKeys.lists(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select(VOLUNTEER_COLUMNS)
+        .eq('is_volunteer', true)
+        .order('is_on_duty', { ascending: false })
+        .order('full_name', { ascending: true })
+
+      if (error) throw error
+      return data as VolunteerProfile[]
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  })
+}
+
+// The logged-in user's own profile
+export const useMyVolunteerProfile = () => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: volunteerKeys.mine(user?.id),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select(VOLUNTEER_COLUMNS)
+        .eq('id', user!.id)
+        .maybeSingle()
+
+      if (error) throw error
+      return data as VolunteerProfile | null
+    },
+    enabled: !!user,
+  })
+}
+
+// Mutation to save the logged-in user's volunteer details
+export const useUpdateVolunteerProfile = () => {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async (updates: Partial<VolunteerProfileInput>) => {
+      if (!user) throw new Error('กรุณาเข้าสู่ระบบก่อน')
+
+      const { error } = await supabase
+        .from('profiles')
+        .update(updates)
+        .eq('id', user.id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: volunteerKeys.all })
+    },
+  })
+}
+
+// On-duty volunteers near a case whose skills match what it needs
+export const useVolunteerSuggestions = (
+  reportId: string,
+  skills: string[],
+  enabled = true,
+) => {
+  return useQuery({
+    queryKey: volunteerKeys.suggestions(reportId, skills),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('suggest_volunteers', {
+        _report_id: reportId,
+        _skills: skills,
+      })
+
+      if (error) throw error
+      return data as VolunteerSuggestion[]
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  })
+}
@@ -79,6 +79,83 @@ export type Database = {
           },
         ]
       }
+      duplicate_group_members: {
+        Row: {
+          group_id: string
+          report_id: string
+        }
+        Insert: {
+          group_id: string
+          report_id: string
+        }
+        Update: {
+          group_id?: string
+          report_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'duplicate_group_members_group_id_fkey'
+            columns: ['group_id']
+            isOneToOne: false
+            referencedRelation: 'duplicate_groups'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'duplicate_group_members_report_id_fkey'
+            columns: ['report_id']
+            isOneToOne: false
+            referencedRelation: 'reports'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      duplicate_groups: {
+        Row: {
+          canonical_report_id: string | null
+          created_at: string | null
+          id: string
+          max_similarity: number | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          shared_phones: string[]
+          signature: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          canonical_report_id?: string | null
+          created_at?: string | null
+          id?: string
+          max_similarity?: number | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          shared_phones?: string[]
+          signature: string
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          canonical_report_id?: string | null
+          created_at?: string | null
+          id?: string
+          max_similarity?: number | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          shared_phones?: string[]
+          signature?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'duplicate_groups_canonical_report_id_fkey'
+            columns: ['canonical_report_id']
+            isOneToOne: false
+            referencedRelation: 'reports'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       line_sessions: {
         Row: {
           created_at: string | null
@@ -107,31 +184,290 @@ export type Database = {
         Row: {
           created_at: string | null
           email: string | null
+          equipment: string | null
           full_name: string | null
+          home_base: string | null
+          home_lat: number | null
+          home_long: number | null
           id: string
+          is_on_duty: boolean
+          is_volunteer: boolean
+          on_duty_since: string | null
+          phone: string | null
+          rescue_team_id: string | null
+          skills: string[]
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
           email?: string | null
+          equipment?: string | null
           full_name?: string | null
+          home_base?: string | null
+          home_lat?: number | null
+          home_long?: number | null
           id: string
+          is_on_duty?: boolean
+          is_volunteer?: boolean
+          on_duty_since?: string | null
+          phone?: string | null
+          rescue_team_id?: string | null
+          skills?: string[]
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
           email?: string | null
+          equipment?: string | null
           full_name?: string | null
+          home_base?: string | null
+          home_lat?: number | null
+          home_long?: number | null
           id?: string
+          is_on_duty?: boolean
+          is_volunteer?: boolean
+          on_duty_since?: string | null
+          phone?: string | null
+          rescue_team_id?: string | null
+          skills?: string[]
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: 'profiles_rescue_team_id_fkey'
+            columns: ['rescue_team_id']
+            isOneToOne: false
+            referencedRelation: 'rescue_teams'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      report_attachments: {
+        Row: {
+          created_at: string
+          gps_lat: number | null
+          gps_long: number | null
+          id: string
+          mime_type: string
+          report_id: string | null
+          size_bytes: number | null
+          source: string
+          storage_path: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          gps_lat?: number | null
+          gps_long?: number | null
+          id?: string
+          mime_type: string
+          report_id?: string | null
+          size_bytes?: number | null
+          source: string
+          storage_path: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          gps_lat?: number | null
+          gps_long?: number | null
+          id?: string
+          mime_type?: string
+          report_id?: string | null
+          size_bytes?: number | null
+          source?: string
+          storage_path?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'report_attachments_report_id_fkey'
+            columns: ['report_id']
+            isOneToOne: false
+            referencedRelation: 'reports'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      report_events: {
+        Row: {
+          actor_api_key_id: string | null
+          actor_line_user_id: string | null
+          actor_name: string | null
+          actor_user_id: string | null
+          changes: Json
+          created_at: string | null
+          device_lat: number | null
+          device_long: number | null
+          event_type: string
+          id: string
+          note: string | null
+          people_rescued: number | null
+          photo_path: string | null
+          report_id: string
+        }
+        Insert: {
+          actor_api_key_id?: string | null
+          actor_line_user_id?: string | null
+          actor_name?: string | null
+          actor_user_id?: string | null
+          changes?: Json
+          created_at?: string | null
+          device_lat?: number | null
+          device_long?: number | null
+          event_type: string
+          id?: string
+          note?: string | null
+          people_rescued?: number | null
+          photo_path?: string | null
+          report_id: string
+        }
+        Update: {
+          actor_api_key_id?: string | null
+          actor_line_user_id?: string | null
+          actor_name?: string | null
+          actor_user_id?: string | null
+          changes?: Json
+          created_at?: string | null
+          device_lat?: number | null
+          device_long?: number | null
+          event_type?: string
+          id?: string
+          note?: string | null
+          people_rescued?: number | null
+          photo_path?: string | null
+          report_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'report_events_actor_api_key_id_fkey'
+            columns: ['actor_api_key_id']
+            isOneToOne: false
+            referencedRelation: 'api_keys'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'report_events_report_id_fkey'
+            columns: ['report_id']
+            isOneToOne: false
+            referencedRelation: 'reports'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      report_sources: {
+        Row: {
+          created_at: string | null
+          id: string
+          line_display_name: string | null
+          line_user_id: string | null
+          merged_by: string | null
+          raw_message: string
+          report_id: string
+          source_report_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          line_display_name?: string | null
+          line_user_id?: string | null
+          merged_by?: string | null
+          raw_message: string
+          report_id: string
+          source_report_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          line_display_name?: string | null
+          line_user_id?: string | null
+          merged_by?: string | null
+          raw_message?: string
+          report_id?: string
+          source_report_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'report_sources_report_id_fkey'
+            columns: ['report_id']
+            isOneToOne: false
+            referencedRelation: 'reports'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'report_sources_source_report_id_fkey'
+            columns: ['source_report_id']
+            isOneToOne: false
+            referencedRelation: 'reports'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      report_supplies: {
+        Row: {
+          category: string
+          created_at: string | null
+          fulfilled_by: string | null
+          fulfilment_note: string | null
+          id: string
+          item: string
+          quantity: number
+          report_id: string
+          status: Database['public']['Enums']['supply_status']
+          status_changed_at: string | null
+          status_changed_by: string | null
+          unit: string
+          updated_at: string | null
+        }
+        Insert: {
+          category: string
+          created_at?: string | null
+          fulfilled_by?: string | null
+          fulfilment_note?: string | null
+          id?: string
+          item: string
+          quantity?: number
+          report_id: string
+          status?: Database['public']['Enums']['supply_status']
+          status_changed_at?: string | null
+          status_changed_by?: string | null
+          unit?: string
+          updated_at?: string | null
+        }
+        Update: {
+          category?: string
+          created_at?: string | null
+          fulfilled_by?: string | null
+          fulfilment_note?: string | null
+          id?: string
+          item?: string
+          quantity?: number
+          report_id?: string
+          status?: Database['public']['Enums']['supply_status']
+          status_changed_at?: string | null
+          status_changed_by?: string | null
+          unit?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'report_supplies_report_id_fkey'
+            columns: ['report_id']
+            isOneToOne: false
+            referencedRelation: 'reports'
+            referencedColumns: ['id']
+          },
+        ]
       }
       reports: {
         Row: {
           additional_info: string | null
           address: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          assigned_team_id: string | null
           created_at: string | null
+          duplicate_of: string | null
           embedding: string | null
           health_condition: string | null
           help_categories: string[] | null
@@ -153,14 +489,20 @@ export type Database = {
           phone: string[] | null
           raw_message: string
           reporter_name: string | null
-          status: string | null
+          shelter_id: string | null
+          status: Database['public']['Enums']['report_status']
+          status_reason: string | null
           updated_at: string | null
           urgency_level: number | null
         }
         Insert: {
           additional_info?: string | null
           address?: string | null
+          assigned_at?: string | null
+          assigned_by?: string | null
+          assigned_team_id?: string | null
           created_at?: string | null
+          duplicate_of?: string | null
           embedding?: string | null
           health_condition?: string | null
           help_categories?: string[] | null
@@ -182,14 +524,20 @@ export type Database = {
           phone?: string[] | null
           raw_message: string
           reporter_name?: string | null
-          status?: string | null
+          shelter_id?: string | null
+          status?: Database['public']['Enums']['report_status']
+          status_reason?: string | null
           updated_at?: string | null
           urgency_level?: number | null
         }
         Update: {
           additional_info?: string | null
           address?: string | null
+          assigned_at?: string | null
+          assigned_by?: string | null
+          assigned_team_id?: string | null
           created_at?: string | null
+          duplicate_of?: string | null
           embedding?: string | null
           health_condition?: string | null
           help_categories?: string[] | null
@@ -211,10 +559,112 @@ export type Database = {
           phone?: string[] | null
           raw_message?: string
           reporter_name?: string | null
-          status?: string | null
+          shelter_id?: string | null
+          status?: Database['public']['Enums']['report_status']
+          status_reason?: string | null
           updated_at?: string | null
           urgency_level?: number | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'reports_assigned_team_id_fkey'
+            columns: ['assigned_team_id']
+            isOneToOne: false
+            referencedRelation: 'rescue_teams'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'reports_duplicate_of_fkey'
+            columns: ['duplicate_of']
+            isOneToOne: false
+            referencedRelation: 'reports'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'reports_shelter_id_fkey'
+            columns: ['shelter_id']
+            isOneToOne: false
+            referencedRelation: 'shelters'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      rescue_teams: {
+        Row: {
+          contact_phone: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          contact_phone?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          contact_phone?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      shelters: {
+        Row: {
+          address: string | null
+          capacity: number
+          contact_name: string | null
+          contact_phone: string | null
+          created_at: string | null
+          created_by: string | null
+          current_occupancy: number
+          id: string
+          is_active: boolean
+          location_lat: number | null
+          location_long: number | null
+          name: string
+          supplies_on_hand: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          address?: string | null
+          capacity?: number
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          current_occupancy?: number
+          id?: string
+          is_active?: boolean
+          location_lat?: number | null
+          location_long?: number | null
+          name: string
+          supplies_on_hand?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string | null
+          capacity?: number
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          current_occupancy?: number
+          id?: string
+          is_active?: boolean
+          location_lat?: number | null
+          location_long?: number | null
+          name?: string
+          supplies_on_hand?: string | null
+          updated_at?: string | null
+        }
         Relationships: []
       }
       user_roles: {
@@ -240,9 +690,143 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      visible_reports: {
+        Row: {
+          additional_info: string | null
+          address: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          assigned_team_id: string | null
+          created_at: string | null
+          duplicate_of: string | null
+          health_condition: string | null
+          help_categories: string[] | null
+          help_needed: string | null
+          id: string | null
+          last_contact_at: string | null
+          lastname: string | null
+          line_display_name: string | null
+          line_user_id: string | null
+          location_lat: number | null
+          location_long: number | null
+          map_link: string | null
+          name: string | null
+          number_of_adults: number | null
+          number_of_children: number | null
+          number_of_infants: number | null
+          number_of_patients: number | null
+          number_of_seniors: number | null
+          phone: string[] | null
+          raw_message: string | null
+          reporter_name: string | null
+          shelter_id: string | null
+          status: Database['public']['Enums']['report_status'] | null
+          status_reason: string | null
+          updated_at: string | null
+          urgency_level: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'reports_assigned_team_id_fkey'
+            columns: ['assigned_team_id']
+            isOneToOne: false
+            referencedRelation: 'rescue_teams'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'reports_duplicate_of_fkey'
+            columns: ['duplicate_of']
+            isOneToOne: false
+            referencedRelation: 'reports'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'reports_shelter_id_fkey'
+            columns: ['shelter_id']
+            isOneToOne: false
+            referencedRelation: 'shelters'
+            referencedColumns: ['id']
+          },
+        ]
+      }
     }
     Functions: {
+      apply_report_merge: {
+        Args: {
+          _canonical_id: string
+          _source: Json
+          _source_report_id?: string
+        }
+        Returns: Database['public']['Tables']['reports']['Row']
+      }
+      can_view_contact_details: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      claim_report: {
+        Args: {
+          _report_id: string
+        }
+        Returns: undefined
+      }
+      distance_km: {
+        Args: {
+          _lat1: number
+          _lat2: number
+          _long1: number
+          _long2: number
+        }
+        Returns: number
+      }
+      extract_district: {
+        Args: {
+          _address: string
+        }
+        Returns: string
+      }
+      extract_province: {
+        Args: {
+          _address: string
+        }
+        Returns: string
+      }
+      find_duplicate_pairs: {
+        Args: {
+          _after_id?: string
+          _batch_size?: number
+          _neighbours?: number
+          _similarity_threshold?: number
+        }
+        Returns: {
+          last_id: string
+          report_a: string
+          report_b: string
+          shared_phones: string[]
+          similarity: number
+        }[]
+      }
+      find_duplicate_reports: {
+        Args: {
+          match_limit?: number
+          query_address?: string
+          query_embedding?: string
+          query_lastname?: string
+          query_name?: string
+          query_phones?: string[]
+          similarity_threshold?: number
+        }
+        Returns: {
+          address: string
+          id: string
+          match_reasons: string[]
+          matched_phones: string[]
+          name: string
+          phone: string[]
+          raw_message: string
+          score: number
+          similarity: number
+        }[]
+      }
       find_similar_reports: {
         Args: {
           match_limit?: number
@@ -258,6 +842,27 @@ export type Database = {
           similarity: number
         }[]
       }
+      get_supply_demand: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          category: string
+          delivered_quantity: number
+          district: string
+          in_progress_quantity: number
+          open_items: number
+          province: string
+          report_count: number
+          requested_quantity: number
+          unit: string
+        }[]
+      }
+      has_any_role: {
+        Args: {
+          _roles: Database['public']['Enums']['app_role'][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database['public']['Enums']['app_role']
@@ -265,9 +870,193 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_terminal_report_status: {
+        Args: {
+          _status: Database['public']['Enums']['report_status']
+        }
+        Returns: boolean
+      }
+      is_valid_report_status_transition: {
+        Args: {
+          _from: Database['public']['Enums']['report_status']
+          _to: Database['public']['Enums']['report_status']
+        }
+        Returns: boolean
+      }
+      link_report_attachments: {
+        Args: {
+          _attachment_ids: string[]
+          _report_id: string
+        }
+        Returns: number
+      }
+      mask_address: {
+        Args: {
+          _address: string
+        }
+        Returns: string
+      }
+      mask_phone: {
+        Args: {
+          _phone: string
+        }
+        Returns: string
+      }
+      mask_phones: {
+        Args: {
+          _phones: string[]
+        }
+        Returns: string[]
+      }
+      merge_report_submission: {
+        Args: {
+          _canonical_id: string
+          _submission: Json
+        }
+        Returns: string
+      }
+      merge_reports: {
+        Args: {
+          _canonical_id: string
+          _duplicate_ids: string[]
+        }
+        Returns: Database['public']['Tables']['reports']['Row']
+      }
+      merge_text_arrays: {
+        Args: {
+          _a: string[]
+          _b: string[]
+        }
+        Returns: string[]
+      }
+      normalize_match_text: {
+        Args: {
+          _text: string
+        }
+        Returns: string
+      }
+      normalize_person_name: {
+        Args: {
+          _lastname: string
+          _name: string
+        }
+        Returns: string
+      }
+      normalize_phone: {
+        Args: {
+          _phone: string
+        }
+        Returns: string
+      }
+      normalize_phones: {
+        Args: {
+          _phones: string[]
+        }
+        Returns: string[]
+      }
+      redact_contact_details: {
+        Args: {
+          _text: string
+        }
+        Returns: string
+      }
+      release_report: {
+        Args: {
+          _report_id: string
+        }
+        Returns: undefined
+      }
+      report_total_people: {
+        Args: {
+          _report: Database['public']['Tables']['reports']['Row']
+        }
+        Returns: number
+      }
+      resolve_duplicate_group: {
+        Args: {
+          _canonical_id?: string
+          _confirm: boolean
+          _group_id: string
+        }
+        Returns: Database['public']['Tables']['duplicate_groups']['Row']
+      }
+      snap_coordinate: {
+        Args: {
+          _value: number
+        }
+        Returns: number
+      }
+      submit_field_update: {
+        Args: {
+          _lat?: number
+          _long?: number
+          _note?: string
+          _people_rescued?: number
+          _photo_path?: string
+          _report_id: string
+          _status?: Database['public']['Enums']['report_status']
+        }
+        Returns: undefined
+      }
+      suggest_volunteers: {
+        Args: {
+          _limit?: number
+          _max_distance_km?: number
+          _report_id: string
+          _skills: string[]
+        }
+        Returns: {
+          distance_km: number
+          equipment: string
+          full_name: string
+          home_base: string
+          id: string
+          matched_skills: string[]
+          phone: string
+          rescue_team_id: string
+          skills: string[]
+        }[]
+      }
+      truncate_full_name: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      truncate_lastname: {
+        Args: {
+          _lastname: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: 'admin' | 'user'
+      app_role:
+        | 'admin'
+        | 'user'
+        | 'coordinator'
+        | 'rescuer'
+        | 'verifier'
+        | 'viewer'
+        | 'api_partner'
+      report_status:
+        | 'pending'
+        | 'needs_verification'
+        | 'unreachable'
+        | 'processed'
+        | 'en_route'
+        | 'rescued'
+        | 'evacuated_to_shelter'
+        | 'completed'
+        | 'duplicate'
+        | 'cancelled'
+        | 'deceased'
+      supply_status:
+        | 'requested'
+        | 'pledged'
+        | 'dispatched'
+        | 'delivered'
+        | 'cancelled'
     }
     CompositeTypes: {
       [_ in never]: never
@@ -395,7 +1184,35 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ['admin', 'user'],
+      app_role: [
+        'admin',
+        'user',
+        'coordinator',
+        'rescuer',
+        'verifier',
+        'viewer',
+        'api_partner',
+      ],
+      report_status: [
+        'pending',
+        'needs_verification',
+        'unreachable',
+        'processed',
+        'en_route',
+        'rescued',
+        'evacuated_to_shelter',
+        'completed',
+        'duplicate',
+        'cancelled',
+        'deceased',
+      ],
+      supply_status: [
+        'requested',
+        'pledged',
+        'dispatched',
+        'delivered',
+        'cancelled',
+      ],
     },
   },
 } as const
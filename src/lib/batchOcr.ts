@@ -0,0 +1,115 @@
+import { readAsDataUrl } from '@/lib/imageUtils'
+
+// Batch OCR on the input page: screenshots and PDF pages are read one page at
+// a time, then joined into one text for extraction
+
+// Ten screenshots of a thread is typical; a village list PDF is a few pages
+export const MAX_BATCH_PAGES = 30
+
+// Rendered PDF pages need to be sharp enough for small print
+const PDF_RENDER_SCALE = 2
+const PDF_PAGE_QUALITY = 0.85
+
+export interface OcrPage {
+  // File name, plus the page number for PDFs
+  source: string
+  // Data URL sent to ocr-image
+  image: string
+  // The original photo, so its EXIF GPS can be read; not set for PDF pages
+  file?: File
+}
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')
+
+// pdf.js is large, so it is only loaded when a PDF is actually dropped in
+const renderPdfPages = async (
+  file: File,
+  limit: number,
+): Promise<{ pages: OcrPage[]; pageCount: number }> => {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ])
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() })
+    .promise
+  const pageCount = pdf.numPages
+  const pages: OcrPage[] = []
+
+  try {
+    for (let n = 1; n <= Math.min(pageCount, limit); n++) {
+      const page = await pdf.getPage(n)
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE })
+      const canvas = document.createElement('canvas')
+      canvas.width = viewport.width
+      canvas.height = viewport.height
+
+      await page.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+      }).promise
+
+      pages.push({
+        source: `${file.name} หน้า ${n}/${pageCount}`,
+        image: canvas.toDataURL('image/jpeg', PDF_PAGE_QUALITY),
+      })
+      page.cleanup()
+    }
+  } finally {
+    await pdf.destroy()
+  }
+
+  return { pages, pageCount }
+}
+
+// Split the selected files into pages, in the order they were chosen. Anything
+// past MAX_BATCH_PAGES is dropped and reported as truncated.
+export const expandToPages = async (
+  files: File[],
+): Promise<{ pages: OcrPage[]; truncated: boolean }> => {
+  const pages: OcrPage[] = []
+  let truncated = false
+
+  for (const file of files) {
+    const remaining = MAX_BATCH_PAGES - pages.length
+    if (remaining <= 0) {
+      truncated = true
+      break
+    }
+
+    if (isPdfFile(file)) {
+      const pdf = await renderPdfPages(file, remaining)
+      pages.push(...pdf.pages)
+      if (pdf.pages.length < pdf.pageCount) truncated = true
+    } else {
+      pages.push({
+        source: file.name,
+        image: await readAsDataUrl(file),
+        file,
+      })
+    }
+  }
+
+  return { pages, truncated }
+}
+
+// Join the text read from each page, skipping pages with no text. A marker
+// line goes before every page so the extractor and the reviewer can tell
+// where one screenshot ends and the next begins.
+export const combinePageTexts = (
+  pages: OcrPage[],
+  texts: (string | null)[],
+): string => {
+  if (pages.length === 1) return texts[0] ?? ''
+
+  return pages
+    .map((page, index) =>
+      texts[index]
+        ? `--- หน้า ${index + 1}/${pages.length} (${page.source}) ---\n${texts[index]}`
+        : null,
+    )
+    .filter(Boolean)
+    .join('\n\n')
+}
@@ -0,0 +1,77 @@
+import { BASEMAP_OPTIONS } from '@/types/map'
+
+// Printable case sheets. Tiles are plain <img> elements rather than a Leaflet
+// map so they print reliably and come from the same cache as the live map.
+
+// A page of the dashboard at most; keeps the id list in the URL reasonable
+export const MAX_CASE_SHEETS = 100
+
+// Link to the print view for a set of cases
+export const caseSheetsPath = (reportIds: string[]) =>
+  `/print?ids=${reportIds.join(',')}`
+
+// Absolute links encoded in each sheet's QR codes
+export const caseUrl = (reportId: string) =>
+  `${window.location.origin}/report/${reportId}`
+
+export const fieldUpdateUrl = (reportId: string) => `${caseUrl(reportId)}/field`
+
+const TILE_SIZE = 256
+const TILE_URL = BASEMAP_OPTIONS[0].url.replace('{s}', 'a')
+
+export interface StaticMapTile {
+  url: string
+  // Offset from the top-left corner of the snippet, in pixels
+  left: number
+  top: number
+}
+
+// Web Mercator pixel coordinates of a point at the given zoom
+const toWorldPixel = (lat: number, lng: number, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom
+  const sinLat = Math.sin((lat * Math.PI) / 180)
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  }
+}
+
+// Tiles covering a width x height snippet centred on the point
+export const getStaticMapTiles = (
+  lat: number,
+  lng: number,
+  zoom: number,
+  width: number,
+  height: number,
+): StaticMapTile[] => {
+  const center = toWorldPixel(lat, lng, zoom)
+  const originX = center.x - width / 2
+  const originY = center.y - height / 2
+  const tileCount = 2 ** zoom
+  const tiles: StaticMapTile[] = []
+
+  for (
+    let tileY = Math.floor(originY / TILE_SIZE);
+    tileY * TILE_SIZE < originY + height;
+    tileY++
+  ) {
+    for (
+      let tileX = Math.floor(originX / TILE_SIZE);
+      tileX * TILE_SIZE < originX + width;
+      tileX++
+    ) {
+      if (tileY < 0 || tileY >= tileCount) continue
+      // Wrap around the antimeridian
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount
+      tiles.push({
+        url: TILE_URL.replace('{z}', String(zoom))
+          .replace('{x}', String(wrappedX))
+          .replace('{y}', String(tileY)),
+        left: Math.round(tileX * TILE_SIZE - originX),
+        top: Math.round(tileY * TILE_SIZE - originY),
+      })
+    }
+  }
+
+  return tiles
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest'
+
+import { readExif } from '@shared/exif'
+
+import { readPhotoLocation } from './exif'
+
+type Dms = [degrees: number, minutes: number, seconds: number]
+
+interface TiffOptions {
+  orientation?: number
+  lat?: Dms
+  latRef?: 'N' | 'S'
+  lng?: Dms
+  lngRef?: 'E' | 'W'
+  littleEndian?: boolean
+}
+
+// A TIFF-structured EXIF block with IFD0 (orientation, GPS pointer) and a
+// GPS IFD, laid out the way cameras write it
+const buildTiff = ({
+  orientation = 1,
+  lat,
+  latRef = 'N',
+  lng,
+  lngRef = 'E',
+  littleEndian = false,
+}: TiffOptions): Uint8Array => {
+  const bytes = new Uint8Array(256)
+  const view = new DataView(bytes.buffer)
+  const u16 = (offset: number, value: number) =>
+    view.setUint16(offset, value, littleEndian)
+  const u32 = (offset: number, value: number) =>
+    view.setUint32(offset, value, littleEndian)
+  const entry = (
+    offset: number,
+    tag: number,
+    type: number,
+    count: number,
+    value: (valueField: number) => void,
+  ) => {
+    u16(offset, tag)
+    u16(offset + 2, type)
+    u32(offset + 4, count)
+    value(offset + 8)
+  }
+
+  bytes.set(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d])
+  u16(2, 42)
+  u32(4, 8)
+
+  const hasGps = lat && lng
+  const ifd0 = 8
+  u16(ifd0, hasGps ? 2 : 1)
+  entry(ifd0 + 2, 0x0112, 3, 1, (field) => u16(field, orientation))
+
+  if (hasGps) {
+    const gpsIfd = 40
+    const rationals = 120
+    entry(ifd0 + 14, 0x8825, 4, 1, (field) => u32(field, gpsIfd))
+
+    const writeDms = (offset: number, dms: Dms) =>
+      dms.forEach((value, i) => {
+        u32(offset + i * 8, Math.round(value * 100))
+        u32(offset + i * 8 + 4, 100)
+      })
+    writeDms(rationals, lat)
+    writeDms(rationals + 24, lng)
+
+    u16(gpsIfd, 4)
+    entry(gpsIfd + 2, 1, 2, 2, (field) => (bytes[field] = latRef.charCodeAt(0)))
+    entry(gpsIfd + 14, 2, 5, 3, (field) => u32(field, rationals))
+    entry(
+      gpsIfd + 26,
+      3,
+      2,
+      2,
+      (field) => (bytes[field] = lngRef.charCodeAt(0)),
+    )
+    entry(gpsIfd + 38, 4, 5, 3, (field) => u32(field, rationals + 24))
+  }
+
+  return bytes
+}
+
+const concat = (...parts: ArrayLike<number>[]) => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+const ascii = (text: string) => [...text].map((c) => c.charCodeAt(0))
+
+const u16be = (value: number) => [value >> 8, value & 0xff]
+const u32be = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >> 16) & 0xff,
+  (value >> 8) & 0xff,
+  value & 0xff,
+]
+
+// SOI, JFIF APP0, EXIF APP1, then start of scan
+const buildJpeg = (tiff: Uint8Array) => {
+  const app0 = concat([0xff, 0xe0], u16be(16), ascii('JFIF\0'), new Array(9))
+  const exif = concat(ascii('Exif\0\0'), tiff)
+  const app1 = concat([0xff, 0xe1], u16be(exif.length + 2), exif)
+  return concat([0xff, 0xd8], app0, app1, [0xff, 0xda, 0, 2, 0xff, 0xd9])
+}
+
+const box = (type: string, ...payload: ArrayLike<number>[]) => {
+  const body = concat(...payload)
+  return concat(u32be(body.length + 8), ascii(type), body)
+}
+
+// ftyp, then meta with one "Exif" item whose data sits in mdat
+const buildHeic = (tiff: Uint8Array) => {
+  const ftyp = box('ftyp', ascii('heic'), u32be(0), ascii('mif1heic'))
+  const infe = box('infe', [2, 0, 0, 0], u16be(1), u16be(0), ascii('Exif\0'))
+  const iinf = box('iinf', [0, 0, 0, 0], u16be(1), infe)
+  const exifItem = concat(u32be(0), tiff)
+
+  // iloc v0: 4-byte offsets and lengths, no base offset; the extent offset is
+  // only known once the boxes before mdat are sized
+  const iloc = (extentOffset: number) =>
+    box(
+      'iloc',
+      [0, 0, 0, 0],
+      [0x44, 0x00],
+      u16be(1),
+      u16be(1),
+      u16be(0),
+      u16be(1),
+      u32be(extentOffset),
+      u32be(exifItem.length),
+    )
+  const meta = (extentOffset: number) =>
+    box('meta', [0, 0, 0, 0], iinf, iloc(extentOffset))
+
+  const mdatStart = ftyp.length + meta(0).length
+  return concat(ftyp, meta(mdatStart + 8), box('mdat', exifItem))
+}
+
+describe('readExif', () => {
+  it('reads orientation and GPS in degrees', () => {
+    const info = readExif(
+      buildTiff({ orientation: 6, lat: [13, 45, 36], lng: [100, 30, 18] }),
+    )
+
+    expect(info.orientation).toBe(6)
+    expect(info.lat).toBeCloseTo(13.76, 6)
+    expect(info.lng).toBeCloseTo(100.505, 6)
+  })
+
+  it('reads little-endian blocks and south/west references', () => {
+    const info = readExif(
+      buildTiff({
+        littleEndian: true,
+        lat: [33, 52, 4.8],
+        latRef: 'S',
+        lng: [151, 12, 36],
+        lngRef: 'W',
+      }),
+    )
+
+    expect(info.lat).toBeCloseTo(-33.868, 6)
+    expect(info.lng).toBeCloseTo(-151.21, 6)
+  })
+
+  it('ignores the 0,0 position written without a GPS fix', () => {
+    const info = readExif(buildTiff({ lat: [0, 0, 0], lng: [0, 0, 0] }))
+    expect([info.lat, info.lng]).toEqual([null, null])
+  })
+
+  it('keeps what it read before a truncated GPS block', () => {
+    const tiff = buildTiff({
+      orientation: 3,
+      lat: [13, 0, 0],
+      lng: [100, 0, 0],
+    })
+    const info = readExif(tiff.subarray(0, 45))
+
+    expect(info).toEqual({ orientation: 3, lat: null, lng: null })
+  })
+})
+
+describe('readPhotoLocation', () => {
+  const tiff = buildTiff({ lat: [7, 0, 36], lng: [100, 28, 48] })
+
+  it('finds the position in a JPEG', async () => {
+    const location = await readPhotoLocation(new Blob([buildJpeg(tiff)]))
+
+    expect(location?.lat).toBeCloseTo(7.01, 6)
+    expect(location?.lng).toBeCloseTo(100.48, 6)
+  })
+
+  it('finds the position in a HEIC', async () => {
+    const location = await readPhotoLocation(new Blob([buildHeic(tiff)]))
+
+    expect(location?.lat).toBeCloseTo(7.01, 6)
+    expect(location?.lng).toBeCloseTo(100.48, 6)
+  })
+
+  it('returns null for photos without a position', async () => {
+    expect(
+      await readPhotoLocation(new Blob([buildJpeg(buildTiff({}))])),
+    ).toBeNull()
+    expect(await readPhotoLocation(new Blob(['GIF89a']))).toBeNull()
+  })
+})
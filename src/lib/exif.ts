@@ -0,0 +1,186 @@
+// GPS position from a photo's EXIF block. Phones write it for JPEG and HEIC;
+// many victims send a picture taken at their house, so it is often the most
+// precise location we get.
+
+import { readExif } from '@shared/exif'
+
+export interface PhotoLocation {
+  lat: number
+  lng: number
+}
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  )
+
+// JPEG: the EXIF block is an APP1 segment starting with "Exif\0\0"
+const findJpegExif = (view: DataView): DataView | null => {
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null
+    const marker = view.getUint8(offset + 1)
+    // Start of scan: no metadata after this
+    if (marker === 0xda) return null
+
+    const length = view.getUint16(offset + 2)
+    if (marker === 0xe1 && fourCC(view, offset + 4) === 'Exif') {
+      return new DataView(
+        view.buffer,
+        view.byteOffset + offset + 10,
+        length - 8,
+      )
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+interface Box {
+  type: string
+  // Start and end of the box payload
+  start: number
+  end: number
+}
+
+// ISO BMFF boxes between two offsets
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset)
+    let header = 8
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8))
+      header = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < header) break
+    boxes.push({
+      type: fourCC(view, offset + 4),
+      start: offset + header,
+      end: Math.min(offset + size, end),
+    })
+    offset += size
+  }
+  return boxes
+}
+
+// HEIC: the EXIF block is an item of type "Exif" located through iinf and iloc
+const findHeicExif = (view: DataView): DataView | null => {
+  const meta = readBoxes(view, 0, view.byteLength).find(
+    (box) => box.type === 'meta',
+  )
+  if (!meta) return null
+
+  // meta is a full box: skip version and flags
+  const children = readBoxes(view, meta.start + 4, meta.end)
+  const iinf = children.find((box) => box.type === 'iinf')
+  const iloc = children.find((box) => box.type === 'iloc')
+  if (!iinf || !iloc) return null
+
+  const iinfVersion = view.getUint8(iinf.start)
+  const infeStart = iinf.start + (iinfVersion === 0 ? 6 : 8)
+  let exifItemId: number | null = null
+  for (const infe of readBoxes(view, infeStart, iinf.end)) {
+    if (infe.type !== 'infe') continue
+    const version = view.getUint8(infe.start)
+    if (version < 2) continue
+    const itemId =
+      version === 2
+        ? view.getUint16(infe.start + 4)
+        : view.getUint32(infe.start + 4)
+    const typeOffset = infe.start + (version === 2 ? 8 : 10)
+    if (fourCC(view, typeOffset) === 'Exif') {
+      exifItemId = itemId
+      break
+    }
+  }
+  if (exifItemId === null) return null
+
+  const ilocVersion = view.getUint8(iloc.start)
+  const sizes = view.getUint16(iloc.start + 4)
+  const offsetSize = (sizes >> 12) & 0xf
+  const lengthSize = (sizes >> 8) & 0xf
+  const baseOffsetSize = (sizes >> 4) & 0xf
+  const indexSize = ilocVersion > 0 ? sizes & 0xf : 0
+
+  const readSized = (offset: number, size: number) =>
+    size === 8
+      ? Number(view.getBigUint64(offset))
+      : size === 4
+        ? view.getUint32(offset)
+        : size === 2
+          ? view.getUint16(offset)
+          : 0
+
+  let offset = iloc.start + 6
+  const itemCount =
+    ilocVersion < 2 ? view.getUint16(offset) : view.getUint32(offset)
+  offset += ilocVersion < 2 ? 2 : 4
+
+  for (let i = 0; i < itemCount; i++) {
+    const itemId =
+      ilocVersion < 2 ? view.getUint16(offset) : view.getUint32(offset)
+    offset += ilocVersion < 2 ? 2 : 4
+    if (ilocVersion > 0) offset += 2 // construction method
+    offset += 2 // data reference index
+    const baseOffset = readSized(offset, baseOffsetSize)
+    offset += baseOffsetSize
+    const extentCount = view.getUint16(offset)
+    offset += 2
+
+    for (let j = 0; j < extentCount; j++) {
+      offset += indexSize
+      const extentOffset = readSized(offset, offsetSize)
+      offset += offsetSize
+      const extentLength = readSized(offset, lengthSize)
+      offset += lengthSize
+
+      if (itemId === exifItemId && j === 0) {
+        // The item starts with the offset of the TIFF header within it
+        const itemStart = baseOffset + extentOffset
+        const tiffStart = itemStart + 4 + view.getUint32(itemStart)
+        return new DataView(
+          view.buffer,
+          view.byteOffset + tiffStart,
+          extentLength - (tiffStart - itemStart),
+        )
+      }
+    }
+  }
+  return null
+}
+
+// GPS position of a JPEG or HEIC photo, or null if it has none (or the file
+// can't be read)
+export const readPhotoLocation = async (
+  file: Blob,
+): Promise<PhotoLocation | null> => {
+  try {
+    const view = new DataView(await file.arrayBuffer())
+
+    const isJpeg = view.getUint16(0) === 0xffd8
+    const isHeic = fourCC(view, 4) === 'ftyp'
+    const exif = isJpeg
+      ? findJpegExif(view)
+      : isHeic
+        ? findHeicExif(view)
+        : null
+
+    if (!exif) return null
+
+    const { lat, lng } = readExif(
+      new Uint8Array(exif.buffer, exif.byteOffset, exif.byteLength),
+    )
+    return lat !== null && lng !== null ? { lat, lng } : null
+  } catch (err) {
+    // Truncated or unusual files: the photo simply has no usable position
+    console.warn('Could not read photo EXIF:', err)
+    return null
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+
+import { combineEvidence, isLowConfidence, splitBySpans } from './fieldEvidence'
+
+describe('splitBySpans', () => {
+  it('cuts text into plain and highlighted runs', () => {
+    expect(splitBySpans('โทร 0812345678 ด่วน', [[4, 14]])).toEqual([
+      { text: 'โทร ', highlighted: false },
+      { text: '0812345678', highlighted: true },
+      { text: ' ด่วน', highlighted: false },
+    ])
+  })
+
+  it('merges overlapping and touching spans, in any order', () => {
+    expect(
+      splitBySpans('abcdefghij', [
+        [6, 8],
+        [0, 3],
+        [2, 5],
+        [5, 6],
+      ]),
+    ).toEqual([
+      { text: 'abcdefgh', highlighted: true },
+      { text: 'ij', highlighted: false },
+    ])
+  })
+
+  it('clamps spans to the text and drops empty ones', () => {
+    expect(
+      splitBySpans('abc', [
+        [-2, 1],
+        [2, 10],
+        [1, 1],
+      ]),
+    ).toEqual([
+      { text: 'a', highlighted: true },
+      { text: 'b', highlighted: false },
+      { text: 'c', highlighted: true },
+    ])
+  })
+
+  it('returns the whole text when there is nothing to highlight', () => {
+    expect(splitBySpans('abc', [])).toEqual([
+      { text: 'abc', highlighted: false },
+    ])
+  })
+})
+
+describe('combineEvidence', () => {
+  const evidence = {
+    location_lat: { confidence: 0.9, spans: [[0, 5]] as [number, number][] },
+    map_link: { confidence: 0.4, spans: [[10, 20]] as [number, number][] },
+  }
+
+  it('keeps the weakest confidence and every span', () => {
+    expect(
+      combineEvidence(evidence, ['location_lat', 'location_long', 'map_link']),
+    ).toEqual({
+      confidence: 0.4,
+      spans: [
+        [0, 5],
+        [10, 20],
+      ],
+    })
+  })
+
+  it('returns nothing when none of the fields has evidence', () => {
+    expect(combineEvidence(evidence, ['name'])).toBeUndefined()
+    expect(combineEvidence(undefined, ['name'])).toBeUndefined()
+  })
+})
+
+describe('isLowConfidence', () => {
+  it('flags fields below the threshold only', () => {
+    expect(isLowConfidence({ confidence: 0.69, spans: [] })).toBe(true)
+    expect(isLowConfidence({ confidence: 0.7, spans: [] })).toBe(false)
+    expect(isLowConfidence(undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,67 @@
+import type { FieldEvidence, FieldEvidenceMap } from '@/types/report'
+
+// Fields scored below this are flagged in amber on the review form
+export const LOW_CONFIDENCE_THRESHOLD = 0.7
+
+export const isLowConfidence = (evidence?: FieldEvidence) =>
+  !!evidence && evidence.confidence < LOW_CONFIDENCE_THRESHOLD
+
+// One form control can show several fields (the map shows lat, long and
+// link): the weakest confidence wins and all spans are highlighted
+export const combineEvidence = (
+  evidence: FieldEvidenceMap | undefined,
+  fields: string[],
+): FieldEvidence | undefined => {
+  const entries = fields
+    .map((field) => evidence?.[field])
+    .filter((entry): entry is FieldEvidence => !!entry)
+  if (entries.length === 0) return undefined
+
+  return {
+    confidence: Math.min(...entries.map((entry) => entry.confidence)),
+    spans: entries.flatMap((entry) => entry.spans),
+  }
+}
+
+export interface TextSegment {
+  text: string
+  highlighted: boolean
+}
+
+// Cut text into plain and highlighted runs; overlapping spans are merged
+export const splitBySpans = (
+  text: string,
+  spans: [number, number][],
+): TextSegment[] => {
+  const sorted = spans
+    .map(([start, end]): [number, number] => [
+      Math.max(0, start),
+      Math.min(text.length, end),
+    ])
+    .filter(([start, end]) => start < end)
+    .sort((a, b) => a[0] - b[0])
+
+  const merged: [number, number][] = []
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+
+  const segments: TextSegment[] = []
+  let position = 0
+  for (const [start, end] of merged) {
+    if (start > position) {
+      segments.push({ text: text.slice(position, start), highlighted: false })
+    }
+    segments.push({ text: text.slice(start, end), highlighted: true })
+    position = end
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), highlighted: false })
+  }
+  return segments
+}
@@ -0,0 +1,40 @@
+// Phone photos are several MB; field connections are often a single bar of signal
+const MAX_PHOTO_DIMENSION = 1600
+const PHOTO_QUALITY = 0.8
+
+// Downscale a photo to a JPEG before upload. Re-encoding through a canvas also
+// drops the EXIF block. Falls back to the original file if the browser can't decode it.
+export const resizeImage = async (
+  file: File,
+  maxDimension = MAX_PHOTO_DIMENSION,
+): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(file)
+    const scale = Math.min(
+      1,
+      maxDimension / Math.max(bitmap.width, bitmap.height),
+    )
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(bitmap.width * scale)
+    canvas.height = Math.round(bitmap.height * scale)
+    canvas
+      .getContext('2d')
+      ?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    bitmap.close()
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, 'image/jpeg', PHOTO_QUALITY),
+    )
+    return blob ?? file
+  } catch {
+    return file
+  }
+}
+
+export const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
@@ -0,0 +1,123 @@
+import type { Report } from '@/types/report'
+import type { SupplyItemDraft } from '@/types/supply'
+
+// Writes made without network, kept in IndexedDB until they can be replayed
+
+const DB_NAME = 'thaifloodhelp-offline'
+const DB_VERSION = 1
+const STORE = 'outbox'
+
+// Fired on window whenever the outbox changes
+export const OUTBOX_CHANGE_EVENT = 'outbox-change'
+
+export type OutboxEntryStatus = 'pending' | 'conflict' | 'failed'
+
+interface OutboxEntryBase {
+  id?: number
+  // Short description shown in the outbox list
+  label: string
+  status: OutboxEntryStatus
+  error?: string
+  created_at: string
+}
+
+export interface OutboxUpdateEntry extends OutboxEntryBase {
+  kind: 'update_report'
+  report_id: string
+  // updated_at of the report when it was edited; replay refuses to
+  // overwrite a report that changed on the server since then
+  base_updated_at: string
+  data: Partial<Report>
+}
+
+export interface OutboxCreateEntry extends OutboxEntryBase {
+  kind: 'create_report'
+  // Chosen when queued, so a replay whose response was lost finds the report
+  // already saved instead of inserting it twice
+  report_id: string
+  data: Record<string, unknown>
+  supplies?: SupplyItemDraft[]
+  attachmentIds?: string[]
+}
+
+export type OutboxEntry = OutboxUpdateEntry | OutboxCreateEntry
+
+type NewOutboxEntry =
+  | Omit<OutboxUpdateEntry, 'id' | 'status' | 'created_at'>
+  | Omit<OutboxCreateEntry, 'id' | 'status' | 'created_at'>
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, {
+        keyPath: 'id',
+        autoIncrement: true,
+      })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode)
+    const request = operation(transaction.objectStore(STORE))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+const notifyChange = () => {
+  window.dispatchEvent(new Event(OUTBOX_CHANGE_EVENT))
+}
+
+// Oldest first, which is also the replay order
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> =>
+  runRequest('readonly', (store) => store.getAll() as IDBRequest<OutboxEntry[]>)
+
+export const addOutboxEntry = async (entry: NewOutboxEntry) => {
+  await runRequest('readwrite', (store) =>
+    store.add({
+      ...entry,
+      status: 'pending',
+      created_at: new Date().toISOString(),
+    }),
+  )
+  notifyChange()
+}
+
+export const saveOutboxEntry = async (entry: OutboxEntry) => {
+  await runRequest('readwrite', (store) => store.put(entry))
+  notifyChange()
+}
+
+export const deleteOutboxEntry = async (id: number) => {
+  await runRequest('readwrite', (store) => store.delete(id))
+  notifyChange()
+}
+
+// True when a request failed because there was no connection at all
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine) return true
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === 'object' && error && 'message' in error
+        ? String(error.message)
+        : ''
+  return /Failed to fetch|NetworkError|Load failed|Failed to send a request/i.test(
+    message,
+  )
+}
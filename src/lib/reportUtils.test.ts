@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Report } from '@/types/report'
+
+import {
+  cleanSupplyItems,
+  deriveSupplyItems,
+  getAllowedNextStatuses,
+  isTerminalStatus,
+  previewMergedReport,
+  requiresStatusReason,
+} from './reportUtils'
+
+describe('status transitions', () => {
+  it('only reopen closed cases, or merge them into another', () => {
+    for (const status of ['completed', 'cancelled', 'deceased']) {
+      expect(isTerminalStatus(status)).toBe(true)
+      expect(getAllowedNextStatuses(status)).toEqual([
+        'pending',
+        'needs_verification',
+        'processed',
+        'duplicate',
+      ])
+    }
+    expect(getAllowedNextStatuses('duplicate')).toEqual([
+      'pending',
+      'needs_verification',
+      'processed',
+    ])
+  })
+
+  it('let any open case be merged into another', () => {
+    for (const status of ['processed', 'en_route', 'rescued']) {
+      expect(getAllowedNextStatuses(status)).toContain('duplicate')
+    }
+  })
+
+  it('ask for a reason when a case is closed or reopened', () => {
+    expect(requiresStatusReason('en_route', 'completed')).toBe(true)
+    expect(requiresStatusReason('completed', 'pending')).toBe(true)
+    expect(requiresStatusReason('pending', 'en_route')).toBe(false)
+    expect(requiresStatusReason('completed', 'completed')).toBe(false)
+  })
+
+  it('allow nothing from an unknown status', () => {
+    expect(getAllowedNextStatuses('archived')).toEqual([])
+  })
+})
+
+const report = (fields: Partial<Report>): Report =>
+  ({
+    id: 'canonical',
+    address: '',
+    phone: [],
+    help_categories: [],
+    urgency_level: 1,
+    number_of_adults: 0,
+    number_of_children: 0,
+    number_of_infants: 0,
+    number_of_seniors: 0,
+    number_of_patients: 0,
+    location_lat: null,
+    location_long: null,
+    map_link: null,
+    ...fields,
+  }) as Report
+
+describe('previewMergedReport', () => {
+  it('unions phones and categories in order, dropping blanks and repeats', () => {
+    const merged = previewMergedReport(
+      report({ phone: ['081-111-1111', ' '], help_categories: ['water'] }),
+      [
+        report({
+          phone: ['082-222-2222', '081-111-1111'],
+          help_categories: ['food', 'water'],
+        }),
+      ],
+    )
+
+    expect(merged.phone).toEqual(['081-111-1111', '082-222-2222'])
+    expect(merged.help_categories).toEqual(['water', 'food'])
+  })
+
+  it('keeps the highest urgency and head counts', () => {
+    const merged = previewMergedReport(
+      report({ urgency_level: 4, number_of_adults: 3, number_of_children: 0 }),
+      [
+        report({
+          urgency_level: 2,
+          number_of_adults: 1,
+          number_of_children: 2,
+        }),
+        report({ urgency_level: 5, number_of_adults: 2 }),
+      ],
+    )
+
+    expect(merged.urgency_level).toBe(5)
+    expect(merged.number_of_adults).toBe(3)
+    expect(merged.number_of_children).toBe(2)
+  })
+
+  it('only fills the location and address when the canonical has none', () => {
+    const kept = previewMergedReport(
+      report({ address: ' หมู่ 1 ', location_lat: 13.7, location_long: 100.5 }),
+      [report({ address: 'หมู่ 2', location_lat: 7.0, location_long: 99.1 })],
+    )
+    expect(kept.address).toBe('หมู่ 1')
+    expect([kept.location_lat, kept.location_long]).toEqual([13.7, 100.5])
+
+    const filled = previewMergedReport(report({ address: '  ' }), [
+      report({ address: 'หมู่ 2 ', map_link: 'https://maps.app.goo.gl/x' }),
+    ])
+    expect(filled.address).toBe('หมู่ 2')
+    expect(filled.map_link).toBe('https://maps.app.goo.gl/x')
+  })
+})
+
+describe('deriveSupplyItems', () => {
+  it('suggests one line per supply category, scaled by head count', () => {
+    const items = deriveSupplyItems({
+      number_of_adults: 2,
+      number_of_children: 1,
+      help_categories: ['water', 'medicine', 'evacuation'],
+    })
+
+    expect(items).toEqual([
+      { category: 'water', item: 'น้ำดื่ม', quantity: 18, unit: 'ขวด' },
+      {
+        category: 'medicine',
+        item: 'ยาสามัญประจำบ้าน',
+        quantity: 1,
+        unit: 'ชุด',
+      },
+    ])
+  })
+
+  it('counts at least one person when no head count is known', () => {
+    const [food] = deriveSupplyItems({ help_categories: ['food'] })
+    expect(food.quantity).toBe(3)
+  })
+
+  it('keeps extracted items, filling in missing quantities and units', () => {
+    const items = deriveSupplyItems({
+      number_of_adults: 4,
+      help_categories: ['water'],
+      supply_items: [
+        { category: 'water', item: ' น้ำดื่ม ', quantity: 0 },
+        { item: 'ผ้าอ้อม', quantity: 2, unit: 'ห่อ' },
+        { item: '  ', quantity: 5 },
+      ],
+    })
+
+    expect(items).toEqual([
+      { category: 'water', item: 'น้ำดื่ม', quantity: 24, unit: 'ขวด' },
+      { category: 'other', item: 'ผ้าอ้อม', quantity: 2, unit: 'ห่อ' },
+    ])
+  })
+})
+
+describe('cleanSupplyItems', () => {
+  it('drops blank rows and non-positive quantities', () => {
+    expect(
+      cleanSupplyItems([
+        { category: 'food', item: ' ข้าวสาร ', quantity: 2, unit: ' ' },
+        { category: 'food', item: '', quantity: 1, unit: 'ถุง' },
+        { category: 'water', item: 'น้ำ', quantity: 0, unit: 'ขวด' },
+      ]),
+    ).toEqual([
+      { category: 'food', item: 'ข้าวสาร', quantity: 2, unit: 'ชิ้น' },
+    ])
+  })
+})
@@ -1,3 +1,22 @@
+import {
+  CATEGORY_SKILLS,
+  CLAIM_STALE_HOURS,
+  DUPLICATE_MATCH_REASONS,
+  getHelpCategoryLabel,
+  getUrgency,
+  type HelpCategoryId,
+  STATUS_OPTIONS,
+  STATUS_TRANSITIONS,
+  SUPPLY_DEFAULTS,
+  SUPPLY_STATUS_OPTIONS,
+  TERMINAL_STATUSES,
+  VOLUNTEER_SKILLS,
+  type VolunteerSkillId,
+} from '@/constants/helpCategories'
+import { formatPhoneNumber } from '@/lib/utils'
+import type { DuplicateReport, Report, ReportStatus } from '@/types/report'
+import type { SupplyItemDraft } from '@/types/supply'
+
 // Format Case ID from UUID
 export const formatCaseId = (id: string): string => {
   return id.substring(0, 8).toUpperCase()
@@ -10,44 +29,70 @@ export const getUrgencyBadgeClass = (level: number): string => {
 
 // Get urgency level description
 export const getUrgencyLabel = (level: number): string => {
-  const labels: Record<number, string> = {
-    1: 'ยังไม่โดนน้ำ / แจ้งเตือน',
-    2: 'ผู้ใหญ่ทั้งหมด น้ำท่วมชั้นล่าง',
-    3: 'มีเด็ก หรือผู้สูงอายุ หรือน้ำถึงชั้นสอง',
-    4: 'เด็กเล็กมาก หรือทารก หรือมีคนไข้/ป่วยติดเตียง',
-    5: 'วิกฤต: น้ำถึงหลังคา/ติดบนหลังคา ทารกในอันตราย',
-  }
-  return labels[level] || 'ไม่ระบุ'
+  return getUrgency(level)?.description || 'ไม่ระบุ'
 }
 
 // Get status label in Thai
 export const getStatusLabel = (status: string): string => {
-  const labels: Record<string, string> = {
-    pending: 'รอความช่วยเหลือ',
-    processed: 'กำลังช่วยเหลือ',
-    completed: 'ช่วยเหลือเสร็จสิ้น',
-  }
-  return labels[status] || status
+  return (
+    STATUS_OPTIONS.find((option) => option.value === status)?.label || status
+  )
+}
+
+// Check whether a status closes the case
+export const isTerminalStatus = (status: string): boolean => {
+  return TERMINAL_STATUSES.includes(status as ReportStatus)
+}
+
+// Statuses a case may move to next (not including its current status)
+export const getAllowedNextStatuses = (status: string): ReportStatus[] => {
+  return [...(STATUS_TRANSITIONS[status as ReportStatus] || [])]
+}
+
+// Entering or leaving a terminal status needs a reason note
+export const requiresStatusReason = (from: string, to: string): boolean => {
+  return from !== to && (isTerminalStatus(from) || isTerminalStatus(to))
 }
 
 // Get help category label in Thai
 export const getCategoryLabel = (categoryId: string): string => {
-  const categories: Record<string, string> = {
-    drowning: 'จมน้ำ',
-    trapped: 'ติดขัง',
-    unreachable: 'ติดต่อไม่ได้',
-    water: 'ขาดน้ำดื่ม',
-    food: 'ขาดอาหาร',
-    electricity: 'ขาดไฟฟ้า',
-    shelter: 'ต้องการที่พักพิง',
-    medical: 'คนเจ็บ/ต้องการรักษา',
-    medicine: 'ขาดยา',
-    evacuation: 'ต้องการอพยพ',
-    missing: 'คนหาย',
-    clothes: 'เสื้อผ้า',
-    other: 'อื่นๆ',
+  return getHelpCategoryLabel(categoryId)
+}
+
+// Get report field label in Thai (used by the change history)
+export const getFieldLabel = (field: string): string => {
+  const labels: Record<string, string> = {
+    name: 'ชื่อ',
+    lastname: 'นามสกุล',
+    reporter_name: 'ผู้รายงาน',
+    address: 'ที่อยู่',
+    phone: 'เบอร์โทรศัพท์',
+    location_lat: 'ละติจูด',
+    location_long: 'ลองติจูด',
+    map_link: 'ลิงก์ Google Maps',
+    last_contact_at: 'ติดต่อล่าสุด',
+    number_of_adults: 'ผู้ใหญ่',
+    number_of_children: 'เด็ก',
+    number_of_infants: 'ทารก',
+    number_of_seniors: 'ผู้สูงอายุ',
+    number_of_patients: 'ผู้ป่วย',
+    health_condition: 'ภาวะสุขภาพ',
+    help_needed: 'ความช่วยเหลือ',
+    help_categories: 'ประเภทความช่วยเหลือ',
+    additional_info: 'ข้อมูลเพิ่มเติม',
+    urgency_level: 'ความเร่งด่วน',
+    status: 'สถานะ',
+    raw_message: 'ข้อความต้นฉบับ',
+    assigned_team_id: 'ทีมรับเคส',
+    assigned_at: 'เวลารับเคส',
+    assigned_by: 'ผู้รับเคส',
+    line_user_id: 'LINE User ID',
+    line_display_name: 'ชื่อ LINE',
+    status_reason: 'เหตุผลของสถานะ',
+    duplicate_of: 'ซ้ำกับเคส',
+    shelter_id: 'ศูนย์พักพิง',
   }
-  return categories[categoryId] || categoryId
+  return labels[field] || field
 }
 
 // Calculate total people in a report
@@ -65,6 +110,173 @@ export const getTotalPeople = (report: {
   )
 }
 
+// Get supply fulfilment status label in Thai
+export const getSupplyStatusLabel = (status: string): string => {
+  return (
+    SUPPLY_STATUS_OPTIONS.find((option) => option.value === status)?.label ||
+    status
+  )
+}
+
+// Suggested supply line items for a report. Items from extraction are kept,
+// with a default quantity when none was stated; otherwise one item is
+// suggested per supply category the report asks for.
+export const deriveSupplyItems = (report: {
+  number_of_adults?: number
+  number_of_children?: number
+  number_of_infants?: number
+  number_of_seniors?: number
+  help_categories?: string[]
+  supply_items?: Partial<SupplyItemDraft>[]
+}): SupplyItemDraft[] => {
+  const people = Math.max(getTotalPeople(report), 1)
+  const defaultQuantity = (category: string) => {
+    const defaults = SUPPLY_DEFAULTS[category as HelpCategoryId]
+    if (!defaults) return 1
+    return defaults.perPerson ? defaults.quantity * people : defaults.quantity
+  }
+
+  const extracted = (report.supply_items || []).filter((item) =>
+    item.item?.trim(),
+  )
+  if (extracted.length > 0) {
+    return extracted.map((item) => {
+      const category = item.category || 'other'
+      return {
+        category,
+        item: item.item!.trim(),
+        quantity: item.quantity > 0 ? item.quantity : defaultQuantity(category),
+        unit:
+          item.unit?.trim() ||
+          SUPPLY_DEFAULTS[category as HelpCategoryId]?.unit ||
+          'ชิ้น',
+      }
+    })
+  }
+
+  return (report.help_categories || [])
+    .filter((category) => SUPPLY_DEFAULTS[category as HelpCategoryId])
+    .map((category) => {
+      const defaults = SUPPLY_DEFAULTS[category as HelpCategoryId]!
+      return {
+        category,
+        item: defaults.item,
+        quantity: defaultQuantity(category),
+        unit: defaults.unit,
+      }
+    })
+}
+
+// Drop blank rows and non-positive quantities before saving supply items
+export const cleanSupplyItems = (items: SupplyItemDraft[]): SupplyItemDraft[] =>
+  items
+    .filter((item) => item.item.trim() && item.quantity > 0)
+    .map((item) => ({
+      ...item,
+      item: item.item.trim(),
+      unit: item.unit.trim() || 'ชิ้น',
+    }))
+
+// Get volunteer skill label in Thai
+export const getSkillLabel = (skillId: string): string => {
+  return (
+    VOLUNTEER_SKILLS.find((skill) => skill.id === skillId)?.label || skillId
+  )
+}
+
+// Volunteer skills that match any of a report's help categories
+export const getSkillsForCategories = (
+  categories: string[] = [],
+): VolunteerSkillId[] => {
+  const skills = new Set<VolunteerSkillId>()
+  categories.forEach((category) => {
+    CATEGORY_SKILLS[category as HelpCategoryId]?.forEach((skill) =>
+      skills.add(skill),
+    )
+  })
+  return Array.from(skills)
+}
+
+// Check whether a team's claim on an open case has gone stale
+export const isClaimStale = (report: {
+  assigned_at?: string | null
+  status?: string
+}): boolean => {
+  if (!report.assigned_at || isTerminalStatus(report.status)) return false
+  const ageMs = Date.now() - new Date(report.assigned_at).getTime()
+  return ageMs > CLAIM_STALE_HOURS * 60 * 60 * 1000
+}
+
+// Union two arrays keeping first-seen order and dropping blanks
+const mergeArrays = (a: string[] | null, b: string[] | null): string[] =>
+  Array.from(new Set([...(a || []), ...(b || [])].filter((v) => v?.trim())))
+
+// Preview the result of merging duplicates into a canonical report
+// (mirrors apply_report_merge() in the database, which does the real merge)
+export const previewMergedReport = (
+  canonical: Report,
+  duplicates: Report[],
+): Report => {
+  return duplicates.reduce(
+    (merged, duplicate) => ({
+      ...merged,
+      phone: mergeArrays(merged.phone, duplicate.phone),
+      help_categories: mergeArrays(
+        merged.help_categories,
+        duplicate.help_categories,
+      ),
+      urgency_level: Math.max(merged.urgency_level, duplicate.urgency_level),
+      number_of_adults: Math.max(
+        merged.number_of_adults || 0,
+        duplicate.number_of_adults || 0,
+      ),
+      number_of_children: Math.max(
+        merged.number_of_children || 0,
+        duplicate.number_of_children || 0,
+      ),
+      number_of_infants: Math.max(
+        merged.number_of_infants || 0,
+        duplicate.number_of_infants || 0,
+      ),
+      number_of_seniors: Math.max(
+        merged.number_of_seniors || 0,
+        duplicate.number_of_seniors || 0,
+      ),
+      number_of_patients: Math.max(
+        merged.number_of_patients || 0,
+        duplicate.number_of_patients || 0,
+      ),
+      address: merged.address?.trim() || duplicate.address?.trim() || '',
+      location_lat: merged.location_lat ?? duplicate.location_lat,
+      location_long: merged.location_long ?? duplicate.location_long,
+      map_link: merged.map_link || duplicate.map_link,
+    }),
+    canonical,
+  )
+}
+
+// Explain in Thai why a report was flagged as a possible duplicate
+export const describeDuplicateMatch = (
+  duplicate: Pick<
+    DuplicateReport,
+    'match_reasons' | 'matched_phones' | 'similarity'
+  >,
+): string[] => {
+  return (duplicate.match_reasons || []).map((reason) => {
+    const label =
+      DUPLICATE_MATCH_REASONS.find((option) => option.value === reason)
+        ?.label || reason
+
+    if (reason === 'phone' && duplicate.matched_phones?.length) {
+      return `${label} (${duplicate.matched_phones.map(formatPhoneNumber).join(', ')})`
+    }
+    if (reason === 'similar_text' && duplicate.similarity != null) {
+      return `${label} ${Math.round(duplicate.similarity * 100)}%`
+    }
+    return label
+  })
+}
+
 // Format date to Thai locale (long format with full month name)
 export const formatDate = (dateString: string): string => {
   return new Date(dateString).toLocaleString('th-TH', {
@@ -0,0 +1,250 @@
+import type { Report } from '@/types/report'
+
+// Route planning for rescue runs. Everything runs in the browser with straight-line
+// distances, so it keeps working without a routing service or a connection.
+
+export type RouteReport = Pick<
+  Report,
+  | 'id'
+  | 'name'
+  | 'lastname'
+  | 'address'
+  | 'phone'
+  | 'help_needed'
+  | 'urgency_level'
+  | 'status'
+  | 'location_lat'
+  | 'location_long'
+>
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export interface RouteStop {
+  report: RouteReport
+  position: LatLng
+  // Straight-line distance from the previous stop (or the start point)
+  legKm: number
+  // Distance travelled when this stop is reached
+  cumulativeKm: number
+}
+
+export interface PlannedRoute {
+  start: LatLng | null
+  stops: RouteStop[]
+  totalKm: number
+  // Reports left out because they have no coordinates
+  skipped: RouteReport[]
+}
+
+// Beyond this a single run sheet stops being practical for one boat or truck
+export const MAX_ROUTE_STOPS = 15
+
+// Link to the run sheet for a set of cases
+export const routePlannerPath = (reportIds: string[]) =>
+  `/route?ids=${reportIds.join(',')}`
+
+const EARTH_RADIUS_KM = 6371
+
+export const distanceKm = (a: LatLng, b: LatLng): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h))
+}
+
+const toPosition = (report: RouteReport): LatLng | null => {
+  if (report.location_lat === null || report.location_long === null) {
+    return null
+  }
+  const lat = Number(report.location_lat)
+  const lng = Number(report.location_long)
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null
+}
+
+// Level 5 cases count five times as much as level 1 for every km they wait
+const urgencyWeight = (report: RouteReport) =>
+  Math.min(Math.max(report.urgency_level || 1, 1), 5)
+
+interface Candidate {
+  report: RouteReport
+  position: LatLng
+  weight: number
+}
+
+// Urgency-weighted waiting distance: sum over stops of (distance travelled
+// before reaching the stop x its urgency weight). Lower is better.
+const routeCost = (order: Candidate[], start: LatLng | null): number => {
+  let travelled = 0
+  let cost = 0
+  let previous = start
+  order.forEach((stop) => {
+    if (previous) travelled += distanceKm(previous, stop.position)
+    cost += travelled * stop.weight
+    previous = stop.position
+  })
+  return cost
+}
+
+// Greedy start: repeatedly go to the stop with the best urgency per km
+const nearestNeighbour = (
+  candidates: Candidate[],
+  start: LatLng | null,
+): Candidate[] => {
+  const remaining = [...candidates]
+  const order: Candidate[] = []
+
+  // Without a start point, begin at the most urgent case
+  let current = start
+  if (!current) {
+    remaining.sort((a, b) => b.weight - a.weight)
+    const first = remaining.shift()!
+    order.push(first)
+    current = first.position
+  }
+
+  while (remaining.length > 0) {
+    let bestIndex = 0
+    let bestScore = Infinity
+    remaining.forEach((candidate, index) => {
+      // Small floor so co-located stops don't divide by zero
+      const score =
+        Math.max(distanceKm(current!, candidate.position), 0.01) /
+        candidate.weight
+      if (score < bestScore) {
+        bestScore = score
+        bestIndex = index
+      }
+    })
+    const [next] = remaining.splice(bestIndex, 1)
+    order.push(next)
+    current = next.position
+  }
+
+  return order
+}
+
+// Reverse segments while that lowers the weighted cost (2-opt)
+const twoOpt = (order: Candidate[], start: LatLng | null): Candidate[] => {
+  let best = order
+  let bestCost = routeCost(best, start)
+  let improved = true
+
+  while (improved) {
+    improved = false
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, k + 1).reverse(),
+          ...best.slice(k + 1),
+        ]
+        const cost = routeCost(candidate, start)
+        if (cost < bestCost - 1e-9) {
+          best = candidate
+          bestCost = cost
+          improved = true
+        }
+      }
+    }
+  }
+
+  return best
+}
+
+// Order cases into a run: nearest-neighbour weighted by urgency, refined by 2-opt
+export const planRoute = (
+  reports: RouteReport[],
+  start: LatLng | null = null,
+): PlannedRoute => {
+  const candidates: Candidate[] = []
+  const skipped: RouteReport[] = []
+
+  reports.forEach((report) => {
+    const position = toPosition(report)
+    if (position) {
+      candidates.push({ report, position, weight: urgencyWeight(report) })
+    } else {
+      skipped.push(report)
+    }
+  })
+
+  if (candidates.length === 0) {
+    return { start, stops: [], totalKm: 0, skipped }
+  }
+
+  const order = twoOpt(nearestNeighbour(candidates, start), start)
+
+  let previous = start
+  let cumulativeKm = 0
+  const stops = order.map(({ report, position }) => {
+    const legKm = previous ? distanceKm(previous, position) : 0
+    cumulativeKm += legKm
+    previous = position
+    return { report, position, legKm, cumulativeKm }
+  })
+
+  return { start, stops, totalKm: cumulativeKm, skipped }
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+const stopName = (stop: RouteStop, index: number) =>
+  `${index + 1}. ${[stop.report.name, stop.report.lastname].filter(Boolean).join(' ') || 'ไม่ระบุชื่อ'}`
+
+const stopDescription = (stop: RouteStop) =>
+  [
+    `Level ${stop.report.urgency_level}`,
+    stop.report.address,
+    stop.report.phone?.length ? `โทร ${stop.report.phone.join(', ')}` : null,
+    stop.report.help_needed,
+  ]
+    .filter(Boolean)
+    .join(' | ')
+
+// GPX 1.1 with a waypoint per case and the ordered route, for GPS apps
+export const buildGpx = (route: PlannedRoute, name: string): string => {
+  const point = (tag: string, position: LatLng, body: string) =>
+    `<${tag} lat="${position.lat}" lon="${position.lng}">${body}</${tag}>`
+
+  const waypoints = route.stops.map((stop, index) =>
+    point(
+      'wpt',
+      stop.position,
+      `<name>${escapeXml(stopName(stop, index))}</name><desc>${escapeXml(stopDescription(stop))}</desc>`,
+    ),
+  )
+
+  const routePoints = [
+    ...(route.start
+      ? [point('rtept', route.start, '<name>จุดเริ่มต้น</name>')]
+      : []),
+    ...route.stops.map((stop, index) =>
+      point(
+        'rtept',
+        stop.position,
+        `<name>${escapeXml(stopName(stop, index))}</name>`,
+      ),
+    ),
+  ]
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Thai Flood Help" xmlns="http://www.topografix.com/GPX/1/1">',
+    `<metadata><name>${escapeXml(name)}</name><time>${new Date().toISOString()}</time></metadata>`,
+    ...waypoints,
+    `<rte><name>${escapeXml(name)}</name>${routePoints.join('')}</rte>`,
+    '</gpx>',
+  ].join('\n')
+}
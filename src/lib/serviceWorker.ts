@@ -0,0 +1,19 @@
+// Registers public/sw.js (production builds only; the dev server serves
+// unbundled modules that should never be cached)
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error)
+    })
+  })
+}
+
+// Drop report data cached for offline use, e.g. after signing out, so the
+// next person on a shared device does not see another role's data
+export const clearOfflineReportData = () => {
+  navigator.serviceWorker?.controller?.postMessage({
+    type: 'CLEAR_REPORT_DATA',
+  })
+}
@@ -0,0 +1,363 @@
+// Spreadsheet import of victim lists. Village heads and shelters keep their
+// own CSV/XLSX lists; the wizard maps their columns onto report fields and
+// sends the rows to the import-reports function in batches.
+
+// Rows per import-reports call; each row needs an embedding and a duplicate
+// search, so small batches keep every request well inside the function timeout
+export const IMPORT_BATCH_SIZE = 25
+
+// Bigger lists should be split up; a single wizard run stays reviewable
+export const MAX_IMPORT_ROWS = 2000
+
+export type ImportField =
+  | 'name'
+  | 'lastname'
+  | 'phone'
+  | 'address'
+  | 'number_of_adults'
+  | 'number_of_children'
+  | 'number_of_infants'
+  | 'number_of_seniors'
+  | 'number_of_patients'
+  | 'urgency_level'
+  | 'health_condition'
+  | 'help_needed'
+  | 'additional_info'
+  | 'reporter_name'
+
+interface ImportFieldDefinition {
+  field: ImportField
+  label: string
+  // Lower-cased header names recognised when guessing the mapping
+  aliases: string[]
+  type: 'text' | 'phone' | 'count' | 'urgency'
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  {
+    field: 'name',
+    label: 'ชื่อ',
+    aliases: [
+      'ชื่อ',
+      'ชื่อผู้ประสบภัย',
+      'ชื่อ-สกุล',
+      'ชื่อ-นามสกุล',
+      'first name',
+      'firstname',
+    ],
+    type: 'text',
+  },
+  {
+    field: 'lastname',
+    label: 'นามสกุล',
+    aliases: ['นามสกุล', 'สกุล', 'last name', 'lastname', 'surname'],
+    type: 'text',
+  },
+  {
+    field: 'phone',
+    label: 'เบอร์โทรศัพท์',
+    aliases: [
+      'เบอร์โทร',
+      'เบอร์โทรศัพท์',
+      'โทรศัพท์',
+      'เบอร์',
+      'tel',
+      'phone',
+      'mobile',
+    ],
+    type: 'phone',
+  },
+  {
+    field: 'address',
+    label: 'ที่อยู่',
+    aliases: ['ที่อยู่', 'บ้านเลขที่', 'address'],
+    type: 'text',
+  },
+  {
+    field: 'number_of_adults',
+    label: 'ผู้ใหญ่',
+    aliases: ['ผู้ใหญ่', 'จำนวนผู้ใหญ่', 'adults'],
+    type: 'count',
+  },
+  {
+    field: 'number_of_children',
+    label: 'เด็ก',
+    aliases: ['เด็ก', 'จำนวนเด็ก', 'children'],
+    type: 'count',
+  },
+  {
+    field: 'number_of_infants',
+    label: 'ทารก',
+    aliases: ['ทารก', 'จำนวนทารก', 'infants'],
+    type: 'count',
+  },
+  {
+    field: 'number_of_seniors',
+    label: 'ผู้สูงอายุ',
+    aliases: ['ผู้สูงอายุ', 'จำนวนผู้สูงอายุ', 'seniors', 'elderly'],
+    type: 'count',
+  },
+  {
+    field: 'number_of_patients',
+    label: 'ผู้ป่วย',
+    aliases: ['ผู้ป่วย', 'จำนวนผู้ป่วย', 'ผู้ป่วยติดเตียง', 'patients'],
+    type: 'count',
+  },
+  {
+    field: 'urgency_level',
+    label: 'ระดับความเร่งด่วน (1-5)',
+    aliases: ['ความเร่งด่วน', 'ระดับความเร่งด่วน', 'urgency', 'urgency_level'],
+    type: 'urgency',
+  },
+  {
+    field: 'health_condition',
+    label: 'ภาวะสุขภาพ',
+    aliases: ['ภาวะสุขภาพ', 'โรคประจำตัว', 'อาการ', 'health'],
+    type: 'text',
+  },
+  {
+    field: 'help_needed',
+    label: 'ความช่วยเหลือที่ต้องการ',
+    aliases: [
+      'ความช่วยเหลือ',
+      'ความช่วยเหลือที่ต้องการ',
+      'ต้องการ',
+      'help',
+      'needs',
+    ],
+    type: 'text',
+  },
+  {
+    field: 'additional_info',
+    label: 'ข้อมูลเพิ่มเติม',
+    aliases: ['หมายเหตุ', 'ข้อมูลเพิ่มเติม', 'note', 'notes', 'remark'],
+    type: 'text',
+  },
+  {
+    field: 'reporter_name',
+    label: 'ผู้แจ้ง',
+    aliases: ['ผู้แจ้ง', 'ผู้รายงาน', 'reporter'],
+    type: 'text',
+  },
+]
+
+// Column index -> report field; unmapped columns are left out
+export type ColumnMapping = Record<number, ImportField | undefined>
+
+export interface SpreadsheetTable {
+  headers: string[]
+  rows: string[][]
+}
+
+export type ImportRow = Partial<Record<ImportField, string>> & {
+  // Line in the original file, shown in the results
+  row_number: number
+}
+
+export type ImportRowStatus = 'inserted' | 'duplicate' | 'invalid' | 'failed'
+
+export interface ImportRowResult {
+  row: number
+  status: ImportRowStatus
+  id?: string
+  errors?: string[]
+  duplicates?: {
+    id: string | null
+    name: string | null
+    match_reasons: string[]
+    similarity: number | null
+    row?: number
+  }[]
+}
+
+export const isSpreadsheetFile = (file: File) =>
+  /\.(csv|xlsx)$/i.test(file.name)
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/\s+/g, ' ')
+
+// Match headers against field names and aliases; each field is used once
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {}
+  const used = new Set<ImportField>()
+
+  headers.forEach((header, column) => {
+    const normalized = normalizeHeader(header)
+    const match = IMPORT_FIELDS.find(
+      ({ field, aliases }) =>
+        !used.has(field) &&
+        (normalized === field || aliases.includes(normalized)),
+    )
+    if (match) {
+      mapping[column] = match.field
+      used.add(match.field)
+    }
+  })
+
+  return mapping
+}
+
+// Excel's "Save as CSV" uses ; or tab in some locales
+const detectDelimiter = (firstLine: string) => {
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }))
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter
+}
+
+// RFC 4180 CSV: quoted fields, doubled quotes, CRLF line endings
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] ?? '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+const cellToText = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return ''
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10)
+  return String(cell).trim()
+}
+
+// First sheet of an XLSX file, or a CSV file, as a header row plus data rows.
+// Blank rows are dropped; the header is the first non-blank row.
+export const readSpreadsheet = async (
+  file: File,
+): Promise<SpreadsheetTable> => {
+  let table: string[][]
+  if (/\.xlsx$/i.test(file.name)) {
+    // Only loaded when an Excel file is actually picked
+    const { readSheet } = await import('read-excel-file/browser')
+    const sheet = await readSheet(file)
+    table = sheet.map((row) => row.map(cellToText))
+  } else {
+    table = parseCsv(await file.text()).map((row) => row.map(cellToText))
+  }
+
+  const [headers = [], ...rows] = table.filter((row) =>
+    row.some((cell) => cell !== ''),
+  )
+  return { headers, rows }
+}
+
+// Apply the column mapping. row_number counts the header as line 1.
+export const mapRows = (
+  table: SpreadsheetTable,
+  mapping: ColumnMapping,
+): ImportRow[] =>
+  table.rows.map((cells, index) => {
+    const row: ImportRow = { row_number: index + 2 }
+    Object.entries(mapping).forEach(([column, field]) => {
+      if (!field) return
+      const value = cells[Number(column)] ?? ''
+      // Two columns mapped to phone (e.g. "เบอร์ 1", "เบอร์ 2") are combined
+      row[field] =
+        field === 'phone' && row.phone && value
+          ? `${row.phone}, ${value}`
+          : value || row[field]
+    })
+    return row
+  })
+
+// Quick checks for the preview. import-reports validates again and is the one
+// that decides; this only tells the user what to fix before sending.
+export const validateImportRow = (row: ImportRow): string[] => {
+  const errors: string[] = []
+
+  if (!row.name && !row.phone && !row.address) {
+    errors.push('ต้องมีชื่อ เบอร์โทร หรือที่อยู่อย่างน้อย 1 อย่าง')
+  }
+
+  for (const { field, label, type } of IMPORT_FIELDS) {
+    const value = row[field]?.trim()
+    if (!value) continue
+
+    if (type === 'count' && !/^\d{1,3}$/.test(value)) {
+      errors.push(`${label}ต้องเป็นจำนวนเต็ม: ${value}`)
+    } else if (type === 'urgency' && !/^[1-5]$/.test(value)) {
+      errors.push(`ระดับความเร่งด่วนต้องเป็น 1-5: ${value}`)
+    } else if (type === 'phone') {
+      const invalid = value
+        .split(/[,;/\n]|\s{2,}/)
+        .map((phone) => phone.replace(/\D/g, ''))
+        .filter((digits) => digits && (digits.length < 9 || digits.length > 11))
+      if (invalid.length > 0) {
+        errors.push(`เบอร์โทรไม่ถูกต้อง: ${invalid.join(', ')}`)
+      }
+    }
+  }
+
+  return errors
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Per-row outcome as a CSV, for sending back to whoever supplied the list
+export const resultsToCsv = (results: ImportRowResult[]): string => {
+  const lines = [['แถว', 'ผลลัพธ์', 'รหัสเคส', 'รายละเอียด']]
+  const statusLabels: Record<ImportRowStatus, string> = {
+    inserted: 'นำเข้าแล้ว',
+    duplicate: 'ซ้ำ',
+    invalid: 'ข้อมูลไม่ถูกต้อง',
+    failed: 'บันทึกไม่สำเร็จ',
+  }
+
+  for (const result of results) {
+    const details =
+      result.errors?.join('; ') ??
+      result.duplicates
+        ?.map((d) =>
+          d.row ? `ซ้ำกับแถว ${d.row}` : `ซ้ำกับ ${d.name ?? ''} (${d.id})`,
+        )
+        .join('; ') ??
+      ''
+    lines.push([
+      String(result.row),
+      statusLabels[result.status],
+      result.id ?? '',
+      details,
+    ])
+  }
+
+  // BOM so Excel opens the Thai text as UTF-8
+  return '\uFEFF' + lines.map((line) => line.map(csvCell).join(',')).join('\n')
+}
@@ -0,0 +1,79 @@
+import type { Report } from '@/types/report'
+
+// Urgency levels that trigger a sound and a system notification
+export const URGENT_ALERT_MIN_LEVEL = 4
+
+const STORAGE_KEY = 'urgent-alerts-enabled'
+
+export const getUrgentAlertsEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+export const saveUrgentAlertsEnabled = (enabled: boolean) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(enabled))
+  } catch {
+    // Private mode or storage disabled; the setting just won't persist
+  }
+}
+
+export const isUrgentReport = (report: Pick<Report, 'urgency_level'>) =>
+  report.urgency_level >= URGENT_ALERT_MIN_LEVEL
+
+// Ask for notification permission; returns true if notifications can be shown
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!('Notification' in window)) return false
+  if (Notification.permission === 'granted') return true
+  if (Notification.permission === 'denied') return false
+  return (await Notification.requestPermission()) === 'granted'
+}
+
+let audioContext: AudioContext | null = null
+
+// Two short beeps, generated so no audio file has to be shipped
+export const playAlertSound = () => {
+  try {
+    audioContext ??= new AudioContext()
+    const start = audioContext.currentTime
+
+    for (const offset of [0, 0.25]) {
+      const oscillator = audioContext.createOscillator()
+      const gain = audioContext.createGain()
+      oscillator.type = 'sine'
+      oscillator.frequency.value = 880
+      gain.gain.setValueAtTime(0.2, start + offset)
+      gain.gain.exponentialRampToValueAtTime(0.001, start + offset + 0.2)
+      oscillator.connect(gain).connect(audioContext.destination)
+      oscillator.start(start + offset)
+      oscillator.stop(start + offset + 0.2)
+    }
+  } catch (error) {
+    console.error('Error playing alert sound:', error)
+  }
+}
+
+export const showUrgentNotification = (report: Report, onClick: () => void) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') {
+    return
+  }
+
+  const notification = new Notification(
+    `เคสเร่งด่วนระดับ ${report.urgency_level}`,
+    {
+      body: [report.name, report.address, report.help_needed]
+        .filter(Boolean)
+        .join(' · '),
+      tag: report.id,
+    },
+  )
+
+  notification.onclick = () => {
+    window.focus()
+    onClick()
+    notification.close()
+  }
+}
@@ -9,7 +9,12 @@ export function cn(...inputs: ClassValue[]) {
  * Format phone number to xxx-xxx-xxxx format
  */
 export function formatPhoneNumber(phone: string): string {
-  const digits = phone.replace(/\D/g, '')
+  let digits = phone.replace(/\D/g, '')
+
+  // International format: +66 replaces the leading 0
+  if (/^66[1-9]\d{7,8}$/.test(digits)) {
+    digits = `0${digits.slice(2)}`
+  }
 
   // Thai mobile: 0xx-xxx-xxxx (10 digits)
   if (digits.length === 10 && digits.startsWith('0')) {
@@ -30,3 +35,10 @@ export function formatPhoneNumber(phone: string): string {
 export function getPhoneLink(phone: string): string {
   return phone.replace(/\D/g, '')
 }
+
+/**
+ * Check if a phone number was masked for public viewers (e.g. 08x-xxx-5678)
+ */
+export function isMaskedPhone(phone: string): boolean {
+  return /x/i.test(phone)
+}
@@ -4,6 +4,9 @@ import { createRoot } from 'react-dom/client'
 
 import App from './App.tsx'
 import { AuthProvider } from './contexts/AuthContext'
+import { registerServiceWorker } from './lib/serviceWorker'
+
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <AuthProvider>
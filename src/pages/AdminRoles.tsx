@@ -0,0 +1,185 @@
+import { Loader2, Search, ShieldAlert, UserCog } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { ROLE_OPTIONS } from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useSetUserRole, useUsersWithRoles } from '@/hooks/use-user-roles'
+import { formatDate } from '@/lib/reportUtils'
+import type { AppRole, UserWithRoles } from '@/types/user'
+
+const AdminRoles = () => {
+  const { user, isAdmin, loading } = useAuth()
+  const [searchTerm, setSearchTerm] = useState('')
+
+  const { data: users = [], isLoading } = useUsersWithRoles()
+  const setUserRole = useSetUserRole()
+
+  const filteredUsers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    if (!term) return users
+    return users.filter(
+      (u) =>
+        u.email?.toLowerCase().includes(term) ||
+        u.full_name?.toLowerCase().includes(term),
+    )
+  }, [users, searchTerm])
+
+  const handleToggle = async (
+    target: UserWithRoles,
+    role: AppRole,
+    enabled: boolean,
+  ) => {
+    const label = ROLE_OPTIONS.find((option) => option.value === role)?.label
+    try {
+      await setUserRole.mutateAsync({ userId: target.id, role, enabled })
+      toast.success(enabled ? 'เพิ่มสิทธิ์แล้ว' : 'ถอนสิทธิ์แล้ว', {
+        description: `${label} - ${target.email || target.full_name}`,
+      })
+    } catch (err) {
+      toast.error('ไม่สามารถเปลี่ยนสิทธิ์ได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="container mx-auto max-w-3xl p-4 md:p-8">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">
+              เฉพาะผู้ดูแลระบบเท่านั้น
+            </h3>
+            <p className="text-muted-foreground">
+              กรุณาเข้าสู่ระบบด้วยบัญชีผู้ดูแลระบบเพื่อจัดการสิทธิ์ผู้ใช้
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto max-w-6xl p-4 md:p-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">จัดการสิทธิ์ผู้ใช้</h1>
+        <p className="text-muted-foreground mt-1">
+          กำหนดบทบาทของผู้ใช้แต่ละคน
+          ผู้ที่ไม่มีบทบาทจะเห็นข้อมูลแบบซ่อนเบอร์โทรและพิกัดเท่านั้น
+        </p>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="ค้นหาอีเมลหรือชื่อ"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : filteredUsers.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <UserCog className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">ไม่พบผู้ใช้</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ผู้ใช้</TableHead>
+                  {ROLE_OPTIONS.map((option) => (
+                    <TableHead key={option.value} className="text-center">
+                      <Tooltip>
+                        <TooltipTrigger className="cursor-help">
+                          {option.label}
+                        </TooltipTrigger>
+                        <TooltipContent>{option.description}</TooltipContent>
+                      </Tooltip>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredUsers.map((target) => (
+                  <TableRow key={target.id}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {target.full_name || target.email}
+                      </div>
+                      {target.full_name && (
+                        <div className="text-sm text-muted-foreground">
+                          {target.email}
+                        </div>
+                      )}
+                      {target.created_at && (
+                        <div className="text-xs text-muted-foreground">
+                          สมัครเมื่อ {formatDate(target.created_at)}
+                        </div>
+                      )}
+                    </TableCell>
+                    {ROLE_OPTIONS.map((option) => {
+                      // Admins cannot lock themselves out
+                      const isOwnAdmin =
+                        target.id === user?.id && option.value === 'admin'
+                      return (
+                        <TableCell key={option.value} className="text-center">
+                          <Checkbox
+                            checked={target.roles.includes(option.value)}
+                            onCheckedChange={(checked) =>
+                              handleToggle(target, option.value, !!checked)
+                            }
+                            disabled={isOwnAdmin || setUserRole.isPending}
+                            aria-label={option.label}
+                          />
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default AdminRoles
@@ -33,9 +33,15 @@ const Api = () => {
   const [saveLoading, setSaveLoading] = useState(false)
   const [saveApiKey, setSaveApiKey] = useState('')
 
+  const [importInput, setImportInput] = useState('')
+  const [importResponse, setImportResponse] = useState('')
+  const [importLoading, setImportLoading] = useState(false)
+  const [importApiKey, setImportApiKey] = useState('')
+
   const [copiedOcr, setCopiedOcr] = useState(false)
   const [copiedExtract, setCopiedExtract] = useState(false)
   const [copiedSave, setCopiedSave] = useState(false)
+  const [copiedImport, setCopiedImport] = useState(false)
 
   const API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`
 
@@ -97,6 +103,41 @@ const Api = () => {
     2,
   )
 
+  const importExample = JSON.stringify(
+    {
+      source: 'รายชื่อหมู่ 5 บ้านใหม่.xlsx',
+      mapping: {
+        ชื่อ: 'name',
+        นามสกุล: 'lastname',
+        เบอร์โทร: 'phone',
+        ที่อยู่: 'address',
+        ผู้สูงอายุ: 'number_of_seniors',
+        เด็ก: 'number_of_children',
+      },
+      rows: [
+        {
+          ชื่อ: 'สมชาย',
+          นามสกุล: 'ใจดี',
+          เบอร์โทร: '0812345678',
+          ที่อยู่: '123 หมู่ 5 ตำบลบ้านใหม่ อำเภอเมือง จังหวัดเชียงใหม่',
+          ผู้สูงอายุ: 2,
+          เด็ก: 3,
+        },
+        {
+          ชื่อ: 'สมศรี',
+          นามสกุล: 'ใจงาม',
+          เบอร์โทร: '089-876-5432',
+          ที่อยู่: '45 หมู่ 5 ตำบลบ้านใหม่ อำเภอเมือง จังหวัดเชียงใหม่',
+          ผู้สูงอายุ: 0,
+          เด็ก: 1,
+        },
+      ],
+      skipDuplicates: true,
+    },
+    null,
+    2,
+  )
+
   const handleOcr = async () => {
     if (!ocrInput.trim()) {
       toast.error('กรุณาใส่ข้อมูล JSON')
@@ -241,7 +282,58 @@ const Api = () => {
     }
   }
 
-  const copyToClipboard = (text: string, type: 'ocr' | 'extract' | 'save') => {
+  const handleImport = async () => {
+    if (!importInput.trim()) {
+      toast.error('กรุณาใส่ข้อมูล JSON')
+      return
+    }
+
+    if (!importApiKey.trim()) {
+      toast.error('กรุณาใส่ API Key')
+      return
+    }
+
+    let payload
+    try {
+      payload = JSON.parse(importInput)
+    } catch {
+      toast.error('รูปแบบ JSON ไม่ถูกต้อง')
+      return
+    }
+
+    setImportLoading(true)
+    setImportResponse('')
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api-v1-import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': importApiKey,
+        },
+        body: JSON.stringify(payload),
+      })
+
+      const data = await response.json()
+      setImportResponse(JSON.stringify(data, null, 2))
+
+      if (response.ok) {
+        toast.success('นำเข้าข้อมูลสำเร็จ')
+      } else {
+        toast.error(`เกิดข้อผิดพลาด: ${response.status}`)
+      }
+    } catch (error) {
+      toast.error('ไม่สามารถเชื่อมต่อ API ได้')
+      setImportResponse(JSON.stringify({ error: String(error) }, null, 2))
+    } finally {
+      setImportLoading(false)
+    }
+  }
+
+  const copyToClipboard = (
+    text: string,
+    type: 'ocr' | 'extract' | 'save' | 'import',
+  ) => {
     navigator.clipboard.writeText(text)
     if (type === 'ocr') {
       setCopiedOcr(true)
@@ -249,9 +341,12 @@ const Api = () => {
     } else if (type === 'extract') {
       setCopiedExtract(true)
       setTimeout(() => setCopiedExtract(false), 2000)
-    } else {
+    } else if (type === 'save') {
       setCopiedSave(true)
       setTimeout(() => setCopiedSave(false), 2000)
+    } else {
+      setCopiedImport(true)
+      setTimeout(() => setCopiedImport(false), 2000)
     }
     toast.success('คัดลอกแล้ว')
   }
@@ -294,10 +389,11 @@ const Api = () => {
         </Card>
 
         <Tabs defaultValue="ocr" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="ocr">OCR API</TabsTrigger>
             <TabsTrigger value="extract">Extract API</TabsTrigger>
             <TabsTrigger value="save">Save API</TabsTrigger>
+            <TabsTrigger value="import">Import API</TabsTrigger>
           </TabsList>
 
           <TabsContent value="ocr" className="space-y-4">
@@ -653,6 +749,129 @@ X-API-Key: your_api_key_here`}
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="import" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Badge>POST</Badge>
+                  <code className="text-sm">/api-v1-import</code>
+                </div>
+                <CardDescription>
+                  นำเข้ารายชื่อผู้ประสบภัยหลายรายการ (สูงสุด 1,000 แถวต่อครั้ง)
+                  พร้อมตรวจสอบข้อมูลและรายการซ้ำทีละแถว
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Headers</h3>
+                  <pre className="bg-muted p-4 rounded text-sm">
+                    {`Content-Type: application/json
+X-API-Key: your_api_key_here`}
+                  </pre>
+                  <p className="text-sm text-muted-foreground">
+                    ส่งไฟล์ CSV โดยตรงได้ด้วย{' '}
+                    <code>Content-Type: text/csv</code>{' '}
+                    โดยหัวคอลัมน์ต้องเป็นชื่อฟิลด์ เช่น name, lastname, phone,
+                    address, number_of_adults, urgency_level
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold">Request Body</h3>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => copyToClipboard(importExample, 'import')}
+                    >
+                      {copiedImport ? (
+                        <Check className="h-4 w-4" />
+                      ) : (
+                        <Copy className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                  <pre className="bg-muted p-4 rounded text-sm overflow-x-auto max-h-64">
+                    {importExample}
+                  </pre>
+                  <p className="text-sm text-muted-foreground">
+                    <code>mapping</code> จับคู่หัวคอลัมน์กับชื่อฟิลด์
+                    (ไม่ระบุได้หากใช้ชื่อฟิลด์อยู่แล้ว) หรือส่ง <code>csv</code>{' '}
+                    เป็นข้อความแทน <code>rows</code> ผลลัพธ์แต่ละแถวมีสถานะ
+                    inserted, duplicate, invalid หรือ failed
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="font-semibold">ทดสอบ API</h3>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">API Key</label>
+                    <Input
+                      type="password"
+                      placeholder="ใส่ API Key ของคุณ (tfh_...)"
+                      value={importApiKey}
+                      onChange={(e) => setImportApiKey(e.target.value)}
+                      className="font-mono text-sm"
+                    />
+                  </div>
+                  <Textarea
+                    placeholder="วาง JSON request body ที่นี่..."
+                    value={importInput}
+                    onChange={(e) => setImportInput(e.target.value)}
+                    rows={10}
+                    className="font-mono text-sm"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => setImportInput(importExample)}
+                      variant="outline"
+                      size="sm"
+                    >
+                      ใช้ตัวอย่าง
+                    </Button>
+                    <Button
+                      onClick={handleImport}
+                      disabled={importLoading}
+                      className="flex-1"
+                    >
+                      {importLoading ? (
+                        'กำลังนำเข้า...'
+                      ) : (
+                        <>
+                          <Send className="mr-2 h-4 w-4" />
+                          ส่งคำขอ
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </div>
+
+                {importResponse && (
+                  <div className="space-y-2">
+                    <h3 className="font-semibold">Response</h3>
+                    <pre className="bg-muted p-4 rounded text-sm overflow-x-auto max-h-96">
+                      {importResponse}
+                    </pre>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Example cURL</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <pre className="bg-muted p-4 rounded text-sm overflow-x-auto">
+                  {`curl -X POST '${API_BASE_URL}/api-v1-import' \\
+  -H 'Content-Type: text/csv' \\
+  -H 'X-API-Key: your_api_key_here' \\
+  --data-binary @victims.csv`}
+                </pre>
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
 
         <Card>
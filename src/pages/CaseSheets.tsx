@@ -0,0 +1,108 @@
+import { ArrowLeft, FileText, Loader2, Printer } from 'lucide-react'
+import { useMemo } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+
+import { CaseSheet } from '@/components/CaseSheet'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { CONTACT_VIEWER_ROLES } from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useReportsByIds } from '@/hooks/use-reports'
+import { MAX_CASE_SHEETS } from '@/lib/caseSheets'
+
+const CaseSheets = () => {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const { hasRole } = useAuth()
+
+  const ids = useMemo(
+    () =>
+      (searchParams.get('ids') || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+        .slice(0, MAX_CASE_SHEETS),
+    [searchParams],
+  )
+
+  const { data = [], isLoading } = useReportsByIds(ids)
+
+  // Keep the order the cases were picked in (dashboard sort or route order)
+  const reports = useMemo(
+    () =>
+      ids.map((id) => data.find((report) => report.id === id)).filter(Boolean),
+    [ids, data],
+  )
+
+  // Thai web fonts must be loaded or the PDF falls back to a system font
+  const handlePrint = async () => {
+    await document.fonts?.ready
+    window.print()
+  }
+
+  if (ids.length === 0) {
+    return (
+      <div className="container mx-auto max-w-3xl p-4 md:p-8">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">ยังไม่ได้เลือกเคส</h3>
+            <p className="text-muted-foreground mb-4">
+              เลือกเคสจากหน้าข้อมูลหรือเปิดหน้ารายละเอียดเคส แล้วกด "พิมพ์"
+            </p>
+            <Button onClick={() => navigate('/dashboard')}>
+              ไปที่หน้าข้อมูล
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto max-w-4xl p-4 md:p-8 space-y-6 print:max-w-none print:p-0 print:space-y-0">
+      <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mb-2"
+            onClick={() => navigate(-1)}
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            กลับ
+          </Button>
+          <h1 className="text-3xl font-bold">ใบเคสสำหรับพิมพ์</h1>
+          <p className="text-muted-foreground mt-1">
+            {reports.length} เคส · หนึ่งเคสต่อหนึ่งหน้า A4 บันทึกเป็น PDF
+            ได้จากหน้าต่างพิมพ์
+          </p>
+        </div>
+        <Button onClick={handlePrint} disabled={reports.length === 0}>
+          <Printer className="mr-2 h-4 w-4" />
+          พิมพ์ / PDF
+        </Button>
+      </div>
+
+      {!hasRole(CONTACT_VIEWER_ROLES) && (
+        <Alert className="print:hidden">
+          <AlertDescription>
+            ใบเคสนี้ซ่อนเบอร์โทร นามสกุล และใช้ตำแหน่งโดยประมาณ
+            เข้าสู่ระบบด้วยสิทธิ์ทีมช่วยเหลือเพื่อพิมพ์ข้อมูลครบถ้วน
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        reports.map((report) => <CaseSheet key={report.id} report={report} />)
+      )}
+    </div>
+  )
+}
+
+export default CaseSheets
@@ -3,25 +3,33 @@ import {
   ArrowLeft,
   ArrowUp,
   ArrowUpDown,
+  Bell,
+  BellOff,
   ChevronDown,
   ChevronLeft,
   ChevronRight,
   Columns,
   Download,
   Filter,
+  GitMerge,
   Loader2,
   MapPin,
   Pencil,
   Phone,
+  Printer,
   RefreshCw,
+  Route,
 } from 'lucide-react'
 import React, { useEffect, useMemo, useRef, useState } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 
+import { CaseAssignment } from '@/components/CaseAssignment'
 import { EditReportDialog } from '@/components/EditReportDialog'
+import { MergeReportsDialog } from '@/components/MergeReportsDialog'
 import QueryBot from '@/components/QueryBot'
+import { StatusBadge } from '@/components/StatusBadge'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -47,11 +55,32 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import { HELP_CATEGORIES } from '@/constants/helpCategories'
+import {
+  CONTACT_VIEWER_ROLES,
+  COORDINATOR_ROLES,
+  HELP_CATEGORIES,
+  REPORT_EDITOR_ROLES,
+  STATUS_CHANGER_ROLES,
+  STATUS_OPTIONS,
+  URGENCY_LEVELS,
+} from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useRealtimeReports,
+  useUrgentAlerts,
+} from '@/hooks/use-realtime-reports'
 import { usePaginatedReports, reportKeys } from '@/hooks/use-reports'
-import { formatCaseId, getUrgencyBadgeClass } from '@/lib/reportUtils'
+import { useMyTeamId } from '@/hooks/use-teams'
+import { MAX_CASE_SHEETS, caseSheetsPath } from '@/lib/caseSheets'
+import {
+  formatCaseId,
+  getStatusLabel,
+  getUrgencyBadgeClass,
+} from '@/lib/reportUtils'
+import { MAX_ROUTE_STOPS, routePlannerPath } from '@/lib/routePlanning'
+import { isMaskedPhone } from '@/lib/utils'
 import { supabase } from '@/integrations/supabase/client'
-import type { Report } from '@/types/report'
+import type { Report, ReportStatus } from '@/types/report'
 
 const Dashboard = () => {
   const navigate = useNavigate()
@@ -75,7 +104,10 @@ const Dashboard = () => {
   const [searchTerm, setSearchTerm] = useState('')
   const [manualSearchTerm, setManualSearchTerm] = useState('')
   const [urgencyFilter, setUrgencyFilter] = useState<number | null>(null)
-  const [statusFilter, setStatusFilter] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<ReportStatus | null>(null)
+  const [assignmentFilter, setAssignmentFilter] = useState<
+    'all' | 'unassigned' | 'mine'
+  >('all')
   const [isSearching, setIsSearching] = useState(false)
   const [selectedCategories, setSelectedCategories] = useState<string[]>([])
   const [forceDeepSearch, setForceDeepSearch] = useState(false)
@@ -86,6 +118,47 @@ const Dashboard = () => {
   const [editingReport, setEditingReport] = useState<Report | null>(null)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [isConvertingMapLinks, setIsConvertingMapLinks] = useState(false)
+  // Rows picked for merging or a rescue run; kept as full reports so selection
+  // survives paging
+  const [selectedReports, setSelectedReports] = useState<Report[]>([])
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false)
+  const { data: myTeamId } = useMyTeamId()
+  const { hasRole } = useAuth()
+  const canEdit = hasRole(REPORT_EDITOR_ROLES)
+  const canMerge = hasRole(COORDINATOR_ROLES)
+  const canPlanRoute = hasRole(STATUS_CHANGER_ROLES)
+  const canSelect = canMerge || canPlanRoute
+  // Public viewers get masked contacts and approximate locations from the server
+  const isPublicView = !hasRole(CONTACT_VIEWER_ROLES)
+  const { newReportIds, isLive } = useRealtimeReports()
+  const urgentAlerts = useUrgentAlerts()
+
+  const toggleReportSelection = (report: Report) => {
+    setSelectedReports((prev) =>
+      prev.some((r) => r.id === report.id)
+        ? prev.filter((r) => r.id !== report.id)
+        : [...prev, report],
+    )
+  }
+
+  const openRoutePlanner = () => {
+    if (selectedReports.length > MAX_ROUTE_STOPS) {
+      toast.error(`เลือกได้ไม่เกิน ${MAX_ROUTE_STOPS} เคสต่อหนึ่งเส้นทาง`)
+      return
+    }
+    navigate(routePlannerPath(selectedReports.map((r) => r.id)))
+  }
+
+  // Print the picked cases, or everything currently listed when none are picked
+  const openCaseSheets = () => {
+    const reports =
+      selectedReports.length > 0 ? selectedReports : filteredReports
+    if (reports.length > MAX_CASE_SHEETS) {
+      toast.error(`พิมพ์ได้ครั้งละไม่เกิน ${MAX_CASE_SHEETS} เคส`)
+      return
+    }
+    navigate(caseSheetsPath(reports.map((r) => r.id)))
+  }
 
   const columnDefinitions = [
     { id: 'expand', label: 'Expand', defaultVisible: true, required: true },
@@ -93,6 +166,7 @@ const Dashboard = () => {
     { id: 'createdAt', label: 'วันที่บันทึก', defaultVisible: true },
     { id: 'urgency', label: 'ความเร่งด่วน', defaultVisible: true },
     { id: 'status', label: 'สถานะ', defaultVisible: true },
+    { id: 'assignment', label: 'ทีมรับเคส', defaultVisible: true },
     { id: 'name', label: 'ชื่อ-นามสกุล', defaultVisible: true },
     { id: 'map', label: 'แผนที่', defaultVisible: true },
     { id: 'address', label: 'ที่อยู่', defaultVisible: true },
@@ -135,6 +209,8 @@ const Dashboard = () => {
       selectedCategories,
       sortColumn,
       sortDirection,
+      unassignedOnly: assignmentFilter === 'unassigned',
+      assignedTeamId: assignmentFilter === 'mine' ? myTeamId : null,
     })
   const reports = paginatedData?.data || []
   const totalCount = paginatedData?.count || 0
@@ -246,6 +322,7 @@ const Dashboard = () => {
     manualSearchTerm,
     urgencyFilter,
     statusFilter,
+    assignmentFilter,
     selectedCategories: selectedCategories.join(','),
   })
 
@@ -255,6 +332,7 @@ const Dashboard = () => {
       manualSearchTerm,
       urgencyFilter,
       statusFilter,
+      assignmentFilter,
       selectedCategories: selectedCategories.join(','),
     }
 
@@ -264,6 +342,8 @@ const Dashboard = () => {
         currentFilters.manualSearchTerm ||
       prevFiltersRef.current.urgencyFilter !== currentFilters.urgencyFilter ||
       prevFiltersRef.current.statusFilter !== currentFilters.statusFilter ||
+      prevFiltersRef.current.assignmentFilter !==
+        currentFilters.assignmentFilter ||
       prevFiltersRef.current.selectedCategories !==
         currentFilters.selectedCategories
 
@@ -280,6 +360,7 @@ const Dashboard = () => {
     manualSearchTerm,
     urgencyFilter,
     statusFilter,
+    assignmentFilter,
     selectedCategories,
     currentPage,
   ])
@@ -310,6 +391,7 @@ const Dashboard = () => {
         'ข้อมูลเพิ่มเติม',
         'ระดับความเร่งด่วน',
         'สถานะ',
+        'เหตุผลของสถานะ',
         'ตำแหน่ง (Latitude)',
         'ตำแหน่ง (Longitude)',
         'Google Maps Link',
@@ -338,6 +420,7 @@ const Dashboard = () => {
           `"${(report.additional_info || '').replace(/"/g, '""')}"`,
           report.urgency_level,
           report.status || '',
+          `"${(report.status_reason || '').replace(/"/g, '""')}"`,
           report.location_lat || '',
           report.location_long || '',
           report.map_link || '',
@@ -361,14 +444,17 @@ const Dashboard = () => {
       const link = document.createElement('a')
       link.setAttribute('href', url)
       const timestamp = new Date().toISOString().slice(0, 10)
-      link.setAttribute('download', `flood_reports_${timestamp}.csv`)
+      const prefix = isPublicView ? 'flood_reports_public' : 'flood_reports'
+      link.setAttribute('download', `${prefix}_${timestamp}.csv`)
       link.style.visibility = 'hidden'
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
 
       toast.success('ส่งออกข้อมูลสำเร็จ', {
-        description: `ส่งออก ${filteredReports.length} รายการ`,
+        description: isPublicView
+          ? `ส่งออก ${filteredReports.length} รายการ (ซ่อนเบอร์โทร นามสกุล และพิกัดจริง)`
+          : `ส่งออก ${filteredReports.length} รายการ`,
       })
     } catch (error) {
       console.error('CSV export error:', error)
@@ -547,6 +633,12 @@ const Dashboard = () => {
         <div className="text-center space-y-2">
           <h1 className="text-3xl md:text-4xl font-bold">Dashboard</h1>
           <p className="text-muted-foreground">ข้อมูลผู้ประสบภัยทั้งหมด</p>
+          {isLive && (
+            <Badge variant="outline" className="gap-1.5">
+              <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+              อัปเดตอัตโนมัติ
+            </Badge>
+          )}
         </div>
 
         {/* Filters */}
@@ -612,15 +704,17 @@ const Dashboard = () => {
                 )}
               </div>
 
-              {/* Status and Urgency Filters Row */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Status, Assignment and Urgency Filters Row */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 {/* Status Filter */}
                 <div className="space-y-2">
                   <div className="text-sm font-medium">สถานะ</div>
                   <Select
                     value={statusFilter || 'all'}
                     onValueChange={(value) =>
-                      setStatusFilter(value === 'all' ? null : value)
+                      setStatusFilter(
+                        value === 'all' ? null : (value as ReportStatus),
+                      )
                     }
                   >
                     <SelectTrigger>
@@ -628,10 +722,36 @@ const Dashboard = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">ทั้งหมด</SelectItem>
-                      <SelectItem value="pending">รอความช่วยเหลือ</SelectItem>
-                      <SelectItem value="processed">กำลังช่วยเหลือ</SelectItem>
-                      <SelectItem value="completed">
-                        ช่วยเหลือเสร็จสิ้น
+                      {STATUS_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Assignment Filter */}
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">การรับเคส</div>
+                  <Select
+                    value={assignmentFilter}
+                    onValueChange={(value) =>
+                      setAssignmentFilter(
+                        value as 'all' | 'unassigned' | 'mine',
+                      )
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="เลือกการรับเคส" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">ทั้งหมด</SelectItem>
+                      <SelectItem value="unassigned">
+                        ยังไม่มีทีมรับ
+                      </SelectItem>
+                      <SelectItem value="mine" disabled={!myTeamId}>
+                        ทีมของฉัน
                       </SelectItem>
                     </SelectContent>
                   </Select>
@@ -649,7 +769,7 @@ const Dashboard = () => {
                       <Filter className="mr-2 h-4 w-4" />
                       ทั้งหมด
                     </Button>
-                    {[1, 2, 3, 4, 5].map((level) => (
+                    {URGENCY_LEVELS.map(({ level }) => (
                       <Button
                         key={level}
                         variant={
@@ -776,35 +896,90 @@ const Dashboard = () => {
               />
               {isRefetching ? 'กำลังรีเฟรช...' : 'รีเฟรช'}
             </Button>
+            {isLive && (
+              <Button
+                onClick={urgentAlerts.toggle}
+                variant={urgentAlerts.enabled ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1 sm:flex-none"
+                title="เสียงและการแจ้งเตือนเมื่อมีเคสใหม่ระดับ 4-5"
+              >
+                {urgentAlerts.enabled ? (
+                  <Bell className="mr-2 h-4 w-4" />
+                ) : (
+                  <BellOff className="mr-2 h-4 w-4" />
+                )}
+                เสียงเตือนเคสด่วน
+              </Button>
+            )}
+            {canEdit && (
+              <Button
+                onClick={handleConvertMapLinks}
+                variant="outline"
+                size="sm"
+                disabled={isConvertingMapLinks}
+                className="flex-1 sm:flex-none"
+              >
+                {isConvertingMapLinks ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    กำลังแปลง...
+                  </>
+                ) : (
+                  <>
+                    <MapPin className="mr-2 h-4 w-4" />
+                    แปลง Google Maps
+                  </>
+                )}
+              </Button>
+            )}
             <Button
-              onClick={handleConvertMapLinks}
+              onClick={exportToCSV}
               variant="outline"
               size="sm"
-              disabled={isConvertingMapLinks}
+              disabled={filteredReports.length === 0}
               className="flex-1 sm:flex-none"
             >
-              {isConvertingMapLinks ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  กำลังแปลง...
-                </>
-              ) : (
-                <>
-                  <MapPin className="mr-2 h-4 w-4" />
-                  แปลง Google Maps
-                </>
-              )}
+              <Download className="mr-2 h-4 w-4" />
+              ส่งออก CSV
             </Button>
             <Button
-              onClick={exportToCSV}
+              onClick={openCaseSheets}
               variant="outline"
               size="sm"
               disabled={filteredReports.length === 0}
               className="flex-1 sm:flex-none"
             >
-              <Download className="mr-2 h-4 w-4" />
-              ส่งออก CSV
+              <Printer className="mr-2 h-4 w-4" />
+              พิมพ์ใบเคส
+              {selectedReports.length > 0 && ` (${selectedReports.length})`}
             </Button>
+            {canMerge && (
+              <Button
+                onClick={() => setIsMergeDialogOpen(true)}
+                variant="outline"
+                size="sm"
+                disabled={selectedReports.length < 2}
+                className="flex-1 sm:flex-none"
+              >
+                <GitMerge className="mr-2 h-4 w-4" />
+                รวมรายการซ้ำ
+                {selectedReports.length > 0 && ` (${selectedReports.length})`}
+              </Button>
+            )}
+            {canPlanRoute && (
+              <Button
+                onClick={openRoutePlanner}
+                variant="outline"
+                size="sm"
+                disabled={selectedReports.length === 0}
+                className="flex-1 sm:flex-none"
+              >
+                <Route className="mr-2 h-4 w-4" />
+                วางแผนเส้นทาง
+                {selectedReports.length > 0 && ` (${selectedReports.length})`}
+              </Button>
+            )}
           </div>
         </div>
 
@@ -825,7 +1000,9 @@ const Dashboard = () => {
                   <TableHeader>
                     <TableRow>
                       {visibleColumns.has('expand') && (
-                        <TableHead className="w-12"></TableHead>
+                        <TableHead
+                          className={canSelect ? 'w-16' : 'w-12'}
+                        ></TableHead>
                       )}
                       {visibleColumns.has('caseId') && (
                         <TableHead className="w-32">Case ID</TableHead>
@@ -887,6 +1064,9 @@ const Dashboard = () => {
                           </div>
                         </TableHead>
                       )}
+                      {visibleColumns.has('assignment') && (
+                        <TableHead>ทีมรับเคส</TableHead>
+                      )}
                       {visibleColumns.has('name') && (
                         <TableHead>ชื่อ-นามสกุล</TableHead>
                       )}
@@ -1008,16 +1188,34 @@ const Dashboard = () => {
                       return (
                         <React.Fragment key={report.id}>
                           <TableRow
-                            className="cursor-pointer hover:bg-muted/50"
+                            className={`cursor-pointer hover:bg-muted/50 transition-colors ${
+                              newReportIds.has(report.id)
+                                ? 'bg-yellow-50 dark:bg-yellow-950/30'
+                                : ''
+                            }`}
                             onClick={() => toggleRowExpansion(report.id)}
                           >
                             {visibleColumns.has('expand') && (
                               <TableCell>
-                                {isExpanded ? (
-                                  <ChevronDown className="h-4 w-4" />
-                                ) : (
-                                  <ChevronRight className="h-4 w-4" />
-                                )}
+                                <div className="flex items-center gap-2">
+                                  {canSelect && (
+                                    <Checkbox
+                                      aria-label="เลือกเคส"
+                                      checked={selectedReports.some(
+                                        (r) => r.id === report.id,
+                                      )}
+                                      onClick={(e) => e.stopPropagation()}
+                                      onCheckedChange={() =>
+                                        toggleReportSelection(report)
+                                      }
+                                    />
+                                  )}
+                                  {isExpanded ? (
+                                    <ChevronDown className="h-4 w-4" />
+                                  ) : (
+                                    <ChevronRight className="h-4 w-4" />
+                                  )}
+                                </div>
                               </TableCell>
                             )}
                             {visibleColumns.has('caseId') && (
@@ -1059,9 +1257,15 @@ const Dashboard = () => {
                             )}
                             {visibleColumns.has('status') && (
                               <TableCell>
-                                <Badge variant="outline">
-                                  {report.status || '-'}
-                                </Badge>
+                                <StatusBadge
+                                  status={report.status}
+                                  reason={report.status_reason}
+                                />
+                              </TableCell>
+                            )}
+                            {visibleColumns.has('assignment') && (
+                              <TableCell>
+                                <CaseAssignment report={report} compact />
                               </TableCell>
                             )}
                             {visibleColumns.has('name') && (
@@ -1104,6 +1308,8 @@ const Dashboard = () => {
                                         variant="outline"
                                         size="sm"
                                         className="gap-1 h-7"
+                                        title={phoneNumber}
+                                        disabled={isMaskedPhone(phoneNumber)}
                                         onClick={(e) => {
                                           e.stopPropagation()
                                           window.location.href = `tel:${phoneNumber}`
@@ -1171,18 +1377,23 @@ const Dashboard = () => {
                                 className="bg-muted/30 p-6 min-w-0"
                               >
                                 <div className="space-y-4 min-w-0">
-                                  <div className="flex justify-start">
-                                    <Button
-                                      onClick={(e) => {
-                                        e.stopPropagation()
-                                        handleEditReport(report)
-                                      }}
-                                      variant="outline"
-                                      size="sm"
-                                    >
-                                      <Pencil className="mr-2 h-4 w-4" />
-                                      แก้ไขข้อมูล
-                                    </Button>
+                                  <div className="flex flex-wrap items-start justify-between gap-4">
+                                    {canEdit && (
+                                      <Button
+                                        onClick={(e) => {
+                                          e.stopPropagation()
+                                          handleEditReport(report)
+                                        }}
+                                        variant="outline"
+                                        size="sm"
+                                      >
+                                        <Pencil className="mr-2 h-4 w-4" />
+                                        แก้ไขข้อมูล
+                                      </Button>
+                                    )}
+                                    <div onClick={(e) => e.stopPropagation()}>
+                                      <CaseAssignment report={report} />
+                                    </div>
                                   </div>
                                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                     <div>
@@ -1221,6 +1432,9 @@ const Dashboard = () => {
                                                     variant="outline"
                                                     size="sm"
                                                     className="gap-1 h-7 text-xs"
+                                                    disabled={isMaskedPhone(
+                                                      phoneNumber,
+                                                    )}
                                                     onClick={(e) => {
                                                       e.stopPropagation()
                                                       window.location.href = `tel:${phoneNumber}`
@@ -1335,8 +1549,18 @@ const Dashboard = () => {
                                           <span className="font-medium">
                                             สถานะ:
                                           </span>{' '}
-                                          {report.status || '-'}
+                                          {report.status
+                                            ? getStatusLabel(report.status)
+                                            : '-'}
                                         </p>
+                                        {report.status_reason && (
+                                          <p>
+                                            <span className="font-medium">
+                                              เหตุผลของสถานะ:
+                                            </span>{' '}
+                                            {report.status_reason}
+                                          </p>
+                                        )}
                                         <p>
                                           <span className="font-medium">
                                             ความเร่งด่วน:
@@ -1384,16 +1608,19 @@ const Dashboard = () => {
                                       </p>
                                     </div>
                                   )}
-                                  <div className="min-w-0 w-full max-w-[1230px]">
-                                    <h4 className="font-semibold mb-2">
-                                      ข้อความต้นฉบับ (Raw Data)
-                                    </h4>
-                                    <div className="bg-background rounded-md p-4 border w-full min-w-0 overflow-hidden">
-                                      <pre className="text-sm whitespace-pre-wrap break-all font-mono w-full min-w-0">
-                                        {report.raw_message}
-                                      </pre>
+                                  {/* Hidden from public viewers by visible_reports */}
+                                  {report.raw_message && (
+                                    <div className="min-w-0 w-full max-w-[1230px]">
+                                      <h4 className="font-semibold mb-2">
+                                        ข้อความต้นฉบับ (Raw Data)
+                                      </h4>
+                                      <div className="bg-background rounded-md p-4 border w-full min-w-0 overflow-hidden">
+                                        <pre className="text-sm whitespace-pre-wrap break-all font-mono w-full min-w-0">
+                                          {report.raw_message}
+                                        </pre>
+                                      </div>
                                     </div>
-                                  </div>
+                                  )}
                                 </div>
                               </TableCell>
                             </TableRow>
@@ -1496,6 +1723,13 @@ const Dashboard = () => {
           onSuccess={handleEditSuccess}
         />
       )}
+
+      <MergeReportsDialog
+        open={isMergeDialogOpen}
+        onOpenChange={setIsMergeDialogOpen}
+        reports={selectedReports}
+        onMerged={() => setSelectedReports([])}
+      />
     </div>
   )
 }
@@ -0,0 +1,117 @@
+import { CopyCheck, Loader2, ScanSearch, ShieldAlert } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { DuplicateGroupCard } from '@/components/DuplicateGroupCard'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { COORDINATOR_ROLES } from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useDuplicateGroups,
+  useScanDuplicates,
+} from '@/hooks/use-duplicate-groups'
+import type { DuplicateGroupStatus } from '@/types/report'
+
+const DuplicateReview = () => {
+  const { hasRole, loading } = useAuth()
+  const [status, setStatus] = useState<DuplicateGroupStatus>('pending')
+
+  const { data: groups = [], isLoading } = useDuplicateGroups(status)
+  const scanDuplicates = useScanDuplicates()
+
+  const handleScan = async () => {
+    try {
+      const result = await scanDuplicates.mutateAsync()
+      toast.success('สแกนหารายการซ้ำเสร็จแล้ว', {
+        description: `พบ ${result.groups} กลุ่ม (ใหม่ ${result.created} กลุ่ม)`,
+      })
+    } catch (err) {
+      toast.error('ไม่สามารถสแกนหารายการซ้ำได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!hasRole(COORDINATOR_ROLES)) {
+    return (
+      <div className="container mx-auto max-w-3xl p-4 md:p-8">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">
+              เฉพาะผู้ประสานงานเท่านั้น
+            </h3>
+            <p className="text-muted-foreground">
+              กรุณาเข้าสู่ระบบด้วยบัญชีผู้ประสานงานเพื่อตรวจสอบรายการซ้ำ
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto max-w-4xl p-4 md:p-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">ตรวจสอบรายการซ้ำ</h1>
+          <p className="text-muted-foreground mt-1">
+            กลุ่มรายงานที่ระบบพบว่าอาจเป็นเคสเดียวกัน
+            จากความคล้ายของข้อความและเบอร์โทรที่ตรงกัน
+          </p>
+        </div>
+        <Button onClick={handleScan} disabled={scanDuplicates.isPending}>
+          {scanDuplicates.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <ScanSearch className="mr-2 h-4 w-4" />
+          )}
+          สแกนทั้งฐานข้อมูล
+        </Button>
+      </div>
+
+      <Tabs
+        value={status}
+        onValueChange={(value) => setStatus(value as DuplicateGroupStatus)}
+      >
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="pending">รอตรวจสอบ</TabsTrigger>
+          <TabsTrigger value="confirmed">รวมแล้ว</TabsTrigger>
+          <TabsTrigger value="dismissed">ไม่ซ้ำ</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <CopyCheck className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">ไม่มีกลุ่มรายการซ้ำ</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <DuplicateGroupCard key={group.id} group={group} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DuplicateReview
@@ -0,0 +1,346 @@
+import {
+  Camera,
+  Loader2,
+  LocateFixed,
+  LogIn,
+  MapPin,
+  Minus,
+  Plus,
+  Send,
+  X,
+} from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+
+import { StatusBadge } from '@/components/StatusBadge'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { STATUS_CHANGER_ROLES } from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useSubmitFieldUpdate } from '@/hooks/use-field-updates'
+import { useReport } from '@/hooks/use-reports'
+import {
+  formatCaseId,
+  getAllowedNextStatuses,
+  getStatusLabel,
+  getUrgencyBadgeClass,
+  requiresStatusReason,
+} from '@/lib/reportUtils'
+import type { ReportStatus } from '@/types/report'
+
+interface DevicePosition {
+  lat: number
+  lng: number
+  accuracy: number
+}
+
+// Minimal page opened from a case's QR code at the scene: big buttons, one submit
+const FieldUpdate = () => {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { user, hasRole, loading } = useAuth()
+  const canUpdate = hasRole(STATUS_CHANGER_ROLES)
+
+  const { data: report, isLoading } = useReport(canUpdate ? id : undefined)
+  const submitFieldUpdate = useSubmitFieldUpdate()
+
+  const [status, setStatus] = useState<ReportStatus | null>(null)
+  const [peopleRescued, setPeopleRescued] = useState(0)
+  const [note, setNote] = useState('')
+  const [photo, setPhoto] = useState<File | null>(null)
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null)
+  const [position, setPosition] = useState<DevicePosition | null>(null)
+  const [isLocating, setIsLocating] = useState(false)
+
+  const locate = () => {
+    if (!navigator.geolocation) return
+
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setPosition({
+          lat: pos.coords.latitude,
+          lng: pos.coords.longitude,
+          accuracy: pos.coords.accuracy,
+        })
+        setIsLocating(false)
+      },
+      (err) => {
+        setIsLocating(false)
+        toast.error('ไม่สามารถระบุตำแหน่งได้', { description: err.message })
+      },
+      { enableHighAccuracy: true, timeout: 15000 },
+    )
+  }
+
+  // Stamp the update with where the team is standing
+  useEffect(() => {
+    if (canUpdate) locate()
+  }, [canUpdate])
+
+  useEffect(() => {
+    if (!photo) {
+      setPhotoPreview(null)
+      return
+    }
+    const url = URL.createObjectURL(photo)
+    setPhotoPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [photo])
+
+  const needsReason = report
+    ? requiresStatusReason(report.status, status ?? report.status)
+    : false
+
+  const handleSubmit = async () => {
+    if (!report) return
+
+    if (!status && peopleRescued === 0 && !note.trim() && !photo) {
+      toast.error('กรุณาเลือกสถานะ หรือบันทึกข้อมูลอย่างน้อย 1 อย่าง')
+      return
+    }
+    if (needsReason && !note.trim()) {
+      toast.error('กรุณาระบุหมายเหตุเมื่อปิดเคสหรือเปิดเคสใหม่')
+      return
+    }
+
+    try {
+      await submitFieldUpdate.mutateAsync({
+        reportId: report.id,
+        status,
+        peopleRescued: peopleRescued > 0 ? peopleRescued : null,
+        note,
+        photo,
+        position,
+      })
+      toast.success('บันทึกการอัปเดตแล้ว')
+      navigate(`/report/${report.id}`)
+    } catch (err) {
+      console.error('Field update error:', err)
+      toast.error('ไม่สามารถบันทึกได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    }
+  }
+
+  if (loading || (canUpdate && isLoading)) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user || !canUpdate) {
+    return (
+      <div className="container mx-auto max-w-md p-4">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <h3 className="text-lg font-semibold mb-2">{formatCaseId(id!)}</h3>
+            <p className="text-muted-foreground mb-4">
+              {user
+                ? 'เฉพาะทีมกู้ภัยหรือผู้ประสานงานเท่านั้นที่อัปเดตเคสจากหน้างานได้'
+                : 'เข้าสู่ระบบด้วยบัญชีทีมกู้ภัยเพื่ออัปเดตเคสนี้'}
+            </p>
+            <div className="flex flex-col gap-2">
+              {!user && (
+                <Button
+                  size="lg"
+                  onClick={() =>
+                    navigate('/auth', { state: { from: location.pathname } })
+                  }
+                >
+                  <LogIn className="mr-2 h-5 w-5" />
+                  เข้าสู่ระบบ
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/report/${id}`)}
+              >
+                ดูรายละเอียดเคส
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!report) {
+    return (
+      <div className="container mx-auto max-w-md p-4 text-center text-muted-foreground">
+        ไม่พบข้อมูลรายงาน
+      </div>
+    )
+  }
+
+  const nextStatuses = getAllowedNextStatuses(report.status)
+
+  return (
+    <div className="container mx-auto max-w-md space-y-5 p-4 pb-24">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <Link
+            to={`/report/${report.id}`}
+            className="font-mono text-lg font-bold text-primary hover:underline"
+          >
+            {formatCaseId(report.id)}
+          </Link>
+          <Badge className={getUrgencyBadgeClass(report.urgency_level)}>
+            ระดับ {report.urgency_level}
+          </Badge>
+        </div>
+        <div className="text-xl font-semibold">
+          {[report.name, report.lastname].filter(Boolean).join(' ') ||
+            'ไม่ระบุชื่อ'}
+        </div>
+        {report.address && (
+          <p className="text-sm text-muted-foreground">{report.address}</p>
+        )}
+        <StatusBadge status={report.status} />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-base">เปลี่ยนสถานะ</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {nextStatuses.map((next) => (
+            <Button
+              key={next}
+              type="button"
+              variant={status === next ? 'default' : 'outline'}
+              className="h-16 whitespace-normal text-base"
+              onClick={() => setStatus(status === next ? null : next)}
+            >
+              {getStatusLabel(next)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-base">จำนวนคนที่ช่วยออกมาได้</Label>
+        <div className="flex items-center justify-between gap-4">
+          <Button
+            type="button"
+            variant="outline"
+            className="h-16 w-16"
+            onClick={() => setPeopleRescued((n) => Math.max(0, n - 1))}
+            aria-label="ลดจำนวน"
+          >
+            <Minus className="h-6 w-6" />
+          </Button>
+          <span className="text-4xl font-bold tabular-nums">
+            {peopleRescued}
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            className="h-16 w-16"
+            onClick={() => setPeopleRescued((n) => n + 1)}
+            aria-label="เพิ่มจำนวน"
+          >
+            <Plus className="h-6 w-6" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-base">รูปถ่าย</Label>
+        {photoPreview ? (
+          <div className="relative">
+            <img
+              src={photoPreview}
+              alt="รูปที่จะส่ง"
+              className="w-full rounded-lg border object-cover"
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              className="absolute right-2 top-2"
+              onClick={() => setPhoto(null)}
+              aria-label="ลบรูป"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <Label
+            htmlFor="field-photo"
+            className="flex h-16 cursor-pointer items-center justify-center gap-2 rounded-md border border-dashed text-base font-medium"
+          >
+            <Camera className="h-5 w-5" />
+            ถ่ายรูป
+          </Label>
+        )}
+        <input
+          id="field-photo"
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="field-note" className="text-base">
+          หมายเหตุ{needsReason && ' *'}
+        </Label>
+        <Textarea
+          id="field-note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="เช่น ระดับน้ำถึงหน้าต่างชั้น 1 ผู้สูงอายุ 1 คนยังไม่ยอมออก"
+          rows={3}
+          className="text-base"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2 rounded-md bg-muted/50 p-3 text-sm">
+        <span className="flex items-center gap-2">
+          <MapPin className="h-4 w-4 shrink-0" />
+          {position
+            ? `ตำแหน่งของคุณ ±${Math.round(position.accuracy)} ม.`
+            : 'ยังไม่ได้ระบุตำแหน่งของคุณ'}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={locate}
+          disabled={isLocating}
+        >
+          {isLocating ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <LocateFixed className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+
+      <Button
+        size="lg"
+        className="h-14 w-full text-lg"
+        onClick={handleSubmit}
+        disabled={submitFieldUpdate.isPending}
+      >
+        {submitFieldUpdate.isPending ? (
+          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+        ) : (
+          <Send className="mr-2 h-5 w-5" />
+        )}
+        บันทึก
+      </Button>
+    </div>
+  )
+}
+
+export default FieldUpdate
@@ -0,0 +1,506 @@
+import {
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  RotateCcw,
+  ShieldAlert,
+  Upload,
+} from 'lucide-react'
+import { useMemo, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { COORDINATOR_ROLES } from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useImportReportsBatch } from '@/hooks/use-import-reports'
+import {
+  type ColumnMapping,
+  guessMapping,
+  IMPORT_BATCH_SIZE,
+  IMPORT_FIELDS,
+  type ImportField,
+  type ImportRowResult,
+  type ImportRowStatus,
+  isSpreadsheetFile,
+  mapRows,
+  MAX_IMPORT_ROWS,
+  readSpreadsheet,
+  resultsToCsv,
+  type SpreadsheetTable,
+  validateImportRow,
+} from '@/lib/spreadsheetImport'
+
+// Select items can't have an empty value
+const UNMAPPED = 'skip'
+const PREVIEW_ROWS = 10
+
+const STATUS_BADGES: Record<
+  ImportRowStatus,
+  {
+    label: string
+    variant: 'default' | 'secondary' | 'destructive' | 'outline'
+  }
+> = {
+  inserted: { label: 'นำเข้าแล้ว', variant: 'default' },
+  duplicate: { label: 'ซ้ำ', variant: 'secondary' },
+  invalid: { label: 'ข้อมูลไม่ถูกต้อง', variant: 'destructive' },
+  failed: { label: 'บันทึกไม่สำเร็จ', variant: 'destructive' },
+}
+
+const ImportReports = () => {
+  const { hasRole, loading } = useAuth()
+  const importBatch = useImportReportsBatch()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<SpreadsheetTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [skipDuplicates, setSkipDuplicates] = useState(true)
+  const [isReading, setIsReading] = useState(false)
+  const [progress, setProgress] = useState<{
+    done: number
+    total: number
+  } | null>(null)
+  const [results, setResults] = useState<ImportRowResult[] | null>(null)
+
+  const rows = useMemo(
+    () => (table ? mapRows(table, mapping) : []),
+    [table, mapping],
+  )
+  const rowErrors = useMemo(() => rows.map(validateImportRow), [rows])
+  const invalidCount = rowErrors.filter((errors) => errors.length > 0).length
+  const mappedFields = Object.values(mapping).filter(Boolean) as ImportField[]
+
+  const reset = () => {
+    setFileName('')
+    setTable(null)
+    setMapping({})
+    setResults(null)
+    setProgress(null)
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (!isSpreadsheetFile(file)) {
+      toast.error('รองรับเฉพาะไฟล์ CSV และ XLSX')
+      return
+    }
+
+    setIsReading(true)
+    try {
+      const spreadsheet = await readSpreadsheet(file)
+      if (spreadsheet.rows.length === 0) {
+        toast.error('ไม่พบข้อมูลในไฟล์', {
+          description: 'แถวแรกต้องเป็นหัวคอลัมน์ ตามด้วยข้อมูลผู้ประสบภัย',
+        })
+        return
+      }
+      if (spreadsheet.rows.length > MAX_IMPORT_ROWS) {
+        toast.error(`นำเข้าได้ครั้งละไม่เกิน ${MAX_IMPORT_ROWS} แถว`, {
+          description: `ไฟล์นี้มี ${spreadsheet.rows.length} แถว กรุณาแบ่งไฟล์`,
+        })
+        return
+      }
+
+      setFileName(file.name)
+      setTable(spreadsheet)
+      setMapping(guessMapping(spreadsheet.headers))
+      setResults(null)
+    } catch (err) {
+      console.error('Spreadsheet read error:', err)
+      toast.error('ไม่สามารถอ่านไฟล์ได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const setColumnField = (column: number, value: string) => {
+    const field = value === UNMAPPED ? undefined : (value as ImportField)
+    const next = { ...mapping, [column]: field }
+    // Phone may come from several columns; other fields from one
+    if (field && field !== 'phone') {
+      Object.entries(next).forEach(([other, otherField]) => {
+        if (Number(other) !== column && otherField === field) {
+          next[Number(other)] = undefined
+        }
+      })
+    }
+    setMapping(next)
+  }
+
+  const handleImport = async () => {
+    // Rows that fail the preview checks are still sent: import-reports
+    // reports them back as invalid, so the results cover every row
+    const allResults: ImportRowResult[] = []
+    setProgress({ done: 0, total: rows.length })
+
+    try {
+      for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+        const batch = rows.slice(start, start + IMPORT_BATCH_SIZE)
+        try {
+          const data = await importBatch.mutateAsync({
+            rows: batch,
+            source: fileName,
+            skipDuplicates,
+          })
+          allResults.push(...data.results)
+        } catch (err) {
+          // Keep going; the rows of a failed batch are marked as failed
+          console.error('Import batch error:', err)
+          allResults.push(
+            ...batch.map((row) => ({
+              row: row.row_number,
+              status: 'failed' as const,
+              errors: [
+                err instanceof Error ? err.message : 'ไม่สามารถนำเข้าข้อมูลได้',
+              ],
+            })),
+          )
+        }
+        setProgress({ done: start + batch.length, total: rows.length })
+      }
+
+      const inserted = allResults.filter((r) => r.status === 'inserted').length
+      toast.success(`นำเข้าแล้ว ${inserted} จาก ${rows.length} แถว`)
+    } finally {
+      setResults(allResults)
+      setProgress(null)
+    }
+  }
+
+  const downloadResults = () => {
+    if (!results) return
+    const blob = new Blob([resultsToCsv(results)], {
+      type: 'text/csv;charset=utf-8;',
+    })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.setAttribute('href', url)
+    link.setAttribute(
+      'download',
+      `import_results_${fileName.replace(/\.\w+$/, '')}.csv`,
+    )
+    link.style.visibility = 'hidden'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!hasRole(COORDINATOR_ROLES)) {
+    return (
+      <div className="container mx-auto max-w-3xl p-4 md:p-8">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">
+              เฉพาะผู้ประสานงานเท่านั้น
+            </h3>
+            <p className="text-muted-foreground">
+              กรุณาเข้าสู่ระบบด้วยบัญชีผู้ประสานงานเพื่อนำเข้ารายชื่อผู้ประสบภัย
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const summary = results && {
+    inserted: results.filter((r) => r.status === 'inserted').length,
+    duplicate: results.filter((r) => r.status === 'duplicate').length,
+    invalid: results.filter((r) => r.status === 'invalid').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+  }
+
+  return (
+    <div className="container mx-auto max-w-5xl p-4 md:p-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">นำเข้ารายชื่อผู้ประสบภัย</h1>
+          <p className="text-muted-foreground mt-1">
+            นำเข้ารายชื่อจากไฟล์ CSV หรือ Excel (XLSX)
+            ระบบจะตรวจสอบข้อมูลและรายการซ้ำก่อนบันทึกทีละแถว
+          </p>
+        </div>
+        {table && !progress && (
+          <Button variant="outline" onClick={reset}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            เลือกไฟล์ใหม่
+          </Button>
+        )}
+      </div>
+
+      {!table && (
+        <Card>
+          <CardContent className="py-12 text-center space-y-4">
+            <FileSpreadsheet className="h-12 w-12 mx-auto text-muted-foreground" />
+            <p className="text-muted-foreground">
+              แถวแรกของไฟล์ต้องเป็นหัวคอลัมน์ เช่น ชื่อ, นามสกุล, เบอร์โทร,
+              ที่อยู่, ผู้ใหญ่, เด็ก
+            </p>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isReading}
+            >
+              {isReading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              เลือกไฟล์
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {table && !results && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>จับคู่คอลัมน์</CardTitle>
+              <CardDescription>
+                {fileName} · {table.rows.length} แถว
+                เลือกว่าแต่ละคอลัมน์ในไฟล์ตรงกับข้อมูลใดของรายงาน
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {table.headers.map((header, column) => (
+                <div key={column} className="space-y-2">
+                  <Label className="truncate block">
+                    {header || `คอลัมน์ ${column + 1}`}
+                  </Label>
+                  <Select
+                    value={mapping[column] ?? UNMAPPED}
+                    onValueChange={(value) => setColumnField(column, value)}
+                    disabled={!!progress}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>ไม่นำเข้า</SelectItem>
+                      {IMPORT_FIELDS.map(({ field, label }) => (
+                        <SelectItem key={field} value={field}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>ตัวอย่างข้อมูล</CardTitle>
+              <CardDescription>
+                {invalidCount > 0
+                  ? `${invalidCount} แถวมีข้อมูลไม่ถูกต้องและจะไม่ถูกนำเข้า`
+                  : 'ข้อมูลทุกแถวผ่านการตรวจสอบเบื้องต้น'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0 overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>แถว</TableHead>
+                    {mappedFields.map((field) => (
+                      <TableHead key={field}>
+                        {IMPORT_FIELDS.find((f) => f.field === field)?.label}
+                      </TableHead>
+                    ))}
+                    <TableHead>ตรวจสอบ</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <TableRow key={row.row_number}>
+                      <TableCell>{row.row_number}</TableCell>
+                      {mappedFields.map((field) => (
+                        <TableCell key={field} className="max-w-48 truncate">
+                          {row[field]}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-sm">
+                        {rowErrors[index].length > 0 ? (
+                          <span className="text-destructive">
+                            {rowErrors[index].join(', ')}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">ผ่าน</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {rows.length > PREVIEW_ROWS && (
+                <p className="p-4 text-sm text-muted-foreground">
+                  และอีก {rows.length - PREVIEW_ROWS} แถว
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="skip-duplicates"
+                  checked={skipDuplicates}
+                  onCheckedChange={setSkipDuplicates}
+                  disabled={!!progress}
+                />
+                <Label htmlFor="skip-duplicates">
+                  ไม่นำเข้าแถวที่อาจซ้ำกับรายงานที่มีอยู่แล้ว
+                </Label>
+              </div>
+              {progress ? (
+                <div className="space-y-2">
+                  <Progress value={(progress.done / progress.total) * 100} />
+                  <p className="text-sm text-muted-foreground">
+                    กำลังนำเข้า {progress.done}/{progress.total} แถว...
+                  </p>
+                </div>
+              ) : (
+                <Button
+                  onClick={handleImport}
+                  disabled={mappedFields.length === 0}
+                  className="w-full sm:w-auto"
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  นำเข้า {rows.length - invalidCount} แถว
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {results && summary && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <CardTitle>ผลการนำเข้า</CardTitle>
+                <CardDescription>
+                  นำเข้าแล้ว {summary.inserted} · ซ้ำ {summary.duplicate} ·
+                  ข้อมูลไม่ถูกต้อง {summary.invalid} · บันทึกไม่สำเร็จ{' '}
+                  {summary.failed}
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={downloadResults}>
+                <Download className="mr-2 h-4 w-4" />
+                ดาวน์โหลดผลลัพธ์ (CSV)
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>แถว</TableHead>
+                  <TableHead>ผลลัพธ์</TableHead>
+                  <TableHead>รายละเอียด</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.row}>
+                    <TableCell>{result.row}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGES[result.status].variant}>
+                        {STATUS_BADGES[result.status].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm space-y-1">
+                      {result.id && (
+                        <Link
+                          to={`/report/${result.id}`}
+                          className="text-primary hover:underline"
+                        >
+                          ดูเคส
+                        </Link>
+                      )}
+                      {result.errors?.map((error) => (
+                        <p key={error} className="text-destructive">
+                          {error}
+                        </p>
+                      ))}
+                      {result.duplicates?.map((duplicate, index) =>
+                        duplicate.id ? (
+                          <p key={duplicate.id}>
+                            อาจซ้ำกับ{' '}
+                            <Link
+                              to={`/report/${duplicate.id}`}
+                              className="text-primary hover:underline"
+                            >
+                              {duplicate.name}
+                            </Link>
+                          </p>
+                        ) : (
+                          <p key={index}>ซ้ำกับแถว {duplicate.row} ในไฟล์นี้</p>
+                        ),
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default ImportReports
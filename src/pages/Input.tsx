@@ -14,9 +14,17 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
 import { Textarea } from '@/components/ui/textarea'
 import { useLiff } from '@/contexts/LiffContext'
 import { supabase } from '@/integrations/supabase/client'
+import {
+  MAX_BATCH_PAGES,
+  combinePageTexts,
+  expandToPages,
+  isPdfFile,
+} from '@/lib/batchOcr'
+import { type PhotoLocation, readPhotoLocation } from '@/lib/exif'
 import { formatPhoneNumber } from '@/lib/utils'
 
 const Input = () => {
@@ -24,8 +32,16 @@ const Input = () => {
   const [isProcessing, setIsProcessing] = useState(false)
   const [isOcrProcessing, setIsOcrProcessing] = useState(false)
   const [error, setError] = useState('')
-  const [previewImage, setPreviewImage] = useState<string | null>(null)
+  const [previewImages, setPreviewImages] = useState<string[]>([])
+  const [ocrProgress, setOcrProgress] = useState<{
+    done: number
+    total: number
+  } | null>(null)
   const [isDragging, setIsDragging] = useState(false)
+  // Stored copies of the OCR'd photos, linked to the report once it is saved
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([])
+  // GPS position of the first uploaded photo that has one
+  const [photoLocation, setPhotoLocation] = useState<PhotoLocation | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const navigate = useNavigate()
   const {
@@ -46,83 +62,132 @@ const Input = () => {
     }
   }
 
-  const processImageFile = async (file: File) => {
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      setError('กรุณาเลือกไฟล์รูปภาพเท่านั้น')
+  // OCR a batch of images and PDFs page by page, then add the combined text
+  const processFiles = async (files: File[]) => {
+    const accepted = files.filter(
+      (file) => file.type.startsWith('image/') || isPdfFile(file),
+    )
+    if (accepted.length === 0) {
+      setError('กรุณาเลือกไฟล์รูปภาพหรือ PDF เท่านั้น')
       return
     }
 
-    // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('ไฟล์รูปภาพต้องมีขนาดไม่เกิน 10MB')
+    // Validate file size (max 10MB each)
+    if (accepted.some((file) => file.size > 10 * 1024 * 1024)) {
+      setError('แต่ละไฟล์ต้องมีขนาดไม่เกิน 10MB')
       return
     }
 
     setError('')
     setIsOcrProcessing(true)
 
-    // Create preview and get base64
-    const reader = new FileReader()
-    reader.onload = async (event) => {
-      const base64Image = event.target?.result as string
-      setPreviewImage(base64Image)
+    for (const file of accepted.filter((f) => !isPdfFile(f))) {
+      readPhotoLocation(file).then((location) => {
+        if (!location) return
+        setPhotoLocation((prev) => prev ?? location)
+        toast.info('พบพิกัด GPS ในรูปภาพ', {
+          description: 'จะใช้เป็นตำแหน่งของรายงานหากข้อความไม่มีพิกัด',
+        })
+      })
+    }
 
-      try {
-        toast.info('กำลังอ่านข้อความจากรูปภาพด้วย AI...', {
-          description: 'กระบวนการนี้อาจใช้เวลาสักครู่',
+    try {
+      const { pages, truncated } = await expandToPages(accepted)
+      setPreviewImages(pages.map((page) => page.image))
+
+      if (truncated) {
+        toast.warning(`อ่านได้ครั้งละไม่เกิน ${MAX_BATCH_PAGES} หน้า`, {
+          description:
+            'หน้าที่เกินจะไม่ถูกอ่าน กรุณาอัพโหลดส่วนที่เหลือแยกอีกครั้ง',
         })
+      }
 
-        const { data, error: ocrError } = await supabase.functions.invoke(
-          'ocr-image',
-          {
-            body: { image: base64Image },
-          },
-        )
+      toast.info('กำลังอ่านข้อความจากรูปภาพด้วย AI...', {
+        description: 'กระบวนการนี้อาจใช้เวลาสักครู่',
+      })
 
-        if (ocrError) throw ocrError
+      // One page at a time so a long batch doesn't hit OCR rate limits
+      const texts: (string | null)[] = []
+      for (const [index, page] of pages.entries()) {
+        setOcrProgress({ done: index, total: pages.length })
+
+        try {
+          const { data, error: ocrError } = await supabase.functions.invoke(
+            'ocr-image',
+            {
+              body: { image: page.image },
+            },
+          )
 
-        const extractedText = data.text?.trim()
+          if (ocrError) throw ocrError
 
-        if (extractedText && extractedText !== 'ไม่พบข้อความในรูปภาพ') {
-          // Clean the extracted text
-          const cleanedText = extractedText
-            .replace(/[\u200B-\u200D\uFEFF]/g, '') // Remove zero-width characters
-            .replace(/[^\S\r\n]+/g, ' ') // Normalize spaces
-            .trim()
+          if (data.attachment?.id) {
+            setAttachmentIds((prev) => [...prev, data.attachment.id])
+          }
 
-          setRawMessage((prev) =>
-            prev ? prev + '\n\n' + cleanedText : cleanedText,
+          const extractedText = data.text?.trim()
+          texts.push(
+            extractedText && extractedText !== 'ไม่พบข้อความในรูปภาพ'
+              ? extractedText
+                  .replace(/[\u200B-\u200D\uFEFF]/g, '') // Remove zero-width characters
+                  .replace(/[^\S\r\n]+/g, ' ') // Normalize spaces
+                  .trim()
+              : null,
           )
-          toast.success('อ่านข้อความสำเร็จ', {
-            description: 'ข้อความถูกเพิ่มในช่องด้านล่างแล้ว',
-          })
-        } else {
-          toast.warning('ไม่พบข้อความในรูปภาพ', {
-            description: 'กรุณาลองใช้รูปภาพที่มีข้อความชัดเจนกว่านี้',
-          })
+        } catch (err) {
+          console.error(`OCR error on ${page.source}:`, err)
+          texts.push(null)
         }
-      } catch (err) {
-        console.error('OCR error:', err)
-        setError('ไม่สามารถอ่านข้อความจากรูปภาพได้')
-        toast.error('เกิดข้อผิดพลาด', {
-          description: 'ไม่สามารถอ่านข้อความจากรูปภาพได้',
+      }
+
+      const readCount = texts.filter(Boolean).length
+      const combinedText = combinePageTexts(pages, texts)
+
+      if (readCount > 0) {
+        setRawMessage((prev) =>
+          prev ? prev + '\n\n' + combinedText : combinedText,
+        )
+      }
+
+      if (readCount === 0) {
+        toast.warning('ไม่พบข้อความในรูปภาพ', {
+          description: 'กรุณาลองใช้รูปภาพที่มีข้อความชัดเจนกว่านี้',
         })
-      } finally {
-        setIsOcrProcessing(false)
-        // Reset file input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = ''
-        }
+      } else if (readCount < pages.length) {
+        toast.warning(`อ่านข้อความได้ ${readCount} จาก ${pages.length} หน้า`, {
+          description:
+            'หน้าที่อ่านไม่ได้ถูกข้ามไป ข้อความที่อ่านได้ถูกเพิ่มแล้ว',
+        })
+      } else {
+        toast.success(
+          pages.length > 1
+            ? `อ่านข้อความสำเร็จทั้ง ${pages.length} หน้า`
+            : 'อ่านข้อความสำเร็จ',
+          {
+            description: 'ข้อความถูกเพิ่มในช่องด้านล่างแล้ว',
+          },
+        )
+      }
+    } catch (err) {
+      console.error('OCR error:', err)
+      setError('ไม่สามารถอ่านข้อความจากไฟล์ได้')
+      toast.error('เกิดข้อผิดพลาด', {
+        description: 'ไม่สามารถอ่านข้อความจากไฟล์ได้',
+      })
+    } finally {
+      setIsOcrProcessing(false)
+      setOcrProgress(null)
+      // Reset file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
       }
     }
-    reader.readAsDataURL(file)
   }
 
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-    await processImageFile(file)
+    const files = Array.from(e.target.files ?? [])
+    if (files.length === 0) return
+    await processFiles(files)
   }
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -146,14 +211,14 @@ const Input = () => {
 
     if (isOcrProcessing || isProcessing) return
 
-    const file = e.dataTransfer.files?.[0]
-    if (file) {
-      await processImageFile(file)
+    const files = Array.from(e.dataTransfer.files ?? [])
+    if (files.length > 0) {
+      await processFiles(files)
     }
   }
 
-  const clearPreviewImage = () => {
-    setPreviewImage(null)
+  const clearPreviewImages = () => {
+    setPreviewImages([])
   }
 
   const handleProcess = async () => {
@@ -181,10 +246,17 @@ const Input = () => {
         throw new Error(data.error)
       }
 
+      if (data.extraction_method === 'rules') {
+        toast.warning('ระบบ AI ไม่พร้อมใช้งาน ใช้การแยกข้อมูลแบบพื้นฐานแทน', {
+          description: 'กรุณาตรวจสอบข้อมูลทุกช่องอย่างละเอียดก่อนบันทึก',
+        })
+      }
+
       // Format phone numbers in extracted reports
       const formattedReports = data.reports?.map((report: any) => ({
         ...report,
         phone: report.phone?.map((p: string) => formatPhoneNumber(p)) || [],
+        attachment_ids: attachmentIds,
       }))
 
       // Process each report to convert map links and geocode addresses
@@ -192,12 +264,20 @@ const Input = () => {
         (formattedReports || []).map(async (report: any) => {
           const updatedReport = { ...report }
 
+          // Step 0: Use the photo's GPS position if the text has no coordinates
+          if (photoLocation && !report.location_lat && !report.location_long) {
+            updatedReport.location_lat = photoLocation.lat
+            updatedReport.location_long = photoLocation.lng
+            updatedReport.map_link = `https://maps.google.com/?q=${photoLocation.lat},${photoLocation.lng}`
+            updatedReport.location_source = 'photo'
+          }
+
           // Step 1: Parse map_link if exists but no coordinates
           if (
             report.map_link &&
             report.map_link !== '-' &&
-            !report.location_lat &&
-            !report.location_long
+            !updatedReport.location_lat &&
+            !updatedReport.location_long
           ) {
             try {
               const { data: mapData } = await supabase.functions.invoke(
@@ -344,7 +424,7 @@ const Input = () => {
             </CardTitle>
             <CardDescription className="text-base">
               1. คัดลอกข้อความจากโซเชียล (Facebook, Twitter, Line ฯลฯ)
-              หรืออัพโหลดรูปภาพ
+              หรืออัพโหลดรูปภาพ/PDF (หลายไฟล์พร้อมกันได้)
               <br />
               2. วางข้อความในช่องด้านล่าง หรือใช้ปุ่ม "อัพโหลดรูปภาพ"
               เพื่อดึงข้อความจากรูป
@@ -359,7 +439,8 @@ const Input = () => {
                 type="file"
                 ref={fileInputRef}
                 onChange={handleImageUpload}
-                accept="image/*"
+                accept="image/*,application/pdf"
+                multiple
                 className="hidden"
                 disabled={isOcrProcessing || isProcessing}
               />
@@ -388,21 +469,29 @@ const Input = () => {
                   <>
                     <Loader2 className="h-6 w-6 animate-spin text-primary" />
                     <span className="text-sm text-muted-foreground">
-                      กำลังอ่านข้อความด้วย AI...
+                      {ocrProgress && ocrProgress.total > 1
+                        ? `กำลังอ่านหน้า ${ocrProgress.done + 1}/${ocrProgress.total} ด้วย AI...`
+                        : 'กำลังอ่านข้อความด้วย AI...'}
                     </span>
+                    {ocrProgress && ocrProgress.total > 1 && (
+                      <Progress
+                        value={(ocrProgress.done / ocrProgress.total) * 100}
+                        className="h-1.5 w-2/3"
+                      />
+                    )}
                   </>
                 ) : isDragging ? (
                   <>
                     <ImagePlus className="h-6 w-6 text-primary" />
                     <span className="text-sm text-primary font-medium">
-                      ปล่อยเพื่ออัพโหลดรูปภาพ
+                      ปล่อยเพื่ออัพโหลดรูปภาพหรือ PDF
                     </span>
                   </>
                 ) : (
                   <>
                     <ImagePlus className="h-6 w-6 text-muted-foreground" />
                     <span className="text-sm text-muted-foreground text-center">
-                      ลากรูปภาพมาวางที่นี่ หรือ{' '}
+                      ลากรูปภาพหรือ PDF (หลายไฟล์ได้) มาวางที่นี่ หรือ{' '}
                       <span className="text-primary underline">
                         คลิกเพื่อเลือกไฟล์
                       </span>
@@ -415,10 +504,10 @@ const Input = () => {
               </div>
 
               {/* Image Preview */}
-              {previewImage && (
+              {previewImages.length === 1 && (
                 <div className="relative">
                   <img
-                    src={previewImage}
+                    src={previewImages[0]}
                     alt="Preview"
                     className="w-full max-h-48 object-contain rounded-lg border"
                   />
@@ -427,7 +516,30 @@ const Input = () => {
                     variant="destructive"
                     size="icon"
                     className="absolute top-2 right-2 h-8 w-8"
-                    onClick={clearPreviewImage}
+                    onClick={clearPreviewImages}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              {previewImages.length > 1 && (
+                <div className="relative">
+                  <div className="flex gap-2 overflow-x-auto rounded-lg border p-2">
+                    {previewImages.map((image, index) => (
+                      <img
+                        key={index}
+                        src={image}
+                        alt={`หน้า ${index + 1}`}
+                        className="h-28 shrink-0 rounded border object-contain"
+                      />
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="icon"
+                    className="absolute top-2 right-2 h-8 w-8"
+                    onClick={clearPreviewImages}
                   >
                     <X className="h-4 w-4" />
                   </Button>
@@ -457,19 +569,15 @@ const Input = () => {
                 setError('')
               }}
               onPaste={(e) => {
-                // Check for image in clipboard first
-                const items = e.clipboardData?.items
-                if (items) {
-                  for (const item of items) {
-                    if (item.type.startsWith('image/')) {
-                      e.preventDefault()
-                      const file = item.getAsFile()
-                      if (file) {
-                        processImageFile(file)
-                      }
-                      return
-                    }
-                  }
+                // Check for images in clipboard first
+                const images = Array.from(e.clipboardData?.items ?? [])
+                  .filter((item) => item.type.startsWith('image/'))
+                  .map((item) => item.getAsFile())
+                  .filter((file): file is File => file !== null)
+                if (images.length > 0) {
+                  e.preventDefault()
+                  processFiles(images)
+                  return
                 }
 
                 // Handle text paste
@@ -1,29 +1,46 @@
 import '../styles/map.css'
 
-import { Loader2 } from 'lucide-react'
-import { useEffect, useMemo, useState } from 'react'
+import { Loader2, Route, X } from 'lucide-react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 
 import BasemapControl from '@/components/BasemapControl'
 import InteractiveMap from '@/components/InteractiveMap'
 import MapControlPanel from '@/components/MapControlPanel'
+import { Button } from '@/components/ui/button'
+import {
+  CONTACT_VIEWER_ROLES,
+  STATUS_CHANGER_ROLES,
+  STATUS_OPTIONS,
+  URGENCY_LEVELS,
+} from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useRealtimeReports } from '@/hooks/use-realtime-reports'
 import { useReports, useReportsCount } from '@/hooks/use-reports'
+import { useShelters } from '@/hooks/use-shelters'
 import { useToast } from '@/hooks/use-toast'
+import { MAX_ROUTE_STOPS, routePlannerPath } from '@/lib/routePlanning'
 import { getMapConfig } from '@/types/map'
 import { Report } from '@/types/report'
 
+const ALL_STATUSES: string[] = STATUS_OPTIONS.map((option) => option.value)
+const ALL_URGENCY_LEVELS: number[] = URGENCY_LEVELS.map(({ level }) => level)
+
 const Map = () => {
-  const [selectedUrgencyLevels, setSelectedUrgencyLevels] = useState<number[]>([
-    1, 2, 3, 4, 5,
-  ])
-  const [selectedStatuses, setSelectedStatuses] = useState<string[]>([
-    'pending',
-    'processed',
-    'completed',
-  ])
+  const [selectedUrgencyLevels, setSelectedUrgencyLevels] =
+    useState<number[]>(ALL_URGENCY_LEVELS)
+  const [selectedStatuses, setSelectedStatuses] =
+    useState<string[]>(ALL_STATUSES)
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedBasemap, setSelectedBasemap] = useState('osm')
   const [showFloodLayer, setShowFloodLayer] = useState(false)
+  const [showShelters, setShowShelters] = useState(true)
+  // Cases picked for a rescue run
+  const [routeReportIds, setRouteReportIds] = useState<string[]>([])
   const { toast } = useToast()
+  const { hasRole } = useAuth()
+  const navigate = useNavigate()
+  const canPlanRoute = hasRole(STATUS_CHANGER_ROLES)
 
   // Get map configuration from env
   const mapConfig = getMapConfig()
@@ -34,6 +51,11 @@ const Map = () => {
   // Fetch total count of all reports
   const { data: totalCount } = useReportsCount()
 
+  const { data: shelters } = useShelters()
+
+  // Keep markers current while the map is open
+  useRealtimeReports()
+
   useEffect(() => {
     if (error) {
       toast({
@@ -86,9 +108,27 @@ const Map = () => {
     )
   }
 
+  const toggleRouteReport = useCallback(
+    (report: Report) => {
+      if (routeReportIds.includes(report.id)) {
+        setRouteReportIds(routeReportIds.filter((id) => id !== report.id))
+        return
+      }
+      if (routeReportIds.length >= MAX_ROUTE_STOPS) {
+        toast({
+          title: `เลือกได้ไม่เกิน ${MAX_ROUTE_STOPS} เคสต่อหนึ่งเส้นทาง`,
+          variant: 'destructive',
+        })
+        return
+      }
+      setRouteReportIds([...routeReportIds, report.id])
+    },
+    [routeReportIds, toast],
+  )
+
   const resetFilters = () => {
-    setSelectedUrgencyLevels([1, 2, 3, 4, 5])
-    setSelectedStatuses(['pending', 'processed', 'completed'])
+    setSelectedUrgencyLevels(ALL_URGENCY_LEVELS)
+    setSelectedStatuses(ALL_STATUSES)
     setSearchQuery('')
   }
 
@@ -113,14 +153,11 @@ const Map = () => {
   )
 
   const statusCounts = useMemo(
-    () => ({
-      pending: allReportsWithLocation.filter((r) => r.status === 'pending')
-        .length,
-      processed: allReportsWithLocation.filter((r) => r.status === 'processed')
-        .length,
-      completed: allReportsWithLocation.filter((r) => r.status === 'completed')
-        .length,
-    }),
+    () =>
+      allReportsWithLocation.reduce<Record<string, number>>((counts, r) => {
+        counts[r.status] = (counts[r.status] || 0) + 1
+        return counts
+      }, {}),
     [allReportsWithLocation],
   )
 
@@ -159,9 +196,44 @@ const Map = () => {
           showLegend={true}
           selectedBasemap={selectedBasemap}
           showFloodLayer={showFloodLayer}
+          shelters={showShelters ? shelters : undefined}
+          selectedReportIds={routeReportIds}
+          onToggleReportSelection={canPlanRoute ? toggleRouteReport : undefined}
         />
       </div>
 
+      {/* Rescue run being built (Top Left, beside the zoom control) */}
+      {routeReportIds.length > 0 && (
+        <div className="absolute top-4 left-14 z-[1000] flex items-center gap-2 rounded-lg bg-background/95 p-2 shadow-lg">
+          <span className="px-1 text-sm font-medium">
+            เลือกแล้ว {routeReportIds.length} เคส
+          </span>
+          <Button
+            size="sm"
+            onClick={() => navigate(routePlannerPath(routeReportIds))}
+          >
+            <Route className="mr-1 h-4 w-4" />
+            วางแผนเส้นทาง
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => setRouteReportIds([])}
+            aria-label="ล้างการเลือก"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* Public mode notice (Top Center) */}
+      {!hasRole(CONTACT_VIEWER_ROLES) && (
+        <div className="absolute top-4 left-1/2 z-[1000] -translate-x-1/2 rounded-full bg-background/90 px-4 py-1.5 text-xs text-muted-foreground shadow">
+          ตำแหน่งแสดงแบบประมาณ (รัศมีราว 500 เมตร) เพื่อปกป้องข้อมูลส่วนตัว
+        </div>
+      )}
+
       {/* Control Panel (Bottom Left) */}
       <MapControlPanel
         searchQuery={searchQuery}
@@ -184,6 +256,8 @@ const Map = () => {
         onBasemapChange={setSelectedBasemap}
         showFloodLayer={showFloodLayer}
         onFloodLayerToggle={setShowFloodLayer}
+        showShelters={showShelters}
+        onSheltersToggle={setShowShelters}
       />
     </div>
   )
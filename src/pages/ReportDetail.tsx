@@ -1,28 +1,48 @@
 import {
   AlertCircle,
   Calendar,
+  Hand,
   ExternalLink,
+  GitMerge,
   MapPin,
   Pencil,
   Phone,
+  Printer,
   Share2,
+  Tent,
   Users,
 } from 'lucide-react'
 import { useState } from 'react'
-import { useNavigate, useParams } from 'react-router-dom'
+import { Link, useNavigate, useParams } from 'react-router-dom'
 import { toast } from 'sonner'
 
+import { CaseAssignment } from '@/components/CaseAssignment'
 import { EditReportDialog } from '@/components/EditReportDialog'
+import { FieldUpdateQr } from '@/components/FieldUpdateQr'
 import { PhoneList } from '@/components/PhoneList'
+import { ReportAttachments } from '@/components/ReportAttachments'
+import { ReportSources } from '@/components/ReportSources'
+import { ReportSupplies } from '@/components/ReportSupplies'
+import { ReportTimeline } from '@/components/ReportTimeline'
+import { StatusBadge } from '@/components/StatusBadge'
+import { VolunteerSuggestions } from '@/components/VolunteerSuggestions'
+import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  CONTACT_VIEWER_ROLES,
+  REPORT_EDITOR_ROLES,
+  STATUS_CHANGER_ROLES,
+} from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
 import { useReport } from '@/hooks/use-reports'
+import { useShelters } from '@/hooks/use-shelters'
+import { caseSheetsPath } from '@/lib/caseSheets'
 import {
   formatCaseId,
   formatDate,
   getCategoryLabel,
-  getStatusLabel,
   getTotalPeople,
   getUrgencyBadgeClass,
   getUrgencyLabel,
@@ -33,8 +53,10 @@ const ReportDetail = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const { hasRole } = useAuth()
 
   const { data: report, isLoading, error } = useReport(id)
+  const { data: shelters = [] } = useShelters()
 
   if (error && !isLoading) {
     toast.error('ไม่พบข้อมูลรายงาน')
@@ -91,6 +113,7 @@ const ReportDetail = () => {
   }
 
   const totalPeople = getTotalPeople(report)
+  const shelter = shelters.find((s) => s.id === report.shelter_id)
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 p-4 md:p-8">
@@ -104,13 +127,42 @@ const ReportDetail = () => {
           <Button
             variant="outline"
             size="sm"
-            onClick={() => setIsEditDialogOpen(true)}
+            onClick={() => navigate(caseSheetsPath([report.id]))}
           >
-            <Pencil className="mr-2 h-4 w-4" />
-            แก้ไข
+            <Printer className="mr-2 h-4 w-4" />
+            พิมพ์
           </Button>
+          {hasRole(STATUS_CHANGER_ROLES) && (
+            <FieldUpdateQr reportId={report.id} />
+          )}
+          {hasRole(REPORT_EDITOR_ROLES) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditDialogOpen(true)}
+            >
+              <Pencil className="mr-2 h-4 w-4" />
+              แก้ไข
+            </Button>
+          )}
         </div>
 
+        {report.duplicate_of && (
+          <Alert>
+            <GitMerge className="h-4 w-4" />
+            <AlertDescription>
+              รายงานนี้ถูกรวมเข้ากับเคส{' '}
+              <Link
+                to={`/report/${report.duplicate_of}`}
+                className="font-mono font-semibold text-primary hover:underline"
+              >
+                {formatCaseId(report.duplicate_of)}
+              </Link>{' '}
+              แล้ว กรุณาติดตามที่เคสหลัก
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Case ID and Status */}
         <Card className="border-2">
           <CardHeader>
@@ -136,12 +188,68 @@ const ReportDetail = () => {
                 >
                   ระดับความเร่งด่วน: {report.urgency_level}
                 </Badge>
-                <Badge variant="outline">{getStatusLabel(report.status)}</Badge>
+                <StatusBadge
+                  status={report.status}
+                  reason={report.status_reason}
+                />
+                {report.status_reason && (
+                  <p className="max-w-xs text-right text-xs text-muted-foreground">
+                    เหตุผล: {report.status_reason}
+                  </p>
+                )}
               </div>
             </div>
           </CardHeader>
         </Card>
 
+        {/* Team Assignment */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hand className="h-5 w-5" />
+              ทีมที่รับผิดชอบเคส
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CaseAssignment report={report} />
+          </CardContent>
+        </Card>
+
+        {/* Shelter the case was evacuated to */}
+        {report.shelter_id && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Tent className="h-5 w-5" />
+                ศูนย์พักพิงที่อพยพไป
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {shelter ? (
+                <div className="space-y-1">
+                  <Link
+                    to="/shelters"
+                    className="font-medium text-primary hover:underline"
+                  >
+                    {shelter.name}
+                  </Link>
+                  {shelter.address && (
+                    <p className="text-sm text-muted-foreground">
+                      {shelter.address}
+                    </p>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    ผู้พักอาศัย {shelter.current_occupancy} / {shelter.capacity}{' '}
+                    คน
+                  </p>
+                </div>
+              ) : (
+                <p className="text-muted-foreground">-</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Alert for urgency */}
         {report.urgency_level >= 4 && (
           <div className="bg-destructive/10 border-2 border-destructive/50 rounded-lg p-4">
@@ -208,7 +316,11 @@ const ReportDetail = () => {
                 <>
                   {report.location_lat && report.location_long && (
                     <div>
-                      <p className="text-sm text-muted-foreground">พิกัด</p>
+                      <p className="text-sm text-muted-foreground">
+                        {hasRole(CONTACT_VIEWER_ROLES)
+                          ? 'พิกัด'
+                          : 'พิกัดโดยประมาณ (รัศมีราว 500 เมตร)'}
+                      </p>
                       <p className="font-mono text-sm">
                         {report.location_lat}, {report.location_long}
                       </p>
@@ -361,6 +473,12 @@ const ReportDetail = () => {
           </CardContent>
         </Card>
 
+        <VolunteerSuggestions report={report} />
+
+        <ReportSupplies report={report} />
+
+        <ReportAttachments report={report} />
+
         {/* Raw Message */}
         {report.raw_message && (
           <Card>
@@ -376,6 +494,11 @@ const ReportDetail = () => {
             </CardContent>
           </Card>
         )}
+
+        {/* Change History */}
+        <ReportSources reportId={report.id} />
+
+        <ReportTimeline reportId={report.id} />
       </div>
 
       {/* Edit Dialog */}
@@ -3,16 +3,20 @@ import {
   AlertTriangle,
   ArrowLeft,
   Bell,
+  Camera,
   FileText,
   Loader2,
   LogIn,
   Save,
 } from 'lucide-react'
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useLocation, useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
 
 import { DraggableMap } from '@/components/DraggableMap'
+import { DuplicateDialog } from '@/components/DuplicateDialog'
+import { EvidenceField } from '@/components/EvidenceField'
+import { SupplyItemsEditor } from '@/components/SupplyItemsEditor'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import {
   AlertDialog,
@@ -31,10 +35,23 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { HELP_CATEGORIES, URGENCY_LEVELS } from '@/constants/helpCategories'
 import { useAuth } from '@/contexts/AuthContext'
 import { useLiff } from '@/contexts/LiffContext'
+import { linkReportAttachments } from '@/hooks/use-attachments'
+import { useMergeReportSubmission } from '@/hooks/use-reports'
+import { useAddSupplyItems } from '@/hooks/use-supplies'
 import { supabase } from '@/integrations/supabase/client'
+import { combineEvidence, splitBySpans } from '@/lib/fieldEvidence'
+import { addOutboxEntry, isNetworkError } from '@/lib/offlineOutbox'
+import {
+  cleanSupplyItems,
+  deriveSupplyItems,
+  formatCaseId,
+} from '@/lib/reportUtils'
 import { formatPhoneNumber } from '@/lib/utils'
+import type { DuplicateReport, FieldEvidenceMap } from '@/types/report'
+import type { SupplyItemDraft } from '@/types/supply'
 
 interface ExtractedData {
   name: string
@@ -57,8 +74,24 @@ interface ExtractedData {
   help_categories: string[]
   additional_info: string
   urgency_level: number
+  // Saved to report_supplies, not to the report row
+  supply_items: SupplyItemDraft[]
+  // Photos the report was read from, stored by ocr-image
+  attachment_ids?: string[]
+  // Set when the coordinates came from a photo's EXIF GPS
+  location_source?: 'photo'
+  // Set when extract-report fell back to its rule-based extractor
+  extraction_confidence?: 'low'
+  // Per-field confidence and source spans in raw_message
+  field_evidence?: FieldEvidenceMap
 }
 
+// Turn extracted supplies (or, failing that, help categories) into line items
+const withSupplyItems = (report: ExtractedData): ExtractedData => ({
+  ...report,
+  supply_items: deriveSupplyItems(report),
+})
+
 const Review = () => {
   const location = useLocation()
   const navigate = useNavigate()
@@ -68,8 +101,17 @@ const Review = () => {
   const [isSaving, setIsSaving] = useState(false)
   const [phoneInput, setPhoneInput] = useState('')
   const [showLoginDialog, setShowLoginDialog] = useState(false)
+  const [duplicates, setDuplicates] = useState<DuplicateReport[]>([])
+  const [mergingId, setMergingId] = useState<string | null>(null)
+  // Source text of the field under the pointer or focus
+  const [highlightedSpans, setHighlightedSpans] = useState<
+    [number, number][] | null
+  >(null)
+  const rawMessageRef = useRef<HTMLDivElement>(null)
   const { isLoggedIn, profile } = useLiff()
   const { user } = useAuth()
+  const mergeReportSubmission = useMergeReportSubmission()
+  const addSupplyItems = useAddSupplyItems()
 
   useEffect(() => {
     // Check if there's a pending review from login redirect
@@ -94,34 +136,45 @@ const Review = () => {
 
     if (extractedReports && extractedReports.length > 0) {
       // Multiple reports mode
-      setReports(extractedReports)
-      setFormData(extractedReports[0])
-      setPhoneInput(extractedReports[0].phone?.join(', ') || '')
+      const prepared = extractedReports.map(withSupplyItems)
+      setReports(prepared)
+      setFormData(prepared[0])
+      setPhoneInput(prepared[0].phone?.join(', ') || '')
     } else if (extractedData) {
       // Single report mode
-      setReports([extractedData])
-      setFormData(extractedData)
-      setPhoneInput(extractedData.phone?.join(', ') || '')
+      const prepared = withSupplyItems(extractedData)
+      setReports([prepared])
+      setFormData(prepared)
+      setPhoneInput(prepared.phone?.join(', ') || '')
     } else {
       toast.error('ไม่พบข้อมูล', { description: 'กรุณากรอกข้อมูลใหม่' })
       navigate('/')
     }
   }, [location, navigate])
 
-  const checkForDuplicates = async (rawMessage: string) => {
+  const checkForDuplicates = async (
+    reportData: ReturnType<typeof buildReportData>,
+  ): Promise<DuplicateReport[]> => {
     try {
       // Generate embedding for the raw message
       const { data: embeddingData, error: embeddingError } =
         await supabase.functions.invoke('generate-embedding', {
-          body: { text: rawMessage },
+          body: { text: reportData.raw_message },
         })
 
       if (embeddingError) throw embeddingError
 
-      // Check for duplicates
+      // Check for duplicates by text similarity, phone, and name + address
       const { data: duplicateData, error: duplicateError } =
         await supabase.functions.invoke('check-duplicates', {
-          body: { embedding: embeddingData.embedding, threshold: 0.85 },
+          body: {
+            embedding: embeddingData.embedding,
+            phones: reportData.phone,
+            name: reportData.name,
+            lastname: reportData.lastname,
+            address: reportData.address,
+            threshold: 0.85,
+          },
         })
 
       if (duplicateError) throw duplicateError
@@ -134,64 +187,145 @@ const Review = () => {
     }
   }
 
+  // Build the row to save from the form (without embedding)
+  const buildReportData = () => {
+    // Parse and format phone numbers
+    const phones = phoneInput
+      .split(',')
+      .map((p) => p.trim())
+      .filter((p) => p.length > 0)
+      .map((p) => formatPhoneNumber(p))
+
+    // Validate and parse last_contact_at - only accept valid datetime format
+    let validLastContact = null
+    if (formData.last_contact_at && formData.last_contact_at.trim()) {
+      const parsed = new Date(formData.last_contact_at)
+      if (!isNaN(parsed.getTime())) {
+        validLastContact = formData.last_contact_at
+      }
+    }
+
+    // Try to get coordinates - priority order:
+    // 1. Existing lat/long
+    // 2. Parse map_link if present
+    // 3. Geocode address if present
+    const finalLat = formData.location_lat
+      ? parseFloat(formData.location_lat)
+      : null
+    const finalLng = formData.location_long
+      ? parseFloat(formData.location_long)
+      : null
+    const finalMapLink = formData.map_link || null
+
+    const {
+      supply_items: _supplyItems,
+      attachment_ids: _attachmentIds,
+      location_source: _locationSource,
+      extraction_confidence: _extractionConfidence,
+      field_evidence: _fieldEvidence,
+      ...reportFields
+    } = formData
+
+    return {
+      ...reportFields,
+      name:
+        formData.name && formData.name !== '-' ? formData.name : 'ไม่ระบุชื่อ',
+      phone: phones,
+      location_lat: finalLat,
+      location_long: finalLng,
+      map_link: finalMapLink,
+      last_contact_at: validLastContact,
+      number_of_patients: formData.number_of_patients || 0,
+      number_of_infants: formData.number_of_infants || 0,
+      help_categories: formData.help_categories || [],
+      // Add LINE user data if logged in
+      line_user_id: isLoggedIn && profile ? profile.userId : null,
+      line_display_name: isLoggedIn && profile ? profile.displayName : null,
+    }
+  }
+
+  // Attach the reviewed supply list to a saved (or merged-into) report. A
+  // failure here should not lose the report, so it only warns.
+  const saveSupplyItems = async (reportId: string) => {
+    const items = cleanSupplyItems(formData?.supply_items || [])
+    if (items.length === 0) return
+
+    try {
+      await addSupplyItems.mutateAsync({ reportId, items })
+    } catch (err) {
+      console.error('Error saving supply items:', err)
+      toast.warning('บันทึกรายงานแล้ว แต่บันทึกรายการสิ่งของไม่สำเร็จ', {
+        description: 'เพิ่มรายการได้อีกครั้งที่หน้ารายละเอียดเคส',
+      })
+    }
+  }
+
+  // Same for the OCR'd photos; the report is saved even if linking fails
+  const saveAttachments = async (reportId: string) => {
+    if (!formData?.attachment_ids?.length) return
+
+    try {
+      await linkReportAttachments(reportId, formData.attachment_ids)
+    } catch (err) {
+      console.error('Error linking attachments:', err)
+      toast.warning('บันทึกรายงานแล้ว แต่แนบรูปภาพต้นฉบับไม่สำเร็จ')
+    }
+  }
+
+  // Move on to the next report in multi-report mode, or finish
+  const goToNextReport = (
+    savedMessage = 'ขอบคุณค่ะ ข้อมูลได้ถูกบันทึกแล้ว',
+  ) => {
+    if (currentIndex < reports.length - 1) {
+      const nextIndex = currentIndex + 1
+      setCurrentIndex(nextIndex)
+      setFormData(reports[nextIndex])
+      setPhoneInput(reports[nextIndex].phone?.join(', ') || '')
+
+      toast.success(savedMessage, {
+        description: `เหลืออีก ${reports.length - nextIndex} รายการ`,
+      })
+    } else {
+      toast.success(savedMessage, {
+        description: `บันทึกทั้งหมด ${reports.length} รายการเรียบร้อย`,
+      })
+      navigate('/dashboard')
+    }
+  }
+
+  // Keep the report in the offline outbox; it is sent when back online
+  const queueOffline = async () => {
+    const reportData = buildReportData()
+    await addOutboxEntry({
+      kind: 'create_report',
+      report_id: crypto.randomUUID(),
+      label: `รายงานใหม่: ${reportData.name}`,
+      data: reportData,
+      supplies: cleanSupplyItems(formData?.supply_items || []),
+      attachmentIds: formData?.attachment_ids,
+    })
+    goToNextReport('บันทึกไว้ในเครื่องแล้ว จะส่งเมื่อกลับมาออนไลน์')
+  }
+
   const performSave = async () => {
     if (!formData) return
 
     setIsSaving(true)
 
     try {
-      // Parse and format phone numbers
-      const phones = phoneInput
-        .split(',')
-        .map((p) => p.trim())
-        .filter((p) => p.length > 0)
-        .map((p) => formatPhoneNumber(p))
-
-      // Validate and parse last_contact_at - only accept valid datetime format
-      let validLastContact = null
-      if (formData.last_contact_at && formData.last_contact_at.trim()) {
-        const parsed = new Date(formData.last_contact_at)
-        if (!isNaN(parsed.getTime())) {
-          validLastContact = formData.last_contact_at
-        }
-      }
-
-      // Try to get coordinates - priority order:
-      // 1. Existing lat/long
-      // 2. Parse map_link if present
-      // 3. Geocode address if present
-      const finalLat = formData.location_lat
-        ? parseFloat(formData.location_lat)
-        : null
-      const finalLng = formData.location_long
-        ? parseFloat(formData.location_long)
-        : null
-      const finalMapLink = formData.map_link || null
-
       // Generate embedding for the report
       const { data: embeddingData, error: embeddingError } =
         await supabase.functions.invoke('generate-embedding', {
           body: { text: formData.raw_message },
         })
 
+      // The id is set here so supply items can reference the new report
+      // without reading it back (public reporters cannot select reports)
+      const reportId = crypto.randomUUID()
       const dataToSave = {
-        ...formData,
-        name:
-          formData.name && formData.name !== '-'
-            ? formData.name
-            : 'ไม่ระบุชื่อ',
-        phone: phones,
-        location_lat: finalLat,
-        location_long: finalLng,
-        map_link: finalMapLink,
-        last_contact_at: validLastContact,
+        ...buildReportData(),
+        id: reportId,
         embedding: embeddingError ? null : embeddingData.embedding,
-        number_of_patients: formData.number_of_patients || 0,
-        number_of_infants: formData.number_of_infants || 0,
-        help_categories: formData.help_categories || [],
-        // Add LINE user data if logged in
-        line_user_id: isLoggedIn && profile ? profile.userId : null,
-        line_display_name: isLoggedIn && profile ? profile.displayName : null,
       }
 
       const { error } = await supabase.from('reports').insert([dataToSave])
@@ -200,25 +334,14 @@ const Review = () => {
         throw error
       }
 
-      // Check if there are more reports to review
-      if (currentIndex < reports.length - 1) {
-        // Move to next report
-        const nextIndex = currentIndex + 1
-        setCurrentIndex(nextIndex)
-        setFormData(reports[nextIndex])
-        setPhoneInput(reports[nextIndex].phone?.join(', ') || '')
-
-        toast.success('ขอบคุณค่ะ ข้อมูลได้ถูกบันทึกแล้ว', {
-          description: `เหลืออีก ${reports.length - nextIndex} รายการ`,
-        })
-      } else {
-        // All done
-        toast.success('ขอบคุณค่ะ ข้อมูลได้ถูกบันทึกแล้ว', {
-          description: `บันทึกทั้งหมด ${reports.length} รายการเรียบร้อย`,
-        })
-        navigate('/dashboard')
-      }
+      await saveSupplyItems(reportId)
+      await saveAttachments(reportId)
+      goToNextReport()
     } catch (err) {
+      if (isNetworkError(err)) {
+        await queueOffline()
+        return
+      }
       console.error('Save error:', err)
       toast.error('ไม่สามารถบันทึกได้', {
         description:
@@ -229,6 +352,38 @@ const Review = () => {
     }
   }
 
+  const handleMergeIntoDuplicate = async (duplicateId: string) => {
+    if (!formData) return
+
+    setMergingId(duplicateId)
+
+    try {
+      const merged = await mergeReportSubmission.mutateAsync({
+        canonicalId: duplicateId,
+        submission: buildReportData(),
+      })
+
+      setDuplicates([])
+      await saveSupplyItems(merged.id)
+      await saveAttachments(merged.id)
+      toast.success(`รวมข้อมูลเข้ากับเคส ${formatCaseId(merged.id)} แล้ว`)
+      goToNextReport()
+    } catch (err) {
+      console.error('Merge error:', err)
+      toast.error('ไม่สามารถรวมข้อมูลได้', {
+        description:
+          err instanceof Error ? err.message : 'กรุณาลองใหม่อีกครั้ง',
+      })
+    } finally {
+      setMergingId(null)
+    }
+  }
+
+  const handleSaveDuplicateAnyway = async () => {
+    setDuplicates([])
+    await performSave()
+  }
+
   const handleSave = async () => {
     if (!formData) return
 
@@ -248,37 +403,21 @@ const Review = () => {
   const proceedWithSave = async () => {
     if (!formData) return
 
+    // Duplicate checks need the network; queue the report as it is
+    if (!navigator.onLine) {
+      await queueOffline()
+      return
+    }
+
     setIsSaving(true)
 
     try {
       // Check for duplicates first
-      const foundDuplicates = await checkForDuplicates(formData.raw_message)
+      const foundDuplicates = await checkForDuplicates(buildReportData())
 
       if (foundDuplicates.length > 0) {
-        // Duplicate found - update the existing record's updated_at
-        console.log('Duplicate detected, updating existing record timestamp')
-
-        const duplicateId = foundDuplicates[0].id
-        const { error: updateError } = await supabase
-          .from('reports')
-          .update({ updated_at: new Date().toISOString() })
-          .eq('id', duplicateId)
-
-        if (updateError) {
-          console.error('Error updating duplicate:', updateError)
-        }
-
-        // Move to next report if in multi-report mode
-        if (reports.length > 1 && currentIndex < reports.length - 1) {
-          setCurrentIndex(currentIndex + 1)
-          setFormData(reports[currentIndex + 1])
-          setPhoneInput(reports[currentIndex + 1].phone?.join(', ') || '')
-          toast.success('ขอบคุณค่ะ ข้อมูลได้ถูกบันทึกแล้ว')
-        } else {
-          // Last report or single report
-          toast.success('ขอบคุณค่ะ ข้อมูลได้ถูกบันทึกแล้ว')
-          navigate('/dashboard')
-        }
+        // Let the user merge into an existing report or save anyway
+        setDuplicates(foundDuplicates)
       } else {
         // No duplicate - save the record
         await performSave()
@@ -307,10 +446,27 @@ const Review = () => {
     navigate('/auth', { state: { from: '/review' } })
   }
 
+  // Scroll the message panel to the highlighted source text
+  useEffect(() => {
+    const container = rawMessageRef.current
+    const mark = container?.querySelector('mark')
+    if (!container || !mark) return
+    container.scrollTo({
+      top: mark.offsetTop - container.clientHeight / 3,
+      behavior: 'smooth',
+    })
+  }, [highlightedSpans])
+
   if (!formData) {
     return null
   }
 
+  // Props for a form field backed by one or more extracted fields
+  const evidenceFor = (...fields: string[]) => ({
+    evidence: combineEvidence(formData.field_evidence, fields),
+    onHighlight: setHighlightedSpans,
+  })
+
   const urgencyColors = [
     'urgency-badge-1',
     'urgency-badge-2',
@@ -337,8 +493,23 @@ const Review = () => {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="bg-muted/50 rounded-lg p-4 whitespace-pre-wrap text-sm leading-relaxed max-h-[70vh] overflow-y-auto">
-                {formData.raw_message}
+              <div
+                ref={rawMessageRef}
+                className="relative bg-muted/50 rounded-lg p-4 whitespace-pre-wrap text-sm leading-relaxed max-h-[70vh] overflow-y-auto"
+              >
+                {splitBySpans(formData.raw_message, highlightedSpans ?? []).map(
+                  (segment, index) =>
+                    segment.highlighted ? (
+                      <mark
+                        key={index}
+                        className="rounded-sm bg-amber-200 text-foreground dark:bg-amber-500/40"
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      segment.text
+                    ),
+                )}
               </div>
             </CardContent>
           </Card>
@@ -354,6 +525,12 @@ const Review = () => {
                       รายการที่ {currentIndex + 1}/{reports.length}
                     </Badge>
                   )}
+                  {formData.extraction_confidence === 'low' && (
+                    <Badge variant="destructive" className="text-sm">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      ความเชื่อมั่นต่ำ
+                    </Badge>
+                  )}
                 </div>
                 <Badge className={urgencyColors[formData.urgency_level - 1]}>
                   เร่งด่วนระดับ {formData.urgency_level}
@@ -361,16 +538,27 @@ const Review = () => {
               </div>
             </CardHeader>
             <CardContent className="space-y-6">
-              <Alert>
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription>
-                  กรุณาตรวจสอบข้อมูลให้ถูกต้องก่อนบันทึก
-                  คุณสามารถแก้ไขได้ทุกช่อง
-                </AlertDescription>
-              </Alert>
+              {formData.extraction_confidence === 'low' ? (
+                <Alert className="border-amber-500/50 bg-amber-50/50 dark:bg-amber-950/20">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    ระบบ AI ไม่พร้อมใช้งานในขณะนี้
+                    ข้อมูลนี้แยกด้วยกฎพื้นฐานจึงอาจไม่ครบหรือไม่ถูกต้อง
+                    กรุณาเทียบกับข้อความต้นฉบับและตรวจสอบทุกช่องก่อนบันทึก
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    กรุณาตรวจสอบข้อมูลให้ถูกต้องก่อนบันทึก
+                    คุณสามารถแก้ไขได้ทุกช่อง
+                  </AlertDescription>
+                </Alert>
+              )}
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
+                <EvidenceField {...evidenceFor('reporter_name')}>
                   <Label htmlFor="reporter">ผู้รายงาน/แจ้งเรื่อง</Label>
                   <Input
                     id="reporter"
@@ -383,9 +571,9 @@ const Review = () => {
                     }
                     placeholder="-"
                   />
-                </div>
+                </EvidenceField>
 
-                <div className="space-y-2">
+                <EvidenceField {...evidenceFor('last_contact_at')}>
                   <Label htmlFor="lastContact">วันเวลาติดต่อล่าสุด</Label>
                   <Input
                     id="lastContact"
@@ -399,11 +587,11 @@ const Review = () => {
                     }
                     placeholder="-"
                   />
-                </div>
+                </EvidenceField>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
+                <EvidenceField {...evidenceFor('name')}>
                   <Label htmlFor="name">ชื่อ</Label>
                   <Input
                     id="name"
@@ -413,9 +601,9 @@ const Review = () => {
                     }
                     placeholder="-"
                   />
-                </div>
+                </EvidenceField>
 
-                <div className="space-y-2">
+                <EvidenceField {...evidenceFor('lastname')}>
                   <Label htmlFor="lastname">นามสกุล</Label>
                   <Input
                     id="lastname"
@@ -424,10 +612,10 @@ const Review = () => {
                       setFormData({ ...formData, lastname: e.target.value })
                     }
                   />
-                </div>
+                </EvidenceField>
               </div>
 
-              <div className="space-y-2">
+              <EvidenceField {...evidenceFor('address')}>
                 <Label htmlFor="address">ที่อยู่</Label>
                 <Textarea
                   id="address"
@@ -438,9 +626,9 @@ const Review = () => {
                   rows={3}
                   placeholder="-"
                 />
-              </div>
+              </EvidenceField>
 
-              <div className="space-y-2">
+              <EvidenceField {...evidenceFor('phone')}>
                 <Label htmlFor="phone">เบอร์โทรศัพท์ (คั่นด้วยจุลภาค)</Label>
                 <Input
                   id="phone"
@@ -448,18 +636,27 @@ const Review = () => {
                   onChange={(e) => setPhoneInput(e.target.value)}
                   placeholder="-"
                 />
-              </div>
+              </EvidenceField>
 
-              <div className="space-y-2">
+              <EvidenceField
+                {...evidenceFor('map_link', 'location_lat', 'location_long')}
+              >
                 <div className="flex items-center justify-between">
                   <Label htmlFor="map_link">ตำแหน่งบนแผนที่</Label>
-                  {!formData.raw_message?.match(
-                    /(maps\.google\.com|goo\.gl|google\.com\/maps|maps\.app\.goo\.gl)/i,
-                  ) && (
-                    <Badge variant="destructive" className="text-xs">
-                      <AlertTriangle className="h-3 w-3 mr-1" />
-                      ใช้ AI สกัดพิกัด อาจมีความคลาดเคลื่อน
+                  {formData.location_source === 'photo' ? (
+                    <Badge variant="secondary" className="text-xs">
+                      <Camera className="h-3 w-3 mr-1" />
+                      พิกัดจากรูปถ่าย
                     </Badge>
+                  ) : (
+                    !formData.raw_message?.match(
+                      /(maps\.google\.com|goo\.gl|google\.com\/maps|maps\.app\.goo\.gl)/i,
+                    ) && (
+                      <Badge variant="destructive" className="text-xs">
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        ใช้ AI สกัดพิกัด อาจมีความคลาดเคลื่อน
+                      </Badge>
+                    )
                   )}
                 </div>
                 {formData.location_lat &&
@@ -479,6 +676,7 @@ const Review = () => {
                           location_lat: lat.toFixed(7),
                           location_long: lng.toFixed(7),
                           map_link: `https://maps.google.com/?q=${lat},${lng}`,
+                          location_source: undefined,
                         })
                       }}
                     />
@@ -486,7 +684,11 @@ const Review = () => {
                       id="map_link"
                       value={formData.map_link || '-'}
                       onChange={(e) =>
-                        setFormData({ ...formData, map_link: e.target.value })
+                        setFormData({
+                          ...formData,
+                          map_link: e.target.value,
+                          location_source: undefined,
+                        })
                       }
                       placeholder="https://maps.google.com/... หรือ https://goo.gl/maps/..."
                       className="text-xs"
@@ -497,12 +699,12 @@ const Review = () => {
                     ยังไม่มีพิกัด - กรุณากรอกละติจูดและลองติจูดเพื่อแสดงแผนที่
                   </div>
                 )}
-              </div>
+              </EvidenceField>
 
               <div className="space-y-4">
                 <Label>จำนวนผู้ประสบภัย</Label>
                 <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-                  <div className="space-y-2">
+                  <EvidenceField {...evidenceFor('number_of_adults')}>
                     <Label
                       htmlFor="adults"
                       className="text-sm text-muted-foreground"
@@ -521,9 +723,9 @@ const Review = () => {
                         })
                       }
                     />
-                  </div>
+                  </EvidenceField>
 
-                  <div className="space-y-2">
+                  <EvidenceField {...evidenceFor('number_of_children')}>
                     <Label
                       htmlFor="children"
                       className="text-sm text-muted-foreground"
@@ -542,9 +744,9 @@ const Review = () => {
                         })
                       }
                     />
-                  </div>
+                  </EvidenceField>
 
-                  <div className="space-y-2">
+                  <EvidenceField {...evidenceFor('number_of_infants')}>
                     <Label
                       htmlFor="infants"
                       className="text-sm text-muted-foreground"
@@ -563,9 +765,9 @@ const Review = () => {
                         })
                       }
                     />
-                  </div>
+                  </EvidenceField>
 
-                  <div className="space-y-2">
+                  <EvidenceField {...evidenceFor('number_of_seniors')}>
                     <Label
                       htmlFor="seniors"
                       className="text-sm text-muted-foreground"
@@ -584,9 +786,9 @@ const Review = () => {
                         })
                       }
                     />
-                  </div>
+                  </EvidenceField>
 
-                  <div className="space-y-2">
+                  <EvidenceField {...evidenceFor('number_of_patients')}>
                     <Label
                       htmlFor="patients"
                       className="text-sm text-muted-foreground"
@@ -605,11 +807,11 @@ const Review = () => {
                         })
                       }
                     />
-                  </div>
+                  </EvidenceField>
                 </div>
               </div>
 
-              <div className="space-y-2">
+              <EvidenceField {...evidenceFor('health_condition')}>
                 <Label htmlFor="health">ภาวะสุขภาพ</Label>
                 <Textarea
                   id="health"
@@ -623,26 +825,12 @@ const Review = () => {
                   rows={2}
                   placeholder="-"
                 />
-              </div>
+              </EvidenceField>
 
-              <div className="space-y-2">
+              <EvidenceField {...evidenceFor('help_categories')}>
                 <Label>ประเภทความช่วยเหลือที่ต้องการ</Label>
                 <div className="grid grid-cols-2 gap-3 p-4 bg-muted/30 rounded-lg">
-                  {[
-                    { id: 'drowning', label: 'จมน้ำ' },
-                    { id: 'trapped', label: 'ติดขัง' },
-                    { id: 'unreachable', label: 'ติดต่อไม่ได้' },
-                    { id: 'water', label: 'ขาดน้ำดื่ม' },
-                    { id: 'food', label: 'ขาดอาหาร' },
-                    { id: 'electricity', label: 'ขาดไฟฟ้า' },
-                    { id: 'shelter', label: 'ต้องการที่พักพิง' },
-                    { id: 'medical', label: 'คนเจ็บ/ต้องการรักษา' },
-                    { id: 'medicine', label: 'ขาดยา' },
-                    { id: 'evacuation', label: 'ต้องการอพยพ' },
-                    { id: 'missing', label: 'คนหาย' },
-                    { id: 'clothes', label: 'เสื้อผ้า' },
-                    { id: 'other', label: 'อื่นๆ' },
-                  ].map((category) => (
+                  {HELP_CATEGORIES.map((category) => (
                     <div
                       key={category.id}
                       className="flex items-center space-x-2"
@@ -670,9 +858,9 @@ const Review = () => {
                     </div>
                   ))}
                 </div>
-              </div>
+              </EvidenceField>
 
-              <div className="space-y-2">
+              <EvidenceField {...evidenceFor('help_needed')}>
                 <Label htmlFor="help">รายละเอียดความช่วยเหลือเพิ่มเติม</Label>
                 <Textarea
                   id="help"
@@ -683,9 +871,45 @@ const Review = () => {
                   rows={2}
                   placeholder="-"
                 />
-              </div>
+              </EvidenceField>
 
-              <div className="space-y-2">
+              <EvidenceField {...evidenceFor('supply_items')}>
+                <div className="flex items-center justify-between gap-2">
+                  <Label>สิ่งของที่ต้องการ</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      // Add suggestions for categories not listed yet
+                      const current = formData.supply_items || []
+                      const suggested = deriveSupplyItems({
+                        ...formData,
+                        supply_items: [],
+                      }).filter(
+                        (item) =>
+                          !current.some((c) => c.category === item.category),
+                      )
+                      setFormData({
+                        ...formData,
+                        supply_items: [...current, ...suggested],
+                      })
+                    }}
+                  >
+                    เติมจากประเภทความช่วยเหลือ
+                  </Button>
+                </div>
+                <div className="p-4 bg-muted/30 rounded-lg">
+                  <SupplyItemsEditor
+                    items={formData.supply_items || []}
+                    onChange={(items) =>
+                      setFormData({ ...formData, supply_items: items })
+                    }
+                  />
+                </div>
+              </EvidenceField>
+
+              <EvidenceField {...evidenceFor('additional_info')}>
                 <Label htmlFor="additional">ข้อมูลเพิ่มเติม</Label>
                 <Textarea
                   id="additional"
@@ -699,9 +923,9 @@ const Review = () => {
                   rows={3}
                   placeholder="-"
                 />
-              </div>
+              </EvidenceField>
 
-              <div className="space-y-2">
+              <EvidenceField {...evidenceFor('urgency_level')}>
                 <Label htmlFor="urgency">ระดับความเร่งด่วน</Label>
                 <select
                   id="urgency"
@@ -714,24 +938,13 @@ const Review = () => {
                   }
                   className="w-full p-2 border rounded-md bg-background"
                 >
-                  <option value="1">1 - ยังไม่โดนน้ำ / แจ้งเตือน</option>
-                  <option value="2">
-                    2 - ผู้ใหญ่ทั้งหมด น้ำท่วมชั้นล่าง
-                    (ไม่มีเด็ก/ผู้สูงอายุ/ทารก/ผู้ป่วย)
-                  </option>
-                  <option value="3">
-                    3 - มีเด็ก หรือผู้สูงอายุ หรือน้ำถึงชั้นสอง
-                  </option>
-                  <option value="4">
-                    4 - เด็กเล็กมาก หรือทารก หรือมีคนไข้/ป่วยติดเตียง
-                    หรือคนช่วยตัวเองไม่ได้
-                  </option>
-                  <option value="5">
-                    5 - วิกฤต: น้ำถึงหลังคา/ติดบนหลังคา ทารกในอันตราย
-                    คนไข้อาการหนัก มีคนตาย
-                  </option>
+                  {URGENCY_LEVELS.map(({ level, description }) => (
+                    <option key={level} value={level}>
+                      {level} - {description}
+                    </option>
+                  ))}
                 </select>
-              </div>
+              </EvidenceField>
 
               <div className="flex gap-4">
                 <Button
@@ -759,6 +972,16 @@ const Review = () => {
       </div>
 
       {/* Login Dialog */}
+      <DuplicateDialog
+        open={duplicates.length > 0}
+        onOpenChange={(open) => !open && !mergingId && setDuplicates([])}
+        duplicates={duplicates}
+        onSaveAnyway={handleSaveDuplicateAnyway}
+        onCancel={() => setDuplicates([])}
+        onMerge={handleMergeIntoDuplicate}
+        mergingId={mergingId}
+      />
+
       <AlertDialog open={showLoginDialog} onOpenChange={setShowLoginDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
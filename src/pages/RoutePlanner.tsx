@@ -0,0 +1,340 @@
+import {
+  ArrowLeft,
+  Download,
+  FileText,
+  Loader2,
+  LocateFixed,
+  Printer,
+  Route,
+  X,
+} from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { toast } from 'sonner'
+
+import InteractiveMap from '@/components/InteractiveMap'
+import { StatusBadge } from '@/components/StatusBadge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { CONTACT_VIEWER_ROLES } from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useReportsByIds } from '@/hooks/use-reports'
+import { caseSheetsPath } from '@/lib/caseSheets'
+import {
+  formatCaseId,
+  getUrgencyBadgeClass,
+  getUrgencyLabel,
+} from '@/lib/reportUtils'
+import {
+  buildGpx,
+  type LatLng,
+  MAX_ROUTE_STOPS,
+  planRoute,
+  routePlannerPath,
+} from '@/lib/routePlanning'
+import type { Report } from '@/types/report'
+
+// Stable props so the map isn't rebuilt on every render
+const NO_REPORTS: Report[] = []
+const MAP_CENTER: [number, number] = [13.7563, 100.5018]
+
+const formatKm = (km: number) => `${km.toFixed(1)} กม.`
+
+const RoutePlanner = () => {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const { hasRole } = useAuth()
+  const [start, setStart] = useState<LatLng | null>(null)
+  const [isLocating, setIsLocating] = useState(false)
+
+  const ids = useMemo(
+    () =>
+      (searchParams.get('ids') || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+        .slice(0, MAX_ROUTE_STOPS),
+    [searchParams],
+  )
+
+  const { data: reports = [], isLoading } = useReportsByIds(ids)
+  const route = useMemo(() => planRoute(reports, start), [reports, start])
+
+  const removeStop = (reportId: string) => {
+    navigate(routePlannerPath(ids.filter((id) => id !== reportId)), {
+      replace: true,
+    })
+  }
+
+  const startFromCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('อุปกรณ์นี้ไม่รองรับการระบุตำแหน่ง')
+      return
+    }
+
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setStart({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        })
+        setIsLocating(false)
+      },
+      (err) => {
+        setIsLocating(false)
+        toast.error('ไม่สามารถระบุตำแหน่งได้', { description: err.message })
+      },
+    )
+  }
+
+  const downloadGpx = () => {
+    const timestamp = new Date().toISOString().slice(0, 10)
+    const gpx = buildGpx(route, `Rescue run ${timestamp}`)
+    const blob = new Blob([gpx], { type: 'application/gpx+xml' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.setAttribute('href', url)
+    link.setAttribute('download', `rescue_run_${timestamp}.gpx`)
+    link.style.visibility = 'hidden'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  if (ids.length === 0) {
+    return (
+      <div className="container mx-auto max-w-3xl p-4 md:p-8">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Route className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">ยังไม่ได้เลือกเคส</h3>
+            <p className="text-muted-foreground mb-4">
+              เลือกเคสจากแผนที่หรือหน้าข้อมูล แล้วกด "วางแผนเส้นทาง"
+            </p>
+            <Button onClick={() => navigate('/map')}>ไปที่แผนที่</Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto max-w-6xl p-4 md:p-8 space-y-6 print:max-w-none print:p-0">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mb-2 print:hidden"
+            onClick={() => navigate(-1)}
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            กลับ
+          </Button>
+          <h1 className="text-3xl font-bold">แผนเส้นทางช่วยเหลือ</h1>
+          <p className="text-muted-foreground mt-1">
+            {route.stops.length} จุด ระยะทางรวมประมาณ {formatKm(route.totalKm)}{' '}
+            (เส้นตรง) · {new Date().toLocaleString('th-TH')}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 print:hidden">
+          {start ? (
+            <Button variant="outline" onClick={() => setStart(null)}>
+              <X className="mr-2 h-4 w-4" />
+              ไม่ใช้จุดเริ่มต้น
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={startFromCurrentLocation}
+              disabled={isLocating}
+            >
+              {isLocating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <LocateFixed className="mr-2 h-4 w-4" />
+              )}
+              เริ่มจากตำแหน่งของฉัน
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={downloadGpx}
+            disabled={route.stops.length === 0}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            GPX
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() =>
+              navigate(
+                caseSheetsPath(route.stops.map((stop) => stop.report.id)),
+              )
+            }
+            disabled={route.stops.length === 0}
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            ใบเคส
+          </Button>
+          <Button
+            onClick={() => window.print()}
+            disabled={route.stops.length === 0}
+          >
+            <Printer className="mr-2 h-4 w-4" />
+            พิมพ์
+          </Button>
+        </div>
+      </div>
+
+      {!hasRole(CONTACT_VIEWER_ROLES) && (
+        <Alert>
+          <AlertDescription>
+            ตำแหน่งเป็นค่าประมาณ (รัศมีราว 500 เมตร)
+            เข้าสู่ระบบด้วยสิทธิ์ทีมช่วยเหลือเพื่อใช้พิกัดจริง
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <p className="text-sm text-muted-foreground print:hidden">
+        เรียงลำดับจากระยะทางและระดับความเร่งด่วน
+        เคสที่เร่งด่วนกว่าจะถูกไปถึงก่อนแม้อยู่ไกลกว่าเล็กน้อย
+        ระยะทางเป็นเส้นตรง ไม่ใช่เส้นทางถนนหรือทางน้ำจริง
+      </p>
+
+      <div className="h-[400px] overflow-hidden rounded-lg border print:hidden">
+        <InteractiveMap
+          reports={NO_REPORTS}
+          route={route}
+          center={MAP_CENTER}
+          showLegend={false}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <Card className="print:border-0 print:shadow-none">
+          <CardHeader className="print:px-0">
+            <CardTitle>ลำดับการเข้าช่วยเหลือ</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">#</TableHead>
+                  <TableHead>เคส</TableHead>
+                  <TableHead>ความเร่งด่วน</TableHead>
+                  <TableHead>ที่อยู่ / ความช่วยเหลือ</TableHead>
+                  <TableHead>โทร</TableHead>
+                  <TableHead className="text-right">ระยะ</TableHead>
+                  <TableHead className="w-10 print:hidden" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {route.stops.map((stop, index) => (
+                  <TableRow key={stop.report.id} className="break-inside-avoid">
+                    <TableCell className="text-lg font-bold">
+                      {index + 1}
+                    </TableCell>
+                    <TableCell>
+                      <Link
+                        to={`/report/${stop.report.id}`}
+                        className="font-mono text-xs text-primary hover:underline"
+                      >
+                        {formatCaseId(stop.report.id)}
+                      </Link>
+                      <div className="font-medium">
+                        {[stop.report.name, stop.report.lastname]
+                          .filter(Boolean)
+                          .join(' ') || 'ไม่ระบุชื่อ'}
+                      </div>
+                      <StatusBadge status={stop.report.status} />
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        className={getUrgencyBadgeClass(
+                          stop.report.urgency_level,
+                        )}
+                      >
+                        {stop.report.urgency_level}
+                      </Badge>
+                      <div className="mt-1 text-xs text-muted-foreground">
+                        {getUrgencyLabel(stop.report.urgency_level)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-sm text-sm">
+                      <div>{stop.report.address || '-'}</div>
+                      {stop.report.help_needed && (
+                        <div className="text-muted-foreground">
+                          {stop.report.help_needed}
+                        </div>
+                      )}
+                      <div className="font-mono text-xs text-muted-foreground">
+                        {stop.position.lat.toFixed(5)},{' '}
+                        {stop.position.lng.toFixed(5)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {stop.report.phone?.join(', ') || '-'}
+                    </TableCell>
+                    <TableCell className="text-right text-sm whitespace-nowrap">
+                      {index > 0 || start ? `+${formatKm(stop.legKm)}` : '-'}
+                      <div className="text-xs text-muted-foreground">
+                        {formatKm(stop.cumulativeKm)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="print:hidden">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeStop(stop.report.id)}
+                        aria-label="นำออกจากเส้นทาง"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {route.skipped.length > 0 && (
+              <div className="border-t p-4 text-sm text-muted-foreground">
+                ไม่มีพิกัด จึงไม่อยู่ในเส้นทาง:{' '}
+                {route.skipped.map((report, index) => (
+                  <span key={report.id}>
+                    {index > 0 && ', '}
+                    <Link
+                      to={`/report/${report.id}`}
+                      className="text-primary hover:underline"
+                    >
+                      {formatCaseId(report.id)}
+                    </Link>
+                  </span>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default RoutePlanner
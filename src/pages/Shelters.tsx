@@ -0,0 +1,220 @@
+import {
+  Home,
+  Loader2,
+  Package,
+  Pencil,
+  Phone,
+  Plus,
+  Search,
+} from 'lucide-react'
+import { useMemo, useState } from 'react'
+
+import InteractiveMap from '@/components/InteractiveMap'
+import { ShelterDialog } from '@/components/ShelterDialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Progress } from '@/components/ui/progress'
+import {
+  COORDINATOR_ROLES,
+  STATUS_CHANGER_ROLES,
+} from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useShelters } from '@/hooks/use-shelters'
+import type { Shelter } from '@/types/shelter'
+
+const MAP_CENTER: [number, number] = [13.7563, 100.5018]
+
+const Shelters = () => {
+  const { hasRole } = useAuth()
+  const canCreate = hasRole(COORDINATOR_ROLES)
+  // Rescuers on site keep occupancy and supplies current
+  const canEdit = hasRole(STATUS_CHANGER_ROLES)
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingShelter, setEditingShelter] = useState<Shelter>()
+
+  const { data: shelters = [], isLoading } = useShelters()
+
+  const filteredShelters = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    if (!term) return shelters
+    return shelters.filter(
+      (shelter) =>
+        shelter.name.toLowerCase().includes(term) ||
+        shelter.address?.toLowerCase().includes(term),
+    )
+  }, [shelters, searchTerm])
+
+  const totals = useMemo(
+    () =>
+      shelters
+        .filter((shelter) => shelter.is_active)
+        .reduce(
+          (sum, shelter) => ({
+            capacity: sum.capacity + shelter.capacity,
+            occupancy: sum.occupancy + shelter.current_occupancy,
+          }),
+          { capacity: 0, occupancy: 0 },
+        ),
+    [shelters],
+  )
+
+  const openDialog = (shelter?: Shelter) => {
+    setEditingShelter(shelter)
+    setDialogOpen(true)
+  }
+
+  return (
+    <div className="container mx-auto max-w-6xl p-4 md:p-8 space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">ศูนย์พักพิง</h1>
+          <p className="text-muted-foreground mt-1">
+            ศูนย์อพยพที่เปิดรับผู้ประสบภัย พักอาศัยอยู่ {totals.occupancy} คน
+            จากความจุรวม {totals.capacity} คน
+          </p>
+        </div>
+        {canCreate && (
+          <Button onClick={() => openDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            เพิ่มศูนย์พักพิง
+          </Button>
+        )}
+      </div>
+
+      <div className="h-[400px] overflow-hidden rounded-lg border">
+        <InteractiveMap
+          reports={[]}
+          shelters={filteredShelters}
+          center={MAP_CENTER}
+          showLegend={false}
+        />
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="ค้นหาชื่อหรือที่อยู่"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center p-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : filteredShelters.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Home className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">ไม่พบศูนย์พักพิง</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {filteredShelters.map((shelter) => {
+            const occupancyPercent =
+              shelter.capacity > 0
+                ? Math.min(
+                    100,
+                    (shelter.current_occupancy / shelter.capacity) * 100,
+                  )
+                : 0
+            const isFull =
+              shelter.capacity > 0 &&
+              shelter.current_occupancy >= shelter.capacity
+
+            return (
+              <Card
+                key={shelter.id}
+                className={shelter.is_active ? undefined : 'opacity-60'}
+              >
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <CardTitle className="text-lg">{shelter.name}</CardTitle>
+                      {shelter.address && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {shelter.address}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-shrink-0 items-center gap-2">
+                      {!shelter.is_active ? (
+                        <Badge variant="secondary">ปิดแล้ว</Badge>
+                      ) : (
+                        isFull && <Badge variant="destructive">เต็ม</Badge>
+                      )}
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => openDialog(shelter)}
+                          aria-label="แก้ไขศูนย์พักพิง"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">ผู้พักอาศัย</span>
+                      <span className="font-medium">
+                        {shelter.current_occupancy} / {shelter.capacity} คน
+                      </span>
+                    </div>
+                    <Progress
+                      value={occupancyPercent}
+                      className={`h-2 ${isFull ? '[&>div]:bg-destructive' : ''}`}
+                    />
+                  </div>
+
+                  {shelter.supplies_on_hand && (
+                    <div className="flex items-start gap-2 text-sm">
+                      <Package className="mt-0.5 h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      <span className="whitespace-pre-wrap">
+                        {shelter.supplies_on_hand}
+                      </span>
+                    </div>
+                  )}
+
+                  {(shelter.contact_name || shelter.contact_phone) && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Phone className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      <span>{shelter.contact_name}</span>
+                      {shelter.contact_phone && (
+                        <a
+                          href={`tel:${shelter.contact_phone}`}
+                          className="text-primary hover:underline"
+                        >
+                          {shelter.contact_phone}
+                        </a>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      <ShelterDialog
+        shelter={editingShelter}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+      />
+    </div>
+  )
+}
+
+export default Shelters
@@ -18,6 +18,7 @@ import ReportHeatmap from '@/components/ReportHeatmap'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { useStats } from '@/hooks/use-stats'
+import { useRealtimeReports } from '@/hooks/use-realtime-reports'
 import { useAllReports, reportKeys } from '@/hooks/use-reports'
 
 const Stats = () => {
@@ -27,6 +28,7 @@ const Stats = () => {
   // Use TanStack Query hooks
   const { data: stats, isLoading, isRefetching, refetch } = useStats()
   const { data: reports = [] } = useAllReports()
+  useRealtimeReports()
 
   // Filter reports for heatmap (needs help_categories, urgency_level, and people counts)
   const heatmapReports = reports.filter(
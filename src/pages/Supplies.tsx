@@ -0,0 +1,272 @@
+import { Loader2, Package, Pencil } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+
+import {
+  SupplyFulfilmentDialog,
+  SupplyStatusBadge,
+} from '@/components/SupplyFulfilment'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  REPORT_EDITOR_ROLES,
+  SUPPLY_CATEGORIES,
+} from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useOpenSupplies, useSupplyDemand } from '@/hooks/use-supplies'
+import { formatCaseId, getCategoryLabel } from '@/lib/reportUtils'
+import type { SupplyDemand, SupplyItem } from '@/types/supply'
+
+const UNKNOWN_AREA = 'ไม่ระบุ'
+
+// Quantities in different units can't be added up, so list them per unit
+const formatQuantities = (
+  rows: SupplyDemand[],
+  pick: (row: SupplyDemand) => number,
+) => {
+  const byUnit = new Map<string, number>()
+  rows.forEach((row) => {
+    const quantity = pick(row)
+    if (quantity > 0) {
+      byUnit.set(row.unit, (byUnit.get(row.unit) || 0) + quantity)
+    }
+  })
+  return Array.from(byUnit, ([unit, quantity]) => `${quantity} ${unit}`).join(
+    ', ',
+  )
+}
+
+const outstanding = (row: SupplyDemand) =>
+  Number(row.requested_quantity) + Number(row.in_progress_quantity)
+
+const Supplies = () => {
+  const { hasRole } = useAuth()
+  const canEdit = hasRole(REPORT_EDITOR_ROLES)
+
+  const [categoryFilter, setCategoryFilter] = useState<string>()
+  const [editingItem, setEditingItem] = useState<SupplyItem | null>(null)
+
+  const { data: demand = [], isLoading: demandLoading } = useSupplyDemand()
+  const { data: openItems = [], isLoading: openLoading } = useOpenSupplies()
+
+  const categorySummaries = useMemo(
+    () =>
+      SUPPLY_CATEGORIES.map((category) => {
+        const rows = demand.filter((row) => row.category === category.id)
+        return {
+          ...category,
+          openItems: rows.reduce((sum, row) => sum + Number(row.open_items), 0),
+          outstanding: formatQuantities(rows, outstanding),
+        }
+      }),
+    [demand],
+  )
+
+  // Areas with the most outstanding demand first
+  const areaRows = useMemo(
+    () =>
+      demand
+        .filter((row) => !categoryFilter || row.category === categoryFilter)
+        .filter((row) => outstanding(row) > 0)
+        .sort((a, b) => outstanding(b) - outstanding(a)),
+    [demand, categoryFilter],
+  )
+
+  const filteredOpenItems = useMemo(
+    () =>
+      openItems.filter(
+        (item) => !categoryFilter || item.category === categoryFilter,
+      ),
+    [openItems, categoryFilter],
+  )
+
+  const totalOpen = categorySummaries.reduce(
+    (sum, category) => sum + category.openItems,
+    0,
+  )
+
+  return (
+    <div className="container mx-auto max-w-6xl p-4 md:p-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">สิ่งของที่ต้องการ</h1>
+        <p className="text-muted-foreground mt-1">
+          ความต้องการสิ่งของจากทุกเคส ยังไม่ได้รับ {totalOpen} รายการ
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        {categorySummaries.map((category) => (
+          <button
+            key={category.id}
+            type="button"
+            onClick={() =>
+              setCategoryFilter(
+                categoryFilter === category.id ? undefined : category.id,
+              )
+            }
+            className="text-left"
+          >
+            <Card
+              className={`h-full transition-colors hover:border-primary ${
+                categoryFilter === category.id ? 'border-primary' : ''
+              }`}
+            >
+              <CardContent className="p-4 space-y-1">
+                <div className="text-2xl">{category.icon}</div>
+                <div className="font-medium">{category.label}</div>
+                <div className="text-sm text-muted-foreground">
+                  {category.openItems} รายการ
+                </div>
+                {category.outstanding && (
+                  <div className="text-xs text-muted-foreground">
+                    {category.outstanding}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </button>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center gap-2">
+            ความต้องการตามพื้นที่
+            {categoryFilter && (
+              <Badge variant="secondary">
+                {getCategoryLabel(categoryFilter)}
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {demandLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : areaRows.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">
+              ไม่มีสิ่งของที่รอจัดหา
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>จังหวัด</TableHead>
+                  <TableHead>อำเภอ/เขต</TableHead>
+                  <TableHead>หมวด</TableHead>
+                  <TableHead className="text-right">รอผู้บริจาค</TableHead>
+                  <TableHead className="text-right">กำลังดำเนินการ</TableHead>
+                  <TableHead className="text-right">ส่งถึงแล้ว</TableHead>
+                  <TableHead className="text-right">เคส</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {areaRows.map((row) => (
+                  <TableRow
+                    key={`${row.province}-${row.district}-${row.category}-${row.unit}`}
+                  >
+                    <TableCell>{row.province || UNKNOWN_AREA}</TableCell>
+                    <TableCell>{row.district || UNKNOWN_AREA}</TableCell>
+                    <TableCell>{getCategoryLabel(row.category)}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {Number(row.requested_quantity)} {row.unit}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Number(row.in_progress_quantity)} {row.unit}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {Number(row.delivered_quantity)} {row.unit}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.report_count}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            รายการที่ยังไม่ส่งถึง
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {openLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : filteredOpenItems.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">
+              ไม่มีรายการค้างส่ง
+            </p>
+          ) : (
+            <div className="divide-y">
+              {filteredOpenItems.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex flex-wrap items-center justify-between gap-2 py-2"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium">
+                      {item.item}{' '}
+                      <span className="text-muted-foreground">
+                        {item.quantity} {item.unit}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      <Link
+                        to={`/report/${item.report_id}`}
+                        className="text-primary hover:underline"
+                      >
+                        เคส {formatCaseId(item.report_id)}
+                      </Link>
+                      {' · '}
+                      {getCategoryLabel(item.category)}
+                      {item.fulfilled_by && ` · จัดหาโดย ${item.fulfilled_by}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <SupplyStatusBadge status={item.status} />
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setEditingItem(item)}
+                        aria-label="อัปเดตการจัดหา"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SupplyFulfilmentDialog
+        item={editingItem}
+        onOpenChange={(open) => !open && setEditingItem(null)}
+      />
+    </div>
+  )
+}
+
+export default Supplies
@@ -0,0 +1,239 @@
+import { formatDistanceToNow } from 'date-fns'
+import { th } from 'date-fns/locale'
+import { Loader2, LogIn, Phone, Search, Users } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+import { VolunteerProfileCard } from '@/components/VolunteerProfileCard'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { COORDINATOR_ROLES, VOLUNTEER_SKILLS } from '@/constants/helpCategories'
+import { useAuth } from '@/contexts/AuthContext'
+import { useRescueTeams } from '@/hooks/use-teams'
+import { useVolunteers } from '@/hooks/use-volunteers'
+import { getSkillLabel } from '@/lib/reportUtils'
+
+const ALL_SKILLS = 'all'
+
+const Volunteers = () => {
+  const navigate = useNavigate()
+  const { user, hasRole, loading } = useAuth()
+  const isCoordinator = hasRole(COORDINATOR_ROLES)
+
+  const [searchTerm, setSearchTerm] = useState('')
+  const [skillFilter, setSkillFilter] = useState(ALL_SKILLS)
+  const [onDutyOnly, setOnDutyOnly] = useState(false)
+
+  const { data: volunteers = [], isLoading } = useVolunteers(isCoordinator)
+  const { data: teams = [] } = useRescueTeams()
+
+  const filteredVolunteers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    return volunteers.filter(
+      (volunteer) =>
+        (!onDutyOnly || volunteer.is_on_duty) &&
+        (skillFilter === ALL_SKILLS ||
+          volunteer.skills.includes(skillFilter)) &&
+        (!term ||
+          volunteer.full_name?.toLowerCase().includes(term) ||
+          volunteer.home_base?.toLowerCase().includes(term) ||
+          volunteer.equipment?.toLowerCase().includes(term)),
+    )
+  }, [volunteers, searchTerm, skillFilter, onDutyOnly])
+
+  const onDutyCount = volunteers.filter((v) => v.is_on_duty).length
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="container mx-auto max-w-3xl p-4 md:p-8">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Users className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">อาสาสมัคร</h3>
+            <p className="text-muted-foreground mb-4">
+              เข้าสู่ระบบเพื่อลงทะเบียนเป็นอาสาสมัคร
+            </p>
+            <Button onClick={() => navigate('/auth')}>
+              <LogIn className="mr-2 h-4 w-4" />
+              เข้าสู่ระบบ
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto max-w-6xl p-4 md:p-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">อาสาสมัคร</h1>
+        <p className="text-muted-foreground mt-1">
+          {isCoordinator
+            ? `อาสาสมัครที่ลงทะเบียน ${volunteers.length} คน ปฏิบัติหน้าที่อยู่ ${onDutyCount} คน`
+            : 'บอกความสามารถและอุปกรณ์ของคุณ เพื่อให้ผู้ประสานงานส่งไปช่วยเคสที่ใกล้ที่สุด'}
+        </p>
+      </div>
+
+      <VolunteerProfileCard />
+
+      {isCoordinator && (
+        <>
+          <div className="flex flex-col gap-3 md:flex-row md:items-center">
+            <div className="relative max-w-sm flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="ค้นหาชื่อ จุดประจำการ หรืออุปกรณ์"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={skillFilter} onValueChange={setSkillFilter}>
+              <SelectTrigger className="w-full md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SKILLS}>ทุกความสามารถ</SelectItem>
+                {VOLUNTEER_SKILLS.map((skill) => (
+                  <SelectItem key={skill.id} value={skill.id}>
+                    {skill.icon} {skill.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="on-duty-only"
+                checked={onDutyOnly}
+                onCheckedChange={setOnDutyOnly}
+              />
+              <Label htmlFor="on-duty-only">เฉพาะผู้ปฏิบัติหน้าที่</Label>
+            </div>
+          </div>
+
+          <Card>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <div className="flex items-center justify-center p-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : filteredVolunteers.length === 0 ? (
+                <p className="py-12 text-center text-muted-foreground">
+                  ไม่พบอาสาสมัคร
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>ชื่อ</TableHead>
+                      <TableHead>ความสามารถ</TableHead>
+                      <TableHead>อุปกรณ์</TableHead>
+                      <TableHead>จุดประจำการ</TableHead>
+                      <TableHead>สถานะ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredVolunteers.map((volunteer) => {
+                      const team = teams.find(
+                        (t) => t.id === volunteer.rescue_team_id,
+                      )
+
+                      return (
+                        <TableRow key={volunteer.id}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {volunteer.full_name ||
+                                volunteer.email ||
+                                'ไม่ระบุชื่อ'}
+                            </div>
+                            {team && (
+                              <div className="text-xs text-muted-foreground">
+                                {team.name}
+                              </div>
+                            )}
+                            {volunteer.phone && (
+                              <a
+                                href={`tel:${volunteer.phone}`}
+                                className="flex items-center gap-1 text-xs text-primary hover:underline"
+                              >
+                                <Phone className="h-3 w-3" />
+                                {volunteer.phone}
+                              </a>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {volunteer.skills.map((skill) => (
+                                <Badge key={skill} variant="outline">
+                                  {getSkillLabel(skill)}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="max-w-xs text-sm">
+                            {volunteer.equipment || '-'}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {volunteer.home_base || '-'}
+                          </TableCell>
+                          <TableCell>
+                            {volunteer.is_on_duty ? (
+                              <div className="space-y-1">
+                                <Badge className="bg-green-600 hover:bg-green-600">
+                                  ปฏิบัติหน้าที่
+                                </Badge>
+                                {volunteer.on_duty_since && (
+                                  <div className="text-xs text-muted-foreground">
+                                    {formatDistanceToNow(
+                                      new Date(volunteer.on_duty_since),
+                                      { addSuffix: true, locale: th },
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            ) : (
+                              <Badge variant="secondary">ไม่อยู่</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default Volunteers
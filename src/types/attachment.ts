@@ -0,0 +1,15 @@
+export type AttachmentSource = 'ocr' | 'line' | 'upload' | 'field_update'
+
+export interface ReportAttachment {
+  id: string
+  report_id: string | null
+  storage_path: string
+  mime_type: string
+  size_bytes: number | null
+  source: AttachmentSource
+  // From the original photo's EXIF; the stored file has it stripped
+  gps_lat: number | null
+  gps_long: number | null
+  uploaded_by: string | null
+  created_at: string
+}
@@ -1,3 +1,8 @@
+import type { DuplicateMatchReason } from '@/constants/helpCategories'
+import type { Database } from '@/integrations/supabase/types'
+
+export type ReportStatus = Database['public']['Enums']['report_status']
+
 export interface Report {
   id: string
   name: string
@@ -15,7 +20,8 @@ export interface Report {
   help_categories: string[]
   additional_info: string
   urgency_level: number
-  status: string
+  status: ReportStatus
+  status_reason: string | null
   created_at: string
   updated_at: string
   raw_message: string
@@ -24,4 +30,85 @@ export interface Report {
   map_link: string | null
   line_user_id: string | null
   line_display_name: string | null
+  assigned_team_id: string | null
+  assigned_at: string | null
+  duplicate_of: string | null
+  shelter_id: string | null
 }
+
+export interface ReportFieldChange {
+  old: unknown
+  new: unknown
+}
+
+export interface ReportEvent {
+  id: string
+  report_id: string
+  event_type: 'created' | 'updated' | 'field_update'
+  changes: Record<string, ReportFieldChange>
+  actor_user_id: string | null
+  actor_api_key_id: string | null
+  actor_line_user_id: string | null
+  actor_name: string | null
+  // Set on field updates recorded at the scene
+  note: string | null
+  people_rescued: number | null
+  photo_path: string | null
+  device_lat: number | null
+  device_long: number | null
+  created_at: string
+}
+
+export interface ReportSource {
+  id: string
+  report_id: string
+  source_report_id: string | null
+  raw_message: string
+  line_user_id: string | null
+  line_display_name: string | null
+  merged_by: string | null
+  created_at: string
+}
+
+// A possible duplicate returned by the check-duplicates function. Callers who
+// cannot see contact details only get the id and match reasons.
+export interface DuplicateReport {
+  id: string
+  match_reasons: DuplicateMatchReason[]
+  raw_message?: string
+  name?: string
+  address?: string
+  phone?: string[]
+  // Embedding similarity (null when matched on phone or name + address only)
+  similarity?: number | null
+  // Combined ranking score
+  score?: number
+  matched_phones?: string[]
+}
+
+export type DuplicateGroupStatus = 'pending' | 'confirmed' | 'dismissed'
+
+export interface DuplicateGroup {
+  id: string
+  signature: string
+  status: DuplicateGroupStatus
+  max_similarity: number | null
+  shared_phones: string[]
+  canonical_report_id: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  created_at: string
+  updated_at: string
+  reports: Report[]
+}
+
+// How sure extract-report is about one field, and where it came from
+export interface FieldEvidence {
+  // 0-1; 1 means the value is stated word for word
+  confidence: number
+  // [start, end) character offsets into raw_message
+  spans: [number, number][]
+}
+
+// Keyed by report field name, e.g. "phone" or "number_of_seniors"
+export type FieldEvidenceMap = Record<string, FieldEvidence>
@@ -0,0 +1,30 @@
+export interface Shelter {
+  id: string
+  name: string
+  address: string | null
+  location_lat: number | null
+  location_long: number | null
+  capacity: number
+  current_occupancy: number
+  supplies_on_hand: string | null
+  contact_name: string | null
+  contact_phone: string | null
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type ShelterInput = Pick<
+  Shelter,
+  | 'name'
+  | 'address'
+  | 'location_lat'
+  | 'location_long'
+  | 'capacity'
+  | 'current_occupancy'
+  | 'supplies_on_hand'
+  | 'contact_name'
+  | 'contact_phone'
+  | 'is_active'
+>
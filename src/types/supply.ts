@@ -0,0 +1,28 @@
+import type { Database } from '@/integrations/supabase/types'
+
+export type SupplyStatus = Database['public']['Enums']['supply_status']
+
+export interface SupplyItem {
+  id: string
+  report_id: string
+  category: string
+  item: string
+  quantity: number
+  unit: string
+  status: SupplyStatus
+  fulfilled_by: string | null
+  fulfilment_note: string | null
+  status_changed_at: string | null
+  status_changed_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// A line item before it is saved against a report
+export type SupplyItemDraft = Pick<
+  SupplyItem,
+  'category' | 'item' | 'quantity' | 'unit'
+>
+
+export type SupplyDemand =
+  Database['public']['Functions']['get_supply_demand']['Returns'][number]
@@ -0,0 +1,8 @@
+export interface RescueTeam {
+  id: string
+  name: string
+  contact_phone: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
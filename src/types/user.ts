@@ -0,0 +1,11 @@
+import type { Database } from '@/integrations/supabase/types'
+
+export type AppRole = Database['public']['Enums']['app_role']
+
+export interface UserWithRoles {
+  id: string
+  email: string | null
+  full_name: string | null
+  created_at: string | null
+  roles: AppRole[]
+}
@@ -0,0 +1,34 @@
+import type { Database } from '@/integrations/supabase/types'
+
+export interface VolunteerProfile {
+  id: string
+  email: string | null
+  full_name: string | null
+  phone: string | null
+  is_volunteer: boolean
+  skills: string[]
+  equipment: string | null
+  home_base: string | null
+  home_lat: number | null
+  home_long: number | null
+  is_on_duty: boolean
+  on_duty_since: string | null
+  rescue_team_id: string | null
+}
+
+// Fields a volunteer edits on their own profile
+export type VolunteerProfileInput = Pick<
+  VolunteerProfile,
+  | 'full_name'
+  | 'phone'
+  | 'is_volunteer'
+  | 'skills'
+  | 'equipment'
+  | 'home_base'
+  | 'home_lat'
+  | 'home_long'
+  | 'is_on_duty'
+>
+
+export type VolunteerSuggestion =
+  Database['public']['Functions']['suggest_volunteers']['Returns'][number]
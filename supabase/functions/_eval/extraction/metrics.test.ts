@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+
+import { scoreCase, scoreField, summarize, toMetrics } from './metrics.ts'
+
+describe('scoreField', () => {
+  it('compares phones by digits and text by words', () => {
+    expect(scoreField('phone', ['081-234-5678'], ['+66 81 234 5678'])).toEqual({
+      tp: 1,
+      fp: 0,
+      fn: 0,
+    })
+    expect(scoreField('phone', ['๐๘๑๒๓๔๕๖๗๘'], ['0812345678'])).toEqual({
+      tp: 1,
+      fp: 0,
+      fn: 0,
+    })
+    expect(
+      scoreField('address', 'หมู่ 3  ต.บางพลี ', 'หมู่ 3 ต.บางพลี'),
+    ).toEqual({ tp: 1, fp: 0, fn: 0 })
+  })
+
+  it('scores arrays per item', () => {
+    expect(
+      scoreField('help_categories', ['water', 'food'], ['water', 'medical']),
+    ).toEqual({ tp: 1, fp: 1, fn: 1 })
+  })
+
+  it('counts a wrong scalar as both extra and missed', () => {
+    expect(scoreField('urgency_level', 4, 3)).toEqual({ tp: 0, fp: 1, fn: 1 })
+    expect(scoreField('number_of_adults', 0, 2)).toEqual({
+      tp: 0,
+      fp: 1,
+      fn: 0,
+    })
+    expect(scoreField('name', 'สมชาย', null)).toEqual({ tp: 0, fp: 0, fn: 1 })
+    expect(scoreField('name', '', undefined)).toEqual({ tp: 0, fp: 0, fn: 0 })
+  })
+})
+
+describe('scoreCase', () => {
+  const evalCase = {
+    id: 'two-households',
+    note: '',
+    message: '',
+    expected: [
+      { phone: ['0811111111'], number_of_adults: 2 },
+      { phone: ['0822222222'], number_of_adults: 1 },
+    ],
+  }
+
+  it('pairs reports by shared phone, whatever order they come in', () => {
+    const result = scoreCase(evalCase, [
+      { phone: ['082-222-2222'], number_of_adults: 1 },
+      { phone: ['081-111-1111'], number_of_adults: 2 },
+    ])
+
+    expect(result.counts.phone).toEqual({ tp: 2, fp: 0, fn: 0 })
+    expect(result.counts.number_of_adults).toEqual({ tp: 2, fp: 0, fn: 0 })
+    expect(result.mismatches).toEqual([])
+  })
+
+  it('scores missing reports as missed and extra ones as false positives', () => {
+    const result = scoreCase(evalCase, [
+      { phone: ['0811111111'], number_of_adults: 2 },
+    ])
+    expect(result.counts.phone).toEqual({ tp: 1, fp: 0, fn: 1 })
+    expect(result.mismatches).toContainEqual({
+      report: 1,
+      field: 'number_of_adults',
+      expected: 1,
+      actual: undefined,
+    })
+
+    const extra = scoreCase({ ...evalCase, expected: [evalCase.expected[0]] }, [
+      { phone: ['0811111111'], number_of_adults: 2 },
+      { phone: ['0899999999'], number_of_adults: 4 },
+    ])
+    expect(extra.counts.phone).toEqual({ tp: 1, fp: 1, fn: 0 })
+    expect(extra.mismatches.map((m) => m.report)).toEqual([null, null])
+  })
+
+  it('counts every checked field as missed when extraction failed', () => {
+    const result = scoreCase(evalCase, [], 'no recorded response')
+    expect(result.error).toBe('no recorded response')
+    expect(result.counts.phone).toEqual({ tp: 0, fp: 0, fn: 2 })
+  })
+})
+
+describe('summarize', () => {
+  it('totals fields over cases and micro-averages them', () => {
+    const metrics = summarize([
+      { id: 'a', counts: { name: { tp: 1, fp: 0, fn: 1 } }, mismatches: [] },
+      {
+        id: 'b',
+        counts: {
+          name: { tp: 1, fp: 0, fn: 0 },
+          phone: { tp: 0, fp: 1, fn: 0 },
+        },
+        mismatches: [],
+      },
+    ])
+
+    expect(Object.keys(metrics)).toEqual(['name', 'phone', 'all'])
+    expect(metrics.name.recall).toBeCloseTo(2 / 3)
+    expect(metrics.all).toMatchObject({ tp: 2, fp: 1, fn: 1 })
+    expect(metrics.all.f1).toBeCloseTo(2 / 3)
+  })
+
+  it('treats a field with nothing to find as perfect', () => {
+    expect(toMetrics({ tp: 0, fp: 0, fn: 0 })).toMatchObject({
+      precision: 1,
+      recall: 1,
+      f1: 1,
+    })
+    expect(toMetrics({ tp: 0, fp: 1, fn: 1 }).f1).toBe(0)
+  })
+})
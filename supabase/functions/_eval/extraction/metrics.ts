@@ -0,0 +1,208 @@
+// Scoring for the extraction eval. Each expected report lists only the fields
+// the case checks; a field missing from it is not scored for that report.
+
+export type ExpectedReport = Record<string, unknown>
+
+export interface EvalCase {
+  id: string
+  // What the case is there to catch
+  note: string
+  message: string
+  expected: ExpectedReport[]
+}
+
+export interface FieldCounts {
+  tp: number
+  fp: number
+  fn: number
+}
+
+export interface FieldMetrics extends FieldCounts {
+  precision: number
+  recall: number
+  f1: number
+}
+
+export interface Mismatch {
+  // Index into the case's expected reports; null for an extra report
+  report: number | null
+  field: string
+  expected: unknown
+  actual: unknown
+}
+
+export interface CaseResult {
+  id: string
+  counts: Record<string, FieldCounts>
+  mismatches: Mismatch[]
+  // Extraction failed (e.g. no recorded response); every field counts as missed
+  error?: string
+}
+
+const THAI_DIGITS = '๐๑๒๓๔๕๖๗๘๙'
+
+// Phones compare by digits ("+66 81..." = "081-..."); text ignores spacing
+const normalizeItem = (field: string, value: unknown) => {
+  const text = String(value).replace(/[๐-๙]/g, (d) =>
+    String(THAI_DIGITS.indexOf(d)),
+  )
+  if (field === 'phone') {
+    const digits = text.replace(/\D/g, '')
+    return digits.startsWith('66') ? `0${digits.slice(2)}` : digits
+  }
+  return text.trim().replace(/\s+/g, ' ')
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  value === 0 ||
+  (Array.isArray(value) && value.length === 0)
+
+const toItems = (field: string, value: unknown) =>
+  new Set(
+    (Array.isArray(value) ? value : [])
+      .map((item) => normalizeItem(field, item))
+      .filter(Boolean),
+  )
+
+// Arrays score per item. Scalars score as one slot: a wrong value is both a
+// false positive and a false negative, an extra value only a false positive.
+export const scoreField = (
+  field: string,
+  expected: unknown,
+  actual: unknown,
+): FieldCounts => {
+  if (Array.isArray(expected) || Array.isArray(actual)) {
+    const want = toItems(field, expected)
+    const got = toItems(field, actual)
+    const tp = [...got].filter((item) => want.has(item)).length
+    return { tp, fp: got.size - tp, fn: want.size - tp }
+  }
+
+  const hasExpected = !isEmpty(expected)
+  const hasActual = !isEmpty(actual)
+  if (!hasExpected && !hasActual) return { tp: 0, fp: 0, fn: 0 }
+  if (!hasExpected) return { tp: 0, fp: 1, fn: 0 }
+  if (!hasActual) return { tp: 0, fp: 0, fn: 1 }
+  return normalizeItem(field, expected) === normalizeItem(field, actual)
+    ? { tp: 1, fp: 0, fn: 0 }
+    : { tp: 0, fp: 1, fn: 1 }
+}
+
+const addCounts = (total: FieldCounts, counts: FieldCounts) => {
+  total.tp += counts.tp
+  total.fp += counts.fp
+  total.fn += counts.fn
+}
+
+// Pair each expected report with the unused extracted report sharing the
+// most phone numbers, falling back to extraction order
+const matchReports = (
+  expected: ExpectedReport[],
+  actual: Record<string, unknown>[],
+) => {
+  const unused = actual.map((_, index) => index)
+
+  const pairs = expected.map((report) => {
+    const phones = toItems('phone', report.phone)
+    let best: number | null = null
+    let bestShared = -1
+    for (const index of unused) {
+      const shared = [...toItems('phone', actual[index].phone)].filter(
+        (phone) => phones.has(phone),
+      ).length
+      if (shared > bestShared) {
+        best = index
+        bestShared = shared
+      }
+    }
+    if (best !== null) unused.splice(unused.indexOf(best), 1)
+    return best
+  })
+
+  return { pairs, extra: unused }
+}
+
+export const scoreCase = (
+  evalCase: EvalCase,
+  actual: Record<string, unknown>[],
+  error?: string,
+): CaseResult => {
+  const counts: Record<string, FieldCounts> = {}
+  const mismatches: Mismatch[] = []
+
+  const score = (
+    report: number | null,
+    field: string,
+    expected: unknown,
+    value: unknown,
+  ) => {
+    const fieldCounts = scoreField(field, expected, value)
+    addCounts((counts[field] ??= { tp: 0, fp: 0, fn: 0 }), fieldCounts)
+    if (fieldCounts.fp > 0 || fieldCounts.fn > 0) {
+      mismatches.push({ report, field, expected, actual: value })
+    }
+  }
+
+  const { pairs, extra } = matchReports(evalCase.expected, actual)
+  evalCase.expected.forEach((expected, index) => {
+    const match = pairs[index]
+    for (const [field, value] of Object.entries(expected)) {
+      score(
+        index,
+        field,
+        value,
+        match === null ? undefined : actual[match][field],
+      )
+    }
+  })
+
+  // Reports nobody asked for: every checked field they fill is a false positive
+  const checkedFields = [
+    ...new Set(evalCase.expected.flatMap((report) => Object.keys(report))),
+  ]
+  for (const index of extra) {
+    for (const field of checkedFields) {
+      score(null, field, undefined, actual[index][field])
+    }
+  }
+
+  return { id: evalCase.id, counts, mismatches, error }
+}
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 1 : part / whole)
+
+export const toMetrics = (counts: FieldCounts): FieldMetrics => {
+  const precision = ratio(counts.tp, counts.tp + counts.fp)
+  const recall = ratio(counts.tp, counts.tp + counts.fn)
+  return {
+    ...counts,
+    precision,
+    recall,
+    f1:
+      precision + recall === 0
+        ? 0
+        : (2 * precision * recall) / (precision + recall),
+  }
+}
+
+// Per-field metrics over all cases, plus "all" micro-averaged over fields
+export const summarize = (results: CaseResult[]) => {
+  const totals: Record<string, FieldCounts> = {}
+  const all: FieldCounts = { tp: 0, fp: 0, fn: 0 }
+  for (const result of results) {
+    for (const [field, counts] of Object.entries(result.counts)) {
+      addCounts((totals[field] ??= { tp: 0, fp: 0, fn: 0 }), counts)
+      addCounts(all, counts)
+    }
+  }
+
+  const metrics: Record<string, FieldMetrics> = {}
+  for (const field of Object.keys(totals).sort()) {
+    metrics[field] = toMetrics(totals[field])
+  }
+  metrics.all = toMetrics(all)
+  return metrics
+}
@@ -0,0 +1,252 @@
+// Extraction eval: runs corpus.json through extract-report's extractor and
+// prints per-field precision and recall, so prompt and schema changes show
+// exactly what got better or worse.
+//
+//   deno run --allow-read --allow-write --allow-env --allow-net \
+//     supabase/functions/_eval/extraction/run.ts [options]
+//
+//   --provider recorded  replay recordings.json (default; offline). Cases
+//                        without a recording score as failed, and ones
+//                        recorded for an older prompt or schema are flagged
+//              record    call the configured LLM (LLM_PROVIDER and friends)
+//                        for cases without an up-to-date recording from it
+//                        and save its answers
+//              live      call the configured LLM, nothing saved
+//              mock      the mock provider, which answers with the rules;
+//                        checks the LLM path end to end offline
+//              rules     the rule-based fallback extractor
+//   --case <id>          run only this case
+//   --verbose            list every mismatching field
+//   --save <file>        save the run as a baseline
+//   --baseline <file>    compare with a saved run; exits 1 if a field's F1 or
+//                        a case's mismatch count got worse
+
+import { parse } from 'https://deno.land/std@0.168.0/flags/mod.ts'
+
+import {
+  createMockProvider,
+  createRecordedProvider,
+  getLlmProvider,
+  LlmError,
+  type LlmProvider,
+  type Recordings,
+} from '../../_shared/llm/index.ts'
+import { extractReports } from '../../_shared/report-extraction.ts'
+import { extractWithRules } from '../../_shared/rule-extractor.ts'
+import {
+  type CaseResult,
+  type EvalCase,
+  type FieldMetrics,
+  scoreCase,
+  summarize,
+} from './metrics.ts'
+
+interface Baseline {
+  provider: string
+  metrics: Record<string, FieldMetrics>
+  // Mismatching fields per case
+  cases: Record<string, number>
+}
+
+const PROVIDERS = ['recorded', 'record', 'live', 'mock', 'rules']
+const RECORDINGS_URL = new URL('./recordings.json', import.meta.url)
+// F1 changes smaller than this are rounding noise
+const F1_TOLERANCE = 0.001
+
+const args = parse(Deno.args, {
+  string: ['provider', 'case', 'save', 'baseline'],
+  boolean: ['verbose'],
+  default: { provider: 'recorded' },
+})
+
+if (!PROVIDERS.includes(args.provider)) {
+  console.error(`--provider must be one of ${PROVIDERS.join(', ')}`)
+  Deno.exit(2)
+}
+
+const readJson = async <T>(path: string | URL, fallback?: T): Promise<T> => {
+  try {
+    return JSON.parse(await Deno.readTextFile(path))
+  } catch (error) {
+    if (fallback !== undefined && error instanceof Deno.errors.NotFound) {
+      return fallback
+    }
+    throw error
+  }
+}
+
+const corpus = (
+  await readJson<EvalCase[]>(new URL('./corpus.json', import.meta.url))
+).filter((evalCase) => !args.case || evalCase.id === args.case)
+
+if (corpus.length === 0) {
+  console.error(`No case with id ${args.case}`)
+  Deno.exit(2)
+}
+
+const recordings = await readJson<Recordings>(RECORDINGS_URL, {})
+
+const RECORD_HINT =
+  'Record them with the configured LLM (LLM_PROVIDER and its API key):\n' +
+  '  deno run -A supabase/functions/_eval/extraction/run.ts --provider record'
+
+// Whether the current case replayed a recording made for another prompt
+let replayedStale = false
+
+const createProvider = (): LlmProvider | null => {
+  switch (args.provider) {
+    case 'recorded':
+      return createRecordedProvider(recordings, undefined, () => {
+        replayedStale = true
+      })
+    case 'record':
+      return createRecordedProvider(recordings, getLlmProvider())
+    case 'live':
+      return getLlmProvider()
+    case 'mock':
+      return createMockProvider()
+    default:
+      return null
+  }
+}
+
+const llm = createProvider()
+
+const extract = async (message: string): Promise<Record<string, unknown>[]> =>
+  llm ? await extractReports(llm, message) : [{ ...extractWithRules(message) }]
+
+// One case at a time; live providers rate-limit bursts
+const results: CaseResult[] = []
+const unrecorded: string[] = []
+const stale: string[] = []
+for (const evalCase of corpus) {
+  replayedStale = false
+  try {
+    results.push(scoreCase(evalCase, await extract(evalCase.message)))
+  } catch (error) {
+    if (error instanceof LlmError && error.status === 404) {
+      unrecorded.push(evalCase.id)
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    results.push(scoreCase(evalCase, [], message))
+  }
+  if (replayedStale) stale.push(evalCase.id)
+}
+
+if (args.provider === 'record') {
+  await Deno.writeTextFile(
+    RECORDINGS_URL,
+    `${JSON.stringify(recordings, null, 2)}\n`,
+  )
+}
+
+const metrics = summarize(results)
+const baseline = args.baseline
+  ? await readJson<Baseline>(args.baseline)
+  : undefined
+// Field totals from a single case can't be compared with a full run
+const fieldBaseline = args.case ? undefined : baseline
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7)
+
+// Replayed answers are only as good as the provider that gave them
+const recordedBy = [
+  ...new Set(Object.values(recordings).map((recording) => recording.provider)),
+].join(', ')
+const source =
+  args.provider === 'recorded' && recordedBy
+    ? `recorded from ${recordedBy}`
+    : args.provider
+
+console.log(`\nExtraction eval: ${results.length} cases, ${source}\n`)
+console.log(
+  `${'field'.padEnd(20)}    TP    FP    FN  precision  recall      F1${fieldBaseline ? '    ΔF1' : ''}`,
+)
+for (const [field, m] of Object.entries(metrics)) {
+  const before = fieldBaseline?.metrics[field]
+  const delta = before ? m.f1 - before.f1 : 0
+  console.log(
+    [
+      field.padEnd(20),
+      String(m.tp).padStart(5),
+      String(m.fp).padStart(5),
+      String(m.fn).padStart(5),
+      `    ${percent(m.precision)}`,
+      percent(m.recall),
+      percent(m.f1),
+      before && Math.abs(delta) >= F1_TOLERANCE
+        ? `${delta > 0 ? '+' : ''}${(delta * 100).toFixed(1)}`.padStart(7)
+        : '',
+    ].join(' '),
+  )
+}
+
+const failed = results.filter((result) => result.error)
+if (failed.length > 0) {
+  console.log(`\n${failed.length} cases failed to extract:`)
+  for (const result of failed) console.log(`  ${result.id}: ${result.error}`)
+}
+
+if (unrecorded.length > 0 || stale.length > 0) {
+  if (unrecorded.length > 0) {
+    console.log(`\nNo recording for: ${unrecorded.join(', ')}`)
+  }
+  if (stale.length > 0) {
+    console.log(
+      `\nRecorded for an older prompt or schema, scores are from then: ${stale.join(', ')}`,
+    )
+  }
+  console.log(RECORD_HINT)
+}
+
+console.log('')
+for (const result of results) {
+  if (result.mismatches.length === 0) continue
+  const before = baseline?.cases[result.id]
+  const change = before === undefined ? '' : ` (baseline ${before})`
+  console.log(
+    `✗ ${result.id}: ${result.mismatches.length} fields wrong${change}`,
+  )
+  if (!args.verbose) continue
+  for (const mismatch of result.mismatches) {
+    const report =
+      mismatch.report === null ? 'extra' : `#${mismatch.report + 1}`
+    console.log(
+      `    ${report} ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, got ${JSON.stringify(mismatch.actual)}`,
+    )
+  }
+}
+
+if (args.save) {
+  const saved: Baseline = {
+    provider: args.provider,
+    metrics,
+    cases: Object.fromEntries(
+      results.map((result) => [result.id, result.mismatches.length]),
+    ),
+  }
+  await Deno.writeTextFile(args.save, `${JSON.stringify(saved, null, 2)}\n`)
+  console.log(`\nSaved baseline to ${args.save}`)
+}
+
+if (baseline) {
+  const worseFields = Object.entries(metrics).filter(
+    ([field, m]) =>
+      fieldBaseline?.metrics[field] &&
+      fieldBaseline.metrics[field].f1 - m.f1 >= F1_TOLERANCE,
+  )
+  const worseCases = results.filter(
+    (result) => result.mismatches.length > (baseline.cases[result.id] ?? 0),
+  )
+
+  if (worseFields.length > 0 || worseCases.length > 0) {
+    console.log(
+      `\nRegressed: ${[
+        ...worseFields.map(([field]) => field),
+        ...worseCases.map((result) => result.id),
+      ].join(', ')}`,
+    )
+    Deno.exit(1)
+  }
+  console.log('\nNo regressions against the baseline')
+}
@@ -0,0 +1,71 @@
+// Orientation and GPS position from a TIFF-structured EXIF block, the part
+// JPEG, PNG and HEIC files share once the block has been found. Used by
+// store-attachment and, through the @shared alias, by the web app to place a
+// photo before it is uploaded. No imports, so Vite and Deno can both load it.
+
+export interface ExifInfo {
+  orientation: number | null
+  lat: number | null
+  lng: number | null
+}
+
+const ORIENTATION_TAG = 0x0112
+const GPS_IFD_TAG = 0x8825
+
+export function readExif(tiff: Uint8Array): ExifInfo {
+  const info: ExifInfo = { orientation: null, lat: null, lng: null }
+
+  try {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+    const little = view.getUint16(0) === 0x4949
+    const u16 = (offset: number) => view.getUint16(offset, little)
+    const u32 = (offset: number) => view.getUint32(offset, little)
+
+    // tag -> offset of the entry's value field
+    const readIfd = (offset: number) => {
+      const entries = new Map<number, number>()
+      const count = u16(offset)
+      for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12
+        entries.set(u16(entry), entry + 8)
+      }
+      return entries
+    }
+
+    // Degrees, minutes, seconds as three rationals
+    const readCoordinate = (valueField: number | undefined) => {
+      if (valueField === undefined) return null
+      const offset = u32(valueField)
+      const [degrees, minutes, seconds] = [0, 1, 2].map((i) => {
+        const denominator = u32(offset + i * 8 + 4)
+        return denominator ? u32(offset + i * 8) / denominator : 0
+      })
+      return degrees + minutes / 60 + seconds / 3600
+    }
+
+    const ifd0 = readIfd(u32(4))
+
+    const orientation = ifd0.get(ORIENTATION_TAG)
+    if (orientation !== undefined) info.orientation = u16(orientation)
+
+    const gpsPointer = ifd0.get(GPS_IFD_TAG)
+    if (gpsPointer !== undefined) {
+      const gps = readIfd(u32(gpsPointer))
+      const lat = readCoordinate(gps.get(2))
+      const lng = readCoordinate(gps.get(4))
+      const latRef = gps.get(1)
+      const lngRef = gps.get(3)
+
+      // 0,0 is what some cameras write when they have no fix
+      if (lat !== null && lng !== null && (lat !== 0 || lng !== 0)) {
+        info.lat = latRef !== undefined && tiff[latRef] === 0x53 ? -lat : lat
+        info.lng = lngRef !== undefined && tiff[lngRef] === 0x57 ? -lng : lng
+      }
+    }
+  } catch (error) {
+    // Truncated or malformed EXIF: keep whatever was read before it
+    console.warn('Could not read EXIF:', error)
+  }
+
+  return info
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildFieldEvidence, findSpan } from './field-evidence.ts'
+
+const MESSAGE = 'ด่วน! คุณสมชาย ใจดี โทร 0812345678 (ตอนนี้น้ำถึงชั้นสอง)'
+
+const slice = (span: [number, number] | null) =>
+  span ? MESSAGE.slice(span[0], span[1]) : null
+
+describe('findSpan', () => {
+  it('finds a quote word for word', () => {
+    expect(slice(findSpan(MESSAGE, 'สมชาย'))).toBe('สมชาย')
+  })
+
+  it('ignores spaces, dashes and brackets on both sides', () => {
+    expect(slice(findSpan(MESSAGE, '081-234-5678'))).toBe('0812345678')
+    expect(slice(findSpan(MESSAGE, 'สมชาย-ใจดี'))).toBe('สมชาย ใจดี')
+    expect(slice(findSpan(MESSAGE, 'ตอนนี้ น้ำถึงชั้นสอง)'))).toBe(
+      'ตอนนี้น้ำถึงชั้นสอง',
+    )
+  })
+
+  it('returns null for text that is not in the message', () => {
+    expect(findSpan(MESSAGE, 'สมศรี')).toBeNull()
+    expect(findSpan(MESSAGE, ' - ')).toBeNull()
+  })
+})
+
+describe('buildFieldEvidence', () => {
+  it('locates the model quotes instead of trusting its offsets', () => {
+    const evidence = buildFieldEvidence(
+      MESSAGE,
+      { name: 'สมชาย', urgency_level: 3 },
+      [
+        { field: 'name', quote: 'สมชาย', confidence: 0.95 },
+        { field: 'urgency_level', quote: 'น้ำถึงชั้นสอง', confidence: 0.8 },
+      ],
+    )
+
+    expect(evidence.name.confidence).toBe(0.95)
+    expect(evidence.name.spans.map(slice)).toEqual(['สมชาย'])
+    expect(evidence.urgency_level.spans.map(slice)).toEqual(['น้ำถึงชั้นสอง'])
+  })
+
+  it('caps the confidence of quotes that are not in the message', () => {
+    const evidence = buildFieldEvidence(MESSAGE, { address: 'หมู่ 3' }, [
+      { field: 'address', quote: 'หมู่ 3 ต.บางพลี', confidence: 0.9 },
+    ])
+
+    expect(evidence.address).toEqual({ confidence: 0.3, spans: [] })
+  })
+
+  it('keeps the weakest confidence when a field is quoted twice', () => {
+    const evidence = buildFieldEvidence(MESSAGE, { phone: ['081-234-5678'] }, [
+      { field: 'phone', quote: '0812345678', confidence: 0.9 },
+      { field: 'phone', quote: 'โทร', confidence: 0.6 },
+    ])
+
+    expect(evidence.phone.confidence).toBe(0.6)
+    expect(evidence.phone.spans.map(slice)).toEqual(['0812345678', 'โทร'])
+  })
+
+  it('drops evidence for unknown or empty fields and clamps confidence', () => {
+    const evidence = buildFieldEvidence(
+      MESSAGE,
+      { name: 'สมชาย', number_of_adults: 0 },
+      [
+        { field: 'name', quote: 'สมชาย', confidence: 7 },
+        { field: 'password', quote: 'สมชาย', confidence: 1 },
+        { field: 'number_of_adults', quote: 'สมชาย', confidence: 1 },
+        'not an entry',
+      ],
+    )
+
+    expect(Object.keys(evidence)).toEqual(['name'])
+    expect(evidence.name.confidence).toBe(1)
+  })
+
+  it('rates filled fields without evidence by whether their text is in the message', () => {
+    const evidence = buildFieldEvidence(
+      MESSAGE,
+      { lastname: 'ใจดี', help_needed: 'ต้องการเรือ', number_of_seniors: 2 },
+      undefined,
+    )
+
+    expect(evidence.lastname.confidence).toBe(0.8)
+    expect(evidence.lastname.spans.map(slice)).toEqual(['ใจดี'])
+    expect(evidence.help_needed).toEqual({ confidence: 0.5, spans: [] })
+    expect(evidence.number_of_seniors).toEqual({ confidence: 0.5, spans: [] })
+  })
+})
@@ -0,0 +1,138 @@
+// Per-field confidence and the places in raw_message each value came from, so
+// the Review page can point reviewers at the fields that need checking
+
+// Report fields that can carry evidence
+export const EVIDENCE_FIELDS = [
+  'reporter_name',
+  'last_contact_at',
+  'name',
+  'lastname',
+  'address',
+  'location_lat',
+  'location_long',
+  'map_link',
+  'phone',
+  'number_of_adults',
+  'number_of_children',
+  'number_of_infants',
+  'number_of_seniors',
+  'number_of_patients',
+  'health_condition',
+  'help_needed',
+  'help_categories',
+  'supply_items',
+  'additional_info',
+  'urgency_level',
+]
+
+export type Span = [start: number, end: number]
+
+export interface FieldEvidence {
+  // 0-1; 1 means the value is stated word for word
+  confidence: number
+  // [start, end) character offsets into raw_message
+  spans: Span[]
+}
+
+export type FieldEvidenceMap = Record<string, FieldEvidence>
+
+// A quote the model says it used but that isn't in the message
+const UNSUPPORTED_CONFIDENCE = 0.3
+// Filled fields the model gave no evidence for
+const VERBATIM_CONFIDENCE = 0.8
+const UNRATED_CONFIDENCE = 0.5
+
+const IGNORED_CHARACTERS = /[\s\-().]/
+
+// Where quote appears in text, ignoring spaces, dashes and brackets on both
+// sides, so "081-234-5678" is found in "โทร 0812345678"
+export const findSpan = (text: string, quote: string): Span | null => {
+  const exact = text.indexOf(quote)
+  if (quote && exact >= 0) return [exact, exact + quote.length]
+
+  const needle = [...quote].filter((c) => !IGNORED_CHARACTERS.test(c)).join('')
+  if (!needle) return null
+
+  // Compacted text plus the original offset of each remaining character
+  let haystack = ''
+  const offsets: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    if (IGNORED_CHARACTERS.test(text[i])) continue
+    haystack += text[i]
+    offsets.push(i)
+  }
+
+  const start = haystack.indexOf(needle)
+  if (start < 0) return null
+  return [offsets[start], offsets[start + needle.length - 1] + 1]
+}
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  value === 0 ||
+  (Array.isArray(value) && value.length === 0)
+
+interface ModelEvidence {
+  field?: unknown
+  quote?: unknown
+  confidence?: unknown
+}
+
+// Turn the model's [{field, quote, confidence}] into a map keyed by field.
+// Quotes are located in the message rather than trusting model offsets;
+// quotes that can't be found cap the confidence, and filled fields without
+// evidence get a default score.
+export const buildFieldEvidence = (
+  rawMessage: string,
+  report: Record<string, unknown>,
+  evidence: unknown,
+): FieldEvidenceMap => {
+  const map: FieldEvidenceMap = {}
+
+  const entries = (Array.isArray(evidence) ? evidence : []) as ModelEvidence[]
+
+  for (const entry of entries) {
+    if (typeof entry?.field !== 'string') continue
+    if (!EVIDENCE_FIELDS.includes(entry.field)) continue
+    if (isEmptyValue(report[entry.field])) continue
+
+    const quote = typeof entry.quote === 'string' ? entry.quote.trim() : ''
+    const span = quote ? findSpan(rawMessage, quote) : null
+    let confidence = Math.min(1, Math.max(0, Number(entry.confidence) || 0))
+    if (!span) confidence = Math.min(confidence, UNSUPPORTED_CONFIDENCE)
+
+    const existing = map[entry.field]
+    map[entry.field] = {
+      confidence: existing
+        ? Math.min(existing.confidence, confidence)
+        : confidence,
+      spans: [...(existing?.spans ?? []), ...(span ? [span] : [])],
+    }
+  }
+
+  for (const field of EVIDENCE_FIELDS) {
+    const value = report[field]
+    if (map[field] || isEmptyValue(value)) continue
+
+    const quotes = Array.isArray(value)
+      ? value.filter((v): v is string => typeof v === 'string')
+      : typeof value === 'string'
+        ? [value]
+        : []
+    const spans = quotes
+      .map((quote) => findSpan(rawMessage, quote))
+      .filter((span): span is Span => span !== null)
+
+    map[field] = {
+      confidence:
+        quotes.length > 0 && spans.length === quotes.length
+          ? VERBATIM_CONFIDENCE
+          : UNRATED_CONFIDENCE,
+      spans,
+    }
+  }
+
+  return map
+}
@@ -0,0 +1,106 @@
+import { postJson } from './http.ts'
+import {
+  type CallFunctionRequest,
+  type GenerateTextRequest,
+  LlmError,
+  type LlmProvider,
+} from './types.ts'
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta'
+
+export interface GeminiConfig {
+  apiKey: string
+  model: string
+  embeddingModel: string
+}
+
+interface GeminiPart {
+  text?: string
+  functionCall?: { name: string; args: Record<string, unknown> }
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: GeminiPart[] } }[]
+}
+
+// Google Gemini through the Generative Language API
+export const createGeminiProvider = (config: GeminiConfig): LlmProvider => {
+  const generate = (model: string, body: unknown) =>
+    postJson<GeminiResponse>(
+      'Gemini',
+      `${GEMINI_BASE_URL}/models/${model}:generateContent?key=${config.apiKey}`,
+      body,
+    )
+
+  // Instructions and prompt go as separate parts of one user turn
+  const textParts = (system: string | undefined, prompt: string) => [
+    ...(system ? [{ text: system }] : []),
+    { text: prompt },
+  ]
+
+  return {
+    name: 'gemini',
+
+    async generateText({
+      system,
+      prompt,
+      images = [],
+      temperature,
+      maxOutputTokens,
+    }: GenerateTextRequest) {
+      const data = await generate(config.model, {
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              ...images.map((image) => ({ inlineData: image })),
+              ...textParts(system, prompt),
+            ],
+          },
+        ],
+        generationConfig: { temperature, maxOutputTokens },
+      })
+
+      return data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() ?? ''
+    },
+
+    async callFunction({
+      system,
+      prompt,
+      function: declaration,
+    }: CallFunctionRequest) {
+      const data = await generate(config.model, {
+        contents: [{ role: 'user', parts: textParts(system, prompt) }],
+        tools: [{ functionDeclarations: [declaration] }],
+        toolConfig: {
+          functionCallingConfig: {
+            mode: 'ANY',
+            allowedFunctionNames: [declaration.name],
+          },
+        },
+      })
+
+      const calls = (data.candidates?.[0]?.content?.parts ?? [])
+        .map((part) => part.functionCall)
+        .filter((call) => call?.name === declaration.name)
+      if (calls.length === 0) {
+        throw new LlmError('No function call in AI response')
+      }
+
+      return calls.map((call) => call!.args ?? {})
+    },
+
+    async embed(text: string) {
+      const data = await postJson<{ embedding: { values: number[] } }>(
+        'Gemini',
+        `${GEMINI_BASE_URL}/models/${config.embeddingModel}:embedContent?key=${config.apiKey}`,
+        {
+          model: `models/${config.embeddingModel}`,
+          content: { parts: [{ text }] },
+        },
+      )
+
+      return data.embedding.values
+    },
+  }
+}
@@ -0,0 +1,40 @@
+import { LlmError } from './types.ts'
+
+// Paid tiers still hit rate limits under load; one retry after a pause gets
+// most requests through
+const RATE_LIMIT_RETRY_MS = 5000
+
+// POST JSON to a provider, retrying once on 429. Errors carry the upstream
+// status so callers can pass rate limits on to the client.
+export async function postJson<T>(
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<T> {
+  const send = () =>
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    })
+
+  let response = await send()
+  if (response.status === 429) {
+    console.log(`${provider} rate limit hit, retrying in 5 seconds...`)
+    await response.body?.cancel()
+    await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_RETRY_MS))
+    response = await send()
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`${provider} API error:`, response.status, errorText)
+    throw new LlmError(
+      `${provider} API error: ${response.status} ${errorText}`,
+      response.status,
+    )
+  }
+
+  return (await response.json()) as T
+}
@@ -0,0 +1,74 @@
+import { createGeminiProvider } from './gemini.ts'
+import { createMockProvider } from './mock.ts'
+import { createOpenAiProvider } from './openai.ts'
+import { LlmError, type LlmProvider } from './types.ts'
+
+export { createMockProvider, MOCK_OCR_TEXT } from './mock.ts'
+export { createRecordedProvider, type Recordings } from './recorded.ts'
+export {
+  EMBEDDING_DIMENSIONS,
+  LlmError,
+  type FunctionDeclaration,
+  type JsonSchema,
+  type LlmImage,
+  type LlmProvider,
+} from './types.ts'
+
+// Provider for OCR, extraction, summaries and embeddings, chosen by env:
+//   LLM_PROVIDER         gemini (default) | openai | ollama | mock
+//   LLM_MODEL            chat model
+//   LLM_VISION_MODEL     model for OCR (openai: defaults to LLM_MODEL)
+//   LLM_EMBEDDING_MODEL  must produce 768-dimension vectors
+//   LLM_BASE_URL         openai / ollama endpoint
+//   LLM_API_KEY          openai key (GEMINI_API_KEY for gemini)
+export function getLlmProvider(): LlmProvider {
+  const provider = (Deno.env.get('LLM_PROVIDER') ?? 'gemini').toLowerCase()
+  const model = Deno.env.get('LLM_MODEL')
+  const embeddingModel = Deno.env.get('LLM_EMBEDDING_MODEL')
+
+  switch (provider) {
+    case 'gemini': {
+      const apiKey = Deno.env.get('GEMINI_API_KEY')
+      if (!apiKey) throw new LlmError('GEMINI_API_KEY is not configured')
+      return createGeminiProvider({
+        apiKey,
+        model: model ?? 'gemini-2.0-flash',
+        embeddingModel: embeddingModel ?? 'text-embedding-004',
+      })
+    }
+
+    case 'openai': {
+      const apiKey = Deno.env.get('LLM_API_KEY')
+      if (!apiKey) throw new LlmError('LLM_API_KEY is not configured')
+      return createOpenAiProvider({
+        name: 'openai',
+        baseUrl: Deno.env.get('LLM_BASE_URL') ?? 'https://api.openai.com/v1',
+        apiKey,
+        model: model ?? 'gpt-4o-mini',
+        visionModel: Deno.env.get('LLM_VISION_MODEL') ?? model ?? 'gpt-4o-mini',
+        embeddingModel: embeddingModel ?? 'text-embedding-3-small',
+        sendEmbeddingDimensions: true,
+      })
+    }
+
+    case 'ollama':
+      return createOpenAiProvider({
+        name: 'ollama',
+        // Local edge functions run in Docker, next to Ollama on the host
+        baseUrl:
+          Deno.env.get('LLM_BASE_URL') ??
+          'http://host.docker.internal:11434/v1',
+        apiKey: Deno.env.get('LLM_API_KEY'),
+        model: model ?? 'llama3.2',
+        visionModel: Deno.env.get('LLM_VISION_MODEL') ?? 'llama3.2-vision',
+        embeddingModel: embeddingModel ?? 'nomic-embed-text',
+        sendEmbeddingDimensions: false,
+      })
+
+    case 'mock':
+      return createMockProvider()
+
+    default:
+      throw new LlmError(`Unknown LLM_PROVIDER: ${provider}`)
+  }
+}
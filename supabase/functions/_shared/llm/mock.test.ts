@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractReports } from '../report-extraction.ts'
+import { extractWithRules } from '../rule-extractor.ts'
+import { createMockProvider } from './mock.ts'
+
+describe('createMockProvider', () => {
+  const message =
+    'ช่วยด้วยค่ะ น้ำท่วมหลังคา มีเด็ก 2 คน ผู้สูงอายุ 1 คน\nโทร 081-234-5678'
+
+  it('answers extraction with what the rules find in the message', async () => {
+    const rules = extractWithRules(message)
+    const [report] = await extractReports(createMockProvider(), message)
+
+    expect(report).toMatchObject({
+      phone: rules.phone,
+      number_of_children: rules.number_of_children,
+      number_of_seniors: rules.number_of_seniors,
+      help_categories: rules.help_categories,
+      urgency_level: rules.urgency_level,
+      raw_message: message,
+    })
+    expect(report.phone).toEqual(['081-234-5678'])
+  })
+
+  it('reads only the message after the instruction line', async () => {
+    const [call] = await createMockProvider().callFunction({
+      prompt: `กรณีผู้ป่วยติดเตียง โทร 1669\n\nข้อความที่ต้องวิเคราะห์:\n${message}`,
+      function: {
+        name: 'extract',
+        description: '',
+        parameters: {
+          type: 'object',
+          properties: {
+            phone: { type: 'array', items: { type: 'string' } },
+            number_of_patients: { type: 'integer' },
+            confidence: { type: 'number' },
+          },
+        },
+      },
+    })
+
+    expect(call).toEqual({
+      phone: ['081-234-5678'],
+      number_of_patients: 0,
+      confidence: 0,
+    })
+  })
+})
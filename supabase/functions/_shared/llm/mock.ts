@@ -0,0 +1,120 @@
+import {
+  type CallFunctionRequest,
+  EMBEDDING_DIMENSIONS,
+  type GenerateTextRequest,
+  type JsonSchema,
+  type LlmProvider,
+} from './types.ts'
+import { extractWithRules } from '../rule-extractor.ts'
+
+// What the mock "reads" from any image: a typical request for help, so the
+// OCR -> extract -> review flow has something to work with offline
+export const MOCK_OCR_TEXT = `ช่วยด้วยค่ะ น้ำท่วมบ้านถึงชั้นสอง
+คุณสมศรี ใจดี บ้านเลขที่ 45 หมู่ 3 ต.คลองแห อ.หาดใหญ่ จ.สงขลา
+มีผู้สูงอายุ 1 คน เด็ก 2 คน
+โทร 081-234-5678`
+
+// Empty value of the right type, so callers see a well-formed result
+const emptyValue = (schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          emptyValue(property),
+        ]),
+      )
+    case 'array':
+      return []
+    case 'integer':
+    case 'number':
+      return 0
+    case 'boolean':
+      return false
+    default:
+      return ''
+  }
+}
+
+const matchesType = (schema: JsonSchema, value: unknown) => {
+  switch (schema.type) {
+    case 'array':
+      return Array.isArray(value)
+    case 'integer':
+    case 'number':
+      return typeof value === 'number'
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'string':
+      return typeof value === 'string'
+    default:
+      return false
+  }
+}
+
+// Extraction prompts put the message after an instruction line such as
+// "แยกข้อมูลจากข้อความนี้:"; anything else is read whole
+const INSTRUCTION_LINE = /^.*ข้อความ.*:[ \t]*$/gm
+
+const promptMessage = (prompt: string) => {
+  const instructions = [...prompt.matchAll(INSTRUCTION_LINE)].pop()
+  return instructions
+    ? prompt.slice(instructions.index! + instructions[0].length).trim()
+    : prompt
+}
+
+// FNV-1a, for spreading trigrams over the embedding dimensions
+const hash = (text: string) => {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// Deterministic stand-in for every provider call; no network. Set
+// LLM_PROVIDER=mock to run the functions locally or in tests.
+export const createMockProvider = (): LlmProvider => ({
+  name: 'mock',
+
+  // Images give MOCK_OCR_TEXT; text prompts are answered with their last
+  // line, which for complete-address is the address itself
+  generateText({ prompt, images = [] }: GenerateTextRequest) {
+    if (images.length > 0) return Promise.resolve(MOCK_OCR_TEXT)
+
+    const lines = prompt.split('\n').filter((line) => line.trim())
+    return Promise.resolve(lines[lines.length - 1]?.trim() ?? '')
+  },
+
+  // One call, filled in with what the rule-based extractor finds in the
+  // message, so each message gets its own realistic answer; properties it
+  // has no value for are left empty
+  callFunction({ prompt, function: declaration }: CallFunctionRequest) {
+    const found: Record<string, unknown> = {
+      ...extractWithRules(promptMessage(prompt)),
+    }
+    const properties = declaration.parameters.properties ?? {}
+    return Promise.resolve([
+      Object.fromEntries(
+        Object.entries(properties).map(([key, property]) => [
+          key,
+          matchesType(property, found[key]) ? found[key] : emptyValue(property),
+        ]),
+      ),
+    ])
+  },
+
+  // Hashed character trigrams, normalised: identical texts give identical
+  // vectors and similar texts score high, so duplicate checks behave sensibly
+  embed(text: string) {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+    const normalized = ` ${text.toLowerCase().replace(/\s+/g, ' ').trim()} `
+    for (let i = 0; i + 3 <= normalized.length; i++) {
+      vector[hash(normalized.slice(i, i + 3)) % EMBEDDING_DIMENSIONS] += 1
+    }
+
+    const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1
+    return Promise.resolve(vector.map((v) => v / length))
+  },
+})
@@ -0,0 +1,141 @@
+import { postJson } from './http.ts'
+import {
+  type CallFunctionRequest,
+  EMBEDDING_DIMENSIONS,
+  type GenerateTextRequest,
+  LlmError,
+  type LlmProvider,
+} from './types.ts'
+
+export interface OpenAiConfig {
+  // 'openai' or 'ollama'; only used in logs and errors
+  name: string
+  baseUrl: string
+  apiKey?: string
+  model: string
+  // Text-only local models can't read images; OCR uses this one
+  visionModel: string
+  embeddingModel: string
+  // OpenAI's text-embedding-3 models can be shortened to 768 dimensions;
+  // other servers reject the parameter, so their model must already match
+  sendEmbeddingDimensions: boolean
+}
+
+interface ChatResponse {
+  choices?: {
+    message?: {
+      content?: string | null
+      tool_calls?: { function: { name: string; arguments: string } }[]
+    }
+  }[]
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Azure,
+// vLLM, LM Studio or Ollama's /v1 endpoint
+export const createOpenAiProvider = (config: OpenAiConfig): LlmProvider => {
+  const label = config.name === 'ollama' ? 'Ollama' : 'OpenAI'
+  const headers: Record<string, string> = config.apiKey
+    ? { Authorization: `Bearer ${config.apiKey}` }
+    : {}
+
+  const chat = (body: unknown) =>
+    postJson<ChatResponse>(
+      label,
+      `${config.baseUrl}/chat/completions`,
+      body,
+      headers,
+    )
+
+  const messages = (
+    system: string | undefined,
+    content: string | unknown[],
+  ) => [
+    ...(system ? [{ role: 'system', content: system }] : []),
+    { role: 'user', content },
+  ]
+
+  return {
+    name: config.name,
+
+    async generateText({
+      system,
+      prompt,
+      images = [],
+      temperature,
+      maxOutputTokens,
+    }: GenerateTextRequest) {
+      const content =
+        images.length > 0
+          ? [
+              ...images.map((image) => ({
+                type: 'image_url',
+                image_url: {
+                  url: `data:${image.mimeType};base64,${image.data}`,
+                },
+              })),
+              { type: 'text', text: prompt },
+            ]
+          : prompt
+
+      const data = await chat({
+        model: images.length > 0 ? config.visionModel : config.model,
+        messages: messages(system, content),
+        temperature,
+        max_tokens: maxOutputTokens,
+      })
+
+      return data.choices?.[0]?.message?.content?.trim() ?? ''
+    },
+
+    async callFunction({
+      system,
+      prompt,
+      function: declaration,
+    }: CallFunctionRequest) {
+      const data = await chat({
+        model: config.model,
+        messages: messages(system, prompt),
+        tools: [{ type: 'function', function: declaration }],
+        tool_choice: { type: 'function', function: { name: declaration.name } },
+      })
+
+      const calls = (data.choices?.[0]?.message?.tool_calls ?? []).filter(
+        (call) => call.function.name === declaration.name,
+      )
+      if (calls.length === 0) {
+        throw new LlmError('No function call in AI response')
+      }
+
+      return calls.map((call) => {
+        try {
+          return JSON.parse(call.function.arguments) as Record<string, unknown>
+        } catch {
+          throw new LlmError(`${label} returned invalid function arguments`)
+        }
+      })
+    },
+
+    async embed(text: string) {
+      const data = await postJson<{ data: { embedding: number[] }[] }>(
+        label,
+        `${config.baseUrl}/embeddings`,
+        {
+          model: config.embeddingModel,
+          input: text,
+          ...(config.sendEmbeddingDimensions
+            ? { dimensions: EMBEDDING_DIMENSIONS }
+            : {}),
+        },
+        headers,
+      )
+
+      const embedding = data.data?.[0]?.embedding ?? []
+      if (embedding.length !== EMBEDDING_DIMENSIONS) {
+        throw new LlmError(
+          `${config.embeddingModel} returned ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`,
+        )
+      }
+      return embedding
+    },
+  }
+}
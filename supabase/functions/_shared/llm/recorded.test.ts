@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createMockProvider } from './mock.ts'
+import { createRecordedProvider, type Recordings } from './recorded.ts'
+import type { CallFunctionRequest } from './types.ts'
+
+const request = (system: string): CallFunctionRequest => ({
+  system,
+  prompt: 'แยกข้อมูลจากข้อความนี้:\n\nโทร 081-234-5678',
+  function: {
+    name: 'extract_report',
+    description: '',
+    parameters: {
+      type: 'object',
+      properties: { phone: { type: 'array', items: { type: 'string' } } },
+    },
+  },
+})
+
+const record = async (system: string) => {
+  const recordings: Recordings = {}
+  await createRecordedProvider(recordings, createMockProvider()).callFunction(
+    request(system),
+  )
+  return recordings
+}
+
+describe('createRecordedProvider', () => {
+  it('replays what the inner provider answered', async () => {
+    const recordings = await record('v1')
+    expect(Object.values(recordings)).toEqual([
+      expect.objectContaining({ provider: 'mock' }),
+    ])
+
+    const onStale = vi.fn()
+    const replayed = await createRecordedProvider(
+      recordings,
+      undefined,
+      onStale,
+    ).callFunction(request('v1'))
+
+    expect(replayed).toEqual([{ phone: ['081-234-5678'] }])
+    expect(onStale).not.toHaveBeenCalled()
+  })
+
+  it('still replays recordings made for another system prompt, as stale', async () => {
+    const recordings = await record('v1')
+    const onStale = vi.fn()
+
+    const replayed = await createRecordedProvider(
+      recordings,
+      undefined,
+      onStale,
+    ).callFunction(request('v2'))
+
+    expect(replayed).toEqual([{ phone: ['081-234-5678'] }])
+    expect(onStale).toHaveBeenCalledWith('callFunction')
+  })
+
+  it('re-records stale responses when it has an inner provider', async () => {
+    const recordings = await record('v1')
+    const [before] = Object.values(recordings)
+
+    await createRecordedProvider(recordings, createMockProvider()).callFunction(
+      request('v2'),
+    )
+
+    const [after] = Object.values(recordings)
+    expect(Object.keys(recordings)).toHaveLength(1)
+    expect(after.request).not.toBe(before.request)
+  })
+
+  it('re-records answers another provider gave', async () => {
+    const recordings = await record('v1')
+    const other = { ...createMockProvider(), name: 'gemini' }
+
+    await createRecordedProvider(recordings, other).callFunction(request('v1'))
+
+    expect(Object.values(recordings)).toEqual([
+      expect.objectContaining({ provider: 'gemini' }),
+    ])
+  })
+
+  it('fails with 404 for a prompt it has never seen', async () => {
+    await expect(
+      createRecordedProvider({}).callFunction(request('v1')),
+    ).rejects.toMatchObject({ status: 404 })
+  })
+})
@@ -0,0 +1,92 @@
+import {
+  type CallFunctionRequest,
+  type GenerateTextRequest,
+  LlmError,
+  type LlmProvider,
+} from './types.ts'
+
+export interface Recording {
+  // Provider that gave the response
+  provider: string
+  // Hash of the whole request, system prompt and schema included
+  request: string
+  response: unknown
+}
+
+// Recordings keyed by a hash of the method and what the call is about (its
+// prompt or text), so they outlive changes to the system prompt or schema
+export type Recordings = Record<string, Recording>
+
+const hash = async (value: unknown) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value))
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Replays recorded responses, so evals run offline and give the same answer
+// every time. A recording made for a different system prompt or schema is
+// stale: it is still replayed, and reported through onStale. With an inner
+// provider, misses, stale recordings and ones made by another provider are
+// forwarded to it and the response is stored in recordings (the caller saves
+// them).
+export const createRecordedProvider = (
+  recordings: Recordings,
+  inner?: LlmProvider,
+  onStale?: (method: string) => void,
+): LlmProvider => {
+  const replay = async <T>(
+    method: string,
+    subject: unknown,
+    request: unknown,
+    call: (provider: LlmProvider) => Promise<T>,
+  ): Promise<T> => {
+    const key = await hash([method, subject])
+    const requestHash = await hash([method, request])
+    const recording = recordings[key]
+    if (
+      recording?.request === requestHash &&
+      (!inner || recording.provider === inner.name)
+    ) {
+      return recording.response as T
+    }
+
+    if (!inner) {
+      if (!recording) {
+        throw new LlmError(`No recorded response for ${method} ${key}`, 404)
+      }
+      onStale?.(method)
+      return recording.response as T
+    }
+
+    const response = await call(inner)
+    recordings[key] = { provider: inner.name, request: requestHash, response }
+    return response
+  }
+
+  return {
+    name: inner ? `recording ${inner.name}` : 'recorded',
+
+    generateText(request: GenerateTextRequest) {
+      const { prompt, images } = request
+      return replay('generateText', { prompt, images }, request, (provider) =>
+        provider.generateText(request),
+      )
+    },
+
+    callFunction(request: CallFunctionRequest) {
+      const subject = {
+        prompt: request.prompt,
+        function: request.function.name,
+      }
+      return replay('callFunction', subject, request, (provider) =>
+        provider.callFunction(request),
+      )
+    },
+
+    embed(text: string) {
+      return replay('embed', text, text, (provider) => provider.embed(text))
+    },
+  }
+}
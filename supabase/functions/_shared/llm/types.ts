@@ -0,0 +1,61 @@
+// Provider-neutral shapes for the LLM calls the edge functions make
+
+// reports.embedding is vector(768); every provider must return this size
+export const EMBEDDING_DIMENSIONS = 768
+
+export interface LlmImage {
+  mimeType: string
+  // Base64 without the data: prefix
+  data: string
+}
+
+export interface GenerateTextRequest {
+  // Instructions sent ahead of the prompt
+  system?: string
+  prompt: string
+  images?: LlmImage[]
+  temperature?: number
+  maxOutputTokens?: number
+}
+
+// JSON schema subset understood by Gemini and OpenAI tool calling
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean'
+  description?: string
+  properties?: Record<string, JsonSchema>
+  items?: JsonSchema
+  enum?: string[]
+  required?: string[]
+}
+
+export interface FunctionDeclaration {
+  name: string
+  description: string
+  parameters: JsonSchema
+}
+
+export interface CallFunctionRequest {
+  system?: string
+  prompt: string
+  // The model is forced to call this function
+  function: FunctionDeclaration
+}
+
+export interface LlmProvider {
+  name: string
+  generateText(request: GenerateTextRequest): Promise<string>
+  // Arguments of each call the model made; extraction gets one per victim
+  callFunction(request: CallFunctionRequest): Promise<Record<string, unknown>[]>
+  embed(text: string): Promise<number[]>
+}
+
+// Upstream failure; status is the provider's HTTP status (429 for rate limits)
+export class LlmError extends Error {
+  status: number
+
+  constructor(message: string, status = 500) {
+    super(message)
+    this.name = 'LlmError'
+    this.status = status
+  }
+}
@@ -0,0 +1,275 @@
+import { buildFieldEvidence, EVIDENCE_FIELDS } from './field-evidence.ts'
+import type { FunctionDeclaration, LlmProvider } from './llm/index.ts'
+import {
+  HELP_CATEGORIES,
+  HELP_CATEGORY_IDS,
+  isHelpCategoryId,
+  isUrgencyLevel,
+  MIN_URGENCY_LEVEL,
+  SUPPLY_CATEGORY_IDS,
+  URGENCY_LEVELS,
+} from './taxonomy.ts'
+
+// Prompt, schema and clean-up for turning a help request into reports. Shared
+// by extract-report and the extraction eval so both run exactly the same thing.
+
+// Forced function call: the model calls it once per victim in the message
+export const EXTRACT_REPORT_FUNCTION: FunctionDeclaration = {
+  name: 'extract_report_data',
+  description: 'แยกข้อมูลผู้ประสบภัยจากข้อความ',
+  parameters: {
+    type: 'object',
+    properties: {
+      reporter_name: {
+        type: 'string',
+        description:
+          'ชื่อของผู้รายงาน/แจ้งเรื่อง ที่มาจากชื่อโปรไฟล์หรือลายเซ็นในข้อความ',
+      },
+      last_contact_at: {
+        type: 'string',
+        description:
+          'วันเวลาที่ติดต่อล่าสุด ในรูปแบบ ISO 8601 (ถ้ามีระบุ เช่น "วันที่ 22" "เมื่อวาน")',
+      },
+      name: {
+        type: 'string',
+        description: 'ชื่อของผู้ประสบภัย',
+      },
+      lastname: {
+        type: 'string',
+        description: 'นามสกุลของผู้ประสบภัย',
+      },
+      address: {
+        type: 'string',
+        description: 'ที่อยู่แบบละเอียด รวมหมู่บ้าน ซอย ถนน ตำบล อำเภอ จังหวัด',
+      },
+      location_lat: {
+        type: 'string',
+        description: 'ละติจูด (ถ้ามี)',
+      },
+      location_long: {
+        type: 'string',
+        description: 'ลองติจูด (ถ้ามี)',
+      },
+      map_link: {
+        type: 'string',
+        description:
+          'ลิงก์ Google Maps (ถ้ามี เช่น https://maps.google.com/... หรือ https://goo.gl/maps/... หรือ maps.app.goo.gl/...)',
+      },
+      phone: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'เบอร์โทรศัพท์ทั้งหมด',
+      },
+      number_of_adults: {
+        type: 'integer',
+        description: 'จำนวนผู้ใหญ่',
+      },
+      number_of_children: {
+        type: 'integer',
+        description: 'จำนวนเด็ก (อายุต่ำกว่า 18 ปี)',
+      },
+      number_of_infants: {
+        type: 'integer',
+        description: 'จำนวนทารก (อายุ 0-2 ปี)',
+      },
+      number_of_seniors: {
+        type: 'integer',
+        description: 'จำนวนผู้สูงอายุ (อายุมากกว่า 60 ปี)',
+      },
+      number_of_patients: {
+        type: 'integer',
+        description: 'จำนวนผู้ป่วย หรือผู้ที่มีภาวะสุขภาพพิเศษ',
+      },
+      health_condition: {
+        type: 'string',
+        description: 'ภาวะสุขภาพพิเศษ เช่น ป่วย พิการ ติดเตียง',
+      },
+      help_needed: {
+        type: 'string',
+        description: 'ความช่วยเหลือที่ต้องการ เช่น เรือ อาหาร น้ำดื่ม ยา',
+      },
+      help_categories: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: HELP_CATEGORY_IDS,
+        },
+        description: `ประเภทความช่วยเหลือที่ต้องการ: ${HELP_CATEGORIES.map(
+          (category) => `${category.id} (${category.label})`,
+        ).join(', ')}`,
+      },
+      supply_items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            category: {
+              type: 'string',
+              enum: SUPPLY_CATEGORY_IDS,
+            },
+            item: {
+              type: 'string',
+              description: 'ชื่อสิ่งของ',
+            },
+            quantity: {
+              type: 'integer',
+              description: 'จำนวน (0 ถ้าไม่ได้ระบุ)',
+            },
+            unit: {
+              type: 'string',
+              description: 'หน่วย เช่น ขวด ชุด ผืน',
+            },
+          },
+          required: ['category', 'item'],
+        },
+        description: 'สิ่งของที่ขอพร้อมจำนวนและหน่วย',
+      },
+      additional_info: {
+        type: 'string',
+        description: 'ข้อมูลเพิ่มเติมที่สำคัญอื่นๆ ที่ควรบันทึก',
+      },
+      urgency_level: {
+        type: 'integer',
+        description: 'ระดับความเร่งด่วน 1-5 ตามเกณฑ์ที่กำหนด',
+      },
+      evidence: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            field: {
+              type: 'string',
+              enum: EVIDENCE_FIELDS,
+            },
+            quote: {
+              type: 'string',
+              description: 'ข้อความที่คัดลอกมาจากข้อความต้นฉบับตรงตัวอักษร',
+            },
+            confidence: {
+              type: 'number',
+              description: 'ความมั่นใจ 0-1',
+            },
+          },
+          required: ['field', 'quote', 'confidence'],
+        },
+        description:
+          'หลักฐานของแต่ละช่องที่กรอก: ข้อความต้นฉบับที่ใช้และความมั่นใจ',
+      },
+    },
+    required: [],
+  },
+}
+
+// Prompt sections generated from the shared taxonomy
+const URGENCY_PROMPT = URGENCY_LEVELS.map(
+  (urgency) => `Level ${urgency.level}: ${urgency.criteria}`,
+).join('\n')
+const HELP_CATEGORY_PROMPT = HELP_CATEGORIES.map(
+  (category) =>
+    `  * ${category.id} (${category.label}) - ${category.description}`,
+).join('\n')
+const SUPPLY_CATEGORY_PROMPT = `${SUPPLY_CATEGORY_IDS.filter(
+  (id) => id !== 'other',
+).join(', ')} or other`
+
+export const EXTRACTION_SYSTEM_PROMPT = `You are an expert Thai language data extraction specialist for flood disaster victim information.
+
+🚨 CRITICAL RULES - ABSOLUTE ZERO HALLUCINATION POLICY:
+1. Extract ONLY information that is EXPLICITLY stated in the raw message
+2. NEVER infer, assume, guess, or generate any information
+3. If information is not clearly present, use empty values (empty string "", empty array [], or 0)
+4. NEVER add example data, placeholder text, or explanatory notes
+5. This is a life-critical disaster relief system - accuracy is PARAMOUNT
+
+URGENCY LEVEL CLASSIFICATION (urgency_level):
+${URGENCY_PROMPT}
+
+IMPORTANT: 
+- If mentions patients/sick people (มีคนไข้, ผู้ป่วย, ติดเตียง) → minimum level 4
+- If mentions roof/stuck on roof (หลังคา, ติดบนหลังคา) → level 5
+- If mentions someone dead/dying (คนตาย, กำลังจะตาย) → level 5
+
+EXTRACTION GUIDELINES:
+- reporter_name: Extract from social media profile name or signature in message (empty if not present)
+- last_contact_at: Only if explicitly stated like "วันที่ 22", "6ชม." etc. Convert to readable format (empty if not present)
+- name/lastname: Only if clearly stated (empty if not present)
+- address: Copy exact address from message, preserve all details (empty if not present)
+- phone: Array of phone numbers only if present (empty array if not present)
+- location_lat/location_long: Only if GPS coordinates given (empty if not present)
+- map_link: Extract Google Maps link if present (e.g., "https://maps.google.com/...", "https://goo.gl/maps/...", "maps.app.goo.gl/..."). Copy the exact URL (empty if not present)
+- number_of_adults: Count all adults (18+ years) including patients, parents, siblings, relatives mentioned. If message says "มีแม่ พ่อ น้องชาย" count as 3 adults. Patients who are adults count in BOTH number_of_adults AND number_of_patients.
+- number_of_children: Count children (3-17 years) only if explicitly mentioned (0 if not present)
+- number_of_seniors: Count elderly people (60+ years) only if explicitly mentioned (0 if not present)
+- number_of_infants: Count babies/infants (0-2 years old) only if stated (0 if not present)
+- number_of_patients: Count people with medical conditions (ป่วย, ติดเตียง, โรคประจำตัว) separately. If patient is an adult, they should be counted in BOTH number_of_patients AND number_of_adults.
+- health_condition: Only mention if health issues are stated like "ป่วย", "ติดเตียง", "โรคหัวใจ" (empty if not present)
+- help_needed: Only if specifically requested like "ต้องการเรือ", "ขาดอาหาร" (empty if not present)
+- help_categories: Array of category IDs for help types mentioned:
+${HELP_CATEGORY_PROMPT}
+  (empty array if not present)
+- supply_items: Concrete items requested, one entry per item with category (${SUPPLY_CATEGORY_PROMPT}), item name, quantity and unit, e.g. "ขอน้ำ 2 แพ็ค" -> {category: "water", item: "น้ำดื่ม", quantity: 2, unit: "แพ็ค"}. Use quantity 0 if no amount is stated (empty array if not present)
+- additional_info: Other important details not covered above (empty if not present)
+- evidence: One entry for every field you filled in. quote is the exact text copied character for character from the message that the value came from (for counts and urgency_level, the words that justify them). confidence is 0-1: 1.0 when the value is stated word for word, about 0.7 when you had to interpret or convert it, 0.5 or lower when it is uncertain. Use several entries for a field built from several places, e.g. one per phone number.
+
+MULTI-PAGE INPUT:
+- The message may be OCR text from several screenshots or PDF pages, each starting with a marker line like "--- หน้า 2/5 (file.png) ---". Markers are not data.
+- One person's details can continue across a page break; a list can contain many people, each a separate report.
+
+EXAMPLE OF CORRECT EXTRACTION:
+Input: "คุณนิด 087-123-4567 บ้านเลขที่ 123 หมู่ 5 ต.แม่กา อ.เมือง จ.เชียงใหม่ มีผู้สูงอายุ 2 คน เด็ก 1 คน น้ำท่วมชั้นสอง"
+Output: {
+  name: "นิด",
+  phone: ["087-123-4567"],
+  address: "บ้านเลขที่ 123 หมู่ 5 ต.แม่กา อ.เมือง จ.เชียงใหม่",
+  number_of_seniors: 2,
+  number_of_children: 1,
+  urgency_level: 3,
+  (all other fields empty)
+}
+
+REMEMBER: When in doubt, leave it empty. Wrong data is worse than no data in a disaster relief system.`
+
+// One report per victim, with defaults for missing fields and per-field evidence
+export const extractReports = async (llm: LlmProvider, rawMessage: string) => {
+  const functionCalls = await llm.callFunction({
+    system: EXTRACTION_SYSTEM_PROMPT,
+    prompt: `แยกข้อมูลจากข้อความนี้:\n\n${rawMessage}`,
+    function: EXTRACT_REPORT_FUNCTION,
+  })
+
+  return functionCalls.map((extractedData) => {
+    const { evidence, ...fields } = extractedData
+    return {
+      ...fields,
+      raw_message: rawMessage,
+      // Set defaults for optional fields - use empty string instead of examples
+      reporter_name: extractedData.reporter_name || '',
+      last_contact_at: extractedData.last_contact_at || '',
+      lastname: extractedData.lastname || '',
+      location_lat: extractedData.location_lat || '',
+      location_long: extractedData.location_long || '',
+      map_link: extractedData.map_link || '',
+      phone: extractedData.phone || [],
+      number_of_adults: extractedData.number_of_adults || 0,
+      number_of_children: extractedData.number_of_children || 0,
+      number_of_seniors: extractedData.number_of_seniors || 0,
+      number_of_infants: extractedData.number_of_infants || 0,
+      number_of_patients: extractedData.number_of_patients || 0,
+      health_condition: extractedData.health_condition || '',
+      help_needed: extractedData.help_needed || '',
+      // Not every provider enforces the schema enum, so drop unknown ids
+      help_categories: (
+        (extractedData.help_categories as string[]) || []
+      ).filter(isHelpCategoryId),
+      supply_items: extractedData.supply_items || [],
+      additional_info: extractedData.additional_info || '',
+      name: extractedData.name || '',
+      address: extractedData.address || '',
+      urgency_level: isUrgencyLevel(Number(extractedData.urgency_level))
+        ? Number(extractedData.urgency_level)
+        : MIN_URGENCY_LEVEL,
+      // Per-field confidence and source spans in raw_message
+      field_evidence: buildFieldEvidence(rawMessage, fields, evidence),
+    }
+  })
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractWithRules } from './rule-extractor.ts'
+
+const quoted = (message: string, field: string) => {
+  const report = extractWithRules(message)
+  return report.field_evidence[field]?.spans.map(([start, end]) =>
+    message.slice(start, end),
+  )
+}
+
+describe('extractWithRules', () => {
+  it('reads phones in any format, including Thai digits', () => {
+    const report = extractWithRules(
+      'โทร 0812345678 หรือ +66 2 123 4567 หรือ ๐๘๙-๑๑๑-๒๒๓๓',
+    )
+    expect(report.phone).toEqual([
+      '081-234-5678',
+      '02-123-4567',
+      '089-111-2233',
+    ])
+  })
+
+  it('reads the address line with its house number', () => {
+    const report = extractWithRules(
+      'ช่วยด้วยค่ะ\nอยู่ 12/3 หมู่ 4 ต.บ้านพรุ อ.หาดใหญ่ จ.สงขลา\nโทร 089-111-2233',
+    )
+    expect(report.address).toBe('12/3 หมู่ 4 ต.บ้านพรุ อ.หาดใหญ่ จ.สงขลา')
+  })
+
+  it('does not take the end of a phone number as the house number', () => {
+    expect(
+      extractWithRules('081-234-5678 บ้านเลขที่ 12 หมู่ 3 ต.บางพลี').address,
+    ).toBe('บ้านเลขที่ 12 หมู่ 3 ต.บางพลี')
+    expect(extractWithRules('081-234-5678 หมู่ 3 ต.บางพลี').address).toBe(
+      'หมู่ 3 ต.บางพลี',
+    )
+    expect(extractWithRules('โทร 081 234 5678 หมู่ 3 ต.บางพลี').address).toBe(
+      'หมู่ 3 ต.บางพลี',
+    )
+  })
+
+  it('counts people by group and derives adults from a total', () => {
+    const report = extractWithRules(
+      'ติดอยู่ในบ้าน 5 คน มีเด็ก 2 คน ผู้สูงอายุ 1 คน',
+    )
+    expect(report).toMatchObject({
+      number_of_adults: 2,
+      number_of_children: 2,
+      number_of_seniors: 1,
+    })
+  })
+
+  it('does not count the village headman as an adult', () => {
+    const report = extractWithRules(
+      'ผู้ใหญ่บ้านแจ้งแทน ในบ้านมีผู้สูงอายุ 1 คนกับเด็ก 2 คน',
+    )
+    expect(report.number_of_adults).toBe(0)
+    expect(extractWithRules('มีผู้ใหญ่ 3 คน').number_of_adults).toBe(3)
+  })
+
+  it('rates roof-level water and drowning as critical', () => {
+    expect(extractWithRules('น้ำถึงหลังคาแล้ว').urgency_level).toBe(5)
+    expect(extractWithRules('มีคนจมน้ำ').urgency_level).toBe(5)
+  })
+
+  it('ignores negated critical keywords', () => {
+    const report = extractWithRules('น้ำยังไม่ถึงหลังคา แต่ท่วมถึงชั้นสองแล้ว')
+    expect(report.urgency_level).toBe(3)
+    expect(
+      quoted('น้ำยังไม่ถึงหลังคา แต่ท่วมถึงชั้นสองแล้ว', 'urgency_level'),
+    ).toEqual(['ชั้นสอง'])
+    expect(
+      extractWithRules('ไม่มีใครจมน้ำ น้ำท่วมชั้นล่าง').urgency_level,
+    ).toBe(2)
+  })
+
+  it('rates by the most vulnerable person when nothing is critical', () => {
+    expect(extractWithRules('มีทารก 1 คน').urgency_level).toBe(4)
+    expect(extractWithRules('มีผู้สูงอายุ 2 คน').urgency_level).toBe(3)
+    expect(extractWithRules('น้ำท่วมบ้าน').urgency_level).toBe(2)
+    expect(extractWithRules('แจ้งเตือนน้ำกำลังมา').urgency_level).toBe(1)
+  })
+
+  it('marks help categories from keywords and quotes where it found them', () => {
+    const message = 'ออกไม่ได้ ขาดน้ำดื่ม ต้องการเรือ'
+    const report = extractWithRules(message)
+
+    expect(report.help_categories).toEqual(['trapped', 'water', 'evacuation'])
+    expect(quoted(message, 'help_categories')).toEqual([
+      'ออกไม่ได้',
+      'ขาดน้ำ',
+      'เรือ',
+    ])
+  })
+
+  it('flags everything it returns as low confidence', () => {
+    const report = extractWithRules('โทร 081-234-5678')
+    expect(report.extraction_confidence).toBe('low')
+    expect(report.field_evidence.urgency_level.confidence).toBeLessThan(0.5)
+  })
+})
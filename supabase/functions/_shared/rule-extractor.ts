@@ -0,0 +1,381 @@
+// Deterministic Thai extractor used by extract-report when the LLM is down or
+// rate-limited. It only picks up what simple patterns can find reliably
+// (phones, address parts, counts, keywords); everything it returns is marked
+// low confidence so the reviewer checks every field.
+
+import type { FieldEvidenceMap, Span } from './field-evidence.ts'
+import type { HelpCategoryId } from './taxonomy.ts'
+
+export interface RuleExtractedReport {
+  name: string
+  lastname: string
+  reporter_name: string
+  last_contact_at: string
+  address: string
+  location_lat: string
+  location_long: string
+  map_link: string
+  phone: string[]
+  number_of_adults: number
+  number_of_children: number
+  number_of_infants: number
+  number_of_seniors: number
+  number_of_patients: number
+  health_condition: string
+  help_needed: string
+  help_categories: HelpCategoryId[]
+  supply_items: never[]
+  additional_info: string
+  urgency_level: number
+  raw_message: string
+  extraction_confidence: 'low'
+  field_evidence: FieldEvidenceMap
+}
+
+// How far each kind of pattern can be trusted; phone and link formats are
+// strict, while keywords and urgency are rough guesses
+const RULE_CONFIDENCE: Record<string, number> = {
+  phone: 0.8,
+  map_link: 0.9,
+  location_lat: 0.7,
+  location_long: 0.7,
+  address: 0.5,
+  name: 0.4,
+  lastname: 0.3,
+  number_of_adults: 0.4,
+  number_of_children: 0.5,
+  number_of_infants: 0.5,
+  number_of_seniors: 0.5,
+  number_of_patients: 0.5,
+  health_condition: 0.5,
+  help_needed: 0.5,
+  help_categories: 0.4,
+  urgency_level: 0.3,
+}
+
+const THAI_DIGITS = '๐๑๒๓๔๕๖๗๘๙'
+
+// Thai digits become ASCII; every other character keeps its position, so
+// indexes found in the normalised text can be used to slice the original
+const normalizeDigits = (text: string) =>
+  text.replace(/[๐-๙]/g, (d) => String(THAI_DIGITS.indexOf(d)))
+
+const spanOf = (match: RegExpMatchArray): Span => [
+  match.index!,
+  match.index! + match[0].length,
+]
+
+const matchAllOf = (text: string, pattern: RegExp) => [
+  ...text.matchAll(
+    pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+  ),
+]
+
+const PHONE_PATTERN = /(?:\+66|0)[\s-]?\d(?:[\s-]?\d){7,8}(?!\d)/g
+
+const extractPhones = (text: string) => {
+  const phones: string[] = []
+  const spans: Span[] = []
+  for (const match of matchAllOf(text, PHONE_PATTERN)) {
+    let digits = match[0].replace(/\D/g, '')
+    if (digits.startsWith('66')) digits = `0${digits.slice(2)}`
+
+    const phone =
+      digits.length === 10
+        ? `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`
+        : digits.length === 9
+          ? `${digits.slice(0, 2)}-${digits.slice(2, 5)}-${digits.slice(5)}`
+          : null
+    if (!phone) continue
+    spans.push(spanOf(match))
+    if (!phones.includes(phone)) phones.push(phone)
+  }
+  return { phones, spans }
+}
+
+const MAP_LINK_PATTERN =
+  /https?:\/\/(?:maps\.app\.goo\.gl|goo\.gl\/maps|maps\.google\.[a-z.]+|(?:www\.)?google\.[a-z.]+\/maps)\S*/i
+
+// Decimal coordinates inside Thailand's bounding box
+const COORDINATE_PATTERN = /(\d{1,2}\.\d{3,})\s*[,\s]\s*(\d{2,3}\.\d{3,})/
+
+const extractCoordinates = (text: string) => {
+  const match = text.match(COORDINATE_PATTERN)
+  if (!match) return null
+  const lat = Number(match[1])
+  const lng = Number(match[2])
+  if (lat < 5 || lat > 21 || lng < 97 || lng > 106) return null
+  return { lat: match[1], lng: match[2], span: spanOf(match) }
+}
+
+// Address markers with their value, e.g. "ม.5", "ต.แม่กา", "จังหวัดสงขลา"
+const ADDRESS_PART_PATTERN =
+  /(?:บ้านเลขที่|เลขที่|หมู่ที่|หมู่บ้าน|หมู่|ม\.|ซอย|ซ\.|ถนน|ถ\.|ตำบล|ต\.|แขวง|อำเภอ|อ\.|เขต|จังหวัด|จ\.)\s*[^\s,]+/g
+// Parts that place an address on the map rather than within a village
+const AREA_PART_PATTERN = /^(?:ตำบล|ต\.|แขวง|อำเภอ|อ\.|เขต|จังหวัด|จ\.)/
+
+// A bare house number right before the first part, e.g. "12/3 หมู่ 4". It
+// must not follow a digit or dash, which would make it the tail of a phone
+// number such as "081-234-5678 หมู่ 4".
+const HOUSE_NUMBER_PATTERN = /(?:^|[^\d-])(\d+(?:\/\d+)?)\s*$/d
+const HOUSE_NUMBER_PART_PATTERN = /^(?:บ้านเลขที่|เลขที่)/
+
+// The first line with at least two address parts (or one area part), from
+// the first part (or the house number just before it) to the end of the last.
+// phoneSpans keeps a phone written with spaces from passing as a house number.
+const extractAddress = (text: string, phoneSpans: Span[]) => {
+  let lineStart = 0
+  for (const line of text.split('\n')) {
+    const offset = lineStart
+    lineStart += line.length + 1
+
+    const parts = matchAllOf(line, ADDRESS_PART_PATTERN)
+    if (
+      parts.length < 2 &&
+      !parts.some((part) => AREA_PART_PATTERN.test(part[0]))
+    ) {
+      continue
+    }
+
+    let start = parts[0].index!
+    const houseNumber = HOUSE_NUMBER_PART_PATTERN.test(parts[0][0])
+      ? null
+      : line.slice(0, start).match(HOUSE_NUMBER_PATTERN)
+    if (houseNumber) {
+      const numberStart = houseNumber.indices![1][0]
+      const inPhone = phoneSpans.some(
+        ([from, to]) =>
+          offset + numberStart >= from && offset + numberStart < to,
+      )
+      if (!inPhone) start = numberStart
+    }
+
+    const last = parts[parts.length - 1]
+    const end = last.index! + last[0].length
+    return { start: offset + start, end: offset + end }
+  }
+  return null
+}
+
+const NAME_PREFIX_PATTERN =
+  /(?:คุณ|ชื่อ|นางสาว|นาย|นาง|น\.ส\.|ด\.ช\.|ด\.ญ\.)\s*([ก-๎]+)(?:[ \t]+([ก-๎]+))?/d
+
+// Words that follow a name but are not a surname
+const NOT_A_NAME =
+  /^(?:อยู่|บ้าน|โทร|เบอร์|มี|ที่|หมู่|อายุ|ต้องการ|ขอ|ติด|น้ำ|ป่วย|และ|กับ|ค่ะ|ครับ|คะ|นะ|ช่วย|แจ้ง|ตอนนี้|พร้อม)/
+
+const extractName = (text: string) => {
+  const match = text.match(NAME_PREFIX_PATTERN)
+  if (!match?.indices || NOT_A_NAME.test(match[1])) return null
+
+  const hasLastname = !!match[2] && !NOT_A_NAME.test(match[2])
+  return {
+    name: match[1],
+    lastname: hasLastname ? match[2] : '',
+    nameSpan: match.indices[1] as Span,
+    lastnameSpan: hasLastname ? (match.indices[2] as Span) : null,
+  }
+}
+
+// Number after the keyword, e.g. "ผู้สูงอายุ 2 คน"; a bare mention counts as 1
+const countOf = (text: string, keyword: string) => {
+  const withNumber = text.match(new RegExp(`(?:${keyword})\\s*(\\d{1,3})`))
+  if (withNumber) {
+    return { count: Number(withNumber[1]), spans: [spanOf(withNumber)] }
+  }
+  const mention = text.match(new RegExp(keyword))
+  return mention
+    ? { count: 1, spans: [spanOf(mention)] }
+    : { count: 0, spans: [] }
+}
+
+const INFANT_KEYWORDS = 'ทารก|เด็กอ่อน|เด็กแรกเกิด'
+const CHILD_KEYWORDS = 'เด็ก(?!อ่อน|แรกเกิด)(?:เล็ก)?'
+const SENIOR_KEYWORDS = 'ผู้สูงอายุ|คนแก่|คนชรา|ผู้สูงวัย'
+const PATIENT_KEYWORDS = 'ผู้ป่วย|คนป่วย|คนไข้|ติดเตียง'
+// Not the village headman (ผู้ใหญ่บ้าน)
+const ADULT_KEYWORDS = 'ผู้ใหญ่(?!บ้าน)'
+// Head count for the whole household, e.g. "ติดอยู่บนหลังคา 5 คน"
+const TOTAL_PATTERN =
+  /(?:ทั้งหมด|รวม|จำนวน|ติดอยู่[^\d\n]{0,20})\s*(\d{1,3})\s*คน/
+
+const HEALTH_PATTERN =
+  /ติดเตียง|ป่วย[^\s,]*|โรค[^\s,]+|พิการ|ตั้งครรภ์|คนท้อง|ฟอกไต|ให้ออกซิเจน|บาดเจ็บ/g
+
+// Help category ids (see taxonomy.ts) and the words that signal them
+const HELP_KEYWORDS: [HelpCategoryId, RegExp][] = [
+  ['drowning', /จมน้ำ/],
+  ['trapped', /ติดอยู่|ติดค้าง|ออกไม่ได้|น้ำปิดทุกทาง|ติดบนหลังคา|ติดขัง/],
+  ['water', /น้ำดื่ม|น้ำกิน|ขาดน้ำ/],
+  ['food', /อาหาร|ข้าวสาร|ขาดข้าว|หิว|นมผง|นมเด็ก/],
+  ['electricity', /ไฟดับ|ไม่มีไฟ|ไฟฟ้า|แบตหมด|พาวเวอร์แบงก์|พาวเวอร์แบงค์/],
+  ['shelter', /ที่พักพิง|ศูนย์พักพิง|ที่พัก|ที่หลบภัย/],
+  ['medical', /บาดเจ็บ|คนเจ็บ|รักษา|หมอ|พยาบาล|เลือดออก|หายใจไม่ออก/],
+  ['medicine', /ขาดยา|ยาหมด|ยาประจำตัว|ต้องการยา|อินซูลิน/],
+  ['evacuation', /อพยพ|เรือ|รถยกสูง|ขนย้าย|พาออก|รับออก/],
+  ['missing', /สูญหาย|คนหาย|หายตัว/],
+  ['clothes', /เสื้อผ้า/],
+  ['unreachable', /ติดต่อไม่ได้|ติดต่อไม่ติด|โทรไม่ติด|ขาดการติดต่อ/],
+]
+
+// Urgency rules from extract-report's system prompt
+const CRITICAL_PATTERN =
+  /หลังคา|จมน้ำ|เสียชีวิต|คนตาย|กำลังจะตาย|ใกล้ตาย|หมดสติ|หายใจไม่ออก|วิกฤต/
+// ไม่/ยังไม่ earlier in the same phrase, e.g. "น้ำยังไม่ถึงหลังคา"
+const NEGATED_BEFORE = /ไม่[^\s,]{0,10}$/
+const VULNERABLE_PATTERN =
+  /ติดเตียง|ช่วยเหลือตัวเองไม่ได้|พิการ|ฟอกไต|ให้ออกซิเจน|เด็กเล็ก/
+const UPPER_FLOOR_PATTERN = /ชั้น\s*(?:2|สอง)|ชั้นบน/
+const FLOODED_PATTERN = /ท่วม/
+
+// "ต้องการ..." and "ขาด..." phrases. Links and coordinates are blanked out
+// rather than removed so offsets still point into the original message.
+const HELP_NEEDED_PATTERN = /(?:ต้องการ|ขาด)[^\n,]*/g
+
+const extractHelpNeeded = (text: string) => {
+  const blanked = text
+    .replace(/https?:\/\/\S+/g, (url) => ' '.repeat(url.length))
+    .replace(new RegExp(COORDINATE_PATTERN, 'g'), (coordinates) =>
+      ' '.repeat(coordinates.length),
+    )
+
+  const phrases: string[] = []
+  const spans: Span[] = []
+  for (const match of matchAllOf(blanked, HELP_NEEDED_PATTERN)) {
+    const phrase = match[0].trimEnd()
+    phrases.push(phrase)
+    spans.push([match.index!, match.index! + phrase.length])
+  }
+  return { helpNeeded: phrases.join(', '), spans }
+}
+
+export const extractWithRules = (rawMessage: string): RuleExtractedReport => {
+  const text = normalizeDigits(rawMessage)
+  const spans: Record<string, Span[]> = {}
+
+  const { phones, spans: phoneSpans } = extractPhones(text)
+  spans.phone = phoneSpans
+
+  const mapLink = rawMessage.match(MAP_LINK_PATTERN)
+  if (mapLink) spans.map_link = [spanOf(mapLink)]
+  const coordinates = extractCoordinates(text)
+  if (coordinates) {
+    spans.location_lat = [coordinates.span]
+    spans.location_long = [coordinates.span]
+  }
+
+  const address = extractAddress(text, phoneSpans)
+  if (address) spans.address = [[address.start, address.end]]
+
+  const name = extractName(rawMessage)
+  if (name) {
+    spans.name = [name.nameSpan]
+    if (name.lastnameSpan) spans.lastname = [name.lastnameSpan]
+  }
+
+  const infants = countOf(text, INFANT_KEYWORDS)
+  const children = countOf(text, CHILD_KEYWORDS)
+  const seniors = countOf(text, SENIOR_KEYWORDS)
+  const patients = countOf(text, PATIENT_KEYWORDS)
+  let adults = new RegExp(ADULT_KEYWORDS).test(text)
+    ? countOf(text, ADULT_KEYWORDS)
+    : { count: 0, spans: [] as Span[] }
+  const total = text.match(TOTAL_PATTERN)
+  if (adults.count === 0 && total) {
+    adults = {
+      count: Math.max(
+        0,
+        Number(total[1]) - infants.count - children.count - seniors.count,
+      ),
+      spans: [spanOf(total)],
+    }
+  }
+  spans.number_of_adults = adults.spans
+  spans.number_of_children = children.spans
+  spans.number_of_infants = infants.spans
+  spans.number_of_seniors = seniors.spans
+  spans.number_of_patients = patients.spans
+
+  const healthMatches = matchAllOf(rawMessage, HEALTH_PATTERN)
+  spans.health_condition = healthMatches.map((match) => spanOf(match))
+
+  const helpCategories: HelpCategoryId[] = []
+  spans.help_categories = []
+  for (const [id, pattern] of HELP_KEYWORDS) {
+    const match = text.match(pattern)
+    if (!match) continue
+    helpCategories.push(id)
+    spans.help_categories.push(spanOf(match))
+  }
+
+  const { helpNeeded, spans: helpNeededSpans } = extractHelpNeeded(rawMessage)
+  spans.help_needed = helpNeededSpans
+
+  // Highest level first, as in the prompt's urgency rules
+  const critical = matchAllOf(text, CRITICAL_PATTERN).find(
+    (match) => !NEGATED_BEFORE.test(text.slice(0, match.index)),
+  )
+  const vulnerable = text.match(VULNERABLE_PATTERN)
+  const upperFloor = text.match(UPPER_FLOOR_PATTERN)
+  const flooded = text.match(FLOODED_PATTERN)
+  const [urgency, urgencySpans]: [number, Span[]] = critical
+    ? [5, [spanOf(critical)]]
+    : patients.count > 0 || infants.count > 0
+      ? [4, [...patients.spans, ...infants.spans]]
+      : vulnerable
+        ? [4, [spanOf(vulnerable)]]
+        : children.count > 0 || seniors.count > 0
+          ? [3, [...children.spans, ...seniors.spans]]
+          : upperFloor
+            ? [3, [spanOf(upperFloor)]]
+            : flooded
+              ? [2, [spanOf(flooded)]]
+              : [1, []]
+  spans.urgency_level = urgencySpans
+
+  const report = {
+    name: name?.name ?? '',
+    lastname: name?.lastname ?? '',
+    reporter_name: '',
+    last_contact_at: '',
+    address: address ? rawMessage.slice(address.start, address.end) : '',
+    location_lat: coordinates?.lat ?? '',
+    location_long: coordinates?.lng ?? '',
+    map_link: mapLink?.[0] ?? '',
+    phone: phones,
+    number_of_adults: adults.count,
+    number_of_children: children.count,
+    number_of_infants: infants.count,
+    number_of_seniors: seniors.count,
+    number_of_patients: patients.count,
+    health_condition: [...new Set(healthMatches.map((match) => match[0]))].join(
+      ', ',
+    ),
+    help_needed: helpNeeded,
+    help_categories: helpCategories,
+    supply_items: [],
+    additional_info: '',
+    urgency_level: urgency,
+    raw_message: rawMessage,
+  }
+
+  // Evidence for every field that was filled in, at the rule's confidence
+  const fieldEvidence: FieldEvidenceMap = {}
+  for (const [field, fieldSpans] of Object.entries(spans)) {
+    if (fieldSpans.length === 0) continue
+    fieldEvidence[field] = {
+      confidence: RULE_CONFIDENCE[field],
+      spans: fieldSpans,
+    }
+  }
+  fieldEvidence.urgency_level ??= {
+    confidence: RULE_CONFIDENCE.urgency_level,
+    spans: [],
+  }
+
+  return {
+    ...report,
+    extraction_confidence: 'low',
+    field_evidence: fieldEvidence,
+  }
+}
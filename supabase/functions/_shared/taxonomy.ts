@@ -0,0 +1,179 @@
+// Help categories and urgency levels, shared by the web app (through
+// src/constants/helpCategories.ts, via the @shared alias), the edge functions
+// and the extraction prompt. A category added here shows up in the Review
+// checkboxes, LINE cards, the LLM schema and its prompt together. No imports,
+// so Vite and Deno can both load this file.
+
+// description is the English hint given to the LLM
+export const HELP_CATEGORIES = [
+  {
+    id: 'drowning',
+    label: 'จมน้ำ',
+    icon: '🌊',
+    description: 'person in water/drowning',
+  },
+  {
+    id: 'trapped',
+    label: 'ติดขัง',
+    icon: '🚪',
+    description:
+      'trapped/stuck, water blocking all paths (น้ำปิดทุกทาง), cannot leave (ออกไม่ได้)',
+  },
+  {
+    id: 'unreachable',
+    label: 'ติดต่อไม่ได้',
+    icon: '📵',
+    description: 'cannot contact/unreachable',
+  },
+  {
+    id: 'water',
+    label: 'ขาดน้ำดื่ม',
+    icon: '💧',
+    description: 'lack of drinking water',
+  },
+  { id: 'food', label: 'ขาดอาหาร', icon: '🍚', description: 'lack of food' },
+  {
+    id: 'electricity',
+    label: 'ขาดไฟฟ้า',
+    icon: '⚡',
+    description: 'no electricity',
+  },
+  {
+    id: 'shelter',
+    label: 'ต้องการที่พักพิง',
+    icon: '🏠',
+    description: 'need shelter',
+  },
+  {
+    id: 'medical',
+    label: 'คนเจ็บ/ต้องการรักษา',
+    icon: '🏥',
+    description: 'injured/need medical care',
+  },
+  { id: 'medicine', label: 'ขาดยา', icon: '💊', description: 'need medicine' },
+  {
+    id: 'evacuation',
+    label: 'ต้องการอพยพ',
+    icon: '🚁',
+    description: 'need evacuation',
+  },
+  { id: 'missing', label: 'คนหาย', icon: '🔍', description: 'missing person' },
+  { id: 'clothes', label: 'เสื้อผ้า', icon: '👕', description: 'need clothes' },
+  { id: 'other', label: 'อื่นๆ', icon: '📦', description: 'other needs' },
+] as const
+
+export type HelpCategoryId = (typeof HELP_CATEGORIES)[number]['id']
+
+export const HELP_CATEGORY_IDS: HelpCategoryId[] = HELP_CATEGORIES.map(
+  (category) => category.id,
+)
+
+export const isHelpCategoryId = (id: string): id is HelpCategoryId =>
+  HELP_CATEGORY_IDS.includes(id as HelpCategoryId)
+
+export const getHelpCategoryLabel = (id: string): string =>
+  HELP_CATEGORIES.find((category) => category.id === id)?.label || id
+
+// Categories met by sending supplies, with the line item suggested when a
+// report asks for one; perPerson quantities are multiplied by people in the case
+export const SUPPLY_DEFAULTS: Partial<
+  Record<
+    HelpCategoryId,
+    { item: string; unit: string; quantity: number; perPerson: boolean }
+  >
+> = {
+  water: { item: 'น้ำดื่ม', unit: 'ขวด', quantity: 6, perPerson: true },
+  food: { item: 'อาหารพร้อมทาน', unit: 'ชุด', quantity: 3, perPerson: true },
+  medicine: {
+    item: 'ยาสามัญประจำบ้าน',
+    unit: 'ชุด',
+    quantity: 1,
+    perPerson: false,
+  },
+  clothes: { item: 'เสื้อผ้า', unit: 'ชุด', quantity: 1, perPerson: true },
+  shelter: { item: 'ผ้าห่ม', unit: 'ผืน', quantity: 1, perPerson: true },
+  electricity: {
+    item: 'ไฟฉาย/พาวเวอร์แบงก์',
+    unit: 'ชิ้น',
+    quantity: 1,
+    perPerson: false,
+  },
+}
+
+// Supply lines can also be for anything else ('other')
+export const SUPPLY_CATEGORY_IDS: HelpCategoryId[] = HELP_CATEGORY_IDS.filter(
+  (id) => id in SUPPLY_DEFAULTS,
+).concat('other')
+
+// label is the short name (LINE cards, map legend), description the Thai
+// criteria shown in the app, criteria the rule given to the LLM
+export const URGENCY_LEVELS = [
+  {
+    level: 1,
+    label: 'ต่ำ',
+    englishLabel: 'Low',
+    description: 'ยังไม่โดนน้ำ / แจ้งเตือน',
+    criteria:
+      'ไม่มีน้ำท่วม หรือเป็นเพียงการเตือน - Not flooded yet / warning only',
+    color: '#16A34A',
+    background: '#D1FAE5',
+  },
+  {
+    level: 2,
+    label: 'ปานกลาง',
+    englishLabel: 'Moderate',
+    description: 'ผู้ใหญ่ทั้งหมด น้ำท่วมชั้นล่าง',
+    criteria:
+      'มีแต่ผู้ใหญ่ ไม่มีเด็ก/ผู้สูงอายุ/ทารก/ผู้ป่วย น้ำท่วมชั้นล่าง - Adults only, no vulnerable groups, ground floor flooded',
+    color: '#2563EB',
+    background: '#DBEAFE',
+  },
+  {
+    level: 3,
+    label: 'เร่งด่วน',
+    englishLabel: 'Urgent',
+    description: 'มีเด็ก หรือผู้สูงอายุ หรือน้ำถึงชั้นสอง',
+    criteria:
+      'มีเด็ก หรือผู้สูงอายุ หรือน้ำถึงชั้นสอง - Has children OR seniors, OR water reached second floor',
+    color: '#CA8A04',
+    background: '#FEF3C7',
+  },
+  {
+    level: 4,
+    label: 'เร่งด่วนมาก',
+    englishLabel: 'Very Urgent',
+    description: 'เด็กเล็กมาก หรือทารก หรือมีคนไข้/ป่วยติดเตียง',
+    criteria:
+      'มีเด็กเล็กมาก (<3 ปี) หรือทารก หรือมีคนไข้/ผู้ป่วยติดเตียง หรือคนที่ช่วยเหลือตัวเองไม่ได้ ยังไม่ถึงขั้นวิกฤติ - Very young children (<3 years) OR infants OR sick people/bedridden patients (มีคนไข้, ป่วยติดเตียง) OR people unable to self-rescue, not yet critical',
+    color: '#EA580C',
+    background: '#FFEDD5',
+  },
+  {
+    level: 5,
+    label: 'วิกฤติ',
+    englishLabel: 'Critical',
+    description: 'วิกฤต: น้ำถึงหลังคา/ติดบนหลังคา ทารกในอันตราย',
+    criteria:
+      'วิกฤติ - น้ำถึงหลังคา/ติดบนหลังคา (water at roof level/stuck on roof), ทารกตกอยู่ในอันตราย (infants in danger), คนไข้อาการหนัก/ฉุกเฉิน (patients with serious conditions/medical emergency), ผู้สูงอายุช่วยเหลือตัวเองไม่ได้ (elderly unable to self-rescue), หรือมีคนตาย (someone dead/dying)',
+    color: '#DC2626',
+    background: '#FEE2E2',
+  },
+] as const
+
+export type UrgencyLevel = (typeof URGENCY_LEVELS)[number]['level']
+
+export const MIN_URGENCY_LEVEL = URGENCY_LEVELS[0].level
+export const MAX_URGENCY_LEVEL = URGENCY_LEVELS[URGENCY_LEVELS.length - 1].level
+
+export const isUrgencyLevel = (level: number): level is UrgencyLevel =>
+  URGENCY_LEVELS.some((urgency) => urgency.level === level)
+
+export const getUrgency = (level: number) =>
+  URGENCY_LEVELS.find((urgency) => urgency.level === level)
+
+// Map markers, heatmap cells and LINE cards
+export const URGENCY_COLORS = Object.fromEntries(
+  URGENCY_LEVELS.map((urgency) => [urgency.level, urgency.color]),
+) as Record<UrgencyLevel, string>
+
+export const UNKNOWN_URGENCY_COLOR = '#9E9E9E'
@@ -1,12 +1,57 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
 
+import {
+  type FunctionDeclaration,
+  getLlmProvider,
+  type LlmProvider,
+} from '../_shared/llm/index.ts'
+import {
+  HELP_CATEGORY_IDS,
+  MAX_URGENCY_LEVEL,
+  MIN_URGENCY_LEVEL,
+  URGENCY_LEVELS,
+} from '../_shared/taxonomy.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers':
     'authorization, x-client-info, apikey, content-type, x-api-key',
 }
 
+const EXTRACT_REPORT_FUNCTION: FunctionDeclaration = {
+  name: 'extract_report_data',
+  description:
+    'Extract structured disaster victim information from raw message',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      lastname: { type: 'string' },
+      reporter_name: { type: 'string' },
+      phone: { type: 'array', items: { type: 'string' } },
+      address: { type: 'string' },
+      map_link: { type: 'string' },
+      location_lat: { type: 'string' },
+      location_long: { type: 'string' },
+      number_of_adults: { type: 'integer' },
+      number_of_children: { type: 'integer' },
+      number_of_infants: { type: 'integer' },
+      number_of_seniors: { type: 'integer' },
+      number_of_patients: { type: 'integer' },
+      health_condition: { type: 'string' },
+      help_needed: { type: 'string' },
+      help_categories: {
+        type: 'array',
+        items: { type: 'string', enum: HELP_CATEGORY_IDS },
+      },
+      last_contact_at: { type: 'string' },
+      additional_info: { type: 'string' },
+      urgency_level: { type: 'integer' },
+    },
+  },
+}
+
 // Validate API key and check rate limit
 async function validateApiKey(
   apiKey: string,
@@ -121,8 +166,10 @@ serve(async (req) => {
       )
     }
 
-    const geminiApiKey = Deno.env.get('GEMINI_API_KEY')
-    if (!geminiApiKey) {
+    let llm: LlmProvider
+    try {
+      llm = getLlmProvider()
+    } catch (error) {
       await logApiUsage(
         validation.apiKeyId!,
         '/api/v1/extract',
@@ -130,7 +177,12 @@ serve(async (req) => {
         supabase,
       )
       return new Response(
-        JSON.stringify({ error: 'Gemini API key not configured' }),
+        JSON.stringify({
+          error:
+            error instanceof Error
+              ? error.message
+              : 'LLM provider not configured',
+        }),
         {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -157,81 +209,24 @@ serve(async (req) => {
 - number_of_adults, number_of_children, number_of_infants, number_of_seniors, number_of_patients: จำนวนคน
 - health_condition: สถานะสุขภาพ
 - help_needed: ความช่วยเหลือที่ต้องการ
-- help_categories: หมวดหมู่ความช่วยเหลือ (array จาก: water, food, power, shelter, medical, missing, evacuation, medicine, clothes, bathing, drowning, trapped, unreachable)
+- help_categories: หมวดหมู่ความช่วยเหลือ (array จาก: ${HELP_CATEGORY_IDS.join(', ')})
 - last_contact_at: เวลาติดต่อครั้งล่าสุด (ISO format ถ้ามี)
 - additional_info: ข้อมูลเพิ่มเติมที่สำคัญ
-- urgency_level: ระดับความเร่งด่วน (1-5):
-  * 1: แจ้งเตือนเท่านั้น ยังไม่ถูกน้ำท่วม
-  * 2: มีผู้ใหญ่เท่านั้น สถานการณ์ปกติ
-  * 3: มีเด็กหรือผู้สูงอายุ หรือน้ำถึงชั้น 2
-  * 4: มีเด็กเล็กต่ำกว่า 3 ปี, ผู้ป่วยติดเตียง, ผู้สูงอายุช่วยเหลือตัวเองไม่ได้, หรือมีปัญหาสุขภาพฉุกเฉิน (ถ้ามีผู้ป่วยต้องเป็นอย่างน้อย level 4)
-  * 5: น้ำถึงหลังคา, มีทารก, จมน้ำ/แช่น้ำ, มีผู้เสียชีวิต, ติดบนหลังคาหรือพื้นที่ไม่สามารถเข้าถึงได้, หรือฉุกเฉินด้านสุขภาพวิกฤต
+- urgency_level: ระดับความเร่งด่วน (${MIN_URGENCY_LEVEL}-${MAX_URGENCY_LEVEL}):
+${URGENCY_LEVELS.map((urgency) => `  * ${urgency.level}: ${urgency.criteria}`).join('\n')}
 
 **การจัดการข้อความหลายรายงาน:**
 - ถ้ามีข้อมูลหลายคนในข้อความเดียว ให้แยกเป็นหลาย object
 - แต่ละ object ต้องมี raw_message เหมือนกันทั้งหมด (ข้อความต้นฉบับเดิม)`
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: `${systemPrompt}\n\nข้อความที่ต้องวิเคราะห์:\n${message}`,
-                },
-              ],
-            },
-          ],
-          tools: [
-            {
-              functionDeclarations: [
-                {
-                  name: 'extract_report_data',
-                  description:
-                    'Extract structured disaster victim information from raw message',
-                  parameters: {
-                    type: 'object',
-                    properties: {
-                      name: { type: 'string' },
-                      lastname: { type: 'string' },
-                      reporter_name: { type: 'string' },
-                      phone: { type: 'array', items: { type: 'string' } },
-                      address: { type: 'string' },
-                      map_link: { type: 'string' },
-                      location_lat: { type: 'string' },
-                      location_long: { type: 'string' },
-                      number_of_adults: { type: 'integer' },
-                      number_of_children: { type: 'integer' },
-                      number_of_infants: { type: 'integer' },
-                      number_of_seniors: { type: 'integer' },
-                      number_of_patients: { type: 'integer' },
-                      health_condition: { type: 'string' },
-                      help_needed: { type: 'string' },
-                      help_categories: {
-                        type: 'array',
-                        items: { type: 'string' },
-                      },
-                      last_contact_at: { type: 'string' },
-                      additional_info: { type: 'string' },
-                      urgency_level: { type: 'integer' },
-                    },
-                  },
-                },
-              ],
-            },
-          ],
-          toolConfig: { functionCallingConfig: { mode: 'ANY' } },
-        }),
-      },
-    )
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Gemini API error:', errorText)
+    let functionCalls: Record<string, unknown>[]
+    try {
+      functionCalls = await llm.callFunction({
+        prompt: `${systemPrompt}\n\nข้อความที่ต้องวิเคราะห์:\n${message}`,
+        function: EXTRACT_REPORT_FUNCTION,
+      })
+    } catch (error) {
+      console.error('LLM error:', error)
       await logApiUsage(
         validation.apiKeyId!,
         '/api/v1/extract',
@@ -240,8 +235,8 @@ serve(async (req) => {
       )
       return new Response(
         JSON.stringify({
-          error: 'Failed to process with Gemini API',
-          details: errorText,
+          error: 'Failed to process with LLM provider',
+          details: error instanceof Error ? error.message : String(error),
         }),
         {
           status: 500,
@@ -249,42 +244,25 @@ serve(async (req) => {
         },
       )
     }
+    console.log('AI Response:', JSON.stringify(functionCalls))
 
-    const data = await response.json()
-    console.log('AI Response:', JSON.stringify(data))
-
-    const functionCall = data.candidates?.[0]?.content?.parts?.[0]?.functionCall
-
-    if (!functionCall || functionCall.name !== 'extract_report_data') {
-      await logApiUsage(
-        validation.apiKeyId!,
-        '/api/v1/extract',
-        false,
-        supabase,
-      )
-      return new Response(
-        JSON.stringify({ error: 'No valid extraction result from AI' }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        },
-      )
-    }
+    // This endpoint returns one report; the first call is the main victim
+    const args = functionCalls[0]
 
     const extractedData = {
-      ...functionCall.args,
+      ...args,
       raw_message: message,
-      name: functionCall.args.name || '',
-      lastname: functionCall.args.lastname || '',
-      location_lat: functionCall.args.location_lat || '',
-      location_long: functionCall.args.location_long || '',
-      number_of_adults: functionCall.args.number_of_adults || 0,
-      number_of_children: functionCall.args.number_of_children || 0,
-      number_of_infants: functionCall.args.number_of_infants || 0,
-      number_of_seniors: functionCall.args.number_of_seniors || 0,
-      number_of_patients: functionCall.args.number_of_patients || 0,
-      help_needed: functionCall.args.help_needed || '',
-      last_contact_at: functionCall.args.last_contact_at || '',
+      name: args.name || '',
+      lastname: args.lastname || '',
+      location_lat: args.location_lat || '',
+      location_long: args.location_long || '',
+      number_of_adults: args.number_of_adults || 0,
+      number_of_children: args.number_of_children || 0,
+      number_of_infants: args.number_of_infants || 0,
+      number_of_seniors: args.number_of_seniors || 0,
+      number_of_patients: args.number_of_patients || 0,
+      help_needed: args.help_needed || '',
+      last_contact_at: args.last_contact_at || '',
     }
 
     console.log('Extracted data:', extractedData)
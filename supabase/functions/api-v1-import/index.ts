@@ -0,0 +1,323 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type, x-api-key',
+}
+
+// import-reports takes at most this many rows per request (its MAX_ROWS)
+const BATCH_SIZE = 100
+// Batches run one after another, so one call must finish inside the function timeout
+const MAX_ROWS = 1000
+
+type RowStatus = 'inserted' | 'duplicate' | 'invalid' | 'failed'
+
+// Per-row result from import-reports; fields not read here are passed through
+interface RowResult {
+  row: number
+  status: RowStatus
+  errors?: string[]
+}
+
+// Validate API key and check rate limit
+async function validateApiKey(
+  apiKey: string,
+  supabase: ReturnType<typeof createClient>,
+): Promise<{ valid: boolean; error?: string; apiKeyId?: string }> {
+  if (!apiKey) {
+    return {
+      valid: false,
+      error: 'API key is required. Please include X-API-Key header.',
+    }
+  }
+
+  // Check if API key exists and is active
+  const { data: keyData, error: keyError } = await supabase
+    .from('api_keys')
+    .select('id, user_id, rate_limit_per_minute, is_active')
+    .eq('api_key', apiKey)
+    .eq('is_active', true)
+    .single()
+
+  if (keyError || !keyData) {
+    return { valid: false, error: 'Invalid or inactive API key.' }
+  }
+
+  // Check rate limit - count requests in the last minute
+  const oneMinuteAgo = new Date(Date.now() - 60000).toISOString()
+  const { count, error: countError } = await supabase
+    .from('api_usage_logs')
+    .select('*', { count: 'exact', head: true })
+    .eq('api_key_id', keyData.id)
+    .gte('called_at', oneMinuteAgo)
+
+  if (countError) {
+    console.error('Error checking rate limit:', countError)
+    return { valid: false, error: 'Error checking rate limit.' }
+  }
+
+  if (count && count >= keyData.rate_limit_per_minute) {
+    return {
+      valid: false,
+      error: `Rate limit exceeded. Maximum ${keyData.rate_limit_per_minute} requests per minute.`,
+    }
+  }
+
+  // Update last_used_at
+  await supabase
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', keyData.id)
+
+  return { valid: true, apiKeyId: keyData.id }
+}
+
+// Log API usage
+async function logApiUsage(
+  apiKeyId: string,
+  endpoint: string,
+  success: boolean,
+  supabase: ReturnType<typeof createClient>,
+) {
+  await supabase.from('api_usage_logs').insert({
+    api_key_id: apiKeyId,
+    endpoint,
+    success,
+  })
+}
+
+// Minimal RFC 4180 parser: quoted fields, doubled quotes, CRLF, UTF-8 BOM
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim()))
+}
+
+// Header row + data rows -> objects keyed by report field. Without a mapping
+// the headers are expected to be the field names themselves.
+function toRows(
+  table: string[][],
+  mapping?: Record<string, string>,
+): Record<string, unknown>[] {
+  const [headers = [], ...data] = table
+  const fields = headers.map((header) =>
+    mapping ? mapping[header.trim()] : header.trim(),
+  )
+
+  return data.map((cells, index) => {
+    // Line 1 is the header
+    const row: Record<string, unknown> = { row_number: index + 2 }
+    fields.forEach((field, column) => {
+      if (field) row[field] = cells[column] ?? ''
+    })
+    return row
+  })
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseKey)
+
+  try {
+    // Extract API key from header
+    const apiKey = req.headers.get('X-API-Key') || req.headers.get('x-api-key')
+
+    // Validate API key and check rate limit
+    const validation = await validateApiKey(apiKey || '', supabase)
+
+    if (!validation.valid) {
+      await logApiUsage(
+        validation.apiKeyId || '',
+        '/api/v1/import',
+        false,
+        supabase,
+      )
+      return new Response(JSON.stringify({ error: validation.error }), {
+        status: validation.error?.includes('Rate limit') ? 429 : 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    // Either JSON { rows | csv, mapping?, source?, skipDuplicates? } or a raw
+    // CSV body whose header row uses report field names
+    let body: {
+      rows?: Record<string, unknown>[]
+      csv?: string
+      mapping?: Record<string, string>
+      source?: string
+      skipDuplicates?: boolean
+    }
+    if ((req.headers.get('Content-Type') ?? '').includes('text/csv')) {
+      body = { csv: await req.text() }
+    } else {
+      body = await req.json()
+    }
+
+    let rows = body.rows
+    if (!rows && body.csv) {
+      rows = toRows(parseCsv(body.csv), body.mapping)
+    } else if (rows && body.mapping) {
+      rows = rows.map((row) =>
+        Object.fromEntries(
+          Object.entries(row)
+            .map(([key, value]) => [body.mapping![key] ?? key, value])
+            .filter(([field]) => field),
+        ),
+      )
+    }
+
+    if (!rows || rows.length === 0) {
+      await logApiUsage(validation.apiKeyId!, '/api/v1/import', false, supabase)
+      return new Response(
+        JSON.stringify({
+          error: 'rows or csv with at least one row is required',
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        },
+      )
+    }
+
+    if (rows.length > MAX_ROWS) {
+      await logApiUsage(validation.apiKeyId!, '/api/v1/import', false, supabase)
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_ROWS} rows per request` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        },
+      )
+    }
+
+    console.log('Importing', rows.length, 'rows via API...')
+
+    // Number rows before splitting them, so results refer to the whole payload
+    const numbered = rows.map((row, index) => ({
+      row_number: index + 1,
+      ...row,
+    }))
+
+    // Validation, duplicate checks and the insert live in import-reports; the
+    // actor header attributes the new reports to this API key. Batches run in
+    // order, so a household repeated in a later batch matches the saved one.
+    const results: RowResult[] = []
+    let firstError: { status: number; error: string } | null = null
+    for (let start = 0; start < numbered.length; start += BATCH_SIZE) {
+      const batch = numbered.slice(start, start + BATCH_SIZE)
+      const response = await fetch(
+        `${supabaseUrl}/functions/v1/import-reports`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${supabaseKey}`,
+            'x-actor-api-key-id': validation.apiKeyId!,
+          },
+          body: JSON.stringify({
+            rows: batch,
+            source: body.source || 'API',
+            skipDuplicates: body.skipDuplicates ?? true,
+          }),
+        },
+      )
+      const result = await response.json()
+
+      if (response.ok) {
+        results.push(...result.results)
+      } else {
+        // Keep going; the rows of a failed batch are reported as failed
+        console.error('Import batch failed:', result.error)
+        firstError ??= { status: response.status, error: result.error }
+        results.push(
+          ...batch.map((row) => ({
+            row: Number(row.row_number),
+            status: 'failed' as const,
+            errors: [result.error],
+          })),
+        )
+      }
+    }
+
+    const summary = {
+      inserted: results.filter((r) => r.status === 'inserted').length,
+      duplicate: results.filter((r) => r.status === 'duplicate').length,
+      invalid: results.filter((r) => r.status === 'invalid').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+    }
+    const allFailed = firstError !== null && summary.failed === results.length
+
+    await logApiUsage(
+      validation.apiKeyId!,
+      '/api/v1/import',
+      firstError === null,
+      supabase,
+    )
+
+    return new Response(
+      JSON.stringify(
+        allFailed
+          ? { success: false, error: firstError!.error }
+          : { success: firstError === null, results, summary },
+      ),
+      {
+        status: allFailed ? firstError!.status : 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    )
+  } catch (error) {
+    console.error('Error in api-v1-import function:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    )
+  }
+})
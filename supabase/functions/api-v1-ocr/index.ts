@@ -3,6 +3,8 @@ import 'https://deno.land/x/xhr@0.1.0/mod.ts'
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
 
+import { getLlmProvider, type LlmProvider } from '../_shared/llm/index.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers':
@@ -118,10 +120,12 @@ serve(async (req) => {
       )
     }
 
-    const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')
-    if (!GEMINI_API_KEY) {
+    let llm: LlmProvider
+    try {
+      llm = getLlmProvider()
+    } catch (error) {
       await logApiUsage(validation.apiKeyId!, '/api/v1/ocr', false, supabase)
-      throw new Error('GEMINI_API_KEY is not configured')
+      throw error
     }
 
     let mimeType: string
@@ -188,26 +192,11 @@ serve(async (req) => {
       'MB',
     )
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: 'user',
-              parts: [
-                {
-                  inlineData: {
-                    mimeType: mimeType,
-                    data: base64Data,
-                  },
-                },
-                {
-                  text: `อ่านข้อความทั้งหมดจากรูปภาพนี้ ให้ผลลัพธ์เป็นข้อความล้วนๆ ไม่ต้องมีคำอธิบายหรือหมายเหตุใดๆ
+    let extractedText: string
+    try {
+      extractedText = await llm.generateText({
+        images: [{ mimeType, data: base64Data }],
+        prompt: `อ่านข้อความทั้งหมดจากรูปภาพนี้ ให้ผลลัพธ์เป็นข้อความล้วนๆ ไม่ต้องมีคำอธิบายหรือหมายเหตุใดๆ
 
 กฎ:
 1. อ่านข้อความทุกบรรทัดตามลำดับจากบนลงล่าง
@@ -216,26 +205,16 @@ serve(async (req) => {
 4. ถ้ามีที่อยู่ ให้อ่านให้ครบถ้วน
 5. ถ้าไม่มีข้อความในรูป ให้ตอบว่า "ไม่พบข้อความในรูปภาพ"
 6. ตอบเฉพาะข้อความที่อ่านได้ ไม่ต้องเพิ่มคำอธิบาย`,
-                },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 4096,
-          },
-        }),
-      },
-    )
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Gemini API error:', errorText)
+        temperature: 0.1,
+        maxOutputTokens: 4096,
+      })
+    } catch (error) {
+      console.error('LLM error:', error)
       await logApiUsage(validation.apiKeyId!, '/api/v1/ocr', false, supabase)
       return new Response(
         JSON.stringify({
           error: 'ไม่สามารถประมวลผลรูปภาพได้',
-          details: errorText,
+          details: error instanceof Error ? error.message : String(error),
         }),
         {
           status: 500,
@@ -244,9 +223,6 @@ serve(async (req) => {
       )
     }
 
-    const data = await response.json()
-    const extractedText = data.candidates?.[0]?.content?.parts?.[0]?.text
-
     if (!extractedText) {
       await logApiUsage(validation.apiKeyId!, '/api/v1/ocr', false, supabase)
       return new Response(
@@ -119,8 +119,13 @@ serve(async (req) => {
 
     console.log('Saving report data...')
 
+    // Attribute the write to this API key in the report_events audit trail
+    const actorClient = createClient(supabaseUrl, supabaseKey, {
+      global: { headers: { 'x-actor-api-key-id': validation.apiKeyId! } },
+    })
+
     // Insert the report
-    const { data, error } = await supabase
+    const { data, error } = await actorClient
       .from('reports')
       .insert([reportData])
       .select()
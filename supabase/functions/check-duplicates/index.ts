@@ -13,11 +13,23 @@ serve(async (req) => {
   }
 
   try {
-    const { embedding, threshold = 0.85 } = await req.json()
+    const {
+      embedding,
+      phones,
+      name,
+      lastname,
+      address,
+      threshold = 0.85,
+    } = await req.json()
 
-    if (!embedding || !Array.isArray(embedding)) {
+    const hasEmbedding = Array.isArray(embedding) && embedding.length > 0
+    const hasPhones = Array.isArray(phones) && phones.length > 0
+
+    if (!hasEmbedding && !hasPhones && !(name && address)) {
       return new Response(
-        JSON.stringify({ error: 'Embedding array is required' }),
+        JSON.stringify({
+          error: 'Embedding array, phones, or name and address are required',
+        }),
         {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -29,11 +41,15 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseKey)
 
-    console.log('Searching for similar reports with threshold:', threshold)
+    console.log('Searching for duplicate reports with threshold:', threshold)
 
-    // Call the find_similar_reports function
-    const { data, error } = await supabase.rpc('find_similar_reports', {
-      query_embedding: embedding,
+    // Vector similarity combined with phone and name + address matching
+    const { data, error } = await supabase.rpc('find_duplicate_reports', {
+      query_embedding: hasEmbedding ? embedding : null,
+      query_phones: hasPhones ? phones : null,
+      query_name: name || null,
+      query_lastname: lastname || null,
+      query_address: address || null,
       similarity_threshold: threshold,
       match_limit: 5,
     })
@@ -45,10 +61,59 @@ serve(async (req) => {
 
     console.log('Found', data?.length || 0, 'similar reports')
 
+    // Re-read contact fields as the caller so non-responders get them redacted
+    const callerClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization') ?? '' },
+        },
+      },
+    )
+
+    // Only callers who may see contact details get anything beyond which
+    // cases matched and why. Even redacted, a matched case's message still
+    // names the household and where it is, so anyone else probing a phone
+    // number learns nothing about whose case it is.
+    const { data: fullAccess, error: accessError } = await callerClient.rpc(
+      'can_view_contact_details',
+    )
+
+    if (accessError) {
+      console.error('Error checking caller access:', accessError)
+      throw accessError
+    }
+
+    const ids = (data || []).map((duplicate) => duplicate.id)
+    const { data: visibleRows, error: visibleError } =
+      fullAccess && ids.length
+        ? await callerClient
+            .from('visible_reports')
+            .select('id, phone, raw_message')
+            .in('id', ids)
+        : { data: [], error: null }
+
+    if (visibleError) {
+      console.error('Error reading visible reports:', visibleError)
+      throw visibleError
+    }
+
+    const visibleById = new Map((visibleRows || []).map((row) => [row.id, row]))
+    const duplicates = (data || []).map((duplicate) =>
+      fullAccess
+        ? {
+            ...duplicate,
+            phone: visibleById.get(duplicate.id)?.phone ?? [],
+            raw_message: visibleById.get(duplicate.id)?.raw_message ?? '',
+          }
+        : { id: duplicate.id, match_reasons: duplicate.match_reasons },
+    )
+
     return new Response(
       JSON.stringify({
-        duplicates: data || [],
-        count: data?.length || 0,
+        duplicates,
+        count: duplicates.length,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
     )
@@ -2,6 +2,8 @@ import 'https://deno.land/x/xhr@0.1.0/mod.ts'
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 
+import { getLlmProvider } from '../_shared/llm/index.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers':
@@ -27,10 +29,7 @@ serve(async (req) => {
       })
     }
 
-    const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')
-    if (!GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY is not configured')
-    }
+    const llm = getLlmProvider()
 
     const systemPrompt = `คุณเป็นผู้เชี่ยวชาญด้านที่อยู่ในประเทศไทย มีหน้าที่แปลงที่อยู่แบบย่อให้เป็นที่อยู่แบบเต็ม
 
@@ -46,40 +45,12 @@ serve(async (req) => {
 - "123 ม.5 บางกระทุ่ม เมือง เชียงใหม่" → "123 หมู่ 5 ต.บางกระทุ่ม อ.เมือง จ.เชียงใหม่ 50000"
 - "บ้านเลขที่ 45 ถ.สุขุมวิท คลองเตย กทม" → "บ้านเลขที่ 45 ถนนสุขุมวิท แขวงคลองเตย เขตคลองเตย กรุงเทพมหานคร 10110"`
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: 'user',
-              parts: [
-                { text: systemPrompt },
-                { text: `แปลงที่อยู่นี้ให้สมบูรณ์:\n${address}` },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 256,
-          },
-        }),
-      },
-    )
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Gemini API error:', response.status, errorText)
-      throw new Error(`Gemini API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-    const completedAddress =
-      data.candidates?.[0]?.content?.parts?.[0]?.text?.trim()
+    const completedAddress = await llm.generateText({
+      system: systemPrompt,
+      prompt: `แปลงที่อยู่นี้ให้สมบูรณ์:\n${address}`,
+      temperature: 0.1,
+      maxOutputTokens: 256,
+    })
 
     if (!completedAddress) {
       return new Response(JSON.stringify({ completedAddress: address }), {
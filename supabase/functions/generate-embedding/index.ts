@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 
+import { getLlmProvider, LlmError } from '../_shared/llm/index.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers':
@@ -21,55 +23,11 @@ serve(async (req) => {
       })
     }
 
-    const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')
-    if (!GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY is not configured')
-    }
+    const llm = getLlmProvider()
 
     console.log('Generating embedding for text length:', text.length)
 
-    // Generate embedding using Google Gemini's text-embedding-004 model
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'models/text-embedding-004',
-          content: {
-            parts: [
-              {
-                text: text,
-              },
-            ],
-          },
-        }),
-      },
-    )
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Gemini API error:', response.status, errorText)
-
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({
-            error: 'Rate limit exceeded. Please try again later.',
-          }),
-          {
-            status: 429,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          },
-        )
-      }
-
-      throw new Error(`Gemini API error: ${response.status} ${errorText}`)
-    }
-
-    const data = await response.json()
-    const embedding = data.embedding.values
+    const embedding = await llm.embed(text)
 
     console.log(
       'Successfully generated embedding with',
@@ -82,6 +40,19 @@ serve(async (req) => {
     })
   } catch (error) {
     console.error('Error in generate-embedding function:', error)
+
+    if (error instanceof LlmError && error.status === 429) {
+      return new Response(
+        JSON.stringify({
+          error: 'Rate limit exceeded. Please try again later.',
+        }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        },
+      )
+    }
+
     return new Response(
       JSON.stringify({
         error: error instanceof Error ? error.message : 'Unknown error',
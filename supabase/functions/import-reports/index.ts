@@ -0,0 +1,420 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+
+import {
+  isUrgencyLevel,
+  MAX_URGENCY_LEVEL,
+  MIN_URGENCY_LEVEL,
+} from '../_shared/taxonomy.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type, x-actor-api-key-id',
+}
+
+// Each row needs an embedding call and a duplicate search; larger files are
+// sent in several requests
+const MAX_ROWS = 100
+const DUPLICATE_THRESHOLD = 0.85
+// Parallel duplicate checks per request
+const CONCURRENCY = 5
+
+const TEXT_FIELDS = [
+  'name',
+  'lastname',
+  'address',
+  'health_condition',
+  'help_needed',
+  'additional_info',
+  'reporter_name',
+] as const
+
+const COUNT_FIELDS = [
+  'number_of_adults',
+  'number_of_children',
+  'number_of_infants',
+  'number_of_seniors',
+  'number_of_patients',
+] as const
+
+// Labels used when composing raw_message for an imported row
+const FIELD_LABELS: Record<string, string> = {
+  name: 'ชื่อ',
+  lastname: 'นามสกุล',
+  phone: 'เบอร์โทร',
+  address: 'ที่อยู่',
+  number_of_adults: 'ผู้ใหญ่',
+  number_of_children: 'เด็ก',
+  number_of_infants: 'ทารก',
+  number_of_seniors: 'ผู้สูงอายุ',
+  number_of_patients: 'ผู้ป่วย',
+  urgency_level: 'ระดับความเร่งด่วน',
+  health_condition: 'ภาวะสุขภาพ',
+  help_needed: 'ความช่วยเหลือที่ต้องการ',
+  additional_info: 'ข้อมูลเพิ่มเติม',
+  reporter_name: 'ผู้แจ้ง',
+}
+
+type RowStatus = 'inserted' | 'duplicate' | 'invalid' | 'failed'
+
+interface RowResult {
+  row: number
+  status: RowStatus
+  id?: string
+  errors?: string[]
+  duplicates?: {
+    id: string | null
+    name: string | null
+    match_reasons: string[]
+    similarity: number | null
+    // Set when the match is an earlier row of the same import
+    row?: number
+  }[]
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+const cellText = (value: unknown) =>
+  value === null || value === undefined ? '' : String(value).trim()
+
+// Spreadsheets drop the leading 0 from phone numbers stored as numbers
+function normalizePhone(raw: string): string | null {
+  let digits = raw.replace(/\D/g, '')
+  if (/^66[1-9]\d{7,8}$/.test(digits)) digits = `0${digits.slice(2)}`
+  if (/^[689]\d{8}$/.test(digits)) digits = `0${digits}`
+
+  if (digits.length === 10 && digits.startsWith('0')) {
+    return `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`
+  }
+  if (digits.length === 9 && digits.startsWith('0')) {
+    return `${digits.slice(0, 2)}-${digits.slice(2, 5)}-${digits.slice(5)}`
+  }
+  return null
+}
+
+// Turn one mapped row into a report, or the reasons it can't be imported
+function validateRow(
+  data: Record<string, unknown>,
+  rowNumber: number,
+  source: string,
+): { report?: Record<string, unknown>; errors: string[] } {
+  const errors: string[] = []
+  const report: Record<string, unknown> = {}
+
+  for (const field of TEXT_FIELDS) {
+    const value = cellText(data[field])
+    if (value && value !== '-') report[field] = value
+  }
+
+  const phoneCells = Array.isArray(data.phone)
+    ? data.phone.map(cellText)
+    : cellText(data.phone).split(/[,;/\n]|\s{2,}/)
+  const phones: string[] = []
+  for (const cell of phoneCells.map((p) => p.trim()).filter(Boolean)) {
+    const phone = normalizePhone(cell)
+    if (phone) {
+      if (!phones.includes(phone)) phones.push(phone)
+    } else {
+      errors.push(`เบอร์โทรไม่ถูกต้อง: ${cell}`)
+    }
+  }
+  report.phone = phones
+
+  for (const field of COUNT_FIELDS) {
+    const value = cellText(data[field])
+    if (!value) {
+      report[field] = 0
+      continue
+    }
+    const count = Number(value)
+    if (!Number.isInteger(count) || count < 0 || count > 999) {
+      errors.push(`${FIELD_LABELS[field]}ต้องเป็นจำนวนเต็ม 0-999: ${value}`)
+    } else {
+      report[field] = count
+    }
+  }
+
+  const urgency = cellText(data.urgency_level)
+  if (!urgency) {
+    report.urgency_level = MIN_URGENCY_LEVEL
+  } else if (!isUrgencyLevel(Number(urgency))) {
+    errors.push(
+      `ระดับความเร่งด่วนต้องเป็น ${MIN_URGENCY_LEVEL}-${MAX_URGENCY_LEVEL}: ${urgency}`,
+    )
+  } else {
+    report.urgency_level = Number(urgency)
+  }
+
+  if (!report.name && phones.length === 0 && !report.address) {
+    errors.push('ต้องมีชื่อ เบอร์โทร หรือที่อยู่อย่างน้อย 1 อย่าง')
+  }
+
+  if (errors.length > 0) return { errors }
+
+  const details = Object.keys(FIELD_LABELS)
+    .map((field) => {
+      const value = field === 'phone' ? phones.join(', ') : report[field]
+      return value ? `${FIELD_LABELS[field]}: ${value}` : null
+    })
+    .filter(Boolean)
+    .join('\n')
+
+  return {
+    report: {
+      ...report,
+      name: report.name || 'ไม่ระบุชื่อ',
+      raw_message:
+        cellText(data.raw_message) ||
+        `นำเข้าจาก ${source} แถว ${rowNumber}\n${details}`,
+    },
+    errors,
+  }
+}
+
+// Run fn over items with at most `limit` in flight
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const workers = Array.from({ length: Math.min(limit, items.length) }, () =>
+    (async () => {
+      while (next < items.length) {
+        const index = next++
+        results[index] = await fn(items[index], index)
+      }
+    })(),
+  )
+  await Promise.all(workers)
+  return results
+}
+
+// Imports spreadsheet rows that are already mapped to report fields. Callable
+// by coordinators from the import wizard, or with the service role key by
+// api-v1-import (which passes x-actor-api-key-id for the audit trail).
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const token = (req.headers.get('Authorization') ?? '').replace(
+      'Bearer ',
+      '',
+    )
+
+    // Inserts are attributed to the coordinator or API key that imported them
+    let writer = supabase
+    if (token === supabaseKey) {
+      const apiKeyId = req.headers.get('x-actor-api-key-id')
+      if (apiKeyId) {
+        writer = createClient(supabaseUrl, supabaseKey, {
+          global: { headers: { 'x-actor-api-key-id': apiKeyId } },
+        })
+      }
+    } else {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser(token)
+
+      if (!user) {
+        return jsonResponse({ error: 'Authentication required' }, 401)
+      }
+
+      const { data: isCoordinator } = await supabase.rpc('has_any_role', {
+        _user_id: user.id,
+        _roles: ['admin', 'coordinator'],
+      })
+
+      if (!isCoordinator) {
+        return jsonResponse(
+          { error: 'Only coordinators can import reports' },
+          403,
+        )
+      }
+
+      writer = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: `Bearer ${token}` } },
+      })
+    }
+
+    const {
+      rows,
+      source = 'ไฟล์นำเข้า',
+      skipDuplicates = true,
+    } = await req.json()
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return jsonResponse({ error: 'rows must be a non-empty array' }, 400)
+    }
+    if (rows.length > MAX_ROWS) {
+      return jsonResponse(
+        { error: `At most ${MAX_ROWS} rows per request` },
+        400,
+      )
+    }
+
+    console.log('Importing', rows.length, 'rows from', source)
+
+    const results: RowResult[] = []
+    const validRows: { index: number; report: Record<string, unknown> }[] = []
+
+    rows.forEach((data: Record<string, unknown>, index: number) => {
+      const rowNumber = Number(data?.row_number) || index + 1
+      const { report, errors } = validateRow(data ?? {}, rowNumber, source)
+      results.push({ row: rowNumber, status: report ? 'inserted' : 'invalid' })
+      if (report) {
+        validRows.push({ index, report })
+      } else {
+        results[index].errors = errors
+      }
+    })
+
+    // The same household listed twice in one file
+    const firstRowByPhone = new Map<string, number>()
+    for (const { index, report } of validRows) {
+      for (const phone of report.phone as string[]) {
+        const earlier = firstRowByPhone.get(phone)
+        if (earlier !== undefined && earlier !== results[index].row) {
+          results[index].status = 'duplicate'
+          results[index].duplicates = [
+            {
+              id: null,
+              name: null,
+              match_reasons: ['phone'],
+              similarity: null,
+              row: earlier,
+            },
+          ]
+          break
+        }
+        if (earlier === undefined)
+          firstRowByPhone.set(phone, results[index].row)
+      }
+    }
+
+    // Same check as the review page: similarity of the message's embedding,
+    // phone and name + address
+    const embeddings = await mapWithConcurrency(
+      validRows,
+      CONCURRENCY,
+      async ({ index, report }) => {
+        let embedding: number[] | null = null
+        try {
+          const response = await fetch(
+            `${supabaseUrl}/functions/v1/generate-embedding`,
+            {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${supabaseKey}`,
+              },
+              body: JSON.stringify({ text: report.raw_message }),
+            },
+          )
+          if (response.ok) embedding = (await response.json()).embedding
+        } catch (error) {
+          console.error('Embedding failed for row', results[index].row, error)
+        }
+
+        if (results[index].status === 'duplicate') return embedding
+
+        const { data: matches, error } = await supabase.rpc(
+          'find_duplicate_reports',
+          {
+            query_embedding: embedding,
+            query_phones: (report.phone as string[]).length
+              ? report.phone
+              : null,
+            query_name: report.name === 'ไม่ระบุชื่อ' ? null : report.name,
+            query_lastname: report.lastname || null,
+            query_address: report.address || null,
+            similarity_threshold: DUPLICATE_THRESHOLD,
+            match_limit: 3,
+          },
+        )
+
+        if (error) {
+          console.error('Duplicate check failed:', error)
+        } else if (matches?.length) {
+          results[index].duplicates = matches.map(
+            (match: {
+              id: string
+              name: string
+              match_reasons: string[]
+              similarity: number | null
+            }) => ({
+              id: match.id,
+              name: match.name,
+              match_reasons: match.match_reasons,
+              similarity: match.similarity,
+            }),
+          )
+          if (skipDuplicates) results[index].status = 'duplicate'
+        }
+
+        return embedding
+      },
+    )
+
+    const toInsert = validRows
+      .map(({ index, report }, i) => {
+        if (results[index].status !== 'inserted') return null
+        const id = crypto.randomUUID()
+        results[index].id = id
+        return { ...report, id, status: 'pending', embedding: embeddings[i] }
+      })
+      .filter((report) => report !== null)
+
+    if (toInsert.length > 0) {
+      const { error: insertError } = await writer
+        .from('reports')
+        .insert(toInsert)
+
+      // One bad row fails the whole batch; retry row by row to find it
+      if (insertError) {
+        console.error('Bulk insert failed, retrying per row:', insertError)
+        for (const report of toInsert) {
+          const { error } = await writer.from('reports').insert(report)
+          if (error) {
+            const result = results.find((r) => r.id === report.id)!
+            result.status = 'failed'
+            result.errors = [error.message]
+            delete result.id
+          }
+        }
+      }
+    }
+
+    const summary = {
+      inserted: results.filter((r) => r.status === 'inserted').length,
+      duplicate: results.filter((r) => r.status === 'duplicate').length,
+      invalid: results.filter((r) => r.status === 'invalid').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+    }
+
+    console.log('Import finished:', summary)
+
+    return jsonResponse({ results, summary })
+  } catch (error) {
+    console.error('Error in import-reports function:', error)
+    return jsonResponse(
+      {
+        error:
+          error instanceof Error ? error.message : 'ไม่สามารถนำเข้าข้อมูลได้',
+      },
+      500,
+    )
+  }
+})
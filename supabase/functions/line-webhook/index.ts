@@ -3,6 +3,12 @@ import 'https://deno.land/x/xhr@0.1.0/mod.ts'
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
 
+import {
+  getHelpCategoryLabel,
+  getUrgency,
+  UNKNOWN_URGENCY_COLOR,
+} from '../_shared/taxonomy.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers':
@@ -95,19 +101,23 @@ async function getImageContent(
   return `data:image/jpeg;base64,${base64}`
 }
 
-// Helper: Call OCR function
+// Helper: Call OCR function. The image is also stored as a report attachment.
 async function performOCR(
   imageBase64: string,
   supabaseUrl: string,
   supabaseKey: string,
-): Promise<string> {
+): Promise<{
+  text: string
+  attachmentId: string | null
+  location: { lat: number; lng: number } | null
+}> {
   const response = await fetch(`${supabaseUrl}/functions/v1/ocr-image`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       Authorization: `Bearer ${supabaseKey}`,
     },
-    body: JSON.stringify({ image: imageBase64 }),
+    body: JSON.stringify({ image: imageBase64, source: 'line' }),
   })
 
   if (!response.ok) {
@@ -115,7 +125,34 @@ async function performOCR(
   }
 
   const data = await response.json()
-  return data.text || ''
+  const attachment = data.attachment
+  return {
+    text: data.text || '',
+    attachmentId: attachment?.id ?? null,
+    // GPS read from the photo's EXIF before it was stripped
+    location:
+      attachment?.gps_lat != null && attachment?.gps_long != null
+        ? { lat: attachment.gps_lat, lng: attachment.gps_long }
+        : null,
+  }
+}
+
+// Helper: Attach the photo the report was read from
+async function linkAttachments(
+  supabase: ReturnType<typeof createClient>,
+  reportId: string,
+  attachmentIds: string[] | undefined,
+) {
+  if (!attachmentIds?.length) return
+
+  const { error } = await supabase.rpc('link_report_attachments', {
+    _report_id: reportId,
+    _attachment_ids: attachmentIds,
+  })
+
+  if (error) {
+    console.error('Failed to link attachments:', error)
+  }
 }
 
 // Helper: Call extract-report function
@@ -167,19 +204,40 @@ async function generateEmbedding(
   return data.embedding || []
 }
 
-// Helper: Check duplicates
+// A possible duplicate returned by check-duplicates
+interface DuplicateMatch {
+  id: string
+  similarity: number | null
+  match_reasons: string[]
+  matched_phones: string[]
+}
+
+// Helper: Check duplicates (text similarity, phone, and name + address)
 async function checkDuplicates(
   embedding: number[],
+  report: {
+    phone: string[]
+    name: string
+    lastname: string
+    address: string
+  },
   supabaseUrl: string,
   supabaseKey: string,
-): Promise<any[]> {
+): Promise<DuplicateMatch[]> {
   const response = await fetch(`${supabaseUrl}/functions/v1/check-duplicates`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       Authorization: `Bearer ${supabaseKey}`,
     },
-    body: JSON.stringify({ embedding, threshold: 0.85 }),
+    body: JSON.stringify({
+      embedding,
+      phones: report.phone,
+      name: report.name,
+      lastname: report.lastname,
+      address: report.address,
+      threshold: 0.85,
+    }),
   })
 
   if (!response.ok) {
@@ -190,60 +248,53 @@ async function checkDuplicates(
   return data.duplicates || []
 }
 
-// Helper: Get urgency label
-function getUrgencyLabel(level: number): string {
-  switch (level) {
-    case 1:
-      return 'ต่ำ (เตือนภัย)'
-    case 2:
-      return 'ปานกลาง'
-    case 3:
-      return 'สูง'
-    case 4:
-      return 'สูงมาก'
-    case 5:
-      return 'วิกฤติ'
-    default:
-      return 'ไม่ระบุ'
-  }
-}
+// Helper: Merge a submission into an existing report (phones, categories,
+// max urgency/head counts, and the raw message kept as a report source)
+async function mergeIntoReport(
+  reportId: string,
+  submission: Record<string, unknown>,
+  lineUserId: string,
+  supabaseUrl: string,
+  supabaseKey: string,
+): Promise<{ id: string }> {
+  // Identify the LINE user as the actor in the report history
+  const actorClient = createClient(supabaseUrl, supabaseKey, {
+    global: { headers: { 'x-actor-line-user-id': lineUserId } },
+  })
+
+  const { data: id, error } = await actorClient.rpc('merge_report_submission', {
+    _canonical_id: reportId,
+    _submission: submission,
+  })
 
-// Helper: Get urgency color
-function getUrgencyColor(level: number): string {
-  switch (level) {
-    case 1:
-      return '#4CAF50'
-    case 2:
-      return '#FFC107'
-    case 3:
-      return '#FF9800'
-    case 4:
-      return '#F44336'
-    case 5:
-      return '#9C27B0'
-    default:
-      return '#9E9E9E'
+  if (error) {
+    throw error
   }
+
+  return { id }
 }
 
-// Helper: Get help category Thai name
-function getHelpCategoryName(category: string): string {
-  const categories: Record<string, string> = {
-    drowning: 'จมน้ำ',
-    trapped: 'ติดขัง',
-    water: 'ขาดน้ำดื่ม',
-    food: 'ขาดอาหาร',
-    electricity: 'ขาดไฟฟ้า',
-    shelter: 'ต้องการที่พักพิง',
-    medical: 'ต้องการรักษา',
-    medicine: 'ขาดยา',
-    evacuation: 'ต้องการอพยพ',
-    missing: 'คนหาย',
-    clothes: 'ต้องการเสื้อผ้า',
-    unreachable: 'ติดต่อไม่ได้',
-    other: 'อื่นๆ',
-  }
-  return categories[category] || category
+// Similar text alone is not enough to merge without asking: templated posts
+// from different families read alike
+const isSameCase = (duplicate: DuplicateMatch) =>
+  (duplicate.match_reasons || []).some(
+    (reason) => reason === 'phone' || reason === 'name_address',
+  )
+
+// Helper: Explain why a report matched an existing one
+function getMatchReasons(duplicate: DuplicateMatch): string[] {
+  return (duplicate.match_reasons || []).map((reason) => {
+    switch (reason) {
+      case 'phone':
+        return `เบอร์โทรตรงกัน (${(duplicate.matched_phones || []).join(', ')})`
+      case 'name_address':
+        return 'ชื่อและที่อยู่ตรงกัน'
+      case 'similar_text':
+        return `ข้อความคล้ายกัน ${Math.round((duplicate.similarity || 0) * 100)}%`
+      default:
+        return reason
+    }
+  })
 }
 
 // Create Flex Message for report review
@@ -260,12 +311,13 @@ function createReviewFlexMessage(
     (report.number_of_seniors || 0)
 
   const urgencyLevel = report.urgency_level || 1
-  const urgencyColor = getUrgencyColor(urgencyLevel)
-  const urgencyLabel = getUrgencyLabel(urgencyLevel)
+  const urgency = getUrgency(urgencyLevel)
+  const urgencyColor = urgency?.color || UNKNOWN_URGENCY_COLOR
+  const urgencyLabel = urgency?.label || 'ไม่ระบุ'
 
   const helpCategories =
     (report.help_categories || [])
-      .map((c: string) => getHelpCategoryName(c))
+      .map((c: string) => getHelpCategoryLabel(c))
       .join(', ') || 'ไม่ระบุ'
 
   const bodyContents: any[] = [
@@ -368,6 +420,32 @@ function createReviewFlexMessage(
     })
   }
 
+  // Location from the photo's GPS, so the sender can check it is their house
+  if (report.location_source === 'photo') {
+    bodyContents.push({
+      type: 'box',
+      layout: 'horizontal',
+      margin: 'md',
+      contents: [
+        {
+          type: 'text',
+          text: 'พิกัด',
+          size: 'sm',
+          color: '#555555',
+          flex: 2,
+        },
+        {
+          type: 'text',
+          text: `📷 จากรูปถ่าย ${Number(report.location_lat).toFixed(5)}, ${Number(report.location_long).toFixed(5)}`,
+          size: 'sm',
+          color: '#111111',
+          flex: 5,
+          wrap: true,
+        },
+      ],
+    })
+  }
+
   // People count
   if (totalPeople > 0) {
     const peopleParts: string[] = []
@@ -470,6 +548,18 @@ function createReviewFlexMessage(
     ],
   })
 
+  // Rule-based fallback result: ask the sender to check before confirming
+  if (report.extraction_confidence === 'low') {
+    bodyContents.push({
+      type: 'text',
+      text: '⚠️ ระบบ AI ไม่พร้อมใช้งาน ข้อมูลนี้แยกแบบพื้นฐาน กรุณาตรวจสอบก่อนยืนยัน',
+      size: 'xs',
+      color: '#E67E22',
+      margin: 'md',
+      wrap: true,
+    })
+  }
+
   // Postback data: use messageId as session key + report index
   // Format: "a=s&m=<messageId>&i=<index>" (short keys to save space)
   return {
@@ -569,6 +659,61 @@ function createThankYouMessage(): any {
   }
 }
 
+// Create Flex Message telling the user their report was merged into an existing case
+function createMergedMessage(caseId: string, reasons: string[]) {
+  return {
+    type: 'flex',
+    altText: `รวมข้อมูลเข้ากับเคส ${caseId} แล้ว`,
+    contents: {
+      type: 'bubble',
+      body: {
+        type: 'box',
+        layout: 'vertical',
+        contents: [
+          {
+            type: 'text',
+            text: 'พบข้อมูลนี้ในระบบแล้ว',
+            weight: 'bold',
+            size: 'lg',
+            color: '#06C755',
+            align: 'center',
+            wrap: true,
+          },
+          {
+            type: 'text',
+            text: `ระบบได้รวมข้อมูลใหม่เข้ากับเคส ${caseId} เรียบร้อยแล้ว`,
+            size: 'sm',
+            color: '#555555',
+            align: 'center',
+            margin: 'md',
+            wrap: true,
+          },
+          {
+            type: 'separator',
+            margin: 'lg',
+          },
+          {
+            type: 'text',
+            text: 'เหตุผลที่ตรงกัน',
+            size: 'sm',
+            color: '#555555',
+            weight: 'bold',
+            margin: 'lg',
+          },
+          ...reasons.map((reason) => ({
+            type: 'text',
+            text: `• ${reason}`,
+            size: 'sm',
+            color: '#111111',
+            margin: 'sm',
+            wrap: true,
+          })),
+        ],
+      },
+    },
+  }
+}
+
 // Session management functions using Supabase
 // Use messageId as session key (unique per message)
 async function saveSession(
@@ -671,6 +816,8 @@ serve(async (req: Request) => {
         const message = event.message
         const messageId = message.id // Use messageId as session key
         let rawMessage = ''
+        let attachmentId: string | null = null
+        let photoLocation: { lat: number; lng: number } | null = null
 
         // Handle text message
         if (message.type === 'text') {
@@ -686,11 +833,14 @@ serve(async (req: Request) => {
             )
 
             // Perform OCR
-            rawMessage = await performOCR(
+            const ocr = await performOCR(
               imageBase64,
               SUPABASE_URL,
               SUPABASE_SERVICE_ROLE_KEY,
             )
+            rawMessage = ocr.text
+            attachmentId = ocr.attachmentId
+            photoLocation = ocr.location
 
             if (!rawMessage || rawMessage === 'ไม่พบข้อความในรูปภาพ') {
               await replyMessage(
@@ -756,6 +906,18 @@ serve(async (req: Request) => {
             continue
           }
 
+          // Photo taken at the house: its GPS position fills in
+          // coordinates the text did not give
+          if (photoLocation) {
+            for (const report of reports) {
+              if (report.location_lat && report.location_long) continue
+              report.location_lat = photoLocation.lat
+              report.location_long = photoLocation.lng
+              report.map_link = `https://maps.google.com/?q=${photoLocation.lat},${photoLocation.lng}`
+              report.location_source = 'photo'
+            }
+          }
+
           // Get LINE profile
           let lineDisplayName = ''
           try {
@@ -780,6 +942,7 @@ serve(async (req: Request) => {
             reports,
             lineUserId: userId,
             lineDisplayName,
+            attachmentIds: attachmentId ? [attachmentId] : [],
           })
 
           // Create Flex Messages for each report (max 5 bubbles)
@@ -856,64 +1019,79 @@ serve(async (req: Request) => {
               SUPABASE_SERVICE_ROLE_KEY,
             )
 
+            const reportData = {
+              name: report.name || '',
+              lastname: report.lastname || '',
+              reporter_name:
+                report.reporter_name || session.lineDisplayName || '',
+              address: report.address || '',
+              phone: report.phone || [],
+              location_lat: report.location_lat
+                ? parseFloat(report.location_lat)
+                : null,
+              location_long: report.location_long
+                ? parseFloat(report.location_long)
+                : null,
+              map_link: report.map_link || '',
+              last_contact_at: report.last_contact_at || null,
+              number_of_adults: report.number_of_adults || 0,
+              number_of_children: report.number_of_children || 0,
+              number_of_infants: report.number_of_infants || 0,
+              number_of_seniors: report.number_of_seniors || 0,
+              number_of_patients: report.number_of_patients || 0,
+              health_condition: report.health_condition || '',
+              help_needed: report.help_needed || '',
+              help_categories: report.help_categories || [],
+              additional_info: report.additional_info || '',
+              urgency_level: report.urgency_level || 1,
+              raw_message: report.raw_message || '',
+              line_user_id: session.lineUserId,
+              line_display_name: session.lineDisplayName,
+            }
+
             // Check for duplicates
             const duplicates = await checkDuplicates(
               embedding,
+              reportData,
               SUPABASE_URL,
               SUPABASE_SERVICE_ROLE_KEY,
             )
 
-            if (duplicates.length > 0) {
-              // Update existing report's timestamp
-              await supabase
-                .from('reports')
-                .update({ updated_at: new Date().toISOString() })
-                .eq('id', duplicates[0].id)
+            // Text-only matches are saved as new reports; the duplicate scan
+            // puts them in front of a coordinator to confirm
+            const sameCase = duplicates.find(isSameCase)
+
+            if (sameCase) {
+              // Merge into the closest existing report instead of creating a new one
+              const merged = await mergeIntoReport(
+                sameCase.id,
+                reportData,
+                session.lineUserId,
+                SUPABASE_URL,
+                SUPABASE_SERVICE_ROLE_KEY,
+              )
+              await linkAttachments(supabase, merged.id, session.attachmentIds)
 
               await replyMessage(
                 replyToken,
                 [
-                  {
-                    type: 'text',
-                    text: 'พบข้อมูลที่คล้ายกันในระบบแล้ว ระบบได้อัปเดตเวลาล่าสุดให้เรียบร้อยแล้วครับ',
-                  },
+                  createMergedMessage(
+                    merged.id.substring(0, 8).toUpperCase(),
+                    getMatchReasons(sameCase),
+                  ),
                 ],
                 LINE_CHANNEL_ACCESS_TOKEN,
               )
             } else {
               // Insert new report
+              const reportId = crypto.randomUUID()
               const { error: insertError } = await supabase
                 .from('reports')
                 .insert({
-                  name: report.name || '',
-                  lastname: report.lastname || '',
-                  reporter_name:
-                    report.reporter_name || session.lineDisplayName || '',
-                  address: report.address || '',
-                  phone: report.phone || [],
-                  location_lat: report.location_lat
-                    ? parseFloat(report.location_lat)
-                    : null,
-                  location_long: report.location_long
-                    ? parseFloat(report.location_long)
-                    : null,
-                  map_link: report.map_link || '',
-                  last_contact_at: report.last_contact_at || null,
-                  number_of_adults: report.number_of_adults || 0,
-                  number_of_children: report.number_of_children || 0,
-                  number_of_infants: report.number_of_infants || 0,
-                  number_of_seniors: report.number_of_seniors || 0,
-                  number_of_patients: report.number_of_patients || 0,
-                  health_condition: report.health_condition || '',
-                  help_needed: report.help_needed || '',
-                  help_categories: report.help_categories || [],
-                  additional_info: report.additional_info || '',
-                  urgency_level: report.urgency_level || 1,
+                  id: reportId,
+                  ...reportData,
                   status: 'pending',
-                  raw_message: report.raw_message || '',
                   embedding,
-                  line_user_id: session.lineUserId,
-                  line_display_name: session.lineDisplayName,
                   created_at: new Date().toISOString(),
                   updated_at: new Date().toISOString(),
                 })
@@ -921,6 +1099,7 @@ serve(async (req: Request) => {
               if (insertError) {
                 throw insertError
               }
+              await linkAttachments(supabase, reportId, session.attachmentIds)
 
               await replyMessage(
                 replyToken,
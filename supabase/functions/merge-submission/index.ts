@@ -0,0 +1,131 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+
+import { getLlmProvider } from '../_shared/llm/index.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type',
+}
+
+// Same threshold the review page uses when it looks for duplicates
+const DUPLICATE_THRESHOLD = 0.85
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+// Merges an unsaved submission from the review page into an existing case and
+// returns only the case id. Responders merge as themselves; anyone else can
+// only merge into a case the submission actually matches (phone, name +
+// address, or similar text), so they cannot add to an arbitrary case.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { canonicalId, submission } = await req.json()
+
+    if (
+      typeof canonicalId !== 'string' ||
+      !submission ||
+      typeof submission !== 'object' ||
+      Array.isArray(submission)
+    ) {
+      return jsonResponse(
+        { error: 'canonicalId and a submission object are required' },
+        400,
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const authorization = req.headers.get('Authorization') ?? ''
+    const {
+      data: { user },
+    } = await supabase.auth.getUser(authorization.replace('Bearer ', ''))
+
+    const { data: isResponder } = user
+      ? await supabase.rpc('has_any_role', {
+          _user_id: user.id,
+          _roles: ['admin', 'coordinator', 'rescuer', 'verifier'],
+        })
+      : { data: false }
+
+    let writer = supabase
+    if (isResponder) {
+      // Keeps the responder as the actor in the case history
+      writer = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: authorization } },
+      })
+    } else {
+      const phones = Array.isArray(submission.phone) ? submission.phone : []
+
+      // Embedded here rather than taken from the caller, so a similar-text
+      // match cannot be faked
+      let embedding: number[] | null = null
+      if (
+        typeof submission.raw_message === 'string' &&
+        submission.raw_message
+      ) {
+        try {
+          embedding = await getLlmProvider().embed(submission.raw_message)
+        } catch (error) {
+          console.warn(
+            'Could not embed submission, matching without it:',
+            error,
+          )
+        }
+      }
+
+      const { data: matches, error: matchError } = await supabase.rpc(
+        'find_duplicate_reports',
+        {
+          query_embedding: embedding,
+          query_phones: phones.length > 0 ? phones : null,
+          query_name: submission.name || null,
+          query_lastname: submission.lastname || null,
+          query_address: submission.address || null,
+          similarity_threshold: DUPLICATE_THRESHOLD,
+          match_limit: 5,
+        },
+      )
+
+      if (matchError) {
+        console.error('Error matching submission:', matchError)
+        throw matchError
+      }
+
+      if (!(matches || []).some((match) => match.id === canonicalId)) {
+        return jsonResponse(
+          { error: 'The submission does not match this report' },
+          403,
+        )
+      }
+    }
+
+    const { data: id, error } = await writer.rpc('merge_report_submission', {
+      _canonical_id: canonicalId,
+      _submission: submission,
+    })
+
+    if (error) {
+      console.error('Error merging submission:', error)
+      throw error
+    }
+
+    return jsonResponse({ id })
+  } catch (error) {
+    console.error('Error in merge-submission function:', error)
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      500,
+    )
+  }
+})
@@ -2,19 +2,49 @@ import 'https://deno.land/x/xhr@0.1.0/mod.ts'
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 
+import { getLlmProvider } from '../_shared/llm/index.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers':
     'authorization, x-client-info, apikey, content-type',
 }
 
+// Keep the original photo as evidence on the report. Failure here never blocks OCR.
+async function storeAttachment(image: string, source: string) {
+  try {
+    const response = await fetch(
+      `${Deno.env.get('SUPABASE_URL')}/functions/v1/store-attachment`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+        },
+        body: JSON.stringify({ image, source }),
+      },
+    )
+
+    if (!response.ok) {
+      console.error('store-attachment error:', await response.text())
+      return null
+    }
+
+    const data = await response.json()
+    return data.attachment ?? null
+  } catch (error) {
+    console.error('Failed to store attachment:', error)
+    return null
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
   }
 
   try {
-    const { image } = await req.json()
+    const { image, source = 'ocr' } = await req.json()
 
     if (!image) {
       return new Response(JSON.stringify({ error: 'กรุณาส่งรูปภาพ' }), {
@@ -23,10 +53,7 @@ serve(async (req) => {
       })
     }
 
-    const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')
-    if (!GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY is not configured')
-    }
+    const llm = getLlmProvider()
 
     // Extract base64 data and mime type
     const matches = image.match(/^data:(.+);base64,(.+)$/)
@@ -42,26 +69,11 @@ serve(async (req) => {
 
     console.log('Processing OCR request, mime type:', mimeType)
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: 'user',
-              parts: [
-                {
-                  inlineData: {
-                    mimeType: mimeType,
-                    data: base64Data,
-                  },
-                },
-                {
-                  text: `อ่านข้อความทั้งหมดจากรูปภาพนี้ ให้ผลลัพธ์เป็นข้อความล้วนๆ ไม่ต้องมีคำอธิบายหรือหมายเหตุใดๆ
+    const attachmentPromise = storeAttachment(image, source)
+
+    const extractedText = await llm.generateText({
+      images: [{ mimeType, data: base64Data }],
+      prompt: `อ่านข้อความทั้งหมดจากรูปภาพนี้ ให้ผลลัพธ์เป็นข้อความล้วนๆ ไม่ต้องมีคำอธิบายหรือหมายเหตุใดๆ
 
 กฎ:
 1. อ่านข้อความทุกบรรทัดตามลำดับจากบนลงล่าง
@@ -70,31 +82,15 @@ serve(async (req) => {
 4. ถ้ามีที่อยู่ ให้อ่านให้ครบถ้วน
 5. ถ้าไม่มีข้อความในรูป ให้ตอบว่า "ไม่พบข้อความในรูปภาพ"
 6. ตอบเฉพาะข้อความที่อ่านได้ ไม่ต้องเพิ่มคำอธิบาย`,
-                },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 4096,
-          },
-        }),
-      },
-    )
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Gemini API error:', response.status, errorText)
-      throw new Error(`Gemini API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-    const extractedText =
-      data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || ''
+      temperature: 0.1,
+      maxOutputTokens: 4096,
+    })
 
     console.log('OCR Result:', extractedText.substring(0, 100) + '...')
 
-    return new Response(JSON.stringify({ text: extractedText }), {
+    const attachment = await attachmentPromise
+
+    return new Response(JSON.stringify({ text: extractedText, attachment }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     })
   } catch (error) {
@@ -0,0 +1,237 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type',
+}
+
+interface DuplicatePair {
+  report_a: string | null
+  report_b: string | null
+  similarity: number | null
+  shared_phones: string[] | null
+  last_id: string
+}
+
+interface DuplicateCluster {
+  signature: string
+  reportIds: string[]
+  maxSimilarity: number | null
+  sharedPhones: string[]
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+// Group pairs into connected clusters (union-find)
+function buildClusters(pairs: DuplicatePair[]): DuplicateCluster[] {
+  const parent = new Map<string, string>()
+
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) root = parent.get(root)!
+    // Path compression
+    while (parent.get(id) !== root) {
+      const next = parent.get(id)!
+      parent.set(id, root)
+      id = next
+    }
+    return root
+  }
+
+  for (const { report_a, report_b } of pairs) {
+    if (!parent.has(report_a!)) parent.set(report_a!, report_a!)
+    if (!parent.has(report_b!)) parent.set(report_b!, report_b!)
+    const rootA = find(report_a!)
+    const rootB = find(report_b!)
+    if (rootA !== rootB) parent.set(rootB, rootA)
+  }
+
+  const clusters = new Map<
+    string,
+    { ids: Set<string>; maxSimilarity: number | null; phones: Set<string> }
+  >()
+
+  for (const id of parent.keys()) {
+    const root = find(id)
+    if (!clusters.has(root)) {
+      clusters.set(root, {
+        ids: new Set(),
+        maxSimilarity: null,
+        phones: new Set(),
+      })
+    }
+    clusters.get(root)!.ids.add(id)
+  }
+
+  for (const pair of pairs) {
+    const cluster = clusters.get(find(pair.report_a!))!
+    if (
+      pair.similarity !== null &&
+      (cluster.maxSimilarity === null ||
+        pair.similarity > cluster.maxSimilarity)
+    ) {
+      cluster.maxSimilarity = pair.similarity
+    }
+    for (const phone of pair.shared_phones ?? []) cluster.phones.add(phone)
+  }
+
+  return [...clusters.values()].map((cluster) => {
+    const reportIds = [...cluster.ids].sort()
+    return {
+      signature: reportIds.join(','),
+      reportIds,
+      maxSimilarity: cluster.maxSimilarity,
+      sharedPhones: [...cluster.phones].sort(),
+    }
+  })
+}
+
+// Re-scans every report for duplicate clusters and stores new ones for review.
+// Callable by coordinators from the review page or by a scheduled job with the service role key.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const token = (req.headers.get('Authorization') ?? '').replace(
+      'Bearer ',
+      '',
+    )
+
+    if (token !== supabaseKey) {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser(token)
+
+      if (!user) {
+        return jsonResponse({ error: 'Authentication required' }, 401)
+      }
+
+      const { data: isCoordinator } = await supabase.rpc('has_any_role', {
+        _user_id: user.id,
+        _roles: ['admin', 'coordinator'],
+      })
+
+      if (!isCoordinator) {
+        return jsonResponse({ error: 'Only coordinators can run a scan' }, 403)
+      }
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const threshold = Number(body.threshold) || 0.85
+    const batchSize = Number(body.batchSize) || 200
+
+    console.log('Scanning reports for duplicates with threshold:', threshold)
+
+    // Walk the whole table in id order, one batch per call
+    const pairs: DuplicatePair[] = []
+    let afterId: string | null = null
+    let batches = 0
+
+    while (true) {
+      const { data, error } = await supabase.rpc('find_duplicate_pairs', {
+        _after_id: afterId,
+        _batch_size: batchSize,
+        _similarity_threshold: threshold,
+      })
+
+      if (error) {
+        console.error('Error finding duplicate pairs:', error)
+        throw error
+      }
+
+      const rows = (data || []) as DuplicatePair[]
+      if (rows.length === 0) break
+
+      batches++
+      pairs.push(...rows.filter((row) => row.report_a && row.report_b))
+      afterId = rows[0].last_id
+    }
+
+    const clusters = buildClusters(pairs)
+    const signatures = new Set(clusters.map((cluster) => cluster.signature))
+
+    console.log('Found', clusters.length, 'clusters in', batches, 'batches')
+
+    // Pending groups that no longer match (e.g. merged by hand) are dropped
+    const { data: existingGroups, error: existingError } = await supabase
+      .from('duplicate_groups')
+      .select('id, signature, status')
+
+    if (existingError) throw existingError
+
+    const existingSignatures = new Set(
+      (existingGroups || []).map((group) => group.signature),
+    )
+    const staleIds = (existingGroups || [])
+      .filter(
+        (group) =>
+          group.status === 'pending' && !signatures.has(group.signature),
+      )
+      .map((group) => group.id)
+
+    if (staleIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('duplicate_groups')
+        .delete()
+        .in('id', staleIds)
+
+      if (deleteError) throw deleteError
+    }
+
+    // Reviewed groups keep their signature, so they are not raised again
+    const newClusters = clusters.filter(
+      (cluster) => !existingSignatures.has(cluster.signature),
+    )
+
+    for (const cluster of newClusters) {
+      const { data: group, error: groupError } = await supabase
+        .from('duplicate_groups')
+        .insert({
+          signature: cluster.signature,
+          max_similarity: cluster.maxSimilarity,
+          shared_phones: cluster.sharedPhones,
+        })
+        .select('id')
+        .single()
+
+      if (groupError) throw groupError
+
+      const { error: membersError } = await supabase
+        .from('duplicate_group_members')
+        .insert(
+          cluster.reportIds.map((reportId) => ({
+            group_id: group.id,
+            report_id: reportId,
+          })),
+        )
+
+      if (membersError) throw membersError
+    }
+
+    return jsonResponse({
+      batches,
+      pairs: pairs.length,
+      groups: clusters.length,
+      created: newClusters.length,
+      removed: staleIds.length,
+    })
+  } catch (error) {
+    console.error('Error in scan-duplicates function:', error)
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      500,
+    )
+  }
+})
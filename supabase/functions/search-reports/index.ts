@@ -1,6 +1,8 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
 
+import { getLlmProvider, type LlmProvider } from '../_shared/llm/index.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers':
@@ -34,13 +36,24 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseKey)
 
+    // Report rows are read as the caller, so public viewers get the redacted view
+    const callerClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization') ?? '' },
+        },
+      },
+    )
+
     console.log('Searching for:', query, 'Force semantic:', forceSemanticSearch)
 
     // Skip text search if forceSemanticSearch is true
     if (!forceSemanticSearch) {
       // First, try exact/partial text search on key fields (phone, name, address)
-      let textSearchQuery = supabase
-        .from('reports')
+      let textSearchQuery = callerClient
+        .from('visible_reports')
         .select('*')
         .or(
           `name.ilike.%${query}%,lastname.ilike.%${query}%,address.ilike.%${query}%,reporter_name.ilike.%${query}%,phone.cs.{${query}},health_condition.ilike.%${query}%,help_needed.ilike.%${query}%,additional_info.ilike.%${query}%`,
@@ -75,9 +88,12 @@ serve(async (req) => {
     }
 
     // If no exact matches, fall back to semantic vector search
-    const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')
-    if (!GEMINI_API_KEY) {
-      // Return empty results if no API key and no text matches
+    let llm: LlmProvider
+    try {
+      llm = getLlmProvider()
+    } catch (error) {
+      // Return empty results if no provider is configured and no text matches
+      console.error('LLM provider unavailable:', error)
       return new Response(
         JSON.stringify({
           reports: [],
@@ -91,34 +107,7 @@ serve(async (req) => {
     console.log('No exact matches, performing semantic search...')
 
     // Generate embedding for search query
-    const embeddingResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'models/text-embedding-004',
-          content: {
-            parts: [
-              {
-                text: query,
-              },
-            ],
-          },
-        }),
-      },
-    )
-
-    if (!embeddingResponse.ok) {
-      const errorText = await embeddingResponse.text()
-      console.error('Gemini API error:', embeddingResponse.status, errorText)
-      throw new Error(`Gemini API error: ${embeddingResponse.status}`)
-    }
-
-    const embeddingData = await embeddingResponse.json()
-    const queryEmbedding = embeddingData.embedding.values
+    const queryEmbedding = await llm.embed(query)
 
     console.log(
       'Generated search embedding with',
@@ -150,8 +139,8 @@ serve(async (req) => {
     // Get full report details for the similar reports
     const reportIds = similarReports?.map((r: any) => r.id) || []
 
-    let fullReportsQuery = supabase
-      .from('reports')
+    let fullReportsQuery = callerClient
+      .from('visible_reports')
       .select('*')
       .in('id', reportIds)
 
@@ -0,0 +1,257 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3'
+
+import { type ExifInfo, readExif } from '../_shared/exif.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type',
+}
+
+const BUCKET = 'report-photos'
+const MAX_BYTES = 10 * 1024 * 1024
+const SOURCES = ['ocr', 'line', 'upload']
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+// Minimal EXIF segment that only carries the orientation, so rotated phone
+// photos still display upright
+function orientationSegment(orientation: number): Uint8Array {
+  // prettier-ignore
+  return new Uint8Array([
+    0xff, 0xe1, 0x00, 0x22, // APP1, length 34
+    0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // "Exif\0\0"
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian TIFF, IFD0 at 8
+    0x00, 0x01, // one entry
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, // Orientation, SHORT, 1 value
+    0x00, orientation, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00, // no next IFD
+  ])
+}
+
+// Drop EXIF, XMP, IPTC and comment segments. JFIF (APP0), ICC profiles (APP2)
+// and Adobe colour transforms (APP14) are kept because they affect how it renders.
+function stripJpeg(bytes: Uint8Array): { bytes: Uint8Array; exif: ExifInfo } {
+  let exif: ExifInfo = { orientation: null, lat: null, lng: null }
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)]
+  let offset = 2
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error('Invalid JPEG')
+
+    const marker = bytes[offset + 1]
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    // Start of scan: everything after is image data
+    if (marker === 0xda) {
+      kept.push(bytes.subarray(offset))
+      break
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    const segment = bytes.subarray(offset, offset + 2 + length)
+    const isExif =
+      marker === 0xe1 &&
+      new TextDecoder().decode(segment.subarray(4, 8)) === 'Exif'
+
+    if (isExif) exif = readExif(segment.subarray(10))
+
+    const isMetadata =
+      (marker >= 0xe1 &&
+        marker <= 0xef &&
+        marker !== 0xe2 &&
+        marker !== 0xee) ||
+      marker === 0xfe
+    if (!isMetadata) kept.push(segment)
+
+    offset += 2 + length
+  }
+
+  if (exif.orientation && exif.orientation !== 1) {
+    // After JFIF if there is one, otherwise right after the start marker
+    const position = kept[1]?.[1] === 0xe0 ? 2 : 1
+    kept.splice(position, 0, orientationSegment(exif.orientation))
+  }
+
+  return { bytes: concat(kept), exif }
+}
+
+// Drop text, timestamp and EXIF chunks from a PNG
+function stripPng(bytes: Uint8Array): { bytes: Uint8Array; exif: ExifInfo } {
+  let exif: ExifInfo = { orientation: null, lat: null, lng: null }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)]
+  let offset = 8
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = new TextDecoder().decode(
+      bytes.subarray(offset + 4, offset + 8),
+    )
+    const chunk = bytes.subarray(offset, offset + 12 + length)
+
+    if (type === 'eXIf') {
+      exif = readExif(chunk.subarray(8, 8 + length))
+    } else if (!['tEXt', 'iTXt', 'zTXt', 'tIME'].includes(type)) {
+      kept.push(chunk)
+    }
+
+    offset += 12 + length
+    if (type === 'IEND') break
+  }
+
+  return { bytes: concat(kept), exif }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+// Stores a photo for a report. Called with the service role key by ocr-image for
+// images that are about to be OCR'd (no report yet; linked when the report is saved),
+// or by responders adding photos to an existing case.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const { image, reportId, source } = await req.json()
+
+    const token = (req.headers.get('Authorization') ?? '').replace(
+      'Bearer ',
+      '',
+    )
+    let uploadedBy: string | null = null
+
+    if (token !== supabaseKey) {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser(token)
+
+      if (!user) {
+        return jsonResponse({ error: 'Authentication required' }, 401)
+      }
+
+      const { data: isResponder } = await supabase.rpc('has_any_role', {
+        _user_id: user.id,
+        _roles: ['admin', 'coordinator', 'rescuer'],
+      })
+
+      if (!isResponder) {
+        return jsonResponse(
+          { error: 'Only rescuers and coordinators can add photos' },
+          403,
+        )
+      }
+      if (!reportId) {
+        return jsonResponse({ error: 'reportId is required' }, 400)
+      }
+      uploadedBy = user.id
+    }
+
+    const attachmentSource = uploadedBy
+      ? 'upload'
+      : SOURCES.includes(source)
+        ? source
+        : 'ocr'
+
+    const matches =
+      typeof image === 'string' && image.match(/^data:(.+);base64,(.+)$/)
+    if (!matches) {
+      return jsonResponse({ error: 'รูปแบบรูปภาพไม่ถูกต้อง' }, 400)
+    }
+
+    const raw = Uint8Array.from(atob(matches[2]), (c) => c.charCodeAt(0))
+    if (raw.length > MAX_BYTES) {
+      return jsonResponse({ error: 'ไฟล์รูปภาพต้องมีขนาดไม่เกิน 10MB' }, 400)
+    }
+
+    // Trust the file's magic bytes, not the declared mime type
+    const isJpeg = raw[0] === 0xff && raw[1] === 0xd8
+    const isPng =
+      raw[0] === 0x89 && raw[1] === 0x50 && raw[2] === 0x4e && raw[3] === 0x47
+    if (!isJpeg && !isPng) {
+      return jsonResponse({ error: 'รองรับเฉพาะรูปภาพ JPEG และ PNG' }, 400)
+    }
+
+    if (reportId) {
+      const { data: report } = await supabase
+        .from('reports')
+        .select('id')
+        .eq('id', reportId)
+        .maybeSingle()
+
+      if (!report) {
+        return jsonResponse({ error: 'Report not found' }, 404)
+      }
+    }
+
+    const { bytes, exif } = isJpeg ? stripJpeg(raw) : stripPng(raw)
+    const mimeType = isJpeg ? 'image/jpeg' : 'image/png'
+    const path = `${reportId ?? 'incoming'}/${crypto.randomUUID()}.${isJpeg ? 'jpg' : 'png'}`
+
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, bytes, { contentType: mimeType })
+
+    if (uploadError) throw uploadError
+
+    const { data: attachment, error: insertError } = await supabase
+      .from('report_attachments')
+      .insert({
+        report_id: reportId ?? null,
+        storage_path: path,
+        mime_type: mimeType,
+        size_bytes: bytes.length,
+        source: attachmentSource,
+        gps_lat: exif.lat,
+        gps_long: exif.lng,
+        uploaded_by: uploadedBy,
+      })
+      .select('id, storage_path, gps_lat, gps_long')
+      .single()
+
+    if (insertError) {
+      await supabase.storage.from(BUCKET).remove([path])
+      throw insertError
+    }
+
+    console.log(
+      'Stored attachment',
+      attachment.id,
+      'for',
+      reportId ?? 'pending report',
+      exif.lat !== null ? 'with GPS' : 'without GPS',
+    )
+
+    return jsonResponse({ attachment })
+  } catch (error) {
+    console.error('Error in store-attachment function:', error)
+    return jsonResponse(
+      {
+        error:
+          error instanceof Error ? error.message : 'ไม่สามารถบันทึกรูปภาพได้',
+      },
+      500,
+    )
+  }
+})
@@ -0,0 +1,231 @@
+-- Rescue teams that can claim reports so two teams do not respond to the same case
+CREATE TABLE IF NOT EXISTS public.rescue_teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  contact_phone text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.rescue_teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view rescue teams"
+  ON public.rescue_teams
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can create rescue teams"
+  ON public.rescue_teams
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Creators and admins can update rescue teams"
+  ON public.rescue_teams
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by OR public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_rescue_teams_updated_at
+  BEFORE UPDATE ON public.rescue_teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each user belongs to at most one team
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS rescue_team_id uuid REFERENCES public.rescue_teams(id) ON DELETE SET NULL;
+
+-- Assignment fields on reports
+ALTER TABLE public.reports
+ADD COLUMN IF NOT EXISTS assigned_team_id uuid REFERENCES public.rescue_teams(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_at timestamptz,
+ADD COLUMN IF NOT EXISTS assigned_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reports_assigned_team_id ON public.reports(assigned_team_id);
+
+COMMENT ON COLUMN public.reports.assigned_team_id IS 'Rescue team currently holding this case (NULL = unassigned)';
+COMMENT ON COLUMN public.reports.assigned_at IS 'When the current team claimed this case';
+
+-- Claim a report for the caller's team.
+-- Fails if another team already holds the case, so concurrent claims cannot both succeed.
+-- Returns nothing: the caller may not be allowed to read the case's contact details.
+CREATE OR REPLACE FUNCTION public.claim_report(_report_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _team_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Login required to claim a report';
+  END IF;
+
+  SELECT rescue_team_id INTO _team_id
+  FROM public.profiles
+  WHERE id = auth.uid();
+
+  IF _team_id IS NULL THEN
+    RAISE EXCEPTION 'Join a rescue team before claiming a report';
+  END IF;
+
+  UPDATE public.reports
+  SET assigned_team_id = _team_id,
+      assigned_at = now(),
+      assigned_by = auth.uid()
+  WHERE id = _report_id
+    AND (assigned_team_id IS NULL OR assigned_team_id = _team_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report is already claimed by another team';
+  END IF;
+END;
+$$;
+
+-- Release a claim. Only the holding team or an admin may release it.
+CREATE OR REPLACE FUNCTION public.release_report(_report_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _team_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Login required to release a report';
+  END IF;
+
+  SELECT rescue_team_id INTO _team_id
+  FROM public.profiles
+  WHERE id = auth.uid();
+
+  UPDATE public.reports
+  SET assigned_team_id = NULL,
+      assigned_at = NULL,
+      assigned_by = NULL
+  WHERE id = _report_id
+    AND (
+      assigned_team_id = _team_id
+      OR public.has_role(auth.uid(), 'admin')
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the holding team or an admin can release this report';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_report(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_report(uuid) TO authenticated;
+
+-- Recreate paginated RPC with assignment filtering and fields
+DROP FUNCTION IF EXISTS public.get_paginated_reports_with_categories(
+  integer, integer, integer, text, text[], text, text
+);
+
+CREATE OR REPLACE FUNCTION public.get_paginated_reports_with_categories(
+  _page integer DEFAULT 1,
+  _items_per_page integer DEFAULT 50,
+  _urgency_filter integer DEFAULT NULL,
+  _status_filter text DEFAULT NULL,
+  _category_filter text[] DEFAULT NULL,
+  _sort_column text DEFAULT 'updated_at',
+  _sort_direction text DEFAULT 'desc',
+  _unassigned_only boolean DEFAULT false,
+  _assigned_team_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  data json,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  _offset integer;
+  _total_count bigint;
+BEGIN
+  _offset := (_page - 1) * _items_per_page;
+
+  -- Get total count with filters applied
+  SELECT COUNT(*) INTO _total_count
+  FROM public.reports r
+  WHERE (_urgency_filter IS NULL OR r.urgency_level = _urgency_filter)
+    AND (_status_filter IS NULL OR r.status = _status_filter)
+    AND (_category_filter IS NULL OR r.help_categories && _category_filter)
+    AND (NOT _unassigned_only OR r.assigned_team_id IS NULL)
+    AND (_assigned_team_filter IS NULL OR r.assigned_team_id = _assigned_team_filter);
+
+  -- Return paginated data with filters
+  RETURN QUERY
+  SELECT
+    json_agg(
+      json_build_object(
+        'id', r.id,
+        'name', r.name,
+        'lastname', r.lastname,
+        'reporter_name', r.reporter_name,
+        'address', r.address,
+        'phone', r.phone,
+        'number_of_adults', r.number_of_adults,
+        'number_of_children', r.number_of_children,
+        'number_of_infants', r.number_of_infants,
+        'number_of_seniors', r.number_of_seniors,
+        'number_of_patients', r.number_of_patients,
+        'health_condition', r.health_condition,
+        'help_needed', r.help_needed,
+        'help_categories', r.help_categories,
+        'additional_info', r.additional_info,
+        'urgency_level', r.urgency_level,
+        'status', r.status,
+        'created_at', r.created_at,
+        'updated_at', r.updated_at,
+        'raw_message', r.raw_message,
+        'location_lat', r.location_lat,
+        'location_long', r.location_long,
+        'map_link', r.map_link,
+        'line_user_id', r.line_user_id,
+        'line_display_name', r.line_display_name,
+        'assigned_team_id', r.assigned_team_id,
+        'assigned_at', r.assigned_at
+      )
+    ) as data,
+    _total_count as total_count
+  FROM (
+    SELECT *
+    FROM public.reports r
+    WHERE (_urgency_filter IS NULL OR r.urgency_level = _urgency_filter)
+      AND (_status_filter IS NULL OR r.status = _status_filter)
+      AND (_category_filter IS NULL OR r.help_categories && _category_filter)
+      AND (NOT _unassigned_only OR r.assigned_team_id IS NULL)
+      AND (_assigned_team_filter IS NULL OR r.assigned_team_id = _assigned_team_filter)
+    ORDER BY
+      CASE WHEN _sort_column = 'created_at' AND _sort_direction = 'asc' THEN r.created_at END ASC,
+      CASE WHEN _sort_column = 'created_at' AND _sort_direction = 'desc' THEN r.created_at END DESC,
+      CASE WHEN _sort_column = 'updated_at' AND _sort_direction = 'asc' THEN r.updated_at END ASC,
+      CASE WHEN _sort_column = 'updated_at' AND _sort_direction = 'desc' THEN r.updated_at END DESC,
+      CASE WHEN _sort_column = 'status' AND _sort_direction = 'asc' THEN r.status END ASC,
+      CASE WHEN _sort_column = 'status' AND _sort_direction = 'desc' THEN r.status END DESC,
+      CASE WHEN _sort_column = 'urgency_level' AND _sort_direction = 'asc' THEN r.urgency_level END ASC,
+      CASE WHEN _sort_column = 'urgency_level' AND _sort_direction = 'desc' THEN r.urgency_level END DESC,
+      CASE WHEN _sort_column = 'number_of_adults' AND _sort_direction = 'asc' THEN r.number_of_adults END ASC,
+      CASE WHEN _sort_column = 'number_of_adults' AND _sort_direction = 'desc' THEN r.number_of_adults END DESC,
+      CASE WHEN _sort_column = 'number_of_children' AND _sort_direction = 'asc' THEN r.number_of_children END ASC,
+      CASE WHEN _sort_column = 'number_of_children' AND _sort_direction = 'desc' THEN r.number_of_children END DESC,
+      CASE WHEN _sort_column = 'number_of_infants' AND _sort_direction = 'asc' THEN r.number_of_infants END ASC,
+      CASE WHEN _sort_column = 'number_of_infants' AND _sort_direction = 'desc' THEN r.number_of_infants END DESC,
+      CASE WHEN _sort_column = 'number_of_seniors' AND _sort_direction = 'asc' THEN r.number_of_seniors END ASC,
+      CASE WHEN _sort_column = 'number_of_seniors' AND _sort_direction = 'desc' THEN r.number_of_seniors END DESC,
+      CASE WHEN _sort_column = 'number_of_patients' AND _sort_direction = 'asc' THEN r.number_of_patients END ASC,
+      CASE WHEN _sort_column = 'number_of_patients' AND _sort_direction = 'desc' THEN r.number_of_patients END DESC
+    LIMIT _items_per_page
+    OFFSET _offset
+  ) r;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_paginated_reports_with_categories IS
+'Get paginated reports with server-side filtering by urgency, status, categories and team assignment. Uses array overlap operator (&&) for efficient category filtering.';
@@ -0,0 +1,129 @@
+-- Change history for reports, written by trigger so no client can skip it
+CREATE TABLE IF NOT EXISTS public.report_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('created', 'updated')),
+  -- Field-level diff: { "<column>": { "old": <value>, "new": <value> } }
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  actor_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_api_key_id uuid REFERENCES public.api_keys(id) ON DELETE SET NULL,
+  actor_line_user_id text,
+  actor_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_events_report_id_created_at
+  ON public.report_events(report_id, created_at DESC);
+
+ALTER TABLE public.report_events ENABLE ROW LEVEL SECURITY;
+
+-- History is as visible as the reports themselves; rows are only written by the trigger
+CREATE POLICY "Anyone can view report events"
+  ON public.report_events
+  FOR SELECT
+  USING (true);
+
+COMMENT ON TABLE public.report_events IS 'Audit trail of report changes (field-level diff + actor), populated by trigger';
+
+-- Edge functions running with the service role identify the real actor by sending
+-- x-actor-api-key-id / x-actor-line-user-id / x-actor-line-display-name headers,
+-- which PostgREST exposes through request.headers. Other callers' headers are ignored.
+CREATE OR REPLACE FUNCTION public.log_report_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _headers json;
+  _changes jsonb := '{}'::jsonb;
+  _old jsonb;
+  _new jsonb;
+  _key text;
+  _actor_user_id uuid := auth.uid();
+  _actor_api_key_id uuid;
+  _actor_line_user_id text;
+  _actor_name text;
+  -- Columns that change on every write or are too large to diff
+  _ignored text[] := ARRAY['updated_at', 'created_at', 'embedding'];
+BEGIN
+  -- Anyone can send headers through PostgREST; only the service role may
+  -- name the actor. A bad key id is ignored rather than failing the write.
+  IF auth.role() = 'service_role' THEN
+    _headers := NULLIF(current_setting('request.headers', true), '')::json;
+    SELECT id INTO _actor_api_key_id
+    FROM public.api_keys
+    WHERE id = CASE
+      WHEN _headers->>'x-actor-api-key-id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN (_headers->>'x-actor-api-key-id')::uuid
+    END;
+    _actor_line_user_id := NULLIF(_headers->>'x-actor-line-user-id', '');
+    _actor_name := NULLIF(_headers->>'x-actor-line-display-name', '');
+  END IF;
+
+  _new := to_jsonb(NEW);
+
+  IF TG_OP = 'INSERT' THEN
+    _actor_line_user_id := COALESCE(_actor_line_user_id, NEW.line_user_id);
+    _actor_name := COALESCE(_actor_name, NEW.line_display_name);
+
+    FOR _key IN SELECT jsonb_object_keys(_new) LOOP
+      IF NOT _key = ANY(_ignored) AND _new->_key <> 'null'::jsonb THEN
+        _changes := _changes || jsonb_build_object(
+          _key, jsonb_build_object('old', NULL, 'new', _new->_key)
+        );
+      END IF;
+    END LOOP;
+  ELSE
+    _old := to_jsonb(OLD);
+
+    FOR _key IN SELECT jsonb_object_keys(_new) LOOP
+      IF NOT _key = ANY(_ignored) AND _new->_key IS DISTINCT FROM _old->_key THEN
+        _changes := _changes || jsonb_build_object(
+          _key, jsonb_build_object('old', _old->_key, 'new', _new->_key)
+        );
+      END IF;
+    END LOOP;
+
+    -- Timestamp-only touches (e.g. duplicate re-submissions) are not history
+    IF _changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF _actor_user_id IS NOT NULL THEN
+    SELECT COALESCE(full_name, email) INTO _actor_name
+    FROM public.profiles
+    WHERE id = _actor_user_id;
+  ELSIF _actor_api_key_id IS NOT NULL THEN
+    SELECT name INTO _actor_name
+    FROM public.api_keys
+    WHERE id = _actor_api_key_id;
+  END IF;
+
+  INSERT INTO public.report_events (
+    report_id,
+    event_type,
+    changes,
+    actor_user_id,
+    actor_api_key_id,
+    actor_line_user_id,
+    actor_name
+  ) VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'updated' END,
+    _changes,
+    _actor_user_id,
+    _actor_api_key_id,
+    _actor_line_user_id,
+    _actor_name
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_reports_changes
+  AFTER INSERT OR UPDATE ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_report_event();
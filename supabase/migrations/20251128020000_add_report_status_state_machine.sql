@@ -0,0 +1,243 @@
+-- Case status state machine: typed statuses, reason notes and enforced transitions
+CREATE TYPE public.report_status AS ENUM (
+  'pending',
+  'needs_verification',
+  'unreachable',
+  'processed',
+  'en_route',
+  'rescued',
+  'evacuated_to_shelter',
+  'completed',
+  'duplicate',
+  'cancelled',
+  'deceased'
+);
+
+-- Indexes on status are rebuilt automatically by the type change
+ALTER TABLE public.reports ALTER COLUMN status DROP DEFAULT;
+
+ALTER TABLE public.reports
+  ALTER COLUMN status TYPE public.report_status
+  USING (
+    CASE
+      WHEN status IN (
+        'pending', 'needs_verification', 'unreachable', 'processed', 'en_route',
+        'rescued', 'evacuated_to_shelter', 'completed', 'duplicate', 'cancelled',
+        'deceased'
+      ) THEN status
+      ELSE 'pending'
+    END
+  )::public.report_status;
+
+ALTER TABLE public.reports
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE public.reports ADD COLUMN IF NOT EXISTS status_reason text;
+
+COMMENT ON COLUMN public.reports.status_reason IS 'Why the case entered (or left) its current status; required for terminal statuses';
+
+-- Terminal statuses close a case
+CREATE OR REPLACE FUNCTION public.is_terminal_report_status(_status public.report_status)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _status IN ('completed', 'duplicate', 'cancelled', 'deceased');
+$$;
+
+-- Allowed next statuses for each status (keep in sync with STATUS_TRANSITIONS in the frontend)
+CREATE OR REPLACE FUNCTION public.is_valid_report_status_transition(
+  _from public.report_status,
+  _to public.report_status
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _from = _to
+    -- Any case can turn out to be a duplicate and be merged into another one
+    OR _to = 'duplicate'
+    OR CASE _from
+    WHEN 'pending' THEN true
+    WHEN 'needs_verification' THEN _to IN (
+      'pending', 'unreachable', 'processed', 'en_route', 'duplicate', 'cancelled'
+    )
+    WHEN 'unreachable' THEN _to IN (
+      'pending', 'needs_verification', 'processed', 'en_route', 'duplicate',
+      'cancelled', 'deceased'
+    )
+    WHEN 'processed' THEN _to IN (
+      'pending', 'unreachable', 'en_route', 'rescued', 'evacuated_to_shelter',
+      'completed', 'cancelled', 'deceased'
+    )
+    WHEN 'en_route' THEN _to IN (
+      'pending', 'unreachable', 'processed', 'rescued', 'evacuated_to_shelter',
+      'completed', 'cancelled', 'deceased'
+    )
+    WHEN 'rescued' THEN _to IN ('evacuated_to_shelter', 'completed', 'deceased')
+    WHEN 'evacuated_to_shelter' THEN _to IN ('completed', 'deceased')
+    -- Otherwise terminal statuses can only be reopened
+    ELSE _to IN ('pending', 'needs_verification', 'processed')
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_report_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_valid_report_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'ไม่สามารถเปลี่ยนสถานะจาก % เป็น % ได้', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Entering or leaving a terminal status needs a fresh reason note
+  IF (public.is_terminal_report_status(OLD.status) OR public.is_terminal_report_status(NEW.status))
+    AND (
+      NULLIF(btrim(NEW.status_reason), '') IS NULL
+      OR NEW.status_reason IS NOT DISTINCT FROM OLD.status_reason
+    ) THEN
+    RAISE EXCEPTION 'กรุณาระบุเหตุผลเมื่อเปลี่ยนสถานะเป็น % หรือเปิดเคสที่ปิดแล้ว', NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_reports_status_transition
+  BEFORE UPDATE OF status ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_report_status_transition();
+
+-- Cases closed before reasons existed get a placeholder, so the check below
+-- holds for them too and later edits to those rows are not rejected. This is
+-- not an edit: it neither bumps updated_at nor shows up in the case history.
+ALTER TABLE public.reports DISABLE TRIGGER update_reports_updated_at;
+ALTER TABLE public.reports DISABLE TRIGGER log_reports_changes;
+
+UPDATE public.reports
+SET status_reason = 'สถานะเดิมก่อนย้ายระบบ'
+WHERE public.is_terminal_report_status(status)
+  AND NULLIF(btrim(status_reason), '') IS NULL;
+
+ALTER TABLE public.reports ENABLE TRIGGER update_reports_updated_at;
+ALTER TABLE public.reports ENABLE TRIGGER log_reports_changes;
+
+-- Reports inserted straight into a terminal status also need a reason
+ALTER TABLE public.reports
+  ADD CONSTRAINT reports_terminal_status_reason_check
+  CHECK (
+    NOT public.is_terminal_report_status(status)
+    OR NULLIF(btrim(status_reason), '') IS NOT NULL
+  ) NOT VALID;
+
+ALTER TABLE public.reports VALIDATE CONSTRAINT reports_terminal_status_reason_check;
+
+-- Recreate paginated RPC: status is now an enum, and status_reason is returned
+CREATE OR REPLACE FUNCTION public.get_paginated_reports_with_categories(
+  _page integer DEFAULT 1,
+  _items_per_page integer DEFAULT 50,
+  _urgency_filter integer DEFAULT NULL,
+  _status_filter text DEFAULT NULL,
+  _category_filter text[] DEFAULT NULL,
+  _sort_column text DEFAULT 'updated_at',
+  _sort_direction text DEFAULT 'desc',
+  _unassigned_only boolean DEFAULT false,
+  _assigned_team_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  data json,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  _offset integer;
+  _total_count bigint;
+BEGIN
+  _offset := (_page - 1) * _items_per_page;
+
+  -- Get total count with filters applied
+  SELECT COUNT(*) INTO _total_count
+  FROM public.reports r
+  WHERE (_urgency_filter IS NULL OR r.urgency_level = _urgency_filter)
+    AND (_status_filter IS NULL OR r.status::text = _status_filter)
+    AND (_category_filter IS NULL OR r.help_categories && _category_filter)
+    AND (NOT _unassigned_only OR r.assigned_team_id IS NULL)
+    AND (_assigned_team_filter IS NULL OR r.assigned_team_id = _assigned_team_filter);
+
+  -- Return paginated data with filters
+  RETURN QUERY
+  SELECT
+    json_agg(
+      json_build_object(
+        'id', r.id,
+        'name', r.name,
+        'lastname', r.lastname,
+        'reporter_name', r.reporter_name,
+        'address', r.address,
+        'phone', r.phone,
+        'number_of_adults', r.number_of_adults,
+        'number_of_children', r.number_of_children,
+        'number_of_infants', r.number_of_infants,
+        'number_of_seniors', r.number_of_seniors,
+        'number_of_patients', r.number_of_patients,
+        'health_condition', r.health_condition,
+        'help_needed', r.help_needed,
+        'help_categories', r.help_categories,
+        'additional_info', r.additional_info,
+        'urgency_level', r.urgency_level,
+        'status', r.status,
+        'status_reason', r.status_reason,
+        'created_at', r.created_at,
+        'updated_at', r.updated_at,
+        'raw_message', r.raw_message,
+        'location_lat', r.location_lat,
+        'location_long', r.location_long,
+        'map_link', r.map_link,
+        'line_user_id', r.line_user_id,
+        'line_display_name', r.line_display_name,
+        'assigned_team_id', r.assigned_team_id,
+        'assigned_at', r.assigned_at
+      )
+    ) as data,
+    _total_count as total_count
+  FROM (
+    SELECT *
+    FROM public.reports r
+    WHERE (_urgency_filter IS NULL OR r.urgency_level = _urgency_filter)
+      AND (_status_filter IS NULL OR r.status::text = _status_filter)
+      AND (_category_filter IS NULL OR r.help_categories && _category_filter)
+      AND (NOT _unassigned_only OR r.assigned_team_id IS NULL)
+      AND (_assigned_team_filter IS NULL OR r.assigned_team_id = _assigned_team_filter)
+    ORDER BY
+      CASE WHEN _sort_column = 'created_at' AND _sort_direction = 'asc' THEN r.created_at END ASC,
+      CASE WHEN _sort_column = 'created_at' AND _sort_direction = 'desc' THEN r.created_at END DESC,
+      CASE WHEN _sort_column = 'updated_at' AND _sort_direction = 'asc' THEN r.updated_at END ASC,
+      CASE WHEN _sort_column = 'updated_at' AND _sort_direction = 'desc' THEN r.updated_at END DESC,
+      CASE WHEN _sort_column = 'status' AND _sort_direction = 'asc' THEN r.status END ASC,
+      CASE WHEN _sort_column = 'status' AND _sort_direction = 'desc' THEN r.status END DESC,
+      CASE WHEN _sort_column = 'urgency_level' AND _sort_direction = 'asc' THEN r.urgency_level END ASC,
+      CASE WHEN _sort_column = 'urgency_level' AND _sort_direction = 'desc' THEN r.urgency_level END DESC,
+      CASE WHEN _sort_column = 'number_of_adults' AND _sort_direction = 'asc' THEN r.number_of_adults END ASC,
+      CASE WHEN _sort_column = 'number_of_adults' AND _sort_direction = 'desc' THEN r.number_of_adults END DESC,
+      CASE WHEN _sort_column = 'number_of_children' AND _sort_direction = 'asc' THEN r.number_of_children END ASC,
+      CASE WHEN _sort_column = 'number_of_children' AND _sort_direction = 'desc' THEN r.number_of_children END DESC,
+      CASE WHEN _sort_column = 'number_of_infants' AND _sort_direction = 'asc' THEN r.number_of_infants END ASC,
+      CASE WHEN _sort_column = 'number_of_infants' AND _sort_direction = 'desc' THEN r.number_of_infants END DESC,
+      CASE WHEN _sort_column = 'number_of_seniors' AND _sort_direction = 'asc' THEN r.number_of_seniors END ASC,
+      CASE WHEN _sort_column = 'number_of_seniors' AND _sort_direction = 'desc' THEN r.number_of_seniors END DESC,
+      CASE WHEN _sort_column = 'number_of_patients' AND _sort_direction = 'asc' THEN r.number_of_patients END ASC,
+      CASE WHEN _sort_column = 'number_of_patients' AND _sort_direction = 'desc' THEN r.number_of_patients END DESC
+    LIMIT _items_per_page
+    OFFSET _offset
+  ) r;
+END;
+$$;
@@ -0,0 +1,231 @@
+-- Merge duplicate reports into one canonical case instead of only warning about them
+ALTER TABLE public.reports
+  ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES public.reports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reports_duplicate_of
+  ON public.reports(duplicate_of)
+  WHERE duplicate_of IS NOT NULL;
+
+COMMENT ON COLUMN public.reports.duplicate_of IS 'Canonical report this one was merged into';
+
+-- Every original message that ended up in a case, including merged duplicates
+CREATE TABLE IF NOT EXISTS public.report_sources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  -- The report the message came from (NULL for submissions merged before being saved)
+  source_report_id uuid REFERENCES public.reports(id) ON DELETE SET NULL,
+  raw_message text NOT NULL,
+  line_user_id text,
+  line_display_name text,
+  merged_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_sources_report_id
+  ON public.report_sources(report_id, created_at);
+
+ALTER TABLE public.report_sources ENABLE ROW LEVEL SECURITY;
+
+-- Sources are as visible as the reports themselves; rows are only written by the merge functions
+CREATE POLICY "Anyone can view report sources"
+  ON public.report_sources
+  FOR SELECT
+  USING (true);
+
+-- Union of two text arrays, keeping first-seen order and dropping blanks
+CREATE OR REPLACE FUNCTION public.merge_text_arrays(_a text[], _b text[])
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(v ORDER BY o), '{}')
+  FROM (
+    SELECT v, min(o) AS o
+    FROM unnest(COALESCE(_a, '{}') || COALESCE(_b, '{}')) WITH ORDINALITY AS t(v, o)
+    WHERE NULLIF(btrim(v), '') IS NOT NULL
+    GROUP BY v
+  ) s;
+$$;
+
+-- Fold one report's data (a reports row or an unsaved submission, as jsonb) into the canonical
+-- report: union phones and categories, take the max urgency and head counts, fill empty
+-- location fields, and record the message as a source. Internal: callers check permissions.
+CREATE OR REPLACE FUNCTION public.apply_report_merge(
+  _canonical_id uuid,
+  _source jsonb,
+  _source_report_id uuid DEFAULT NULL
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _canonical public.reports;
+  _phones text[];
+  _categories text[];
+BEGIN
+  SELECT * INTO _canonical
+  FROM public.reports
+  WHERE id = _canonical_id
+  FOR UPDATE;
+
+  IF _canonical.id IS NULL THEN
+    RAISE EXCEPTION 'Report % not found', _canonical_id;
+  END IF;
+
+  IF jsonb_typeof(_source->'phone') = 'array' THEN
+    _phones := ARRAY(SELECT jsonb_array_elements_text(_source->'phone'));
+  END IF;
+
+  IF jsonb_typeof(_source->'help_categories') = 'array' THEN
+    _categories := ARRAY(SELECT jsonb_array_elements_text(_source->'help_categories'));
+  END IF;
+
+  -- The canonical's own message becomes the first source the first time it absorbs another
+  INSERT INTO public.report_sources (report_id, source_report_id, raw_message, line_user_id, line_display_name, merged_by)
+  SELECT _canonical.id, _canonical.id, _canonical.raw_message, _canonical.line_user_id, _canonical.line_display_name, auth.uid()
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.report_sources WHERE source_report_id = _canonical.id
+  );
+
+  IF NULLIF(btrim(_source->>'raw_message'), '') IS NOT NULL THEN
+    INSERT INTO public.report_sources (report_id, source_report_id, raw_message, line_user_id, line_display_name, merged_by)
+    VALUES (
+      _canonical.id,
+      _source_report_id,
+      _source->>'raw_message',
+      NULLIF(_source->>'line_user_id', ''),
+      NULLIF(_source->>'line_display_name', ''),
+      auth.uid()
+    );
+  END IF;
+
+  UPDATE public.reports
+  SET phone = public.merge_text_arrays(phone, _phones),
+      help_categories = public.merge_text_arrays(help_categories, _categories),
+      urgency_level = GREATEST(urgency_level, NULLIF(_source->>'urgency_level', '')::integer),
+      number_of_adults = GREATEST(number_of_adults, NULLIF(_source->>'number_of_adults', '')::integer),
+      number_of_children = GREATEST(number_of_children, NULLIF(_source->>'number_of_children', '')::integer),
+      number_of_infants = GREATEST(number_of_infants, NULLIF(_source->>'number_of_infants', '')::integer),
+      number_of_seniors = GREATEST(number_of_seniors, NULLIF(_source->>'number_of_seniors', '')::integer),
+      number_of_patients = GREATEST(number_of_patients, NULLIF(_source->>'number_of_patients', '')::integer),
+      address = COALESCE(NULLIF(btrim(address), ''), NULLIF(btrim(_source->>'address'), '')),
+      location_lat = COALESCE(location_lat, NULLIF(_source->>'location_lat', '')::numeric),
+      location_long = COALESCE(location_long, NULLIF(_source->>'location_long', '')::numeric),
+      map_link = COALESCE(NULLIF(map_link, ''), NULLIF(_source->>'map_link', ''))
+  WHERE id = _canonical.id
+  RETURNING * INTO _canonical;
+
+  RETURN _canonical;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_report_merge(uuid, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Merge saved reports into a canonical one and mark them duplicate_of it.
+-- Admins only (service role calls from edge functions are also allowed).
+CREATE OR REPLACE FUNCTION public.merge_reports(
+  _canonical_id uuid,
+  _duplicate_ids uuid[]
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _canonical public.reports;
+  _duplicate public.reports;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Only admins can merge reports';
+  END IF;
+
+  IF _canonical_id = ANY(_duplicate_ids) THEN
+    RAISE EXCEPTION 'A report cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO _canonical
+  FROM public.reports
+  WHERE id = _canonical_id
+  FOR UPDATE;
+
+  IF _canonical.id IS NULL THEN
+    RAISE EXCEPTION 'Report % not found', _canonical_id;
+  END IF;
+
+  IF _canonical.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'The canonical report is itself a duplicate; merge into % instead', _canonical.duplicate_of;
+  END IF;
+
+  FOR _duplicate IN
+    SELECT * FROM public.reports
+    WHERE id = ANY(_duplicate_ids)
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    -- Earlier merges into this duplicate now belong to the canonical report
+    UPDATE public.report_sources
+    SET report_id = _canonical_id
+    WHERE report_id = _duplicate.id;
+
+    UPDATE public.reports
+    SET duplicate_of = _canonical_id
+    WHERE duplicate_of = _duplicate.id;
+
+    _canonical := public.apply_report_merge(
+      _canonical_id,
+      CASE
+        -- Its message is already listed if it was a canonical report before
+        WHEN EXISTS (SELECT 1 FROM public.report_sources WHERE source_report_id = _duplicate.id)
+          THEN to_jsonb(_duplicate) - 'raw_message'
+        ELSE to_jsonb(_duplicate)
+      END,
+      _duplicate.id
+    );
+
+    UPDATE public.reports
+    SET duplicate_of = _canonical_id,
+        status = 'duplicate',
+        status_reason = 'รวมเข้ากับเคส ' || upper(left(_canonical_id::text, 8))
+    WHERE id = _duplicate.id;
+  END LOOP;
+
+  RETURN _canonical;
+END;
+$$;
+
+-- Merge an unsaved submission (e.g. from the LINE bot or the review page) into an existing
+-- report and return the id it ended up in. Edge functions only: they check that the
+-- submission really matches the case before merging on behalf of the public.
+CREATE OR REPLACE FUNCTION public.merge_report_submission(
+  _canonical_id uuid,
+  _submission jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target_id uuid := _canonical_id;
+  _duplicate_of uuid;
+BEGIN
+  -- Follow the chain in case the match was itself merged away
+  LOOP
+    SELECT duplicate_of INTO _duplicate_of
+    FROM public.reports
+    WHERE id = _target_id;
+
+    EXIT WHEN _duplicate_of IS NULL;
+    _target_id := _duplicate_of;
+  END LOOP;
+
+  RETURN (public.apply_report_merge(_target_id, _submission, NULL)).id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_reports(uuid, uuid[]) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.merge_report_submission(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_report_submission(uuid, jsonb) TO service_role;
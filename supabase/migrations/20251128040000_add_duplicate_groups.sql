@@ -0,0 +1,224 @@
+-- Candidate duplicate clusters found by the scan-duplicates job, reviewed by coordinators
+CREATE TABLE IF NOT EXISTS public.duplicate_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Sorted member ids joined with ',' so re-scans don't resurrect reviewed groups
+  signature text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'dismissed')),
+  -- Highest embedding similarity between any two members (NULL if linked only by phone)
+  max_similarity double precision,
+  -- Normalized phone numbers shared by members
+  shared_phones text[] NOT NULL DEFAULT '{}',
+  canonical_report_id uuid REFERENCES public.reports(id) ON DELETE SET NULL,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.duplicate_group_members (
+  group_id uuid NOT NULL REFERENCES public.duplicate_groups(id) ON DELETE CASCADE,
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  PRIMARY KEY (group_id, report_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_groups_status_created_at
+  ON public.duplicate_groups(status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_group_members_report_id
+  ON public.duplicate_group_members(report_id);
+
+ALTER TABLE public.duplicate_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.duplicate_group_members ENABLE ROW LEVEL SECURITY;
+
+-- Written by the scan job (service role) and resolve_duplicate_group() only
+CREATE POLICY "Authenticated users can view duplicate groups"
+  ON public.duplicate_groups
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can view duplicate group members"
+  ON public.duplicate_group_members
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_duplicate_groups_updated_at
+  BEFORE UPDATE ON public.duplicate_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Same rules as formatPhoneNumber() in the frontend: digits only, Thai 9/10-digit numbers
+CREATE OR REPLACE FUNCTION public.normalize_phone(_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN d ~ '^0[0-9]{8,9}$' THEN d
+    ELSE NULL
+  END
+  FROM (SELECT regexp_replace(COALESCE(_phone, ''), '\D', '', 'g') AS d) s;
+$$;
+
+-- Candidate duplicate pairs for one batch of reports (keyset-paginated by id), matched by
+-- embedding nearest neighbours above the threshold or by a shared normalized phone number.
+-- Merged reports are skipped. Each pair is returned once with report_a < report_b.
+CREATE OR REPLACE FUNCTION public.find_duplicate_pairs(
+  _after_id uuid DEFAULT NULL,
+  _batch_size integer DEFAULT 200,
+  _similarity_threshold double precision DEFAULT 0.85,
+  _neighbours integer DEFAULT 5
+)
+RETURNS TABLE (
+  report_a uuid,
+  report_b uuid,
+  similarity double precision,
+  shared_phones text[],
+  last_id uuid
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _last_id uuid;
+BEGIN
+  SELECT max(id) INTO _last_id
+  FROM (
+    SELECT r.id
+    FROM public.reports r
+    WHERE (_after_id IS NULL OR r.id > _after_id)
+    ORDER BY r.id
+    LIMIT _batch_size
+  ) batch_ids;
+
+  IF _last_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH active AS (
+    SELECT r.id, r.embedding, r.phone
+    FROM public.reports r
+    WHERE r.duplicate_of IS NULL
+      AND r.status <> 'duplicate'
+  ),
+  batch AS (
+    SELECT a.*
+    FROM active a
+    WHERE (_after_id IS NULL OR a.id > _after_id)
+      AND a.id <= _last_id
+  ),
+  vector_pairs AS (
+    SELECT LEAST(b.id, n.id) AS a_id, GREATEST(b.id, n.id) AS b_id, max(n.similarity) AS similarity
+    FROM batch b
+    CROSS JOIN LATERAL (
+      SELECT o.id, 1 - (o.embedding <=> b.embedding) AS similarity
+      FROM active o
+      WHERE o.id <> b.id
+        AND o.embedding IS NOT NULL
+      ORDER BY o.embedding <=> b.embedding
+      LIMIT _neighbours
+    ) n
+    WHERE b.embedding IS NOT NULL
+      AND n.similarity >= _similarity_threshold
+    GROUP BY 1, 2
+  ),
+  phones AS (
+    SELECT DISTINCT a.id, public.normalize_phone(p) AS phone
+    FROM active a
+    CROSS JOIN LATERAL unnest(a.phone) AS p
+    WHERE public.normalize_phone(p) IS NOT NULL
+  ),
+  phone_pairs AS (
+    SELECT LEAST(bp.id, op.id) AS a_id, GREATEST(bp.id, op.id) AS b_id, array_agg(DISTINCT bp.phone) AS phones
+    FROM phones bp
+    JOIN batch b ON b.id = bp.id
+    JOIN phones op ON op.phone = bp.phone AND op.id <> bp.id
+    GROUP BY 1, 2
+  )
+  SELECT
+    COALESCE(v.a_id, p.a_id),
+    COALESCE(v.b_id, p.b_id),
+    v.similarity,
+    COALESCE(p.phones, '{}'),
+    _last_id
+  FROM vector_pairs v
+  FULL OUTER JOIN phone_pairs p ON p.a_id = v.a_id AND p.b_id = v.b_id;
+
+  -- Batches with no pairs still report how far the scan got
+  IF NOT FOUND THEN
+    report_a := NULL;
+    report_b := NULL;
+    similarity := NULL;
+    shared_phones := NULL;
+    last_id := _last_id;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_duplicate_pairs(uuid, integer, double precision, integer) FROM PUBLIC, anon, authenticated;
+
+-- Confirm a group (merging its members into the chosen canonical report) or dismiss it
+CREATE OR REPLACE FUNCTION public.resolve_duplicate_group(
+  _group_id uuid,
+  _confirm boolean,
+  _canonical_id uuid DEFAULT NULL
+)
+RETURNS public.duplicate_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _group public.duplicate_groups;
+  _others uuid[];
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review duplicate groups';
+  END IF;
+
+  SELECT * INTO _group
+  FROM public.duplicate_groups
+  WHERE id = _group_id
+  FOR UPDATE;
+
+  IF _group.id IS NULL THEN
+    RAISE EXCEPTION 'Duplicate group % not found', _group_id;
+  END IF;
+
+  IF _group.status <> 'pending' THEN
+    RAISE EXCEPTION 'This group has already been reviewed';
+  END IF;
+
+  IF _confirm THEN
+    SELECT array_agg(report_id) INTO _others
+    FROM public.duplicate_group_members
+    WHERE group_id = _group_id
+      AND report_id <> _canonical_id;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.duplicate_group_members
+      WHERE group_id = _group_id AND report_id = _canonical_id
+    ) THEN
+      RAISE EXCEPTION 'The canonical report must be a member of the group';
+    END IF;
+
+    PERFORM public.merge_reports(_canonical_id, _others);
+  END IF;
+
+  UPDATE public.duplicate_groups
+  SET status = CASE WHEN _confirm THEN 'confirmed' ELSE 'dismissed' END,
+      canonical_report_id = CASE WHEN _confirm THEN _canonical_id END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _group_id
+  RETURNING * INTO _group;
+
+  RETURN _group;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_duplicate_group(uuid, boolean, uuid) TO authenticated;
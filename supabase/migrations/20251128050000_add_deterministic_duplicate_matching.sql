@@ -0,0 +1,201 @@
+-- Deterministic duplicate matching (phone numbers, name + address) next to vector similarity
+
+-- Same rules as formatPhoneNumber() in the frontend: digits only, +66 becomes a leading 0,
+-- Thai 9/10-digit numbers
+CREATE OR REPLACE FUNCTION public.normalize_phone(_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN d ~ '^0[0-9]{8,9}$' THEN d
+    WHEN d ~ '^66[1-9][0-9]{7,8}$' THEN '0' || substr(d, 3)
+    ELSE NULL
+  END
+  FROM (SELECT regexp_replace(COALESCE(_phone, ''), '\D', '', 'g') AS d) s;
+$$;
+
+-- Valid normalized numbers of a report, for array overlap (&&) lookups
+CREATE OR REPLACE FUNCTION public.normalize_phones(_phones text[])
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT n), '{}')
+  FROM unnest(COALESCE(_phones, '{}')) AS p
+  CROSS JOIN LATERAL public.normalize_phone(p) AS n
+  WHERE n IS NOT NULL;
+$$;
+
+-- Lowercase, without whitespace or punctuation (NULL when nothing is left)
+CREATE OR REPLACE FUNCTION public.normalize_match_text(_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(regexp_replace(lower(COALESCE(_text, '')), '[[:space:][:punct:]]+', '', 'g'), '');
+$$;
+
+-- Full name without Thai honorifics; placeholder names never match
+CREATE OR REPLACE FUNCTION public.normalize_person_name(_name text, _lastname text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN n IS NULL OR n IN ('ไม่ระบุชื่อ', 'ไม่ระบุ', 'ไม่ทราบ') THEN NULL
+    ELSE n
+  END
+  FROM (
+    SELECT public.normalize_match_text(
+      regexp_replace(
+        btrim(COALESCE(_name, '') || ' ' || COALESCE(_lastname, '')),
+        '^(นางสาว|นาง|นาย|น\.ส\.|ด\.ช\.|ด\.ญ\.|เด็กชาย|เด็กหญิง|คุณ)\s*',
+        ''
+      )
+    ) AS n
+  ) s;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_reports_normalized_phones
+  ON public.reports USING gin (public.normalize_phones(phone));
+
+CREATE INDEX IF NOT EXISTS idx_reports_normalized_name_address
+  ON public.reports (public.normalize_person_name(name, lastname), public.normalize_match_text(address));
+
+-- Ranked duplicate candidates for a new report. Each match lists why it matched:
+--   'phone'        - a normalized phone number is shared
+--   'name_address' - same normalized name and address
+--   'similar_text' - embedding similarity above the threshold
+-- Text-only matches whose phone numbers conflict (templated posts) need a higher similarity.
+-- Merged reports are skipped; callers follow the canonical report instead.
+CREATE OR REPLACE FUNCTION public.find_duplicate_reports(
+  query_embedding vector(768) DEFAULT NULL,
+  query_phones text[] DEFAULT NULL,
+  query_name text DEFAULT NULL,
+  query_lastname text DEFAULT NULL,
+  query_address text DEFAULT NULL,
+  similarity_threshold float DEFAULT 0.85,
+  match_limit int DEFAULT 5
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  address text,
+  phone text[],
+  raw_message text,
+  similarity float,
+  score float,
+  match_reasons text[],
+  matched_phones text[]
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _phones text[] := public.normalize_phones(query_phones);
+  _name text := public.normalize_person_name(query_name, query_lastname);
+  _address text := public.normalize_match_text(query_address);
+BEGIN
+  RETURN QUERY
+  WITH vector_matches AS (
+    SELECT r.id, 1 - (r.embedding <=> query_embedding) AS similarity
+    FROM public.reports r
+    WHERE query_embedding IS NOT NULL
+      AND r.embedding IS NOT NULL
+      AND r.duplicate_of IS NULL
+    ORDER BY r.embedding <=> query_embedding
+    LIMIT match_limit * 4
+  ),
+  phone_matches AS (
+    SELECT r.id
+    FROM public.reports r
+    WHERE cardinality(_phones) > 0
+      AND public.normalize_phones(r.phone) && _phones
+      AND r.duplicate_of IS NULL
+  ),
+  name_address_matches AS (
+    SELECT r.id
+    FROM public.reports r
+    WHERE _name IS NOT NULL
+      AND _address IS NOT NULL
+      AND public.normalize_person_name(r.name, r.lastname) = _name
+      AND public.normalize_match_text(r.address) = _address
+      AND r.duplicate_of IS NULL
+  ),
+  candidates AS (
+    SELECT c.id FROM vector_matches c
+    UNION
+    SELECT c.id FROM phone_matches c
+    UNION
+    SELECT c.id FROM name_address_matches c
+  ),
+  scored AS (
+    SELECT
+      r.id,
+      r.name,
+      r.address,
+      r.phone,
+      r.raw_message,
+      v.similarity,
+      ARRAY(
+        SELECT x FROM unnest(public.normalize_phones(r.phone)) AS x
+        WHERE x = ANY(_phones)
+        ORDER BY x
+      ) AS matched_phones,
+      EXISTS (SELECT 1 FROM name_address_matches m WHERE m.id = r.id) AS name_address_match,
+      -- Both sides have phone numbers but none are shared
+      cardinality(_phones) > 0
+        AND cardinality(public.normalize_phones(r.phone)) > 0
+        AND NOT (public.normalize_phones(r.phone) && _phones) AS phones_conflict
+    FROM candidates c
+    JOIN public.reports r ON r.id = c.id
+    LEFT JOIN vector_matches v ON v.id = c.id
+  ),
+  reasoned AS (
+    SELECT
+      s.*,
+      array_remove(ARRAY[
+        CASE WHEN cardinality(s.matched_phones) > 0 THEN 'phone' END,
+        CASE WHEN s.name_address_match THEN 'name_address' END,
+        CASE
+          WHEN s.similarity >= similarity_threshold
+            + CASE WHEN s.phones_conflict AND NOT s.name_address_match THEN 0.1 ELSE 0 END
+          THEN 'similar_text'
+        END
+      ], NULL) AS match_reasons
+    FROM scored s
+  ),
+  ranked AS (
+    SELECT
+      m.*,
+      -- Deterministic matches outrank text similarity; every extra reason adds confidence
+      LEAST(
+        1.0,
+        GREATEST(
+          CASE WHEN 'phone' = ANY(m.match_reasons) THEN 0.95 ELSE 0 END,
+          CASE WHEN 'name_address' = ANY(m.match_reasons) THEN 0.9 ELSE 0 END,
+          CASE WHEN 'similar_text' = ANY(m.match_reasons) THEN m.similarity ELSE 0 END
+        ) + 0.05 * (cardinality(m.match_reasons) - 1)
+      )::float AS match_score
+    FROM reasoned m
+    WHERE cardinality(m.match_reasons) > 0
+  )
+  SELECT
+    k.id,
+    k.name,
+    k.address,
+    k.phone,
+    k.raw_message,
+    k.similarity,
+    k.match_score,
+    k.match_reasons,
+    k.matched_phones
+  FROM ranked k
+  ORDER BY k.match_score DESC, k.similarity DESC NULLS LAST
+  LIMIT match_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_duplicate_reports(vector, text[], text, text, text, float, int) TO anon, authenticated, service_role;
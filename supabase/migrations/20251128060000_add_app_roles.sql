@@ -0,0 +1,7 @@
+-- Responder roles beyond admin/user. Added in their own migration because new enum
+-- values cannot be used in the transaction that adds them.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'coordinator';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'rescuer';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'verifier';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'viewer';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'api_partner';
@@ -0,0 +1,541 @@
+-- Role-based access: responders see contact details and work on cases, everyone else
+-- (anonymous visitors and plain 'user' accounts) sees reports without them.
+--   admin       - everything, including granting roles
+--   coordinator - edit reports, change status, merge duplicates, release claims
+--   rescuer     - edit reports and change status of the cases they work on
+--   verifier    - edit report details (not status) after calling victims back
+--   viewer      - read-only access to full report details
+--   api_partner - partner organisations reading full report details
+
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id uuid, _roles public.app_role[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id AND role = ANY(_roles)
+  )
+$$;
+
+-- Whether the caller may see phone numbers, exact coordinates and original messages
+CREATE OR REPLACE FUNCTION public.can_view_contact_details()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.role() = 'service_role'
+    OR public.has_any_role(
+      auth.uid(),
+      ARRAY['admin', 'coordinator', 'rescuer', 'verifier', 'viewer', 'api_partner']::public.app_role[]
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_any_role(uuid, public.app_role[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_view_contact_details() TO anon, authenticated;
+
+-- Roles: the old admin policy queried user_roles from its own policy (infinite recursion)
+DROP POLICY IF EXISTS "Admins can view all roles" ON public.user_roles;
+
+CREATE POLICY "Admins can view all roles"
+  ON public.user_roles
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can grant roles"
+  ON public.user_roles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Admins cannot remove their own admin role, so there is always one left
+CREATE POLICY "Admins can revoke roles"
+  ON public.user_roles
+  FOR DELETE
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin')
+    AND NOT (user_id = auth.uid() AND role = 'admin')
+  );
+
+-- The role admin screen lists every profile
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Reports: full rows for responders only; everyone else reads visible_reports
+DROP POLICY IF EXISTS "Anyone can view reports" ON public.reports;
+
+CREATE POLICY "Responders can view reports"
+  ON public.reports
+  FOR SELECT
+  USING (public.can_view_contact_details());
+
+DROP POLICY IF EXISTS "Only admins can update reports" ON public.reports;
+
+CREATE POLICY "Responders can update reports"
+  ON public.reports
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer', 'verifier']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer', 'verifier']::public.app_role[]));
+
+-- Only rescuers and coordinators move a case through its statuses
+CREATE OR REPLACE FUNCTION public.enforce_report_status_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND auth.role() = 'authenticated'
+    AND NOT public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer']::public.app_role[]) THEN
+    RAISE EXCEPTION 'เฉพาะทีมกู้ภัยหรือผู้ประสานงานเท่านั้นที่เปลี่ยนสถานะได้'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_reports_status_role
+  BEFORE UPDATE OF status ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_report_status_role();
+
+-- History and merged messages contain the same contact details
+DROP POLICY IF EXISTS "Anyone can view report events" ON public.report_events;
+
+CREATE POLICY "Responders can view report events"
+  ON public.report_events
+  FOR SELECT
+  USING (public.can_view_contact_details());
+
+DROP POLICY IF EXISTS "Anyone can view report sources" ON public.report_sources;
+
+CREATE POLICY "Responders can view report sources"
+  ON public.report_sources
+  FOR SELECT
+  USING (public.can_view_contact_details());
+
+-- Hide phone numbers and links (which often carry coordinates) inside free text
+CREATE OR REPLACE FUNCTION public.redact_contact_details(_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(
+    regexp_replace(_text, 'https?://\S+', '[ลิงก์ถูกซ่อน]', 'g'),
+    '(\+?66[\s-]?[1-9]|0[0-9])([\s-]?[0-9]){7,8}',
+    '[เบอร์ถูกซ่อน]',
+    'g'
+  )
+$$;
+
+-- Reports as the caller may see them. Runs with the owner's rights so anonymous visitors
+-- get every row, with contact details and exact location removed unless they are responders.
+CREATE OR REPLACE VIEW public.visible_reports
+WITH (security_barrier = true)
+AS
+SELECT
+  r.id,
+  r.name,
+  r.lastname,
+  r.reporter_name,
+  r.address,
+  CASE WHEN v.full_access THEN r.phone ELSE '{}'::text[] END AS phone,
+  r.number_of_adults,
+  r.number_of_children,
+  r.number_of_infants,
+  r.number_of_seniors,
+  r.number_of_patients,
+  r.health_condition,
+  r.help_needed,
+  r.help_categories,
+  CASE WHEN v.full_access THEN r.additional_info ELSE public.redact_contact_details(r.additional_info) END AS additional_info,
+  r.urgency_level,
+  r.status,
+  r.status_reason,
+  r.created_at,
+  r.updated_at,
+  r.last_contact_at,
+  CASE WHEN v.full_access THEN r.raw_message ELSE public.redact_contact_details(r.raw_message) END AS raw_message,
+  CASE WHEN v.full_access THEN r.location_lat END AS location_lat,
+  CASE WHEN v.full_access THEN r.location_long END AS location_long,
+  CASE WHEN v.full_access THEN r.map_link END AS map_link,
+  CASE WHEN v.full_access THEN r.line_user_id END AS line_user_id,
+  r.line_display_name,
+  r.assigned_team_id,
+  r.assigned_at,
+  r.assigned_by,
+  r.duplicate_of
+FROM public.reports r
+CROSS JOIN (SELECT public.can_view_contact_details() AS full_access) v;
+
+GRANT SELECT ON public.visible_reports TO anon, authenticated;
+
+-- Paginated RPC reads through visible_reports so it follows the same rules
+CREATE OR REPLACE FUNCTION public.get_paginated_reports_with_categories(
+  _page integer DEFAULT 1,
+  _items_per_page integer DEFAULT 50,
+  _urgency_filter integer DEFAULT NULL,
+  _status_filter text DEFAULT NULL,
+  _category_filter text[] DEFAULT NULL,
+  _sort_column text DEFAULT 'updated_at',
+  _sort_direction text DEFAULT 'desc',
+  _unassigned_only boolean DEFAULT false,
+  _assigned_team_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  data json,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  _offset integer;
+  _total_count bigint;
+BEGIN
+  _offset := (_page - 1) * _items_per_page;
+
+  -- Get total count with filters applied
+  SELECT COUNT(*) INTO _total_count
+  FROM public.visible_reports r
+  WHERE (_urgency_filter IS NULL OR r.urgency_level = _urgency_filter)
+    AND (_status_filter IS NULL OR r.status::text = _status_filter)
+    AND (_category_filter IS NULL OR r.help_categories && _category_filter)
+    AND (NOT _unassigned_only OR r.assigned_team_id IS NULL)
+    AND (_assigned_team_filter IS NULL OR r.assigned_team_id = _assigned_team_filter);
+
+  -- Return paginated data with filters
+  RETURN QUERY
+  SELECT
+    json_agg(
+      json_build_object(
+        'id', r.id,
+        'name', r.name,
+        'lastname', r.lastname,
+        'reporter_name', r.reporter_name,
+        'address', r.address,
+        'phone', r.phone,
+        'number_of_adults', r.number_of_adults,
+        'number_of_children', r.number_of_children,
+        'number_of_infants', r.number_of_infants,
+        'number_of_seniors', r.number_of_seniors,
+        'number_of_patients', r.number_of_patients,
+        'health_condition', r.health_condition,
+        'help_needed', r.help_needed,
+        'help_categories', r.help_categories,
+        'additional_info', r.additional_info,
+        'urgency_level', r.urgency_level,
+        'status', r.status,
+        'status_reason', r.status_reason,
+        'created_at', r.created_at,
+        'updated_at', r.updated_at,
+        'raw_message', r.raw_message,
+        'location_lat', r.location_lat,
+        'location_long', r.location_long,
+        'map_link', r.map_link,
+        'line_user_id', r.line_user_id,
+        'line_display_name', r.line_display_name,
+        'assigned_team_id', r.assigned_team_id,
+        'assigned_at', r.assigned_at
+      )
+    ) as data,
+    _total_count as total_count
+  FROM (
+    SELECT *
+    FROM public.visible_reports r
+    WHERE (_urgency_filter IS NULL OR r.urgency_level = _urgency_filter)
+      AND (_status_filter IS NULL OR r.status::text = _status_filter)
+      AND (_category_filter IS NULL OR r.help_categories && _category_filter)
+      AND (NOT _unassigned_only OR r.assigned_team_id IS NULL)
+      AND (_assigned_team_filter IS NULL OR r.assigned_team_id = _assigned_team_filter)
+    ORDER BY
+      CASE WHEN _sort_column = 'created_at' AND _sort_direction = 'asc' THEN r.created_at END ASC,
+      CASE WHEN _sort_column = 'created_at' AND _sort_direction = 'desc' THEN r.created_at END DESC,
+      CASE WHEN _sort_column = 'updated_at' AND _sort_direction = 'asc' THEN r.updated_at END ASC,
+      CASE WHEN _sort_column = 'updated_at' AND _sort_direction = 'desc' THEN r.updated_at END DESC,
+      CASE WHEN _sort_column = 'status' AND _sort_direction = 'asc' THEN r.status END ASC,
+      CASE WHEN _sort_column = 'status' AND _sort_direction = 'desc' THEN r.status END DESC,
+      CASE WHEN _sort_column = 'urgency_level' AND _sort_direction = 'asc' THEN r.urgency_level END ASC,
+      CASE WHEN _sort_column = 'urgency_level' AND _sort_direction = 'desc' THEN r.urgency_level END DESC,
+      CASE WHEN _sort_column = 'number_of_adults' AND _sort_direction = 'asc' THEN r.number_of_adults END ASC,
+      CASE WHEN _sort_column = 'number_of_adults' AND _sort_direction = 'desc' THEN r.number_of_adults END DESC,
+      CASE WHEN _sort_column = 'number_of_children' AND _sort_direction = 'asc' THEN r.number_of_children END ASC,
+      CASE WHEN _sort_column = 'number_of_children' AND _sort_direction = 'desc' THEN r.number_of_children END DESC,
+      CASE WHEN _sort_column = 'number_of_infants' AND _sort_direction = 'asc' THEN r.number_of_infants END ASC,
+      CASE WHEN _sort_column = 'number_of_infants' AND _sort_direction = 'desc' THEN r.number_of_infants END DESC,
+      CASE WHEN _sort_column = 'number_of_seniors' AND _sort_direction = 'asc' THEN r.number_of_seniors END ASC,
+      CASE WHEN _sort_column = 'number_of_seniors' AND _sort_direction = 'desc' THEN r.number_of_seniors END DESC,
+      CASE WHEN _sort_column = 'number_of_patients' AND _sort_direction = 'asc' THEN r.number_of_patients END ASC,
+      CASE WHEN _sort_column = 'number_of_patients' AND _sort_direction = 'desc' THEN r.number_of_patients END DESC
+    LIMIT _items_per_page
+    OFFSET _offset
+  ) r;
+END;
+$$;
+
+-- Only responders can set up teams and claim cases
+DROP POLICY IF EXISTS "Authenticated users can create rescue teams" ON public.rescue_teams;
+
+CREATE POLICY "Responders can create rescue teams"
+  ON public.rescue_teams
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer']::public.app_role[])
+  );
+
+CREATE OR REPLACE FUNCTION public.claim_report(_report_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _team_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Login required to claim a report';
+  END IF;
+
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only responders can claim a report';
+  END IF;
+
+  SELECT rescue_team_id INTO _team_id
+  FROM public.profiles
+  WHERE id = auth.uid();
+
+  IF _team_id IS NULL THEN
+    RAISE EXCEPTION 'Join a rescue team before claiming a report';
+  END IF;
+
+  UPDATE public.reports
+  SET assigned_team_id = _team_id,
+      assigned_at = now(),
+      assigned_by = auth.uid()
+  WHERE id = _report_id
+    AND (assigned_team_id IS NULL OR assigned_team_id = _team_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report is already claimed by another team';
+  END IF;
+END;
+$$;
+
+-- Coordinators share the admin-only case actions
+
+CREATE OR REPLACE FUNCTION public.release_report(_report_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _team_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Login required to release a report';
+  END IF;
+
+  SELECT rescue_team_id INTO _team_id
+  FROM public.profiles
+  WHERE id = auth.uid();
+
+  UPDATE public.reports
+  SET assigned_team_id = NULL,
+      assigned_at = NULL,
+      assigned_by = NULL
+  WHERE id = _report_id
+    AND (
+      assigned_team_id = _team_id
+      OR public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator']::public.app_role[])
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the holding team or a coordinator can release this report';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_reports(
+  _canonical_id uuid,
+  _duplicate_ids uuid[]
+)
+RETURNS public.reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _canonical public.reports;
+  _duplicate public.reports;
+BEGIN
+  IF NOT (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator']::public.app_role[])
+    OR auth.role() = 'service_role'
+  ) THEN
+    RAISE EXCEPTION 'Only coordinators can merge reports';
+  END IF;
+
+  IF _canonical_id = ANY(_duplicate_ids) THEN
+    RAISE EXCEPTION 'A report cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO _canonical
+  FROM public.reports
+  WHERE id = _canonical_id
+  FOR UPDATE;
+
+  IF _canonical.id IS NULL THEN
+    RAISE EXCEPTION 'Report % not found', _canonical_id;
+  END IF;
+
+  IF _canonical.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'The canonical report is itself a duplicate; merge into % instead', _canonical.duplicate_of;
+  END IF;
+
+  FOR _duplicate IN
+    SELECT * FROM public.reports
+    WHERE id = ANY(_duplicate_ids)
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    -- Earlier merges into this duplicate now belong to the canonical report
+    UPDATE public.report_sources
+    SET report_id = _canonical_id
+    WHERE report_id = _duplicate.id;
+
+    UPDATE public.reports
+    SET duplicate_of = _canonical_id
+    WHERE duplicate_of = _duplicate.id;
+
+    _canonical := public.apply_report_merge(
+      _canonical_id,
+      CASE
+        -- Its message is already listed if it was a canonical report before
+        WHEN EXISTS (SELECT 1 FROM public.report_sources WHERE source_report_id = _duplicate.id)
+          THEN to_jsonb(_duplicate) - 'raw_message'
+        ELSE to_jsonb(_duplicate)
+      END,
+      _duplicate.id
+    );
+
+    UPDATE public.reports
+    SET duplicate_of = _canonical_id,
+        status = 'duplicate',
+        status_reason = 'รวมเข้ากับเคส ' || upper(left(_canonical_id::text, 8))
+    WHERE id = _duplicate.id;
+  END LOOP;
+
+  RETURN _canonical;
+END;
+$$;
+
+-- Responders can merge submissions as themselves; the public goes through the
+-- merge-submission edge function, which checks the submission matches the case
+CREATE OR REPLACE FUNCTION public.merge_report_submission(
+  _canonical_id uuid,
+  _submission jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target_id uuid := _canonical_id;
+  _duplicate_of uuid;
+BEGIN
+  IF NOT (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer', 'verifier']::public.app_role[])
+    OR auth.role() = 'service_role'
+  ) THEN
+    RAISE EXCEPTION 'Only responders can merge into a report directly';
+  END IF;
+
+  -- Follow the chain in case the match was itself merged away
+  LOOP
+    SELECT duplicate_of INTO _duplicate_of
+    FROM public.reports
+    WHERE id = _target_id;
+
+    EXIT WHEN _duplicate_of IS NULL;
+    _target_id := _duplicate_of;
+  END LOOP;
+
+  RETURN (public.apply_report_merge(_target_id, _submission, NULL)).id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_report_submission(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.resolve_duplicate_group(
+  _group_id uuid,
+  _confirm boolean,
+  _canonical_id uuid DEFAULT NULL
+)
+RETURNS public.duplicate_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _group public.duplicate_groups;
+  _others uuid[];
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only coordinators can review duplicate groups';
+  END IF;
+
+  SELECT * INTO _group
+  FROM public.duplicate_groups
+  WHERE id = _group_id
+  FOR UPDATE;
+
+  IF _group.id IS NULL THEN
+    RAISE EXCEPTION 'Duplicate group % not found', _group_id;
+  END IF;
+
+  IF _group.status <> 'pending' THEN
+    RAISE EXCEPTION 'This group has already been reviewed';
+  END IF;
+
+  IF _confirm THEN
+    SELECT array_agg(report_id) INTO _others
+    FROM public.duplicate_group_members
+    WHERE group_id = _group_id
+      AND report_id <> _canonical_id;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.duplicate_group_members
+      WHERE group_id = _group_id AND report_id = _canonical_id
+    ) THEN
+      RAISE EXCEPTION 'The canonical report must be a member of the group';
+    END IF;
+
+    PERFORM public.merge_reports(_canonical_id, _others);
+  END IF;
+
+  UPDATE public.duplicate_groups
+  SET status = CASE WHEN _confirm THEN 'confirmed' ELSE 'dismissed' END,
+      canonical_report_id = CASE WHEN _confirm THEN _canonical_id END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _group_id
+  RETURNING * INTO _group;
+
+  RETURN _group;
+END;
+$$;
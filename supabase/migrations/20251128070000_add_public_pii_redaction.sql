@@ -0,0 +1,129 @@
+-- Public mode for visible_reports: instead of dropping contact details, anonymous viewers
+-- get masked phones, truncated surnames, addresses without house numbers and coordinates
+-- snapped to a ~500 m grid. Free-text messages are hidden from them altogether, since
+-- names and addresses in them cannot be reliably found and masked.
+
+-- '0812345678' -> '08x-xxx-5678'; unknown formats keep only the last 4 digits
+CREATE OR REPLACE FUNCTION public.mask_phone(_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN length(d) < 5 THEN NULL
+    WHEN public.normalize_phone(d) IS NOT NULL
+      THEN left(public.normalize_phone(d), 2) || 'x-xxx-' || right(d, 4)
+    ELSE 'xxx-xxx-' || right(d, 4)
+  END
+  FROM (SELECT regexp_replace(COALESCE(_phone, ''), '\D', '', 'g') AS d) s;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mask_phones(_phones text[])
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(m ORDER BY ord), '{}')
+  FROM unnest(COALESCE(_phones, '{}')) WITH ORDINALITY AS p(phone, ord)
+  CROSS JOIN LATERAL public.mask_phone(p.phone) AS m
+  WHERE m IS NOT NULL;
+$$;
+
+-- 'ใจดี' -> 'ใ.'
+CREATE OR REPLACE FUNCTION public.truncate_lastname(_lastname text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN NULLIF(btrim(_lastname), '') IS NULL THEN _lastname
+    ELSE left(btrim(_lastname), 1) || '.'
+  END;
+$$;
+
+-- 'สมชาย ใจดี' -> 'สมชาย ใ.' (free-text names such as reporter_name)
+CREATE OR REPLACE FUNCTION public.truncate_full_name(_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN position(' ' IN n) = 0 THEN n
+    ELSE split_part(n, ' ', 1) || ' ' || public.truncate_lastname(substr(n, position(' ' IN n) + 1))
+  END
+  FROM (SELECT NULLIF(regexp_replace(btrim(COALESCE(_name, '')), '\s+', ' ', 'g'), '') AS n) s;
+$$;
+
+-- Centre of the ~500 m grid cell (0.0045 degrees) the coordinate falls in
+CREATE OR REPLACE FUNCTION public.snap_coordinate(_value numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT round(floor(_value / 0.0045) * 0.0045 + 0.00225, 5);
+$$;
+
+-- '12/3 หมู่ 4 ต.บ้านพรุ (7.0084, 100.4747)' -> 'หมู่ 4 ต.บ้านพรุ ([พิกัดถูกซ่อน])': keeps the
+-- village and district, drops the house number and hides typed coordinates, phones and links
+CREATE OR REPLACE FUNCTION public.mask_address(_address text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        btrim(public.redact_contact_details(_address)),
+        '-?[0-9]{1,3}\.[0-9]{3,}(\s*,\s*-?[0-9]{1,3}\.[0-9]{3,})?',
+        '[พิกัดถูกซ่อน]',
+        'g'
+      ),
+      -- 'บ้านเลขที่ 12', '12/3', or a number the address starts with
+      '(บ้าน)?เลขที่\s*[0-9๐-๙]+(/[0-9๐-๙]+)?|[0-9๐-๙]+/[0-9๐-๙]+|^[0-9๐-๙]+(?=\s|$)',
+      '',
+      'g'
+    ),
+    '\s{2,}',
+    ' ',
+    'g'
+  ));
+$$;
+
+-- Column list and order must stay the same as in the previous definition
+CREATE OR REPLACE VIEW public.visible_reports
+WITH (security_barrier = true)
+AS
+SELECT
+  r.id,
+  r.name,
+  CASE WHEN v.full_access THEN r.lastname ELSE public.truncate_lastname(r.lastname) END AS lastname,
+  CASE WHEN v.full_access THEN r.reporter_name ELSE public.truncate_full_name(r.reporter_name) END AS reporter_name,
+  CASE WHEN v.full_access THEN r.address ELSE public.mask_address(r.address) END AS address,
+  CASE WHEN v.full_access THEN r.phone ELSE public.mask_phones(r.phone) END AS phone,
+  r.number_of_adults,
+  r.number_of_children,
+  r.number_of_infants,
+  r.number_of_seniors,
+  r.number_of_patients,
+  r.health_condition,
+  r.help_needed,
+  r.help_categories,
+  CASE WHEN v.full_access THEN r.additional_info END AS additional_info,
+  r.urgency_level,
+  r.status,
+  r.status_reason,
+  r.created_at,
+  r.updated_at,
+  r.last_contact_at,
+  CASE WHEN v.full_access THEN r.raw_message END AS raw_message,
+  CASE WHEN v.full_access THEN r.location_lat ELSE public.snap_coordinate(r.location_lat) END AS location_lat,
+  CASE WHEN v.full_access THEN r.location_long ELSE public.snap_coordinate(r.location_long) END AS location_long,
+  CASE WHEN v.full_access THEN r.map_link END AS map_link,
+  CASE WHEN v.full_access THEN r.line_user_id END AS line_user_id,
+  r.line_display_name,
+  r.assigned_team_id,
+  r.assigned_at,
+  r.assigned_by,
+  r.duplicate_of
+FROM public.reports r
+CROSS JOIN (SELECT public.can_view_contact_details() AS full_access) v;
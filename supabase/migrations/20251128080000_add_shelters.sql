@@ -0,0 +1,160 @@
+-- Shelters and evacuation centers, and which shelter each evacuated case ended up in
+CREATE TABLE IF NOT EXISTS public.shelters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  address text,
+  location_lat numeric,
+  location_long numeric,
+  capacity integer NOT NULL DEFAULT 0 CHECK (capacity >= 0),
+  current_occupancy integer NOT NULL DEFAULT 0 CHECK (current_occupancy >= 0),
+  supplies_on_hand text,
+  contact_name text,
+  contact_phone text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.shelters ENABLE ROW LEVEL SECURITY;
+
+-- Shelter locations and contacts are public so evacuees can find them
+CREATE POLICY "Anyone can view shelters"
+  ON public.shelters
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Coordinators can create shelters"
+  ON public.shelters
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator']::app_role[]));
+
+-- Rescuers on site keep occupancy and supplies up to date
+CREATE POLICY "Responders can update shelters"
+  ON public.shelters
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer']::app_role[]));
+
+CREATE POLICY "Coordinators can delete shelters"
+  ON public.shelters
+  FOR DELETE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator']::app_role[]));
+
+CREATE TRIGGER update_shelters_updated_at
+  BEFORE UPDATE ON public.shelters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.reports
+ADD COLUMN IF NOT EXISTS shelter_id uuid REFERENCES public.shelters(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reports_shelter_id ON public.reports(shelter_id);
+
+COMMENT ON COLUMN public.reports.shelter_id IS 'Shelter the people in this case were evacuated to';
+
+-- People a case adds to its shelter; same as getTotalPeople() in the frontend
+CREATE OR REPLACE FUNCTION public.report_total_people(_report public.reports)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(_report.number_of_adults, 0)
+    + COALESCE(_report.number_of_children, 0)
+    + COALESCE(_report.number_of_infants, 0)
+    + COALESCE(_report.number_of_seniors, 0);
+$$;
+
+-- Keep shelter occupancy in step with the cases assigned to it. Occupancy is a running
+-- total so walk-ins entered by hand on the shelter are kept.
+CREATE OR REPLACE FUNCTION public.sync_shelter_occupancy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old_people integer := 0;
+  _new_people integer := 0;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.shelter_id IS NOT NULL THEN
+    _old_people := public.report_total_people(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.shelter_id IS NOT NULL THEN
+    _new_people := public.report_total_people(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.shelter_id IS NOT DISTINCT FROM NEW.shelter_id
+    AND _old_people = _new_people THEN
+    RETURN NEW;
+  END IF;
+
+  IF _old_people > 0 THEN
+    UPDATE public.shelters
+    SET current_occupancy = GREATEST(current_occupancy - _old_people, 0)
+    WHERE id = OLD.shelter_id;
+  END IF;
+
+  IF _new_people > 0 THEN
+    UPDATE public.shelters
+    SET current_occupancy = current_occupancy + _new_people
+    WHERE id = NEW.shelter_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_shelter_occupancy ON public.reports;
+CREATE TRIGGER sync_shelter_occupancy
+  AFTER INSERT OR UPDATE OF shelter_id, number_of_adults, number_of_children, number_of_infants, number_of_seniors
+    OR DELETE ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_shelter_occupancy();
+
+REVOKE EXECUTE ON FUNCTION public.sync_shelter_occupancy() FROM PUBLIC, anon, authenticated;
+
+-- New columns can only be appended to the view
+CREATE OR REPLACE VIEW public.visible_reports
+WITH (security_barrier = true)
+AS
+SELECT
+  r.id,
+  r.name,
+  CASE WHEN v.full_access THEN r.lastname ELSE public.truncate_lastname(r.lastname) END AS lastname,
+  CASE WHEN v.full_access THEN r.reporter_name ELSE public.truncate_full_name(r.reporter_name) END AS reporter_name,
+  CASE WHEN v.full_access THEN r.address ELSE public.mask_address(r.address) END AS address,
+  CASE WHEN v.full_access THEN r.phone ELSE public.mask_phones(r.phone) END AS phone,
+  r.number_of_adults,
+  r.number_of_children,
+  r.number_of_infants,
+  r.number_of_seniors,
+  r.number_of_patients,
+  r.health_condition,
+  r.help_needed,
+  r.help_categories,
+  CASE WHEN v.full_access THEN r.additional_info END AS additional_info,
+  r.urgency_level,
+  r.status,
+  r.status_reason,
+  r.created_at,
+  r.updated_at,
+  r.last_contact_at,
+  CASE WHEN v.full_access THEN r.raw_message END AS raw_message,
+  CASE WHEN v.full_access THEN r.location_lat ELSE public.snap_coordinate(r.location_lat) END AS location_lat,
+  CASE WHEN v.full_access THEN r.location_long ELSE public.snap_coordinate(r.location_long) END AS location_long,
+  CASE WHEN v.full_access THEN r.map_link END AS map_link,
+  CASE WHEN v.full_access THEN r.line_user_id END AS line_user_id,
+  r.line_display_name,
+  r.assigned_team_id,
+  r.assigned_at,
+  r.assigned_by,
+  r.duplicate_of,
+  r.shelter_id
+FROM public.reports r
+CROSS JOIN (SELECT public.can_view_contact_details() AS full_access) v;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.shelters;
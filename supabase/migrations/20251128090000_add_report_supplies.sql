@@ -0,0 +1,139 @@
+-- Supplies requested per report, and their fulfilment by donors or warehouses
+CREATE TYPE public.supply_status AS ENUM (
+  'requested',
+  'pledged',
+  'dispatched',
+  'delivered',
+  'cancelled'
+);
+
+CREATE TABLE IF NOT EXISTS public.report_supplies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  item text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit text NOT NULL DEFAULT 'ชิ้น',
+  status public.supply_status NOT NULL DEFAULT 'requested',
+  fulfilled_by text,
+  fulfilment_note text,
+  status_changed_at timestamptz,
+  status_changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+COMMENT ON COLUMN public.report_supplies.category IS 'Help category id (water, food, medicine, ...)';
+COMMENT ON COLUMN public.report_supplies.fulfilled_by IS 'Donor or warehouse that pledged or sent the item';
+
+CREATE INDEX IF NOT EXISTS idx_report_supplies_report_id ON public.report_supplies(report_id);
+CREATE INDEX IF NOT EXISTS idx_report_supplies_status ON public.report_supplies(status);
+
+ALTER TABLE public.report_supplies ENABLE ROW LEVEL SECURITY;
+
+-- Demand holds no contact details and is public so donors can see what is needed
+CREATE POLICY "Anyone can view report supplies"
+  ON public.report_supplies
+  FOR SELECT
+  USING (true);
+
+-- Reporters can list what they need alongside a new report, but not mark it fulfilled
+CREATE POLICY "Anyone can request supplies"
+  ON public.report_supplies
+  FOR INSERT
+  WITH CHECK (status = 'requested' AND fulfilled_by IS NULL);
+
+CREATE POLICY "Responders can update report supplies"
+  ON public.report_supplies
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer', 'verifier']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer', 'verifier']::public.app_role[]));
+
+CREATE POLICY "Responders can delete report supplies"
+  ON public.report_supplies
+  FOR DELETE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer', 'verifier']::public.app_role[]));
+
+CREATE TRIGGER update_report_supplies_updated_at
+  BEFORE UPDATE ON public.report_supplies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record who moved an item along the fulfilment workflow and when
+CREATE OR REPLACE FUNCTION public.stamp_supply_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+    NEW.status_changed_by := auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_report_supplies_status_change
+  BEFORE UPDATE ON public.report_supplies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_supply_status_change();
+
+-- District (อำเภอ/อ./เขต) and province (จังหวัด/จ.) parsed from a free-text Thai address
+CREATE OR REPLACE FUNCTION public.extract_district(_address text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(btrim(COALESCE(
+    substring(_address FROM '(?:อำเภอ|อ\.)\s*([^\s,]+)'),
+    substring(_address FROM 'เขต\s*([^\s,]+)')
+  )), '');
+$$;
+
+CREATE OR REPLACE FUNCTION public.extract_province(_address text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(btrim(substring(_address FROM '(?:จังหวัด|จ\.)\s*([^\s,]+)')), '');
+$$;
+
+-- Demand totals by area, category and unit. Runs as owner so public viewers get
+-- the totals without access to the reports themselves.
+CREATE OR REPLACE FUNCTION public.get_supply_demand()
+RETURNS TABLE (
+  province text,
+  district text,
+  category text,
+  unit text,
+  requested_quantity numeric,
+  in_progress_quantity numeric,
+  delivered_quantity numeric,
+  open_items bigint,
+  report_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    public.extract_province(r.address) AS province,
+    public.extract_district(r.address) AS district,
+    s.category,
+    s.unit,
+    COALESCE(SUM(s.quantity) FILTER (WHERE s.status = 'requested'), 0) AS requested_quantity,
+    COALESCE(SUM(s.quantity) FILTER (WHERE s.status IN ('pledged', 'dispatched')), 0) AS in_progress_quantity,
+    COALESCE(SUM(s.quantity) FILTER (WHERE s.status = 'delivered'), 0) AS delivered_quantity,
+    COUNT(*) FILTER (WHERE s.status IN ('requested', 'pledged', 'dispatched')) AS open_items,
+    COUNT(DISTINCT s.report_id) AS report_count
+  FROM public.report_supplies s
+  JOIN public.reports r ON r.id = s.report_id
+  WHERE s.status <> 'cancelled'
+    AND r.status NOT IN ('duplicate', 'cancelled')
+  GROUP BY 1, 2, 3, 4
+  ORDER BY requested_quantity DESC;
+$$;
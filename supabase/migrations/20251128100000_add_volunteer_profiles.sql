@@ -0,0 +1,135 @@
+-- Volunteer details on profiles: what people can do, what they bring, where they
+-- are based, and whether they are on duty right now
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS is_volunteer boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS phone text,
+ADD COLUMN IF NOT EXISTS skills text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS equipment text,
+ADD COLUMN IF NOT EXISTS home_base text,
+ADD COLUMN IF NOT EXISTS home_lat numeric,
+ADD COLUMN IF NOT EXISTS home_long numeric,
+ADD COLUMN IF NOT EXISTS is_on_duty boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS on_duty_since timestamptz;
+
+COMMENT ON COLUMN public.profiles.skills IS 'Volunteer skill ids (boat, medic, truck, driver, ...)';
+COMMENT ON COLUMN public.profiles.home_base IS 'Where the volunteer usually starts from';
+
+CREATE INDEX IF NOT EXISTS idx_profiles_on_duty_volunteers
+  ON public.profiles(is_on_duty)
+  WHERE is_volunteer;
+
+-- Coordinators build teams from the volunteer list
+CREATE POLICY "Coordinators can view volunteer profiles"
+  ON public.profiles
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_volunteer
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator']::public.app_role[])
+  );
+
+-- Record when a volunteer went on duty
+CREATE OR REPLACE FUNCTION public.stamp_volunteer_on_duty()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_on_duty AND NOT COALESCE(OLD.is_on_duty, false) THEN
+    NEW.on_duty_since := now();
+  ELSIF NOT NEW.is_on_duty THEN
+    NEW.on_duty_since := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_profiles_on_duty
+  BEFORE UPDATE OF is_on_duty ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_volunteer_on_duty();
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(
+  _lat1 numeric,
+  _long1 numeric,
+  _lat2 numeric,
+  _long2 numeric
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (6371 * 2 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2))
+      * power(sin(radians(_long2 - _long1) / 2), 2)
+  )))::numeric;
+$$;
+
+-- On-duty volunteers for a case: those with the most matching skills first, then
+-- the nearest. Volunteers without a home location are listed after located ones.
+CREATE OR REPLACE FUNCTION public.suggest_volunteers(
+  _report_id uuid,
+  _skills text[],
+  _max_distance_km numeric DEFAULT 50,
+  _limit integer DEFAULT 5
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  phone text,
+  skills text[],
+  equipment text,
+  home_base text,
+  rescue_team_id uuid,
+  matched_skills text[],
+  distance_km numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lat numeric;
+  _long numeric;
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer', 'verifier']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only responders can look up volunteers';
+  END IF;
+
+  SELECT r.location_lat, r.location_long INTO _lat, _long
+  FROM public.reports r
+  WHERE r.id = _report_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM (
+    SELECT
+      p.id,
+      p.full_name,
+      p.phone,
+      p.skills,
+      p.equipment,
+      p.home_base,
+      p.rescue_team_id,
+      ARRAY(SELECT unnest(p.skills) INTERSECT SELECT unnest(_skills)) AS matched_skills,
+      CASE
+        WHEN _lat IS NULL OR _long IS NULL OR p.home_lat IS NULL OR p.home_long IS NULL THEN NULL
+        ELSE round(public.distance_km(_lat, _long, p.home_lat, p.home_long), 1)
+      END AS distance_km
+    FROM public.profiles p
+    WHERE p.is_volunteer
+      AND p.is_on_duty
+      AND (cardinality(_skills) = 0 OR p.skills && _skills)
+  ) v
+  WHERE v.distance_km IS NULL OR v.distance_km <= _max_distance_km
+  ORDER BY cardinality(v.matched_skills) DESC, v.distance_km ASC NULLS LAST
+  LIMIT _limit;
+END;
+$$;
@@ -0,0 +1,222 @@
+-- Field updates: a rescuer at the house scans the case's QR code and records a status
+-- change, how many people were brought out, a photo and a note. Each one is a single
+-- report_events row carrying the device's GPS position.
+
+ALTER TABLE public.report_events
+  DROP CONSTRAINT IF EXISTS report_events_event_type_check;
+
+ALTER TABLE public.report_events
+  ADD CONSTRAINT report_events_event_type_check
+  CHECK (event_type IN ('created', 'updated', 'field_update'));
+
+ALTER TABLE public.report_events
+  ADD COLUMN IF NOT EXISTS note text,
+  ADD COLUMN IF NOT EXISTS people_rescued integer CHECK (people_rescued >= 0),
+  ADD COLUMN IF NOT EXISTS photo_path text,
+  ADD COLUMN IF NOT EXISTS device_lat double precision,
+  ADD COLUMN IF NOT EXISTS device_long double precision;
+
+COMMENT ON COLUMN public.report_events.photo_path IS 'Object path in the report-photos storage bucket';
+COMMENT ON COLUMN public.report_events.device_lat IS 'Where the responder was when recording a field update';
+
+-- Photos of houses and people are contact details too: responders only
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('report-photos', 'report-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Responders can upload report photos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'report-photos'
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer']::public.app_role[])
+  );
+
+CREATE POLICY "Responders can view report photos"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'report-photos'
+    AND public.can_view_contact_details()
+  );
+
+-- submit_field_update() passes its extras to the history trigger through a
+-- transaction-local setting, so the status change and the visit are one event
+CREATE OR REPLACE FUNCTION public.log_report_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _headers json;
+  _field_update jsonb;
+  _changes jsonb := '{}'::jsonb;
+  _old jsonb;
+  _new jsonb;
+  _key text;
+  _actor_user_id uuid := auth.uid();
+  _actor_api_key_id uuid;
+  _actor_line_user_id text;
+  _actor_name text;
+  -- Columns that change on every write or are too large to diff
+  _ignored text[] := ARRAY['updated_at', 'created_at', 'embedding'];
+BEGIN
+  -- Anyone can send headers through PostgREST; only the service role may
+  -- name the actor. A bad key id is ignored rather than failing the write.
+  IF auth.role() = 'service_role' THEN
+    _headers := NULLIF(current_setting('request.headers', true), '')::json;
+    SELECT id INTO _actor_api_key_id
+    FROM public.api_keys
+    WHERE id = CASE
+      WHEN _headers->>'x-actor-api-key-id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN (_headers->>'x-actor-api-key-id')::uuid
+    END;
+    _actor_line_user_id := NULLIF(_headers->>'x-actor-line-user-id', '');
+    _actor_name := NULLIF(_headers->>'x-actor-line-display-name', '');
+  END IF;
+  _field_update := NULLIF(current_setting('app.field_update', true), '')::jsonb;
+
+  _new := to_jsonb(NEW);
+
+  IF TG_OP = 'INSERT' THEN
+    _field_update := NULL;
+    _actor_line_user_id := COALESCE(_actor_line_user_id, NEW.line_user_id);
+    _actor_name := COALESCE(_actor_name, NEW.line_display_name);
+
+    FOR _key IN SELECT jsonb_object_keys(_new) LOOP
+      IF NOT _key = ANY(_ignored) AND _new->_key <> 'null'::jsonb THEN
+        _changes := _changes || jsonb_build_object(
+          _key, jsonb_build_object('old', NULL, 'new', _new->_key)
+        );
+      END IF;
+    END LOOP;
+  ELSE
+    _old := to_jsonb(OLD);
+
+    FOR _key IN SELECT jsonb_object_keys(_new) LOOP
+      IF NOT _key = ANY(_ignored) AND _new->_key IS DISTINCT FROM _old->_key THEN
+        _changes := _changes || jsonb_build_object(
+          _key, jsonb_build_object('old', _old->_key, 'new', _new->_key)
+        );
+      END IF;
+    END LOOP;
+
+    -- Timestamp-only touches (e.g. duplicate re-submissions) are not history,
+    -- but a field visit is even when nothing on the case changed
+    IF _changes = '{}'::jsonb AND _field_update IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF _actor_user_id IS NOT NULL THEN
+    SELECT COALESCE(full_name, email) INTO _actor_name
+    FROM public.profiles
+    WHERE id = _actor_user_id;
+  ELSIF _actor_api_key_id IS NOT NULL THEN
+    SELECT name INTO _actor_name
+    FROM public.api_keys
+    WHERE id = _actor_api_key_id;
+  END IF;
+
+  INSERT INTO public.report_events (
+    report_id,
+    event_type,
+    changes,
+    actor_user_id,
+    actor_api_key_id,
+    actor_line_user_id,
+    actor_name,
+    note,
+    people_rescued,
+    photo_path,
+    device_lat,
+    device_long
+  ) VALUES (
+    NEW.id,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'created'
+      WHEN _field_update IS NOT NULL THEN 'field_update'
+      ELSE 'updated'
+    END,
+    _changes,
+    _actor_user_id,
+    _actor_api_key_id,
+    _actor_line_user_id,
+    _actor_name,
+    _field_update->>'note',
+    (_field_update->>'people_rescued')::integer,
+    _field_update->>'photo_path',
+    (_field_update->>'lat')::double precision,
+    (_field_update->>'long')::double precision
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Record a visit from the field update page. Runs as the caller, so the usual
+-- update policy, status transition rules and status role check all apply.
+CREATE OR REPLACE FUNCTION public.submit_field_update(
+  _report_id uuid,
+  _status public.report_status DEFAULT NULL,
+  _people_rescued integer DEFAULT NULL,
+  _note text DEFAULT NULL,
+  _photo_path text DEFAULT NULL,
+  _lat double precision DEFAULT NULL,
+  _long double precision DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _note_text text := NULLIF(btrim(_note), '');
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only rescuers and coordinators can record field updates'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _people_rescued IS NOT NULL AND _people_rescued < 0 THEN
+    RAISE EXCEPTION 'People rescued cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config(
+    'app.field_update',
+    jsonb_build_object(
+      'note', _note_text,
+      'people_rescued', _people_rescued,
+      'photo_path', _photo_path,
+      'lat', _lat,
+      'long', _long
+    )::text,
+    true
+  );
+
+  -- The note doubles as the status reason when the status changes
+  UPDATE public.reports
+  SET
+    status = COALESCE(_status, status),
+    status_reason = CASE
+      WHEN _status IS NOT NULL AND _status IS DISTINCT FROM status
+        THEN COALESCE(_note_text, status_reason)
+      ELSE status_reason
+    END,
+    last_contact_at = now()
+  WHERE id = _report_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.field_update', '', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_field_update(
+  uuid, public.report_status, integer, text, text, double precision, double precision
+) TO authenticated;
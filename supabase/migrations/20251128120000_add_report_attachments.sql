@@ -0,0 +1,153 @@
+-- Photo attachments on reports. Images sent for OCR (web form or LINE bot) are kept as
+-- evidence instead of being thrown away, and responders can add more from the case page.
+-- Files live in the private report-photos bucket with metadata stripped by the
+-- store-attachment function; the GPS position found in the original is kept on the row
+-- so it can suggest coordinates for the case.
+CREATE TABLE IF NOT EXISTS public.report_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL while an OCR'd image waits for its report to be saved
+  report_id uuid REFERENCES public.reports(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  mime_type text NOT NULL,
+  size_bytes integer,
+  source text NOT NULL CHECK (source IN ('ocr', 'line', 'upload', 'field_update')),
+  gps_lat double precision,
+  gps_long double precision,
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_attachments_report_id
+  ON public.report_attachments(report_id, created_at);
+
+ALTER TABLE public.report_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Photos of houses and people are as sensitive as phone numbers
+CREATE POLICY "Responders can view report attachments"
+  ON public.report_attachments
+  FOR SELECT
+  USING (public.can_view_contact_details());
+
+-- store-attachment writes with the service role; field updates insert as the rescuer
+CREATE POLICY "Responders can add report attachments"
+  ON public.report_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer']::public.app_role[])
+  );
+
+COMMENT ON TABLE public.report_attachments IS 'Photos linked to reports; files are in the report-photos storage bucket';
+COMMENT ON COLUMN public.report_attachments.gps_lat IS 'GPS position from the original EXIF, removed from the stored file';
+
+-- Attach OCR'd images to the report saved from them. Anyone who can submit a report
+-- can call this, so it only claims uploads that are not on a report yet.
+CREATE OR REPLACE FUNCTION public.link_report_attachments(
+  _report_id uuid,
+  _attachment_ids uuid[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _linked integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.reports WHERE id = _report_id) THEN
+    RAISE EXCEPTION 'Report not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.report_attachments
+  SET report_id = _report_id
+  WHERE id = ANY(_attachment_ids)
+    AND report_id IS NULL;
+
+  GET DIAGNOSTICS _linked = ROW_COUNT;
+  RETURN _linked;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.link_report_attachments(uuid, uuid[]) TO anon, authenticated;
+
+-- Field update photos also go into the case gallery, positioned where the rescuer stood
+CREATE OR REPLACE FUNCTION public.submit_field_update(
+  _report_id uuid,
+  _status public.report_status DEFAULT NULL,
+  _people_rescued integer DEFAULT NULL,
+  _note text DEFAULT NULL,
+  _photo_path text DEFAULT NULL,
+  _lat double precision DEFAULT NULL,
+  _long double precision DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _note_text text := NULLIF(btrim(_note), '');
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'coordinator', 'rescuer']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only rescuers and coordinators can record field updates'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _people_rescued IS NOT NULL AND _people_rescued < 0 THEN
+    RAISE EXCEPTION 'People rescued cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config(
+    'app.field_update',
+    jsonb_build_object(
+      'note', _note_text,
+      'people_rescued', _people_rescued,
+      'photo_path', _photo_path,
+      'lat', _lat,
+      'long', _long
+    )::text,
+    true
+  );
+
+  -- The note doubles as the status reason when the status changes
+  UPDATE public.reports
+  SET
+    status = COALESCE(_status, status),
+    status_reason = CASE
+      WHEN _status IS NOT NULL AND _status IS DISTINCT FROM status
+        THEN COALESCE(_note_text, status_reason)
+      ELSE status_reason
+    END,
+    last_contact_at = now()
+  WHERE id = _report_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.field_update', '', true);
+
+  IF _photo_path IS NOT NULL THEN
+    INSERT INTO public.report_attachments (
+      report_id,
+      storage_path,
+      mime_type,
+      source,
+      gps_lat,
+      gps_long,
+      uploaded_by
+    ) VALUES (
+      _report_id,
+      _photo_path,
+      'image/jpeg',
+      'field_update',
+      _lat,
+      _long,
+      auth.uid()
+    );
+  END IF;
+END;
+$$;
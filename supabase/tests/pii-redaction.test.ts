@@ -0,0 +1,196 @@
+import type { PGlite } from '@electric-sql/pglite'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { createDatabase, selectValue, sqlView } from './sql'
+
+// What public viewers get through visible_reports instead of contact details.
+// Viewers have full access while test.full_access is on.
+const SCHEMA = `
+  CREATE FUNCTION public.can_view_contact_details() RETURNS boolean
+  LANGUAGE sql AS $$SELECT current_setting('test.full_access', true) = 'on'$$;
+
+  CREATE TABLE public.reports (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text,
+    lastname text,
+    reporter_name text,
+    address text,
+    phone text[] DEFAULT '{}',
+    number_of_adults integer DEFAULT 0,
+    number_of_children integer DEFAULT 0,
+    number_of_infants integer DEFAULT 0,
+    number_of_seniors integer DEFAULT 0,
+    number_of_patients integer DEFAULT 0,
+    health_condition text,
+    help_needed text,
+    help_categories text[] DEFAULT '{}',
+    additional_info text,
+    urgency_level integer DEFAULT 1,
+    status text DEFAULT 'pending',
+    status_reason text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    last_contact_at timestamptz,
+    raw_message text,
+    location_lat numeric,
+    location_long numeric,
+    map_link text,
+    line_user_id text,
+    line_display_name text,
+    assigned_team_id uuid,
+    assigned_at timestamptz,
+    assigned_by uuid,
+    duplicate_of uuid,
+    shelter_id uuid
+  );
+`
+
+let db: PGlite
+
+beforeAll(async () => {
+  db = await createDatabase(
+    [
+      'normalize_phone',
+      'mask_phone',
+      'mask_phones',
+      'truncate_lastname',
+      'truncate_full_name',
+      'snap_coordinate',
+      'redact_contact_details',
+      'mask_address',
+    ],
+    { schema: SCHEMA },
+  )
+  await db.exec(sqlView('visible_reports'))
+})
+
+afterAll(() => db.close())
+
+describe('mask_phones', () => {
+  it('keeps the prefix and last four digits of Thai numbers', async () => {
+    expect(
+      await selectValue(db, 'public.mask_phones($1)', [
+        ['081-234-5678', '+66 2 123 4567', '1669'],
+      ]),
+    ).toEqual(['08x-xxx-5678', '02x-xxx-4567'])
+  })
+
+  it('keeps only the last four digits of unknown formats', async () => {
+    expect(await selectValue(db, 'public.mask_phone($1)', ['12345678'])).toBe(
+      'xxx-xxx-5678',
+    )
+  })
+})
+
+describe('name truncation', () => {
+  it('shortens the surname to its first letter', async () => {
+    expect(
+      await selectValue(db, 'public.truncate_lastname($1)', [' ใจดี ']),
+    ).toBe('ใ.')
+    expect(await selectValue(db, 'public.truncate_lastname($1)', [''])).toBe('')
+  })
+
+  it('keeps the first name of a free-text name', async () => {
+    expect(
+      await selectValue(db, 'public.truncate_full_name($1)', ['สมชาย   ใจดี']),
+    ).toBe('สมชาย ใ.')
+    expect(
+      await selectValue(db, 'public.truncate_full_name($1)', ['สมชาย']),
+    ).toBe('สมชาย')
+  })
+})
+
+describe('snap_coordinate', () => {
+  it('moves a point to the centre of its ~500 m cell', async () => {
+    const lat = Number(
+      await selectValue(db, 'public.snap_coordinate($1)', [13.75634]),
+    )
+    expect(Math.abs(lat - 13.75634)).toBeLessThan(0.00225 + 1e-9)
+    expect(
+      Number(await selectValue(db, 'public.snap_coordinate($1)', [13.7541])),
+    ).toBe(lat)
+  })
+})
+
+describe('redact_contact_details', () => {
+  it('hides phone numbers and links in free text', async () => {
+    expect(
+      await selectValue(db, 'public.redact_contact_details($1)', [
+        'โทร 081-234-5678 หรือ +66 81 234 5678 พิกัด https://maps.app.goo.gl/abc บ้านเลขที่ 12/3',
+      ]),
+    ).toBe(
+      'โทร [เบอร์ถูกซ่อน] หรือ [เบอร์ถูกซ่อน] พิกัด [ลิงก์ถูกซ่อน] บ้านเลขที่ 12/3',
+    )
+  })
+})
+
+describe('mask_address', () => {
+  it('drops the house number but keeps the village and district', async () => {
+    for (const address of [
+      '12/3 หมู่ 4 ต.บ้านพรุ อ.หาดใหญ่ จ.สงขลา',
+      'บ้านเลขที่ 12 หมู่ 4 ต.บ้านพรุ อ.หาดใหญ่ จ.สงขลา',
+      '12 หมู่ 4 ต.บ้านพรุ อ.หาดใหญ่ จ.สงขลา',
+    ]) {
+      expect(await selectValue(db, 'public.mask_address($1)', [address])).toBe(
+        'หมู่ 4 ต.บ้านพรุ อ.หาดใหญ่ จ.สงขลา',
+      )
+    }
+  })
+
+  it('hides typed coordinates, phones and links', async () => {
+    expect(
+      await selectValue(db, 'public.mask_address($1)', [
+        'หมู่ 4 ต.บ้านพรุ พิกัด 7.00841, 100.47472 โทร 0812345678',
+      ]),
+    ).toBe('หมู่ 4 ต.บ้านพรุ พิกัด [พิกัดถูกซ่อน] โทร [เบอร์ถูกซ่อน]')
+  })
+})
+
+describe('visible_reports', () => {
+  const message =
+    'ช่วยด้วย คุณสมชาย ใจดี อยู่บ้านเลขที่ 12/3 หมู่ 4 ต.บ้านพรุ พิกัด 7.00841, 100.47472'
+
+  beforeAll(async () => {
+    await db.query(
+      `INSERT INTO public.reports
+         (name, lastname, address, phone, raw_message, additional_info,
+          location_lat, location_long, map_link)
+       VALUES ('สมชาย', 'ใจดี', '12/3 หมู่ 4 ต.บ้านพรุ', '{0812345678}', $1,
+               'บ้านสองชั้น ทางเข้าซอยวัด', 7.00841, 100.47472,
+               'https://maps.google.com/?q=7.00841,100.47472')`,
+      [message],
+    )
+  })
+
+  const visibleReport = async (fullAccess: boolean) => {
+    await db.exec(`SET test.full_access = '${fullAccess ? 'on' : 'off'}'`)
+    const { rows } = await db.query<Record<string, unknown>>(
+      'SELECT * FROM public.visible_reports',
+    )
+    return rows[0]
+  }
+
+  it('leaves nothing in public rows that locates or names the household', async () => {
+    const report = await visibleReport(false)
+
+    expect(report).toMatchObject({
+      lastname: 'ใ.',
+      address: 'หมู่ 4 ต.บ้านพรุ',
+      phone: ['08x-xxx-5678'],
+      raw_message: null,
+      additional_info: null,
+      map_link: null,
+    })
+    expect(JSON.stringify(report)).not.toMatch(/ใจดี|12\/3|7\.00841|100\.47472/)
+  })
+
+  it('shows responders everything', async () => {
+    expect(await visibleReport(true)).toMatchObject({
+      lastname: 'ใจดี',
+      address: '12/3 หมู่ 4 ต.บ้านพรุ',
+      phone: ['0812345678'],
+      raw_message: message,
+      additional_info: 'บ้านสองชั้น ทางเข้าซอยวัด',
+    })
+  })
+})
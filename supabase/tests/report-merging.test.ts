@@ -0,0 +1,187 @@
+import type { PGlite } from '@electric-sql/pglite'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+
+import { previewMergedReport } from '@/lib/reportUtils'
+import type { Report } from '@/types/report'
+
+import { createDatabase } from './sql'
+
+// merge_reports() run by an edge function (service role) against the columns
+// it reads and writes, with the status transition trigger in place
+const SCHEMA = `
+  CREATE SCHEMA auth;
+  CREATE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql AS 'SELECT NULL::uuid';
+  CREATE FUNCTION auth.role() RETURNS text LANGUAGE sql AS $$SELECT 'service_role'$$;
+
+  CREATE TABLE public.user_roles (user_id uuid, role public.app_role);
+
+  CREATE TABLE public.reports (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    status public.report_status NOT NULL DEFAULT 'pending',
+    status_reason text,
+    duplicate_of uuid REFERENCES public.reports(id),
+    raw_message text,
+    line_user_id text,
+    line_display_name text,
+    address text,
+    phone text[] DEFAULT '{}',
+    help_categories text[] DEFAULT '{}',
+    urgency_level integer DEFAULT 1,
+    number_of_adults integer DEFAULT 0,
+    number_of_children integer DEFAULT 0,
+    number_of_infants integer DEFAULT 0,
+    number_of_seniors integer DEFAULT 0,
+    number_of_patients integer DEFAULT 0,
+    location_lat numeric,
+    location_long numeric,
+    map_link text,
+    created_at timestamptz DEFAULT now()
+  );
+
+  CREATE TABLE public.report_sources (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    report_id uuid NOT NULL REFERENCES public.reports(id),
+    source_report_id uuid REFERENCES public.reports(id),
+    raw_message text NOT NULL,
+    line_user_id text,
+    line_display_name text,
+    merged_by uuid,
+    created_at timestamptz DEFAULT now()
+  );
+`
+
+let db: PGlite
+
+beforeAll(async () => {
+  db = await createDatabase(
+    [
+      'is_terminal_report_status',
+      'is_valid_report_status_transition',
+      'enforce_report_status_transition',
+      'has_any_role',
+      'merge_text_arrays',
+      'apply_report_merge',
+      'merge_reports',
+    ],
+    { types: ['report_status', 'app_role'], schema: SCHEMA },
+  )
+  await db.exec(`
+    CREATE TRIGGER enforce_reports_status_transition
+      BEFORE UPDATE OF status ON public.reports
+      FOR EACH ROW
+      EXECUTE FUNCTION public.enforce_report_status_transition();
+  `)
+})
+
+beforeEach(async () => {
+  await db.exec('DELETE FROM public.report_sources; DELETE FROM public.reports')
+})
+
+afterAll(() => db.close())
+
+const insertReport = async (fields: Record<string, unknown>) => {
+  const columns = Object.keys(fields)
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO public.reports (${columns.join(', ')})
+     VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})
+     RETURNING id`,
+    Object.values(fields),
+  )
+  return rows[0].id
+}
+
+const getReport = async (id: string) => {
+  const { rows } = await db.query<Record<string, unknown>>(
+    'SELECT * FROM public.reports WHERE id = $1',
+    [id],
+  )
+  return rows[0]
+}
+
+// Row as the app receives it over PostgREST, where numerics are numbers
+const toReport = (row: Record<string, unknown>): Report =>
+  ({
+    ...row,
+    location_lat: row.location_lat == null ? null : Number(row.location_lat),
+    location_long: row.location_long == null ? null : Number(row.location_long),
+  }) as Report
+
+const merge = (canonicalId: string, duplicateIds: string[]) =>
+  db.query('SELECT public.merge_reports($1, $2)', [canonicalId, duplicateIds])
+
+describe('merge_reports', () => {
+  it('merges cases a team has already picked up', async () => {
+    for (const status of ['processed', 'en_route', 'rescued']) {
+      const canonical = await insertReport({ raw_message: 'ช่วยด้วย' })
+      const duplicate = await insertReport({
+        raw_message: 'ช่วยด้วย (ส่งซ้ำ)',
+        status,
+        phone: ['081-234-5678'],
+      })
+
+      await merge(canonical, [duplicate])
+
+      expect(await getReport(duplicate), status).toMatchObject({
+        status: 'duplicate',
+        duplicate_of: canonical,
+        status_reason: expect.stringContaining('รวมเข้ากับเคส'),
+      })
+      expect((await getReport(canonical)).phone).toEqual(['081-234-5678'])
+    }
+  })
+
+  it('merges closed cases, replacing their reason', async () => {
+    const canonical = await insertReport({ raw_message: 'ช่วยด้วย' })
+    const duplicate = await insertReport({
+      raw_message: 'ช่วยด้วย',
+      status: 'completed',
+      status_reason: 'สถานะเดิมก่อนย้ายระบบ',
+    })
+
+    await merge(canonical, [duplicate])
+
+    expect((await getReport(duplicate)).status).toBe('duplicate')
+  })
+
+  it('still enforces the other transitions', async () => {
+    const id = await insertReport({ status: 'rescued' })
+    await expect(
+      db.query(`UPDATE public.reports SET status = 'pending' WHERE id = $1`, [
+        id,
+      ]),
+    ).rejects.toThrow('ไม่สามารถเปลี่ยนสถานะจาก rescued เป็น pending ได้')
+  })
+
+  it('produces what previewMergedReport() shows before merging', async () => {
+    const canonical = await insertReport({
+      raw_message: 'ช่วยด้วย',
+      phone: ['081-111-1111'],
+      help_categories: ['water'],
+      urgency_level: 2,
+      number_of_adults: 3,
+      address: '  ',
+    })
+    const duplicate = await insertReport({
+      raw_message: 'ข้อความอื่น',
+      address: 'หมู่ 3 ',
+      phone: ['082-222-2222', '081-111-1111'],
+      help_categories: ['food', 'water'],
+      urgency_level: 4,
+      number_of_adults: 2,
+      number_of_children: 1,
+      number_of_infants: 1,
+      number_of_seniors: 1,
+      number_of_patients: 1,
+      location_lat: 7.5,
+      location_long: 100.25,
+      map_link: 'https://maps.google.com/?q=7.5,100.25',
+    })
+    const preview = previewMergedReport(toReport(await getReport(canonical)), [
+      toReport(await getReport(duplicate)),
+    ])
+
+    await merge(canonical, [duplicate])
+
+    expect(toReport(await getReport(canonical))).toEqual(preview)
+  })
+})
@@ -0,0 +1,54 @@
+import type { PGlite } from '@electric-sql/pglite'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { STATUS_OPTIONS, TERMINAL_STATUSES } from '@/constants/helpCategories'
+import { getAllowedNextStatuses } from '@/lib/reportUtils'
+
+import { createDatabase } from './sql'
+
+// The frontend's status rules against the ones the database trigger enforces
+let db: PGlite
+
+beforeAll(async () => {
+  db = await createDatabase(
+    ['is_terminal_report_status', 'is_valid_report_status_transition'],
+    { types: ['report_status'] },
+  )
+})
+
+afterAll(() => db.close())
+
+describe('report statuses', () => {
+  it('are the values of the report_status enum', async () => {
+    const { rows } = await db.query<{ status: string }>(
+      'SELECT unnest(enum_range(NULL::public.report_status))::text AS status',
+    )
+    expect(rows.map((row) => row.status)).toEqual(
+      STATUS_OPTIONS.map((option) => option.value),
+    )
+  })
+
+  it('close a case exactly where is_terminal_report_status() does', async () => {
+    const { rows } = await db.query<{ status: string }>(
+      `SELECT status::text
+       FROM unnest(enum_range(NULL::public.report_status)) AS status
+       WHERE public.is_terminal_report_status(status)`,
+    )
+    expect(rows.map((row) => row.status)).toEqual(TERMINAL_STATUSES)
+  })
+
+  it('move exactly where is_valid_report_status_transition() allows', async () => {
+    const { rows } = await db.query<{ from: string; to: string }>(
+      `SELECT f::text AS from, t::text AS to
+       FROM unnest(enum_range(NULL::public.report_status)) AS f,
+            unnest(enum_range(NULL::public.report_status)) AS t
+       WHERE f <> t AND public.is_valid_report_status_transition(f, t)`,
+    )
+    const allowedInSql = rows.map(({ from, to }) => `${from} -> ${to}`).sort()
+    const allowedInApp = STATUS_OPTIONS.flatMap(({ value: from }) =>
+      getAllowedNextStatuses(from).map((to) => `${from} -> ${to}`),
+    ).sort()
+
+    expect(allowedInApp).toEqual(allowedInSql)
+  })
+})
@@ -0,0 +1,90 @@
+import { PGlite } from '@electric-sql/pglite'
+import { readdirSync, readFileSync } from 'node:fs'
+
+// Runs SQL functions from the migrations in an in-process Postgres (PGlite),
+// so their rules can be tested without a Supabase project. Only the named
+// types and functions are loaded; tests declare the tables they need.
+
+const MIGRATIONS_DIR = new URL('../migrations/', import.meta.url)
+
+const migrations = readdirSync(MIGRATIONS_DIR)
+  .filter((file) => file.endsWith('.sql'))
+  .sort()
+  .map((file) => readFileSync(new URL(file, MIGRATIONS_DIR), 'utf8'))
+
+// The latest definition of public.<name>, as the database ends up with it
+export const sqlFunction = (name: string): string => {
+  const start = `CREATE OR REPLACE FUNCTION public.${name}(`
+  for (const sql of [...migrations].reverse()) {
+    const from = sql.lastIndexOf(start)
+    if (from === -1) continue
+    const to = sql.indexOf('\n$$;', from)
+    return sql.slice(from, to + '\n$$;'.length)
+  }
+  throw new Error(`No migration defines public.${name}`)
+}
+
+// The latest definition of the view public.<name>
+export const sqlView = (name: string): string => {
+  const start = `CREATE OR REPLACE VIEW public.${name}\n`
+  for (const sql of [...migrations].reverse()) {
+    const from = sql.lastIndexOf(start)
+    if (from === -1) continue
+    return sql.slice(from, sql.indexOf(';', from) + 1)
+  }
+  throw new Error(`No migration defines public.${name}`)
+}
+
+// public.<name> enum as created, with the values later migrations added
+export const sqlType = (name: string): string => {
+  const statements = migrations.flatMap((sql) =>
+    sql
+      .split(/;\s*\n/)
+      .map((statement) => statement.replace(/^(\s*--.*\n)*\s*/, ''))
+      .filter(
+        (statement) =>
+          statement.startsWith(`CREATE TYPE public.${name} AS ENUM`) ||
+          statement.startsWith(`ALTER TYPE public.${name} ADD VALUE`),
+      ),
+  )
+  if (statements.length === 0) {
+    throw new Error(`No migration defines public.${name}`)
+  }
+  return statements.map((statement) => `${statement};\n`).join('')
+}
+
+interface DatabaseOptions {
+  // Enum types the functions use
+  types?: string[]
+  // Tables and stand-ins (e.g. the auth schema) the functions expect
+  schema?: string
+}
+
+// A database with the named functions, in dependency order
+export const createDatabase = async (
+  functionNames: string[],
+  { types = [], schema = '' }: DatabaseOptions = {},
+) => {
+  const db = new PGlite()
+  for (const name of types) {
+    await db.exec(sqlType(name))
+  }
+  await db.exec(schema)
+  for (const name of functionNames) {
+    await db.exec(sqlFunction(name))
+  }
+  return db
+}
+
+// Value of a single-column query
+export const selectValue = async <T>(
+  db: PGlite,
+  query: string,
+  params: unknown[] = [],
+): Promise<T> => {
+  const { rows } = await db.query<{ value: T }>(
+    `SELECT ${query} AS value`,
+    params,
+  )
+  return rows[0].value
+}
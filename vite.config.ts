@@ -16,6 +16,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Import-free modules shared with the edge functions
+      '@shared': path.resolve(__dirname, './supabase/functions/_shared'),
     },
   },
 }))